@@ -0,0 +1,291 @@
+/**
+ * Backend Endpoints: Authentication
+ *
+ * GET  /api/auth/session    { configured, authenticated, expiresAt, loginKdf }
+ * POST /api/auth/setup      { secret, loginKdf, setupToken } Set the first password (only while none exists)
+ * POST /api/auth/login      { secret } → HTTP-only session cookie
+ * POST /api/auth/logout     End the current session
+ * POST /api/auth/password   { currentSecret, newSecret, loginKdf } → ends other sessions
+ *
+ * The client never sends the user's password: `secret` is derived from it
+ * with PBKDF2 (see deriveLoginSecret in snapshot-crypto.ts), so the server
+ * can't recover the key that encrypts the data. The PBKDF2 salt is random per
+ * installation and handed out by /auth/session as `loginKdf`; null there
+ * means a login from before per-installation salts, which the client
+ * upgrades through /auth/password after logging in.
+ *
+ * Setup needs a one-time token so nobody who merely reaches a fresh (or just
+ * upgraded) server can claim it: AUTH_SETUP_TOKEN if set, otherwise a random
+ * token printed to the server console while no password exists.
+ *
+ * Every other /api route goes through requireAuth. Failed logins, setup
+ * attempts and password changes with a wrong current password share one rate
+ * limit per client address.
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto';
+import express from 'express';
+import {
+  MIN_SECRET_LENGTH,
+  createSession,
+  getSession,
+  isAuthConfigured,
+  isValidLoginKdf,
+  readCredentials,
+  revokeOtherSessions,
+  revokeSession,
+  setCredentials,
+  verifyCredentials
+} from './auth-store.js';
+
+export const SESSION_COOKIE = 'mpt_session';
+
+const LOGIN_WINDOW = 15 * 60 * 1000;
+const MAX_LOGIN_FAILURES = 5;
+
+function sendError(res, status, error, extra = {}) {
+  return res.status(status).json({ success: false, error, ...extra });
+}
+
+function readCookie(req, name) {
+  const header = req.get('Cookie');
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+function setSessionCookie(req, res, { token, expiresAt }) {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: req.secure || process.env.API_SECURE_COOKIES === 'true',
+    path: '/',
+    expires: new Date(expiresAt)
+  });
+}
+
+function clearSessionCookie(res) {
+  res.clearCookie(SESSION_COOKIE, { httpOnly: true, sameSite: 'strict', path: '/' });
+}
+
+/**
+ * Failed-attempt counter per key (client address). Only failures count, and a
+ * successful login clears the key.
+ */
+export function createLoginLimiter({ windowMs = LOGIN_WINDOW, maxFailures = MAX_LOGIN_FAILURES } = {}) {
+  const failures = new Map();
+
+  function current(key, now) {
+    const entry = failures.get(key);
+    if (!entry || now - entry.since >= windowMs) {
+      failures.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  return {
+    /** Milliseconds until `key` may try again, or 0 */
+    retryAfter(key, now = Date.now()) {
+      const entry = current(key, now);
+      return entry && entry.count >= maxFailures ? entry.since + windowMs - now : 0;
+    },
+    fail(key, now = Date.now()) {
+      const entry = current(key, now) ?? { count: 0, since: now };
+      entry.count += 1;
+      failures.set(key, entry);
+    },
+    reset(key) {
+      failures.delete(key);
+    }
+  };
+}
+
+/**
+ * Session attached to the request, or null
+ */
+export async function readRequestSession(req) {
+  const token = readCookie(req, SESSION_COOKIE);
+  const session = await getSession(token);
+  return session ? { ...session, token } : null;
+}
+
+/**
+ * Middleware rejecting requests without a valid session with 401.
+ * `setupRequired` tells the client no password has been configured yet.
+ */
+export async function requireAuth(req, res, next) {
+  try {
+    const session = await readRequestSession(req);
+    if (session) {
+      req.session = session;
+      return next();
+    }
+    const configured = await isAuthConfigured();
+    return sendError(res, 401, configured ? 'Login required' : 'No password configured', {
+      setupRequired: !configured
+    });
+  } catch (error) {
+    console.error('[API] Auth check failed:', error);
+    return sendError(res, 500, error.message);
+  }
+}
+
+function validSecret(secret) {
+  return typeof secret === 'string' && secret.length >= MIN_SECRET_LENGTH;
+}
+
+function tokenMatches(expected, actual) {
+  if (typeof actual !== 'string') return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Print the setup token when the server starts without a password
+ */
+async function announceSetupToken(setupToken) {
+  try {
+    if (await isAuthConfigured()) return;
+    console.log(
+      process.env.AUTH_SETUP_TOKEN
+        ? '[API] No password configured yet; set it up with AUTH_SETUP_TOKEN'
+        : `[API] No password configured yet; setup token: ${setupToken}`
+    );
+  } catch (error) {
+    console.warn('[API] Could not check the auth configuration:', error);
+  }
+}
+
+/**
+ * Router for login and session management; mount under /api before requireAuth
+ */
+export function createAuthRouter({
+  limiter = createLoginLimiter(),
+  setupToken = process.env.AUTH_SETUP_TOKEN || randomBytes(12).toString('base64url')
+} = {}) {
+  const router = express.Router();
+  void announceSetupToken(setupToken);
+
+  /** 429 (and true) while `key` is locked out after failed attempts */
+  function rejectLimited(key, res) {
+    const wait = limiter.retryAfter(key);
+    if (wait <= 0) return false;
+    res.set('Retry-After', String(Math.ceil(wait / 1000)));
+    sendError(res, 429, 'Too many failed attempts, try again later');
+    return true;
+  }
+
+  router.get('/auth/session', async (req, res) => {
+    try {
+      const [credentials, session] = await Promise.all([readCredentials(), readRequestSession(req)]);
+      res.json({
+        success: true,
+        configured: credentials !== null,
+        authenticated: !!session,
+        expiresAt: session?.expiresAt ?? null,
+        loginKdf: credentials?.login ?? null
+      });
+    } catch (error) {
+      console.error('[API] Session check error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  router.post('/auth/setup', async (req, res) => {
+    try {
+      const key = req.ip;
+      if (rejectLimited(key, res)) return;
+
+      const { secret, loginKdf, setupToken: token } = req.body ?? {};
+      if (!tokenMatches(setupToken, token)) {
+        limiter.fail(key);
+        console.warn(`[API] Setup attempt with a wrong token from ${key}`);
+        return sendError(res, 403, 'Invalid setup token');
+      }
+      if (!validSecret(secret)) {
+        return sendError(res, 400, 'Invalid secret');
+      }
+      if (!isValidLoginKdf(loginKdf)) {
+        return sendError(res, 400, 'Invalid login key-derivation parameters');
+      }
+      if (await isAuthConfigured()) {
+        return sendError(res, 409, 'A password is already configured');
+      }
+      await setCredentials(secret, loginKdf);
+      setSessionCookie(req, res, await createSession());
+      console.log('[API] Password configured');
+      res.status(201).json({ success: true });
+    } catch (error) {
+      console.error('[API] Setup error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  router.post('/auth/login', async (req, res) => {
+    try {
+      const key = req.ip;
+      if (rejectLimited(key, res)) return;
+
+      const { secret } = req.body ?? {};
+      if (!(await verifyCredentials(secret))) {
+        limiter.fail(key);
+        console.warn(`[API] Failed login from ${key}`);
+        return sendError(res, 401, 'Invalid password');
+      }
+
+      limiter.reset(key);
+      const session = await createSession();
+      setSessionCookie(req, res, session);
+      res.json({ success: true, expiresAt: session.expiresAt });
+    } catch (error) {
+      console.error('[API] Login error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  router.post('/auth/logout', async (req, res) => {
+    try {
+      await revokeSession(readCookie(req, SESSION_COOKIE));
+      clearSessionCookie(res);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('[API] Logout error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  router.post('/auth/password', requireAuth, async (req, res) => {
+    try {
+      const key = req.ip;
+      if (rejectLimited(key, res)) return;
+
+      const { currentSecret, newSecret, loginKdf } = req.body ?? {};
+      if (!validSecret(newSecret)) {
+        return sendError(res, 400, 'Invalid secret');
+      }
+      if (!isValidLoginKdf(loginKdf)) {
+        return sendError(res, 400, 'Invalid login key-derivation parameters');
+      }
+      if (!(await verifyCredentials(currentSecret))) {
+        limiter.fail(key);
+        console.warn(`[API] Password change with a wrong current password from ${key}`);
+        return sendError(res, 403, 'Current password is incorrect');
+      }
+      limiter.reset(key);
+      await setCredentials(newSecret, loginKdf);
+      await revokeOtherSessions(req.session.token);
+      console.log('[API] Password changed; other sessions ended');
+      res.json({ success: true });
+    } catch (error) {
+      console.error('[API] Password change error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,169 @@
+/**
+ * Auth Store
+ *
+ * Server-side credentials and login sessions, kept in data/ at the project
+ * root (outside public/, so Vite never serves them).
+ *
+ * - credentials.json: scrypt hash of the login secret, never the secret itself,
+ *   plus the PBKDF2 salt and iterations the client derives that secret with
+ * - sessions.json: SHA-256 of each session token with its expiry; the token
+ *   only lives in the client's HTTP-only cookie
+ *
+ * Sessions are re-read from disk on every check so the matrix generator
+ * (api/generate-matrix.js, a separate process) accepts the same cookie.
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt);
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const AUTH_DIR = process.env.AUTH_DIR || path.join(__dirname, '../data');
+const CREDENTIALS_FILE = path.join(AUTH_DIR, 'credentials.json');
+const SESSIONS_FILE = path.join(AUTH_DIR, 'sessions.json');
+
+export const SESSION_TTL = 30 * 24 * 60 * 60 * 1000;
+export const MIN_SECRET_LENGTH = 8;
+/** Lowest client PBKDF2 cost accepted for the login secret (the data key's cost) */
+export const MIN_LOGIN_ITERATIONS = 600_000;
+
+/** ~100 ms per hash on a laptop; stored with the hash so it can be raised later */
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1, keylen: 64 };
+
+async function readJson(file, fallback) {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+async function writeJson(file, value) {
+  await fs.mkdir(AUTH_DIR, { recursive: true });
+  const tempFile = `${file}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(value, null, 2), { encoding: 'utf8', mode: 0o600 });
+  await fs.rename(tempFile, file);
+}
+
+async function deriveHash(secret, salt, params) {
+  const { N, r, p, keylen } = params;
+  const hash = await scryptAsync(secret, salt, keylen, { N, r, p, maxmem: 128 * N * r * 2 });
+  return hash.toString('base64');
+}
+
+export async function readCredentials() {
+  return readJson(CREDENTIALS_FILE, null);
+}
+
+export async function isAuthConfigured() {
+  return (await readCredentials()) !== null;
+}
+
+/**
+ * `{ salt, iterations }` with a 16-byte base64 salt and at least
+ * MIN_LOGIN_ITERATIONS
+ */
+export function isValidLoginKdf(kdf) {
+  return (
+    typeof kdf?.salt === 'string' &&
+    /^[A-Za-z0-9+/]{22}==$/.test(kdf.salt) &&
+    Number.isInteger(kdf.iterations) &&
+    kdf.iterations >= MIN_LOGIN_ITERATIONS &&
+    kdf.iterations <= 10_000_000
+  );
+}
+
+/**
+ * Hash and store `secret` as the only valid login, with the `loginKdf` the
+ * client derived it with
+ */
+export async function setCredentials(secret, loginKdf) {
+  const salt = randomBytes(16).toString('base64');
+  const hash = await deriveHash(secret, salt, SCRYPT_PARAMS);
+  await writeJson(CREDENTIALS_FILE, {
+    kdf: 'scrypt',
+    params: SCRYPT_PARAMS,
+    salt,
+    hash,
+    login: { salt: loginKdf.salt, iterations: loginKdf.iterations },
+    updatedAt: new Date().toISOString()
+  });
+}
+
+export async function verifyCredentials(secret) {
+  const credentials = await readCredentials();
+  if (!credentials || typeof secret !== 'string') return false;
+
+  const expected = Buffer.from(credentials.hash, 'base64');
+  const actual = Buffer.from(await deriveHash(secret, credentials.salt, credentials.params), 'base64');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function hashToken(token) {
+  return createHash('sha256').update(token).digest('base64');
+}
+
+async function readSessions(now = Date.now()) {
+  const sessions = await readJson(SESSIONS_FILE, {});
+  return Object.fromEntries(Object.entries(sessions).filter(([, session]) => session.expiresAt > now));
+}
+
+let sessionsQueue = Promise.resolve();
+
+/**
+ * Serialise read-modify-write cycles on sessions.json, so concurrent logins
+ * and logouts don't drop each other's changes
+ */
+function updateSessions(mutator) {
+  const run = sessionsQueue.then(async () => {
+    const { sessions, result } = await mutator(await readSessions());
+    await writeJson(SESSIONS_FILE, sessions);
+    return result;
+  });
+  sessionsQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Start a session; returns the token for the cookie and its expiry
+ */
+export async function createSession() {
+  const token = randomBytes(32).toString('base64url');
+  return updateSessions((sessions) => {
+    const now = Date.now();
+    const expiresAt = now + SESSION_TTL;
+    sessions[hashToken(token)] = { createdAt: now, expiresAt };
+    return { sessions, result: { token, expiresAt } };
+  });
+}
+
+export async function getSession(token) {
+  if (!token) return null;
+  const sessions = await readSessions();
+  return sessions[hashToken(token)] ?? null;
+}
+
+export async function revokeSession(token) {
+  if (!token) return;
+  await updateSessions((sessions) => {
+    delete sessions[hashToken(token)];
+    return { sessions };
+  });
+}
+
+/**
+ * End every session except `keepToken` (after a password change)
+ */
+export async function revokeOtherSessions(keepToken) {
+  const kept = keepToken ? hashToken(keepToken) : null;
+  await updateSessions((sessions) => ({
+    sessions: Object.fromEntries(Object.entries(sessions).filter(([key]) => key === kept))
+  }));
+}
@@ -0,0 +1,124 @@
+/**
+ * Backend Endpoints: Backups
+ *
+ * GET  /api/backups               List backups with record counts (newest first)
+ * GET  /api/backups/:id           Backup summary plus a diff against the current snapshot
+ * POST /api/backups/:id/restore   Replace the current snapshot with the backup
+ *
+ * Restoring first backs up the current snapshot, so a restore can itself be undone.
+ * A backup encrypted with another key than the current data (taken before a
+ * password change, or before encryption was turned on or off) is not restored:
+ * the current session could not decrypt it.
+ * Backups belong to the profile the router is mounted for (req.profileId).
+ */
+
+import express from 'express';
+import { getRevision, readSnapshot, updateSnapshot, nowISO } from './snapshot-store.js';
+import {
+  countRecords,
+  diffSnapshots,
+  isValidBackupId,
+  listBackups,
+  readBackup,
+  writeBackup
+} from './backup-store.js';
+
+function sendError(res, status, error) {
+  return res.status(status).json({ success: false, error });
+}
+
+/**
+ * Whether `backup` is encrypted with the same key (salt) as `current`, or
+ * both are plaintext
+ */
+function sameEncryptionKey(current, backup) {
+  return (current?.encryption?.salt ?? null) === (backup?.encryption?.salt ?? null);
+}
+
+async function listHandler(req, res) {
+  try {
+    const backups = await listBackups(req.profileId);
+    res.json({ success: true, data: backups, count: backups.length });
+  } catch (error) {
+    console.error('[API] List backups error:', error);
+    sendError(res, 500, error.message);
+  }
+}
+
+async function detailHandler(req, res) {
+  try {
+    if (!isValidBackupId(req.params.id)) {
+      return sendError(res, 400, `Invalid backup id: ${req.params.id}`);
+    }
+    const backup = await readBackup(req.profileId, req.params.id);
+    if (!backup) {
+      return sendError(res, 404, `Backup not found: ${req.params.id}`);
+    }
+    const current = await readSnapshot(req.profileId);
+    res.json({
+      success: true,
+      data: {
+        id: req.params.id,
+        lastUpdated: backup.lastUpdated ?? null,
+        counts: countRecords(backup),
+        currentCounts: countRecords(current),
+        sameKey: sameEncryptionKey(current, backup),
+        diff: diffSnapshots(current, backup)
+      }
+    });
+  } catch (error) {
+    console.error('[API] Backup detail error:', error);
+    sendError(res, 500, error.message);
+  }
+}
+
+async function restoreHandler(req, res) {
+  try {
+    if (!isValidBackupId(req.params.id)) {
+      return sendError(res, 400, `Invalid backup id: ${req.params.id}`);
+    }
+    const backup = await readBackup(req.profileId, req.params.id);
+    if (!backup) {
+      return sendError(res, 404, `Backup not found: ${req.params.id}`);
+    }
+
+    const restored = await updateSnapshot(req.profileId, async (current) => {
+      if (!sameEncryptionKey(current, backup)) {
+        return { result: { error: 'Backup is encrypted with a different key than the current data' } };
+      }
+      const safetyBackupId = await writeBackup(req.profileId, current);
+      const snapshot = { ...backup, lastUpdated: nowISO() };
+      return {
+        snapshot,
+        result: { snapshot: { ...snapshot, revision: getRevision(current) + 1 }, safetyBackupId }
+      };
+    });
+
+    if (restored.error) {
+      return sendError(res, 409, restored.error);
+    }
+
+    console.log(`[API] Restored backup ${req.params.id} (previous state saved as ${restored.safetyBackupId})`);
+    res.set('ETag', `"${restored.snapshot.revision}"`);
+    res.json({
+      success: true,
+      data: restored.snapshot,
+      revision: restored.snapshot.revision,
+      previousBackupId: restored.safetyBackupId
+    });
+  } catch (error) {
+    console.error('[API] Restore error:', error);
+    sendError(res, 500, error.message);
+  }
+}
+
+/**
+ * Router for backup management; mount under /api
+ */
+export function createBackupRouter() {
+  const router = express.Router();
+  router.get('/backups', listHandler);
+  router.get('/backups/:id', detailHandler);
+  router.post('/backups/:id/restore', restoreHandler);
+  return router;
+}
@@ -0,0 +1,227 @@
+/**
+ * Backup Store
+ *
+ * Timestamped copies of a profile's snapshot (`app-data-<stamp>.json` next to
+ * its app-data.json), written before every whole-snapshot save, import or
+ * restore, and at most hourly before per-entity writes.
+ *
+ * Retention: every backup from the last hour, one per hour for a day, one per
+ * day for a month and one per week after that.
+ *
+ * When the data is first encrypted, plaintext backups are deleted so no
+ * readable copy stays on disk.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { profileDir, upgradeSnapshot } from './snapshot-store.js';
+
+const BACKUP_PATTERN = /^app-data-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)\.json$/;
+const BACKUP_ID_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+export const COLLECTIONS = ['medications', 'doses', 'moodEntries', 'cognitiveTests', 'labLevels', 'physiologyRecords', 'doseSchedules'];
+
+export const RETENTION_POLICY = [
+  { maxAge: HOUR, bucket: null }, // keep everything
+  { maxAge: DAY, bucket: HOUR },
+  { maxAge: 30 * DAY, bucket: DAY },
+  { maxAge: Infinity, bucket: WEEK }
+];
+
+/**
+ * Backup ids are the file stamps: ISO time with ':' and '.' replaced by '-'
+ */
+export function isValidBackupId(id) {
+  return typeof id === 'string' && BACKUP_ID_PATTERN.test(id);
+}
+
+function backupIdFromDate(date) {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+function backupIdToTime(id) {
+  const [date, time] = id.split('T');
+  const [hh, mm, ss, ms] = time.replace('Z', '').split('-');
+  return Date.parse(`${date}T${hh}:${mm}:${ss}.${ms}Z`);
+}
+
+function backupPath(profileId, id) {
+  return path.join(profileDir(profileId), `app-data-${id}.json`);
+}
+
+export function countRecords(snapshot) {
+  return Object.fromEntries(
+    COLLECTIONS.map((key) => [key, Array.isArray(snapshot?.[key]) ? snapshot[key].length : 0])
+  );
+}
+
+/**
+ * Write a backup of `snapshot` and prune old ones. Returns the backup id.
+ */
+export async function writeBackup(profileId, snapshot) {
+  await fs.mkdir(profileDir(profileId), { recursive: true });
+  const id = backupIdFromDate(new Date());
+  await fs.writeFile(backupPath(profileId, id), JSON.stringify(snapshot, null, 2), 'utf8');
+  console.log(`[API] Backup saved: ${backupPath(profileId, id)}`);
+
+  try {
+    await pruneBackups(profileId);
+  } catch (error) {
+    console.warn('[API] Failed to prune backups:', error);
+  }
+  return id;
+}
+
+/**
+ * Back up `snapshot` unless the newest backup is younger than `maxAge`
+ */
+export async function writeBackupIfStale(profileId, snapshot, maxAge = HOUR) {
+  const [latest] = await listBackupIds(profileId);
+  if (latest && Date.now() - backupIdToTime(latest) < maxAge) {
+    return null;
+  }
+  return writeBackup(profileId, snapshot);
+}
+
+async function listBackupIds(profileId) {
+  let files;
+  try {
+    files = await fs.readdir(profileDir(profileId));
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+  return files
+    .map((file) => BACKUP_PATTERN.exec(file)?.[1])
+    .filter(Boolean)
+    .sort()
+    .reverse();
+}
+
+/**
+ * Ids (newest first) that the retention policy would delete
+ */
+export function selectExpiredBackups(ids, now = Date.now()) {
+  const keptBuckets = new Set();
+  const expired = [];
+
+  for (const id of [...ids].sort().reverse()) {
+    const time = backupIdToTime(id);
+    const age = now - time;
+    const tier = RETENTION_POLICY.findIndex((rule) => age < rule.maxAge);
+    const rule = RETENTION_POLICY[tier];
+    if (!rule.bucket) continue;
+
+    const bucketKey = `${tier}:${Math.floor(time / rule.bucket)}`;
+    if (keptBuckets.has(bucketKey)) {
+      expired.push(id);
+    } else {
+      keptBuckets.add(bucketKey);
+    }
+  }
+
+  return expired;
+}
+
+export async function pruneBackups(profileId, now = Date.now()) {
+  const expired = selectExpiredBackups(await listBackupIds(profileId), now);
+  await Promise.all(expired.map((id) => fs.unlink(backupPath(profileId, id)).catch(() => undefined)));
+  if (expired.length > 0) {
+    console.log(`[API] Pruned ${expired.length} expired backup(s)`);
+  }
+  return expired;
+}
+
+/**
+ * Delete every backup that is not client-encrypted. Returns the deleted ids.
+ */
+export async function purgePlaintextBackups(profileId) {
+  const purged = [];
+  for (const id of await listBackupIds(profileId)) {
+    try {
+      const content = JSON.parse(await fs.readFile(backupPath(profileId, id), 'utf8'));
+      if (content?.encryption) continue;
+    } catch (error) {
+      if (error.code === 'ENOENT') continue;
+      // Unreadable backups can't be checked, so they go too
+    }
+    await fs.unlink(backupPath(profileId, id)).catch(() => undefined);
+    purged.push(id);
+  }
+  if (purged.length > 0) {
+    console.log(`[API] Deleted ${purged.length} plaintext backup(s) after enabling encryption`);
+  }
+  return purged;
+}
+
+export async function readBackup(profileId, id) {
+  if (!isValidBackupId(id)) return null;
+  try {
+    return upgradeSnapshot(JSON.parse(await fs.readFile(backupPath(profileId, id), 'utf8')), `backup ${id}`);
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export async function listBackups(profileId) {
+  const ids = await listBackupIds(profileId);
+  const summaries = await Promise.all(
+    ids.map(async (id) => {
+      try {
+        const [content, stats] = await Promise.all([readBackup(profileId, id), fs.stat(backupPath(profileId, id))]);
+        return {
+          id,
+          createdAt: new Date(backupIdToTime(id)).toISOString(),
+          size: stats.size,
+          lastUpdated: content?.lastUpdated ?? null,
+          counts: countRecords(content)
+        };
+      } catch (error) {
+        console.warn(`[API] Unreadable backup ${id}:`, error.message);
+        return null;
+      }
+    })
+  );
+  return summaries.filter(Boolean);
+}
+
+/**
+ * Encrypted envelopes get a fresh IV on every save, so compare their versions
+ */
+function recordChanged(a, b) {
+  if (a.enc && b.enc) {
+    return (a.updatedAt ?? a.createdAt) !== (b.updatedAt ?? b.createdAt);
+  }
+  return JSON.stringify(a) !== JSON.stringify(b);
+}
+
+/**
+ * What replacing `current` with `target` would change, per collection
+ */
+export function diffSnapshots(current, target) {
+  const result = {};
+  for (const key of COLLECTIONS) {
+    const currentById = new Map((current?.[key] ?? []).map((record) => [record.id, record]));
+    const targetById = new Map((target?.[key] ?? []).map((record) => [record.id, record]));
+
+    const added = [];
+    const changed = [];
+    for (const [id, record] of targetById) {
+      const existing = currentById.get(id);
+      if (!existing) {
+        added.push(id);
+      } else if (recordChanged(existing, record)) {
+        changed.push(id);
+      }
+    }
+    const removed = [...currentById.keys()].filter((id) => !targetById.has(id));
+
+    result[key] = { added, removed, changed };
+  }
+  return result;
+}
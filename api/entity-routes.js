@@ -0,0 +1,295 @@
+/**
+ * Backend Endpoints: Entity CRUD
+ *
+ * GET    /api/:resource           List records (?from=&to= on timestamp, ?medicationId= for doses, lab levels and schedules)
+ * GET    /api/:resource/:id       Fetch one record
+ * POST   /api/:resource           Create a record (body = full record, id required)
+ * PATCH  /api/:resource/:id       Merge partial updates into a record
+ * DELETE /api/:resource/:id       Remove a record (medications cascade to their doses, lab levels and schedules)
+ *
+ * :resource is one of medications, doses, mood-entries, cognitive-tests, lab-levels,
+ * physiology-records, dose-schedules.
+ * Unlike POST /api/app-data, these routes touch a single record and only
+ * back up the snapshot when the newest backup is more than an hour old.
+ *
+ * Every record carries an `updatedAt` version. PATCH and DELETE honour an
+ * If-Match header with the version the client last saw and answer 409 with
+ * the stored record when another device changed it in the meantime.
+ *
+ * Once the snapshot carries `encryption`, records are client-encrypted
+ * envelopes: writes must be envelopes too, and PATCH replaces the envelope
+ * instead of merging fields into it.
+ */
+
+import express from 'express';
+import { getRevision, nowISO, parseIfMatch, readSnapshot, updateSnapshot } from './snapshot-store.js';
+import { sendValidationError, validateEntity } from './validation.js';
+import { isEncryptedRecord } from './entity-schemas.js';
+import { writeBackupIfStale } from './backup-store.js';
+
+/**
+ * URL segment → snapshot collection key
+ */
+export const ENTITY_RESOURCES = {
+  medications: 'medications',
+  doses: 'doses',
+  'mood-entries': 'moodEntries',
+  'cognitive-tests': 'cognitiveTests',
+  'lab-levels': 'labLevels',
+  'physiology-records': 'physiologyRecords',
+  'dose-schedules': 'doseSchedules'
+};
+
+const TIMESTAMPED_COLLECTIONS = new Set(['doses', 'moodEntries', 'cognitiveTests', 'labLevels', 'physiologyRecords']);
+const MEDICATION_SCOPED_COLLECTIONS = new Set(['doses', 'labLevels', 'doseSchedules']);
+
+export function parseTimeParam(value) {
+  if (value === undefined || value === '') return undefined;
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) return numeric;
+  const parsed = Date.parse(String(value));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+async function backupBeforeWrite(profileId, snapshot) {
+  try {
+    await writeBackupIfStale(profileId, snapshot);
+  } catch (error) {
+    console.warn('[API] Failed to write backup snapshot:', error);
+  }
+}
+
+/**
+ * Error message when `record` is plaintext in an encrypted snapshot or the
+ * other way round
+ */
+function encryptionMismatch(snapshot, record) {
+  if (Boolean(snapshot.encryption) === isEncryptedRecord(record)) return null;
+  return snapshot.encryption
+    ? 'Data is encrypted; records must be encrypted on the client'
+    : 'Data is not encrypted; encrypted records are not accepted';
+}
+
+function sendError(res, status, error) {
+  return res.status(status).json({ success: false, error });
+}
+
+function recordVersion(record) {
+  return record.updatedAt ?? record.createdAt ?? 0;
+}
+
+function sendConflict(res, record) {
+  res.set('ETag', `"${recordVersion(record)}"`);
+  return res.status(409).json({
+    success: false,
+    error: `Record was modified by another device: ${record.id}`,
+    data: record
+  });
+}
+
+function bindCollection(handler, segment, collection) {
+  return async (req, res) => {
+    try {
+      await handler(req, res, collection);
+    } catch (error) {
+      console.error(`[API] ${req.method} /${segment} error:`, error);
+      sendError(res, 500, error.message);
+    }
+  };
+}
+
+async function listHandler(req, res, collection) {
+  const from = parseTimeParam(req.query.from);
+  const to = parseTimeParam(req.query.to);
+  if (from === null || to === null) {
+    return sendError(res, 400, 'from/to must be epoch milliseconds or ISO dates');
+  }
+
+  const snapshot = await readSnapshot(req.profileId);
+  let records = snapshot[collection] ?? [];
+
+  if (TIMESTAMPED_COLLECTIONS.has(collection)) {
+    if (from !== undefined) records = records.filter((record) => record.timestamp >= from);
+    if (to !== undefined) records = records.filter((record) => record.timestamp <= to);
+  }
+  if (MEDICATION_SCOPED_COLLECTIONS.has(collection) && typeof req.query.medicationId === 'string') {
+    records = records.filter((record) => record.medicationId === req.query.medicationId);
+  }
+
+  res.json({
+    success: true,
+    data: records,
+    count: records.length,
+    lastUpdated: snapshot.lastUpdated,
+    revision: getRevision(snapshot)
+  });
+}
+
+async function getHandler(req, res, collection) {
+  const snapshot = await readSnapshot(req.profileId);
+  const record = (snapshot[collection] ?? []).find((item) => item.id === req.params.id);
+  if (!record) {
+    return sendError(res, 404, `Record not found: ${req.params.id}`);
+  }
+  res.set('ETag', `"${recordVersion(record)}"`);
+  res.json({ success: true, data: record, lastUpdated: snapshot.lastUpdated, revision: getRevision(snapshot) });
+}
+
+async function createHandler(req, res, collection) {
+  const record = req.body && typeof req.body === 'object'
+    ? { ...req.body, updatedAt: req.body.updatedAt ?? Date.now() }
+    : req.body;
+  const validation = validateEntity(collection, record);
+  if (!validation.valid) {
+    return sendValidationError(res, validation);
+  }
+
+  const outcome = await updateSnapshot(req.profileId, async (snapshot) => {
+    const records = snapshot[collection] ?? [];
+    if (records.some((item) => item.id === record.id)) {
+      return { result: { status: 409, error: `Record already exists: ${record.id}` } };
+    }
+    const mismatch = encryptionMismatch(snapshot, record);
+    if (mismatch) {
+      return { result: { status: 400, error: mismatch } };
+    }
+    await backupBeforeWrite(req.profileId, snapshot);
+    const lastUpdated = nowISO();
+    return {
+      snapshot: { ...snapshot, lastUpdated, [collection]: [record, ...records] },
+      result: { status: 201, data: record, lastUpdated, revision: getRevision(snapshot) + 1 }
+    };
+  });
+
+  if (outcome.error) {
+    return sendError(res, outcome.status, outcome.error);
+  }
+  res.set('ETag', `"${recordVersion(outcome.data)}"`);
+  res.status(outcome.status).json({
+    success: true,
+    data: outcome.data,
+    lastUpdated: outcome.lastUpdated,
+    revision: outcome.revision
+  });
+}
+
+async function patchHandler(req, res, collection) {
+  const updates = req.body;
+  if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
+    return sendError(res, 400, 'Updates must be an object');
+  }
+  const baseVersion = parseIfMatch(req.get('If-Match'));
+  if (baseVersion === null) {
+    return sendError(res, 400, 'Invalid If-Match header');
+  }
+
+  const outcome = await updateSnapshot(req.profileId, async (snapshot) => {
+    const records = snapshot[collection] ?? [];
+    const existing = records.find((item) => item.id === req.params.id);
+    if (!existing) {
+      return { result: { status: 404, error: `Record not found: ${req.params.id}` } };
+    }
+    if (baseVersion !== undefined && baseVersion !== recordVersion(existing)) {
+      return { result: { conflict: existing } };
+    }
+
+    // Ciphertext can't be merged field by field; the client sends the whole envelope
+    const merged = isEncryptedRecord(updates)
+      ? { ...updates, id: existing.id }
+      : { ...existing, ...updates, id: existing.id };
+    if (updates.updatedAt === undefined) {
+      merged.updatedAt = Date.now();
+    }
+    const mismatch = encryptionMismatch(snapshot, updates);
+    if (mismatch) {
+      return { result: { status: 400, error: mismatch } };
+    }
+    const validation = validateEntity(collection, merged);
+    if (!validation.valid) {
+      return { result: { validation } };
+    }
+    await backupBeforeWrite(req.profileId, snapshot);
+
+    const lastUpdated = nowISO();
+    return {
+      snapshot: {
+        ...snapshot,
+        lastUpdated,
+        [collection]: records.map((item) => (item.id === merged.id ? merged : item))
+      },
+      result: { status: 200, data: merged, lastUpdated, revision: getRevision(snapshot) + 1 }
+    };
+  });
+
+  if (outcome.conflict) {
+    return sendConflict(res, outcome.conflict);
+  }
+  if (outcome.validation) {
+    return sendValidationError(res, outcome.validation);
+  }
+  if (outcome.error) {
+    return sendError(res, outcome.status, outcome.error);
+  }
+  res.set('ETag', `"${recordVersion(outcome.data)}"`);
+  res.json({ success: true, data: outcome.data, lastUpdated: outcome.lastUpdated, revision: outcome.revision });
+}
+
+async function deleteHandler(req, res, collection) {
+  const baseVersion = parseIfMatch(req.get('If-Match'));
+  if (baseVersion === null) {
+    return sendError(res, 400, 'Invalid If-Match header');
+  }
+
+  const outcome = await updateSnapshot(req.profileId, async (snapshot) => {
+    const records = snapshot[collection] ?? [];
+    const existing = records.find((item) => item.id === req.params.id);
+    if (!existing) {
+      return { result: { status: 404, error: `Record not found: ${req.params.id}` } };
+    }
+    if (baseVersion !== undefined && baseVersion !== recordVersion(existing)) {
+      return { result: { conflict: existing } };
+    }
+
+    await backupBeforeWrite(req.profileId, snapshot);
+    const lastUpdated = nowISO();
+    const next = {
+      ...snapshot,
+      lastUpdated,
+      [collection]: records.filter((item) => item.id !== req.params.id)
+    };
+    if (collection === 'medications') {
+      next.doses = (snapshot.doses ?? []).filter((dose) => dose.medicationId !== req.params.id);
+      next.labLevels = (snapshot.labLevels ?? []).filter((level) => level.medicationId !== req.params.id);
+      next.doseSchedules = (snapshot.doseSchedules ?? []).filter((schedule) => schedule.medicationId !== req.params.id);
+    }
+    return { snapshot: next, result: { status: 200, lastUpdated, revision: getRevision(snapshot) + 1 } };
+  });
+
+  if (outcome.conflict) {
+    return sendConflict(res, outcome.conflict);
+  }
+  if (outcome.error) {
+    return sendError(res, outcome.status, outcome.error);
+  }
+  res.json({
+    success: true,
+    data: { id: req.params.id },
+    lastUpdated: outcome.lastUpdated,
+    revision: outcome.revision
+  });
+}
+
+/**
+ * Router exposing CRUD for every entity collection; mount under /api
+ */
+export function createEntityRouter() {
+  const router = express.Router();
+  for (const [segment, collection] of Object.entries(ENTITY_RESOURCES)) {
+    router.get(`/${segment}`, bindCollection(listHandler, segment, collection));
+    router.get(`/${segment}/:id`, bindCollection(getHandler, segment, collection));
+    router.post(`/${segment}`, bindCollection(createHandler, segment, collection));
+    router.patch(`/${segment}/:id`, bindCollection(patchHandler, segment, collection));
+    router.delete(`/${segment}/:id`, bindCollection(deleteHandler, segment, collection));
+  }
+  return router;
+}
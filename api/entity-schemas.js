@@ -0,0 +1,427 @@
+/**
+ * Entity Schemas
+ *
+ * Runtime (zod) schemas for every persisted record and for the whole
+ * AppDataSnapshot. Shared by the Express handlers (via validation.js) and by
+ * the client (src/core/services/entity-schemas.ts), which uses them in forms,
+ * entity writes and normalizeSnapshot().
+ *
+ * Objects are passthrough: unknown and legacy fields are kept untouched, only
+ * the fields listed here are checked.
+ *
+ * Client-side encrypted records (`enc` envelopes, see snapshot-crypto.ts) can
+ * only be checked for their clear-text routing fields; their content is
+ * validated on the client before it is encrypted.
+ */
+
+import { z } from 'zod';
+
+const MIN_TIMESTAMP = Date.parse('2000-01-01');
+const MAX_TIMESTAMP = Date.parse('2100-01-01');
+
+const id = z.string().min(1, 'Required');
+
+export const timestampSchema = z
+  .number({ invalid_type_error: 'Must be a timestamp in milliseconds' })
+  .finite()
+  .min(MIN_TIMESTAMP, 'Must be after 2000-01-01')
+  .max(MAX_TIMESTAMP, 'Must be before 2100-01-01');
+
+/** 0-10 self-rating used by the mood sliders */
+const scale = z.number().finite().min(0, 'Must be between 0 and 10').max(10, 'Must be between 0 and 10');
+const positive = z.number({ invalid_type_error: 'Must be a number' }).finite().positive('Must be greater than 0');
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Must be HH:mm');
+const oneOf = (values) => z.enum(values, { errorMap: () => ({ message: `Must be one of ${values.join(', ')}` }) });
+
+const therapeuticRangeSchema = z
+  .object({
+    min: z.number().finite().nonnegative(),
+    max: z.number().finite().nonnegative(),
+    unit: z.string().min(1)
+  })
+  .passthrough()
+  .refine((range) => range.min <= range.max, { message: 'min must not exceed max', path: ['max'] });
+
+/** Personal parameters fitted from lab levels (see pk-fitting.ts); null once reverted */
+const pkFitSchema = z
+  .object({
+    halfLife: positive,
+    volumeOfDistribution: positive,
+    populationHalfLife: positive,
+    populationVolumeOfDistribution: positive,
+    levelCount: z.number().int().positive(),
+    fittedAt: timestampSchema
+  })
+  .passthrough();
+
+const cv = z.number().finite().min(0, 'Must be between 0 and 2').max(2, 'Must be between 0 and 2');
+
+/** Between-subject coefficients of variation (see pk-variability.ts) */
+const pkVariabilitySchema = z
+  .object({
+    halfLifeCV: cv.optional(),
+    volumeOfDistributionCV: cv.optional(),
+    bioavailabilityCV: cv.optional(),
+    absorptionRateCV: cv.optional()
+  })
+  .passthrough();
+
+export const FORMULATION_KINDS = ['IR', 'ODT', 'DR', 'XR', 'OROS'];
+
+/** Release profile of a modified-release product (see pharmacokinetics.ts) */
+const formulationSchema = z
+  .object({
+    kind: z.enum(FORMULATION_KINDS, { errorMap: () => ({ message: `Must be one of ${FORMULATION_KINDS.join(', ')}` }) }),
+    lagTime: z.number().finite().min(0, 'Must be 0 or more').max(24, 'Must be at most 24 hours').optional(),
+    releaseDuration: z.number().finite().min(0, 'Must be 0 or more').max(48, 'Must be at most 48 hours').optional(),
+    immediateFraction: z.number().finite().min(0, 'Must be between 0 and 1').max(1, 'Must be between 0 and 1').optional()
+  })
+  .passthrough();
+
+export const CHILD_PUGH_CLASSES = ['none', 'A', 'B', 'C'];
+
+const clearanceMultiplier = z.number().finite().gt(0, 'Must be greater than 0').max(10, 'Must be at most 10');
+
+/** How a medication is cleared; adjusts clearance to renal/hepatic function (see patient-physiology.ts) */
+const eliminationSchema = z
+  .object({
+    renalFraction: z.number().finite().min(0, 'Must be between 0 and 1').max(1, 'Must be between 0 and 1'),
+    hepaticImpairment: z
+      .object({ A: clearanceMultiplier.optional(), B: clearanceMultiplier.optional(), C: clearanceMultiplier.optional() })
+      .passthrough()
+      .optional(),
+    smokingInduction: clearanceMultiplier.optional()
+  })
+  .passthrough();
+
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+/** What-if regimen saved from the simulator (see regimen-simulation.ts) */
+const regimenDraftSchema = z
+  .object({
+    id,
+    name: z.string().trim().min(1, 'Required').max(80, 'Must be at most 80 characters'),
+    doses: z
+      .array(z.object({ time: timeOfDay, amount: positive }).passthrough())
+      .min(1, 'Must have at least one dose'),
+    days: z.array(oneOf(WEEKDAYS)).min(1, 'Must have at least one day').optional(),
+    createdAt: timestampSchema
+  })
+  .passthrough();
+
+const nonNegative = z.number({ invalid_type_error: 'Must be a number' }).finite().nonnegative('Must be 0 or more');
+
+const prescriptionSchema = z
+  .object({
+    id,
+    prescriber: z.string().trim().max(120, 'Must be at most 120 characters').optional(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be yyyy-MM-dd'),
+    quantity: positive,
+    renewalsLeft: z.number().int('Must be a whole number').min(0, 'Must be 0 or more').max(24, 'Must be at most 24'),
+    notes: z.string().max(500, 'Must be at most 500 characters').optional()
+  })
+  .passthrough();
+
+/**
+ * Supply on hand (see inventory.ts): the last count plus later refills, less
+ * the units of the doses logged since
+ */
+const inventorySchema = z
+  .object({
+    unitsPerPack: positive,
+    strengthPerUnit: positive,
+    unitLabel: z.string().trim().max(40, 'Must be at most 40 characters').optional(),
+    unitsCounted: nonNegative,
+    countedAt: timestampSchema,
+    refills: z
+      .array(
+        z
+          .object({ id, timestamp: timestampSchema, units: positive, prescriptionId: z.string().optional() })
+          .passthrough()
+      )
+      .max(200, 'Must have at most 200 refills')
+      .optional(),
+    prescriptions: z.array(prescriptionSchema).max(50, 'Must have at most 50 prescriptions').optional(),
+    lowSupplyDays: z.number().int('Must be a whole number of days').min(1, 'Must be at least 1 day').max(90, 'Must be at most 90 days').optional()
+  })
+  .passthrough();
+
+export const medicationSchema = z
+  .object({
+    id,
+    name: z.string().trim().min(1, 'Required'),
+    halfLife: positive,
+    volumeOfDistribution: positive,
+    bioavailability: z
+      .number({ invalid_type_error: 'Must be a number' })
+      .finite()
+      .gt(0, 'Must be between 0 and 1')
+      .max(1, 'Must be between 0 and 1'),
+    absorptionRate: positive,
+    defaultDose: positive.optional(),
+    therapeuticRange: therapeuticRangeSchema.optional(),
+    scheduledTime: timeOfDay.optional(),
+    pkFit: pkFitSchema.nullable().optional(),
+    pkVariability: pkVariabilitySchema.optional(),
+    formulation: formulationSchema.optional(),
+    elimination: eliminationSchema.nullable().optional(),
+    regimenDrafts: z.array(regimenDraftSchema).max(20, 'Must have at most 20 drafts').optional(),
+    inventory: inventorySchema.nullable().optional(),
+    createdAt: timestampSchema,
+    updatedAt: timestampSchema.optional()
+  })
+  .passthrough();
+
+export const doseSchema = z
+  .object({
+    id,
+    medicationId: z.string().min(1, 'Required'),
+    timestamp: timestampSchema,
+    doseAmount: positive,
+    createdAt: timestampSchema,
+    updatedAt: timestampSchema.optional()
+  })
+  .passthrough();
+
+export const moodEntrySchema = z
+  .object({
+    id,
+    timestamp: timestampSchema,
+    moodScore: scale,
+    anxietyLevel: scale.optional(),
+    energyLevel: scale.optional(),
+    focusLevel: scale.optional(),
+    cognitiveScore: scale.optional(),
+    attentionShift: scale.optional(),
+    createdAt: timestampSchema,
+    updatedAt: timestampSchema.optional()
+  })
+  .passthrough();
+
+export const cognitiveTestSchema = z
+  .object({
+    id,
+    timestamp: timestampSchema,
+    matrices: z.array(z.object({}).passthrough()),
+    totalScore: z.number().finite().nonnegative(),
+    averageResponseTime: z.number().finite().nonnegative(),
+    accuracy: z.number().finite().min(0, 'Must be between 0 and 1').max(1, 'Must be between 0 and 1'),
+    createdAt: timestampSchema,
+    updatedAt: timestampSchema.optional()
+  })
+  .passthrough();
+
+/** Units accepted for measured levels; LAB_LEVEL_UNIT_FACTORS converts them to ng/mL */
+export const LAB_LEVEL_UNITS = ['ng/mL', 'µg/L', 'µg/mL', 'mg/L'];
+
+/**
+ * A measured blood concentration (therapeutic drug monitoring)
+ */
+export const labLevelSchema = z
+  .object({
+    id,
+    medicationId: z.string().min(1, 'Required'),
+    timestamp: timestampSchema,
+    concentration: positive,
+    unit: z.enum(LAB_LEVEL_UNITS, { errorMap: () => ({ message: `Must be one of ${LAB_LEVEL_UNITS.join(', ')}` }) }),
+    lab: z.string().trim().max(120, 'At most 120 characters').optional(),
+    createdAt: timestampSchema,
+    updatedAt: timestampSchema.optional()
+  })
+  .passthrough();
+
+export const BIOLOGICAL_SEXES = ['male', 'female'];
+export const SMOKING_STATUSES = ['never', 'former', 'current'];
+
+/**
+ * A dated physiological observation of the patient; every measurement is
+ * optional and applies from `timestamp` on
+ */
+export const physiologyRecordSchema = z
+  .object({
+    id,
+    timestamp: timestampSchema,
+    weight: positive.max(400, 'Must be at most 400 kg').optional(),
+    height: positive.max(250, 'Must be at most 250 cm').optional(),
+    birthDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be yyyy-MM-dd')
+      .optional(),
+    sex: oneOf(BIOLOGICAL_SEXES).optional(),
+    serumCreatinine: positive.max(20, 'Must be at most 20 mg/dL').optional(),
+    creatinineClearance: positive.max(250, 'Must be at most 250 mL/min').optional(),
+    childPugh: oneOf(CHILD_PUGH_CLASSES).optional(),
+    smoking: oneOf(SMOKING_STATUSES).optional(),
+    createdAt: timestampSchema,
+    updatedAt: timestampSchema.optional()
+  })
+  .passthrough();
+
+export const DOSE_SCHEDULE_KINDS = ['titration', 'taper'];
+
+const doseScheduleStepSchema = z
+  .object({
+    dose: z.number({ invalid_type_error: 'Must be a number' }).finite().nonnegative('Must be 0 or more'),
+    days: z.number().int('Must be a whole number of days').min(1, 'Must be at least 1 day').max(365, 'Must be at most 365 days')
+  })
+  .passthrough();
+
+/**
+ * A planned titration or taper: consecutive steps of a daily dose starting
+ * on `startDate`
+ */
+export const doseScheduleSchema = z
+  .object({
+    id,
+    medicationId: z.string().min(1, 'Required'),
+    kind: oneOf(DOSE_SCHEDULE_KINDS),
+    name: z.string().trim().max(80, 'At most 80 characters').optional(),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be yyyy-MM-dd'),
+    steps: z.array(doseScheduleStepSchema).min(1, 'At least one step').max(52, 'At most 52 steps'),
+    createdAt: timestampSchema,
+    updatedAt: timestampSchema.optional()
+  })
+  .passthrough();
+
+/**
+ * A tracked person. Settings here feed the PK model (body weight in kg).
+ */
+export const profileSchema = z
+  .object({
+    id,
+    name: z.string().trim().min(1, 'Required').max(80, 'At most 80 characters'),
+    bodyWeight: positive.max(400, 'Must be at most 400 kg'),
+    createdAt: timestampSchema,
+    updatedAt: timestampSchema.optional()
+  })
+  .passthrough();
+
+export const ENTITY_SCHEMAS = {
+  medications: medicationSchema,
+  doses: doseSchema,
+  moodEntries: moodEntrySchema,
+  cognitiveTests: cognitiveTestSchema,
+  labLevels: labLevelSchema,
+  physiologyRecords: physiologyRecordSchema,
+  doseSchedules: doseScheduleSchema
+};
+
+const encryptedPayloadSchema = z.object({
+  iv: z.string().min(1),
+  ct: z.string().min(1)
+});
+
+export const encryptedRecordSchema = z
+  .object({
+    id,
+    createdAt: timestampSchema.optional(),
+    updatedAt: timestampSchema.optional(),
+    timestamp: timestampSchema.optional(),
+    medicationId: z.string().min(1).optional(),
+    enc: encryptedPayloadSchema
+  })
+  .strict();
+
+export const encryptionInfoSchema = z.object({
+  kdf: z.literal('PBKDF2-SHA256'),
+  iterations: z.number().int().min(100_000),
+  salt: z.string().min(1),
+  keyCheck: encryptedPayloadSchema
+});
+
+export function isEncryptedRecord(record) {
+  return !!record && typeof record === 'object' && 'enc' in record;
+}
+
+function schemaFor(collection, record) {
+  return isEncryptedRecord(record) ? encryptedRecordSchema : ENTITY_SCHEMAS[collection];
+}
+
+/**
+ * Array of plain or encrypted records, reporting the issues of whichever
+ * schema applies to each record
+ */
+function storedRecords(collection) {
+  return z.array(
+    z.any().superRefine((record, ctx) => {
+      const parsed = schemaFor(collection, record).safeParse(record);
+      if (!parsed.success) {
+        parsed.error.issues.forEach((issue) => ctx.addIssue(issue));
+      }
+    })
+  );
+}
+
+export const snapshotSchema = z
+  .object({
+    version: z.string().min(1),
+    lastUpdated: z.string({ invalid_type_error: 'Must be an ISO string' }),
+    encryption: encryptionInfoSchema.optional(),
+    medications: storedRecords('medications'),
+    doses: storedRecords('doses'),
+    moodEntries: storedRecords('moodEntries'),
+    cognitiveTests: storedRecords('cognitiveTests').optional(),
+    labLevels: storedRecords('labLevels').optional(),
+    physiologyRecords: storedRecords('physiologyRecords').optional(),
+    doseSchedules: storedRecords('doseSchedules').optional()
+  })
+  .passthrough()
+  .superRefine((snapshot, ctx) => {
+    if (!snapshot.encryption) return;
+    for (const collection of Object.keys(ENTITY_SCHEMAS)) {
+      (snapshot[collection] ?? []).forEach((record, index) => {
+        if (!isEncryptedRecord(record)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [collection, index],
+            message: 'Encrypted snapshots may only contain encrypted records'
+          });
+        }
+      });
+    }
+  });
+
+/**
+ * Flatten zod issues into `{ path, message }` pairs, path joined with dots
+ * (`doses.3.doseAmount`)
+ */
+export function formatIssues(error) {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message
+  }));
+}
+
+function toResult(parsed) {
+  if (parsed.success) {
+    return { valid: true, errors: [] };
+  }
+  const errors = formatIssues(parsed.error);
+  const [first] = errors;
+  return {
+    valid: false,
+    error: first.path ? `${first.path}: ${first.message}` : first.message,
+    errors
+  };
+}
+
+export function validateRecord(collection, record) {
+  return toResult(schemaFor(collection, record).safeParse(record));
+}
+
+/**
+ * Validate a record before the server-assigned fields exist (forms)
+ */
+export function validateDraft(collection, draft) {
+  return toResult(
+    ENTITY_SCHEMAS[collection].partial({ id: true, createdAt: true, updatedAt: true }).safeParse(draft)
+  );
+}
+
+export function validateProfile(profile) {
+  return toResult(profileSchema.safeParse(profile));
+}
+
+export function validateSnapshot(snapshot) {
+  return toResult(snapshotSchema.safeParse(snapshot));
+}
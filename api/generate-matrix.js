@@ -6,6 +6,8 @@
  *
  * Request body: { difficulty: 'normal' | 'difficult' }
  * Response: { matrix, options, correctAnswerIndex, explanation, patterns }
+ *
+ * Requires the same login session as the main API (auth-routes.js).
  */
 
 /**
@@ -254,6 +256,7 @@ export default generateMatrixHandler;
 
 // Standalone server (if run directly)
 import express from 'express';
+import { requireAuth } from './auth-routes.js';
 
 if (import.meta.url === `file://${process.argv[1]}`) {
   const app = express();
@@ -261,9 +264,17 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   // Middleware
   app.use(express.json());
 
-  // CORS for development
+  // CORS: credentials are only sent to explicitly allowed origins
+  const allowedOrigins = new Set(
+    (process.env.API_CORS_ORIGINS ?? '').split(',').map((origin) => origin.trim()).filter(Boolean)
+  );
   app.use((req, res, next) => {
-    res.header('Access-Control-Allow-Origin', '*');
+    const origin = req.get('Origin');
+    if (origin && allowedOrigins.has(origin)) {
+      res.header('Access-Control-Allow-Origin', origin);
+      res.header('Access-Control-Allow-Credentials', 'true');
+      res.header('Vary', 'Origin');
+    }
     res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
     res.header('Access-Control-Allow-Headers', 'Content-Type');
     if (req.method === 'OPTIONS') {
@@ -273,7 +284,7 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   });
 
   // Route
-  app.post('/api/generate-matrix', generateMatrixHandler);
+  app.post('/api/generate-matrix', requireAuth, generateMatrixHandler);
 
   // Health check
   app.get('/api/health', (req, res) => {
@@ -0,0 +1,172 @@
+/**
+ * Backend Endpoints: Health Data
+ *
+ * POST /api/health/import    Import one health export file, or a ZIP of them
+ * GET  /api/health/records   Stored records of one kind (?type=&from=&to=&maxPoints=)
+ *
+ * The import body is the raw file; its name goes in ?name= and decides how it
+ * is read: Samsung Health CSVs, Apple Health export.xml, Google Fit or Health
+ * Connect JSON, or a ZIP of any of them (health-sources.ts, the same code as
+ * the in-browser import, hence the API runs under tsx). ZIP and XML uploads
+ * can run to hundreds of MB, so they are spooled to a temporary file and read
+ * from there instead of being held in memory. Records are stored per day in
+ * health-store.js. The answer lists one result per file and kind with how
+ * many records were added, already stored or not valid; files we have no
+ * parser for are reported as `unsupported` without failing the import.
+ *
+ * `type` is heart-rate, steps, activity, sleep, hrv, stress, spo2 or
+ * blood-pressure; from/to take epoch
+ * milliseconds or ISO dates. Longer ranges are downsampled to at most
+ * `maxPoints` records (default 2000).
+ */
+
+import { createWriteStream, openAsBlob, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import express from 'express';
+import { HEALTH_FILE_KIND_LABELS, healthRecordKind } from '../src/features/health-data/services/health-file-parser.ts';
+import { importHealthSources } from '../src/features/health-data/services/health-sources.ts';
+import { isZipArchive } from '../src/features/health-data/services/zip-reader.ts';
+import { downsampleHealthRecords, readHealthRecords, storeHealthRecords } from './health-store.js';
+import { parseTimeParam } from './entity-routes.js';
+
+const HEALTH_KINDS = Object.keys(HEALTH_FILE_KIND_LABELS);
+const MAX_UPLOAD_SIZE = '100mb';
+const MAX_SPOOLED_UPLOAD_BYTES = 4 * 1024 ** 3;
+const SPOOLED_UPLOAD_PATTERN = /\.(zip|xml)$/i;
+const DEFAULT_MAX_POINTS = 2000;
+const MAX_POINTS_LIMIT = 20000;
+
+function sendError(res, status, error) {
+  return res.status(status).json({ success: false, error });
+}
+
+function uploadFileName(req) {
+  return typeof req.query.name === 'string' && req.query.name ? path.basename(req.query.name) : 'upload.csv';
+}
+
+function uploadTooLarge() {
+  const error = new Error(`Upload larger than ${MAX_SPOOLED_UPLOAD_BYTES} bytes`);
+  error.status = 413;
+  return error;
+}
+
+/**
+ * Write the request body to a temporary file; resolves to the file and a
+ * cleanup callback, or to null for an empty body
+ */
+async function spoolUpload(req, fileName) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'health-import-'));
+  const cleanup = () => fs.rm(dir, { recursive: true, force: true });
+  const filePath = path.join(dir, fileName);
+  let size = 0;
+
+  try {
+    await pipeline(
+      req,
+      async function* (source) {
+        for await (const chunk of source) {
+          size += chunk.length;
+          if (size > MAX_SPOOLED_UPLOAD_BYTES) throw uploadTooLarge();
+          yield chunk;
+        }
+      },
+      createWriteStream(filePath)
+    );
+    if (size === 0) {
+      await cleanup();
+      return null;
+    }
+    // File-backed, so parts are only read when the parsers get to them
+    return { file: new File([await openAsBlob(filePath)], fileName), cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
+
+/**
+ * Read the body into memory unless it is spooled to disk by the handler
+ */
+function uploadBody(req, res, next) {
+  if (SPOOLED_UPLOAD_PATTERN.test(uploadFileName(req))) return next();
+  return express.raw({ type: () => true, limit: MAX_UPLOAD_SIZE })(req, res, next);
+}
+
+async function importHandler(req, res) {
+  const fileName = uploadFileName(req);
+  let upload = null;
+  try {
+    if (SPOOLED_UPLOAD_PATTERN.test(fileName)) {
+      upload = await spoolUpload(req, fileName);
+    } else if (Buffer.isBuffer(req.body) && req.body.length > 0) {
+      // A ZIP sent without its extension is still read as one
+      const name = isZipArchive(req.body) ? `${fileName}.zip` : fileName;
+      upload = { file: new File([req.body], name), cleanup: async () => {} };
+    }
+    if (!upload) {
+      return sendError(res, 400, 'Send the health export file as the request body');
+    }
+
+    const results = await importHealthSources([upload.file], (records) => storeHealthRecords(req.profileId, records));
+    if (results.length === 0) {
+      return sendError(res, 400, `No health data files in ${fileName}`);
+    }
+
+    const added = results.reduce((sum, result) => sum + result.added, 0);
+    const unsupported = results.filter((result) => result.unsupported).length;
+    console.log(
+      `[API] Health import of ${fileName}: ${added} records added from ${results.length} result(s), ${unsupported} not supported`
+    );
+    res.json({ success: true, data: results, count: results.length });
+  } catch (error) {
+    console.error('[API] Health import error:', error);
+    sendError(res, error.status ?? 500, error.message);
+  } finally {
+    await upload?.cleanup();
+  }
+}
+
+async function recordsHandler(req, res) {
+  try {
+    const { type } = req.query;
+    if (!HEALTH_KINDS.includes(type)) {
+      return sendError(res, 400, `type must be one of ${HEALTH_KINDS.join(', ')}`);
+    }
+
+    const from = parseTimeParam(req.query.from);
+    const to = parseTimeParam(req.query.to);
+    if (from === null || to === null) {
+      return sendError(res, 400, 'from/to must be epoch milliseconds or ISO dates');
+    }
+
+    const maxPoints = req.query.maxPoints === undefined ? DEFAULT_MAX_POINTS : Number(req.query.maxPoints);
+    if (!Number.isInteger(maxPoints) || maxPoints < 1 || maxPoints > MAX_POINTS_LIMIT) {
+      return sendError(res, 400, `maxPoints must be an integer between 1 and ${MAX_POINTS_LIMIT}`);
+    }
+
+    const records = await readHealthRecords(req.profileId, { from, to }, (record) => healthRecordKind(record) === type);
+    const data = downsampleHealthRecords(records, type, maxPoints);
+    res.json({
+      success: true,
+      data,
+      count: data.length,
+      total: records.length,
+      downsampled: data.length < records.length
+    });
+  } catch (error) {
+    console.error('[API] Health records error:', error);
+    sendError(res, 500, error.message);
+  }
+}
+
+/**
+ * Router for server-side health data; mount under /api
+ */
+export function createHealthRouter() {
+  const router = express.Router();
+  router.post('/health/import', uploadBody, importHandler);
+  router.get('/health/records', recordsHandler);
+  return router;
+}
@@ -0,0 +1,172 @@
+/**
+ * Health Store
+ *
+ * Health records imported on the server (heart rate, steps, workouts, sleep,
+ * HRV, stress, SpO2, blood pressure), one JSON file per UTC day under
+ * <profile dir>/health/. Records keep the ids given by health-file-parser.ts,
+ * so importing an overlapping export again only adds what is new.
+ *
+ * The server has to read the exports to store them, so these files are not
+ * client-encrypted like the snapshot. They sit in DATA_DIR, outside public/
+ * (see snapshot-store.js), are only readable by the server's user and are
+ * only served through the authenticated /api/health routes.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { profileDir, withProfileLock } from './snapshot-store.js';
+
+const DAY_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.json$/;
+
+function healthDir(profileId) {
+  return path.join(profileDir(profileId), 'health');
+}
+
+function dayKey(timestamp) {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function dayFile(profileId, day) {
+  return path.join(healthDir(profileId), `${day}.json`);
+}
+
+async function readDay(profileId, day) {
+  try {
+    const { records } = JSON.parse(await fs.readFile(dayFile(profileId, day), 'utf8'));
+    return Array.isArray(records) ? records : [];
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Store the records whose id is not stored yet; resolves to how many were added
+ */
+export function storeHealthRecords(profileId, records) {
+  return withProfileLock(profileId, async () => {
+    const byDay = new Map();
+    for (const record of records) {
+      const day = dayKey(record.timestamp);
+      if (!byDay.has(day)) byDay.set(day, []);
+      byDay.get(day).push(record);
+    }
+
+    await fs.mkdir(healthDir(profileId), { recursive: true, mode: 0o700 });
+    let added = 0;
+    for (const [day, incoming] of byDay) {
+      const stored = await readDay(profileId, day);
+      const ids = new Set(stored.map((record) => record.id));
+      const fresh = incoming.filter((record) => {
+        if (ids.has(record.id)) return false;
+        ids.add(record.id);
+        return true;
+      });
+      if (fresh.length === 0) continue;
+
+      const merged = [...stored, ...fresh].sort((a, b) => a.timestamp - b.timestamp);
+      await fs.writeFile(dayFile(profileId, day), JSON.stringify({ date: day, records: merged }), {
+        encoding: 'utf8',
+        mode: 0o600
+      });
+      added += fresh.length;
+    }
+    return added;
+  });
+}
+
+/**
+ * Stored records between `from` and `to` (inclusive timestamps) that pass
+ * `filter`, oldest first
+ */
+export async function readHealthRecords(profileId, { from = -Infinity, to = Infinity } = {}, filter = () => true) {
+  let files;
+  try {
+    files = await fs.readdir(healthDir(profileId));
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const firstDay = Number.isFinite(from) ? dayKey(from) : '';
+  const lastDay = Number.isFinite(to) ? dayKey(to) : '9999-12-31';
+  const days = files
+    .map((file) => DAY_FILE_PATTERN.exec(file)?.[1])
+    .filter((day) => day && day >= firstDay && day <= lastDay)
+    .sort();
+
+  const records = [];
+  for (const day of days) {
+    for (const record of await readDay(profileId, day)) {
+      if (record.timestamp >= from && record.timestamp <= to && filter(record)) {
+        records.push(record);
+      }
+    }
+  }
+  return records;
+}
+
+function mergeHeartRates(bucket) {
+  const rates = bucket.map((record) => record.heartRate);
+  return {
+    ...bucket[0],
+    heartRate: Math.round(rates.reduce((sum, rate) => sum + rate, 0) / rates.length),
+    heartRateMin: rates.reduce((min, rate) => Math.min(min, rate)),
+    heartRateMax: rates.reduce((max, rate) => Math.max(max, rate)),
+    samples: bucket.length
+  };
+}
+
+function mergeSteps(bucket) {
+  const sum = (key) => bucket.reduce((total, record) => total + (record[key] ?? 0), 0);
+  return {
+    ...bucket[0],
+    duration: sum('duration'),
+    activeDuration: sum('activeDuration'),
+    steps: sum('steps'),
+    distance: sum('distance'),
+    calories: sum('calories'),
+    samples: bucket.length
+  };
+}
+
+function averageOf(...keys) {
+  return (bucket) => {
+    const merged = { ...bucket[0], samples: bucket.length };
+    for (const key of keys) {
+      const values = bucket.map((record) => record[key]).filter((value) => typeof value === 'number');
+      const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+      merged[key] = values.length > 0 ? Math.round(mean * 10) / 10 : undefined;
+    }
+    return merged;
+  };
+}
+
+const MERGERS = {
+  'heart-rate': mergeHeartRates,
+  steps: mergeSteps,
+  hrv: averageOf('rmssd', 'sdnn'),
+  stress: averageOf('stressLevel'),
+  spo2: averageOf('spo2', 'heartRate')
+};
+
+/**
+ * Reduce sorted records of one kind to at most `maxPoints` by merging them in
+ * equal time buckets: heart rate is averaged (keeping min/max), steps are
+ * summed, HRV, stress and SpO2 are averaged. Workouts, sleep stages and
+ * blood pressure readings are never merged.
+ */
+export function downsampleHealthRecords(records, kind, maxPoints) {
+  const merge = MERGERS[kind];
+  if (!merge || records.length <= maxPoints) return records;
+
+  const first = records[0].timestamp;
+  const width = Math.max(1, Math.ceil((records[records.length - 1].timestamp - first + 1) / maxPoints));
+  const buckets = new Map();
+  for (const record of records) {
+    const index = Math.floor((record.timestamp - first) / width);
+    if (!buckets.has(index)) buckets.set(index, []);
+    buckets.get(index).push(record);
+  }
+  return [...buckets.values()].map(merge);
+}
@@ -0,0 +1,111 @@
+/**
+ * Backend Endpoint: Import
+ *
+ * POST /api/import   Import a previously exported snapshot
+ *
+ * Body: `{ data: AppDataSnapshot, mode: 'merge' | 'replace' }`
+ *  - merge:   records are matched by id; imported records win, the rest is kept
+ *  - replace: the current snapshot is replaced by the imported one
+ *
+ * The current snapshot is always backed up first, so an import can be undone
+ * from the backup list. If that backup fails the import is aborted.
+ */
+
+import express from 'express';
+import { getRevision, nowISO, updateSnapshot, upgradeSnapshot } from './snapshot-store.js';
+import { COLLECTIONS, diffSnapshots, writeBackup } from './backup-store.js';
+import { sendValidationError, validateData } from './validation.js';
+
+const IMPORT_MODES = ['merge', 'replace'];
+
+function sendError(res, status, error) {
+  return res.status(status).json({ success: false, error });
+}
+
+function mergeById(current = [], incoming = []) {
+  const byId = new Map(current.map((record) => [record.id, record]));
+  for (const record of incoming) {
+    byId.set(record.id, record);
+  }
+  return [...byId.values()];
+}
+
+function buildImportedSnapshot(current, incoming, mode) {
+  if (mode === 'replace') {
+    return {
+      ...incoming,
+      cognitiveTests: incoming.cognitiveTests ?? [],
+      labLevels: incoming.labLevels ?? [],
+      physiologyRecords: incoming.physiologyRecords ?? [],
+      doseSchedules: incoming.doseSchedules ?? [],
+      lastUpdated: nowISO()
+    };
+  }
+
+  const merged = { ...current, lastUpdated: nowISO() };
+  for (const key of COLLECTIONS) {
+    merged[key] = mergeById(current?.[key], incoming[key]);
+  }
+  return merged;
+}
+
+async function importHandler(req, res) {
+  try {
+    const { data: raw, mode = 'merge' } = req.body ?? {};
+
+    if (!IMPORT_MODES.includes(mode)) {
+      return sendError(res, 400, `Invalid import mode: ${mode}`);
+    }
+
+    const data = upgradeSnapshot(raw, 'imported snapshot');
+    const validation = validateData(data);
+    if (!validation.valid) {
+      return sendValidationError(res, validation);
+    }
+
+    const outcome = await updateSnapshot(req.profileId, async (current) => {
+      if (mode === 'merge' && Boolean(current?.encryption) !== Boolean(data.encryption)) {
+        return { result: { error: 'Cannot merge encrypted and plaintext data; use replace' } };
+      }
+      const backupId = await writeBackup(req.profileId, current);
+      const snapshot = buildImportedSnapshot(current, data, mode);
+      return {
+        snapshot,
+        result: {
+          snapshot: { ...snapshot, revision: getRevision(current) + 1 },
+          diff: diffSnapshots(current, snapshot),
+          backupId
+        }
+      };
+    });
+
+    if (outcome.error) {
+      return sendError(res, 400, outcome.error);
+    }
+    const saved = outcome.snapshot;
+    console.log(
+      `[API] Imported snapshot (${mode}): ${saved.medications.length} meds, ${saved.doses.length} doses, ${saved.moodEntries.length} moods (previous state saved as ${outcome.backupId})`
+    );
+
+    res.set('ETag', `"${saved.revision}"`);
+    res.json({
+      success: true,
+      data: saved,
+      revision: saved.revision,
+      diff: outcome.diff,
+      previousBackupId: outcome.backupId
+    });
+  } catch (error) {
+    console.error('[API] Import error:', error);
+    sendError(res, 500, error.message);
+  }
+}
+
+/**
+ * Router for snapshot imports; mount under /api
+ */
+export function createImportRouter() {
+  const router = express.Router();
+  router.post('/import', importHandler);
+  return router;
+}
@@ -0,0 +1,150 @@
+/**
+ * Backend Endpoints: Profiles
+ *
+ * GET    /api/profiles              List profiles
+ * POST   /api/profiles              Create a profile ({ name, bodyWeight })
+ * PATCH  /api/profiles/:profileId   Rename or change settings
+ * DELETE /api/profiles/:profileId   Delete a profile and all of its data
+ *
+ * Every data route is available per profile under /api/profiles/:profileId
+ * (e.g. /api/profiles/<id>/doses); the unprefixed routes serve the default
+ * profile. resolveProfile() sets req.profileId, which the stores use to pick
+ * the profile's own snapshot and backups.
+ */
+
+import express from 'express';
+import { DEFAULT_PROFILE_ID, isValidProfileId } from './snapshot-store.js';
+import {
+  DEFAULT_BODY_WEIGHT,
+  createProfile,
+  deleteProfile,
+  getProfile,
+  listProfiles,
+  updateProfile
+} from './profile-store.js';
+import { sendValidationError } from './validation.js';
+import { validateProfile } from './entity-schemas.js';
+
+function sendError(res, status, error) {
+  return res.status(status).json({ success: false, error });
+}
+
+const EDITABLE_FIELDS = ['name', 'bodyWeight'];
+
+function pickEditable(body) {
+  return Object.fromEntries(EDITABLE_FIELDS.filter((key) => key in body).map((key) => [key, body[key]]));
+}
+
+/**
+ * Middleware for routes mounted under /profiles/:profileId
+ */
+export async function resolveProfile(req, res, next) {
+  try {
+    const { profileId } = req.params;
+    if (!isValidProfileId(profileId) || !(await getProfile(profileId))) {
+      return sendError(res, 404, `Profile not found: ${profileId}`);
+    }
+    req.profileId = profileId;
+    next();
+  } catch (error) {
+    console.error('[API] Profile lookup error:', error);
+    sendError(res, 500, error.message);
+  }
+}
+
+/**
+ * Middleware for the unprefixed routes
+ */
+export function useDefaultProfile(req, _res, next) {
+  req.profileId = DEFAULT_PROFILE_ID;
+  next();
+}
+
+async function listHandler(_req, res) {
+  try {
+    const profiles = await listProfiles();
+    res.json({ success: true, data: profiles, count: profiles.length });
+  } catch (error) {
+    console.error('[API] List profiles error:', error);
+    sendError(res, 500, error.message);
+  }
+}
+
+async function createHandler(req, res) {
+  try {
+    const body = req.body && typeof req.body === 'object' ? req.body : {};
+    const draft = { bodyWeight: DEFAULT_BODY_WEIGHT, ...pickEditable(body), createdAt: Date.now() };
+    const validation = validateProfile({ ...draft, id: 'new' });
+    if (!validation.valid) {
+      return sendValidationError(res, validation);
+    }
+
+    const profile = await createProfile((id) => ({
+      id,
+      name: draft.name.trim(),
+      bodyWeight: draft.bodyWeight,
+      createdAt: draft.createdAt
+    }));
+    console.log(`[API] Profile created: ${profile.id}`);
+    res.status(201).json({ success: true, data: profile });
+  } catch (error) {
+    console.error('[API] Create profile error:', error);
+    sendError(res, 500, error.message);
+  }
+}
+
+async function patchHandler(req, res) {
+  try {
+    const body = req.body;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return sendError(res, 400, 'Updates must be an object');
+    }
+
+    const outcome = await updateProfile(req.params.profileId, (existing) => {
+      const profile = { ...existing, ...pickEditable(body), updatedAt: Date.now() };
+      const validation = validateProfile(profile);
+      return validation.valid ? { profile } : { validation };
+    });
+
+    if (!outcome) {
+      return sendError(res, 404, `Profile not found: ${req.params.profileId}`);
+    }
+    if (outcome.validation) {
+      return sendValidationError(res, outcome.validation);
+    }
+    res.json({ success: true, data: outcome.profile });
+  } catch (error) {
+    console.error('[API] Update profile error:', error);
+    sendError(res, 500, error.message);
+  }
+}
+
+async function deleteHandler(req, res) {
+  try {
+    const { profileId } = req.params;
+    if (profileId === DEFAULT_PROFILE_ID) {
+      return sendError(res, 400, 'The default profile cannot be deleted');
+    }
+    if (!isValidProfileId(profileId) || !(await deleteProfile(profileId))) {
+      return sendError(res, 404, `Profile not found: ${profileId}`);
+    }
+    console.log(`[API] Profile deleted with its data: ${profileId}`);
+    res.json({ success: true, data: { id: profileId } });
+  } catch (error) {
+    console.error('[API] Delete profile error:', error);
+    sendError(res, 500, error.message);
+  }
+}
+
+/**
+ * Router for the profile registry; mount under /api before the per-profile
+ * data routes
+ */
+export function createProfileRouter() {
+  const router = express.Router();
+  router.get('/profiles', listHandler);
+  router.post('/profiles', createHandler);
+  router.patch('/profiles/:profileId', patchHandler);
+  router.delete('/profiles/:profileId', deleteHandler);
+  return router;
+}
@@ -0,0 +1,106 @@
+/**
+ * Profile Store
+ *
+ * Registry of the people tracked by this deployment (DATA_DIR/profiles.json).
+ * Each profile owns a separate snapshot and backup directory (see
+ * profileDir() in snapshot-store.js). The default profile always exists and
+ * holds the data from before profiles were introduced.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { DATA_DIR, DEFAULT_PROFILE_ID, profileDir, withProfileLock } from './snapshot-store.js';
+
+const PROFILES_FILE = path.join(DATA_DIR, 'profiles.json');
+
+export const DEFAULT_BODY_WEIGHT = 70;
+
+function createDefaultProfile() {
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Principal',
+    bodyWeight: DEFAULT_BODY_WEIGHT,
+    createdAt: Date.now()
+  };
+}
+
+let registryQueue = Promise.resolve();
+
+/**
+ * Serialise read-modify-write cycles on profiles.json
+ */
+function updateRegistry(mutator) {
+  const run = registryQueue.then(async () => {
+    const profiles = await listProfiles();
+    const { profiles: next, result } = await mutator(profiles);
+    if (next) {
+      await fs.mkdir(DATA_DIR, { recursive: true });
+      await fs.writeFile(PROFILES_FILE, JSON.stringify(next, null, 2), 'utf8');
+    }
+    return result;
+  });
+  registryQueue = run.catch(() => undefined);
+  return run;
+}
+
+export async function listProfiles() {
+  let profiles;
+  try {
+    profiles = JSON.parse(await fs.readFile(PROFILES_FILE, 'utf8'));
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+    profiles = [];
+  }
+  if (!profiles.some((profile) => profile.id === DEFAULT_PROFILE_ID)) {
+    profiles.unshift(createDefaultProfile());
+  }
+  return profiles;
+}
+
+export async function getProfile(profileId) {
+  return (await listProfiles()).find((profile) => profile.id === profileId) ?? null;
+}
+
+/**
+ * Add a profile built by `build(id)`; the caller validates it
+ */
+export async function createProfile(build) {
+  return updateRegistry(async (profiles) => {
+    const profile = build(randomUUID());
+    return { profiles: [...profiles, profile], result: profile };
+  });
+}
+
+/**
+ * Apply `update(existing)` to a profile; null when it doesn't exist
+ */
+export async function updateProfile(profileId, update) {
+  return updateRegistry(async (profiles) => {
+    const existing = profiles.find((profile) => profile.id === profileId);
+    if (!existing) return { result: null };
+    const outcome = update(existing);
+    if (!outcome.profile) return { result: outcome };
+    return {
+      profiles: profiles.map((profile) => (profile.id === profileId ? outcome.profile : profile)),
+      result: outcome
+    };
+  });
+}
+
+/**
+ * Remove a profile and all of its data (snapshot and backups). The default
+ * profile can't be deleted.
+ */
+export async function deleteProfile(profileId) {
+  if (profileId === DEFAULT_PROFILE_ID) {
+    throw new Error('The default profile cannot be deleted');
+  }
+  return updateRegistry(async (profiles) => {
+    if (!profiles.some((profile) => profile.id === profileId)) {
+      return { result: false };
+    }
+    await withProfileLock(profileId, () => fs.rm(profileDir(profileId), { recursive: true, force: true }));
+    return { profiles: profiles.filter((profile) => profile.id !== profileId), result: true };
+  });
+}
@@ -2,7 +2,7 @@
  * Backend Endpoint: Save Data
  *
  * POST /api/save-data
- * Receives JSON data and saves to /public/data/app-data.json
+ * Receives JSON data and saves to data/app/app-data.json (see snapshot-store.js)
  *
  * Usage with Express:
  * ```js
@@ -13,154 +13,52 @@
  *
  * Usage standalone:
  * ```bash
- * node api/save-data.js
- * # Runs Express server on port 3001
+ * npx tsx api/save-data.js
+ * # Runs Express server on port 8113; tsx lets the health routes reuse the
+ * # TypeScript parsers from src/
  * ```
+ *
+ * Every data route requires a login session (see auth-routes.js). The first
+ * password needs the setup token printed at startup (or AUTH_SETUP_TOKEN).
+ * Cross-origin callers must be listed in API_CORS_ORIGINS (comma-separated).
  */
 
-import { promises as fs } from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-// Get __dirname equivalent for ESM
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-const DATA_DIR = path.join(__dirname, '../public/data');
-const SNAPSHOT_FILE = path.join(DATA_DIR, 'app-data.json');
-
-function nowISO() {
-  return new Date().toISOString();
-}
-
-function createEmptySnapshot() {
-  return {
-    version: '1.0.0',
-    lastUpdated: nowISO(),
-    medications: [],
-    doses: [],
-    moodEntries: [],
-    cognitiveTests: []
-  };
-}
-
-async function ensureDataFileExists() {
-  await fs.mkdir(DATA_DIR, { recursive: true });
-  try {
-    await fs.access(SNAPSHOT_FILE);
-  } catch (error) {
-    if (error.code === 'ENOENT') {
-      await fs.writeFile(SNAPSHOT_FILE, JSON.stringify(createEmptySnapshot(), null, 2), 'utf8');
-    } else {
-      throw error;
-    }
-  }
-}
-
-export async function readSnapshot() {
-  await ensureDataFileExists();
-  try {
-    const fileContent = await fs.readFile(SNAPSHOT_FILE, 'utf8');
-    return JSON.parse(fileContent);
-  } catch (error) {
-    if (error.code === 'ENOENT') {
-      const empty = createEmptySnapshot();
-      await fs.writeFile(SNAPSHOT_FILE, JSON.stringify(empty, null, 2), 'utf8');
-      return empty;
-    }
-    throw error;
-  }
-}
-
-/**
- * Validate timestamp
- * Returns true if timestamp is a valid number within reasonable range
- */
-function validateTimestamp(ts) {
-  if (typeof ts !== 'number') return false;
-  if (!Number.isFinite(ts)) return false;
-  if (ts < 0) return false;
-  
-  // Timestamp não pode ser muito antigo (antes de 2000) ou muito futuro (depois de 2100)
-  const minTimestamp = new Date('2000-01-01').getTime();
-  const maxTimestamp = new Date('2100-01-01').getTime();
-  
-  return ts >= minTimestamp && ts <= maxTimestamp;
-}
-
-/**
- * Validate data structure
- */
-function validateData(data) {
-  if (!data || typeof data !== 'object') {
-    return { valid: false, error: 'Data must be an object' };
-  }
-
-  // Required fields
-  const requiredFields = ['version', 'lastUpdated', 'medications', 'doses', 'moodEntries'];
-
-  for (const field of requiredFields) {
-    if (!(field in data)) {
-      return { valid: false, error: `Missing required field: ${field}` };
-    }
-  }
-
-  // Check array types
-  if (!Array.isArray(data.medications)) {
-    return { valid: false, error: 'medications must be an array' };
-  }
-  if (!Array.isArray(data.doses)) {
-    return { valid: false, error: 'doses must be an array' };
-  }
-  if (!Array.isArray(data.moodEntries)) {
-    return { valid: false, error: 'moodEntries must be an array' };
-  }
-
-  if (typeof data.lastUpdated !== 'string') {
-    return { valid: false, error: 'lastUpdated must be an ISO string' };
-  }
-
-  // Validate timestamps in doses
-  if (Array.isArray(data.doses)) {
-    for (const dose of data.doses) {
-      if (!validateTimestamp(dose.timestamp)) {
-        return { valid: false, error: `Invalid timestamp in dose ${dose.id || 'unknown'}` };
-      }
-      if (!validateTimestamp(dose.createdAt)) {
-        return { valid: false, error: `Invalid createdAt in dose ${dose.id || 'unknown'}` };
-      }
-    }
-  }
-
-  // Validate timestamps in moodEntries
-  if (Array.isArray(data.moodEntries)) {
-    for (const entry of data.moodEntries) {
-      if (!validateTimestamp(entry.timestamp)) {
-        return { valid: false, error: `Invalid timestamp in mood entry ${entry.id || 'unknown'}` };
-      }
-      if (!validateTimestamp(entry.createdAt)) {
-        return { valid: false, error: `Invalid createdAt in mood entry ${entry.id || 'unknown'}` };
-      }
-    }
-  }
-
-  return { valid: true };
-}
+import {
+  getRevision,
+  migrateLegacyDataDir,
+  parseIfMatch,
+  readSnapshot,
+  updateSnapshot,
+  upgradeSnapshot
+} from './snapshot-store.js';
+import { createEntityRouter } from './entity-routes.js';
+import { createBackupRouter } from './backup-routes.js';
+import { createImportRouter } from './import-routes.js';
+import { createHealthRouter } from './health-routes.js';
+import { createAuthRouter, requireAuth } from './auth-routes.js';
+import { createProfileRouter, resolveProfile, useDefaultProfile } from './profile-routes.js';
+import { purgePlaintextBackups, writeBackup } from './backup-store.js';
+import { sendValidationError, validateData } from './validation.js';
+
+export { readSnapshot };
 
 /**
  * Express request handler
+ *
+ * Optimistic concurrency: the client sends the revision its edit was based on
+ * (If-Match header or `baseRevision` in the body). When the stored snapshot has
+ * moved on, the write is rejected with 409 and the current snapshot so the
+ * client can merge and retry.
  */
 async function saveDataHandler(req, res) {
   try {
-    const data = req.body;
+    const { baseRevision: bodyRevision, ...raw } = req.body ?? {};
 
-    // Validate
+    // Upgrade snapshots from older clients, then validate
+    const data = upgradeSnapshot(raw, 'client snapshot');
     const validation = validateData(data);
     if (!validation.valid) {
-      return res.status(400).json({
-        success: false,
-        error: validation.error
-      });
+      return sendValidationError(res, validation);
     }
 
     const incomingTimestamp = Date.parse(data.lastUpdated);
@@ -171,54 +69,75 @@ async function saveDataHandler(req, res) {
       });
     }
 
-    await ensureDataFileExists();
+    const headerRevision = parseIfMatch(req.get('If-Match'));
+    if (headerRevision === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid If-Match header'
+      });
+    }
+    const baseRevision = headerRevision ?? (Number.isInteger(bodyRevision) ? bodyRevision : undefined);
+
+    const outcome = await updateSnapshot(req.profileId, async (existingSnapshot) => {
+      const currentRevision = getRevision(existingSnapshot);
+      if (baseRevision !== undefined && baseRevision !== currentRevision) {
+        return { result: { conflict: true, current: existingSnapshot } };
+      }
 
-    // Save to file
-    let existingSnapshot;
-    let existingTimestamp = null;
-    try {
-      const currentContent = await fs.readFile(SNAPSHOT_FILE, 'utf8');
-      existingSnapshot = JSON.parse(currentContent);
-      if (existingSnapshot && typeof existingSnapshot.lastUpdated === 'string') {
-        const parsedExisting = Date.parse(existingSnapshot.lastUpdated);
-        if (Number.isFinite(parsedExisting)) {
-          existingTimestamp = parsedExisting;
+      // Don't keep a readable copy of data that is being encrypted
+      const startsEncryption = Boolean(data.encryption) && !existingSnapshot?.encryption;
+      if (existingSnapshot && !startsEncryption) {
+        try {
+          await writeBackup(req.profileId, existingSnapshot);
+        } catch (backupError) {
+          console.warn('[API] Failed to write backup snapshot:', backupError);
         }
       }
-    } catch (readError) {
-      if (readError.code !== 'ENOENT') {
-        console.warn('[API] Could not read current snapshot:', readError);
-      }
-    }
 
+      return {
+        snapshot: data,
+        result: { saved: { ...data, revision: currentRevision + 1 }, startsEncryption }
+      };
+    });
 
-    if (existingSnapshot) {
-      const backupStamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const backupPath = path.join(DATA_DIR, `app-data-${backupStamp}.json`);
+    if (outcome.conflict) {
+      const current = outcome.current;
+      console.warn(`[API] Rejected stale write: base revision ${baseRevision}, current ${getRevision(current)}`);
+      res.set('ETag', `"${getRevision(current)}"`);
+      return res.status(409).json({
+        success: false,
+        error: 'Snapshot was modified by another device',
+        data: current,
+        revision: getRevision(current)
+      });
+    }
+
+    const saved = outcome.saved;
+    if (outcome.startsEncryption) {
       try {
-        await fs.writeFile(backupPath, JSON.stringify(existingSnapshot, null, 2), 'utf8');
-        console.log(`[API] Backup saved: ${backupPath}`);
-      } catch (backupError) {
-        console.warn('[API] Failed to write backup snapshot:', backupError);
+        await purgePlaintextBackups(req.profileId);
+      } catch (purgeError) {
+        console.warn('[API] Failed to delete plaintext backups:', purgeError);
       }
     }
+    console.log(`[API] Data saved successfully: ${saved.medications.length} meds, ${saved.doses.length} doses, ${saved.moodEntries.length} moods`);
 
-    const jsonContent = JSON.stringify(data, null, 2);
-    await fs.writeFile(SNAPSHOT_FILE, jsonContent, 'utf8');
-
-    console.log(`[API] Data saved successfully: ${data.medications.length} meds, ${data.doses.length} doses, ${data.moodEntries.length} moods`);
-
+    res.set('ETag', `"${saved.revision}"`);
     res.json({
       success: true,
       timestamp: Date.now(),
-      data,
-      lastUpdated: data.lastUpdated,
-      version: data.version,
+      data: saved,
+      lastUpdated: saved.lastUpdated,
+      version: saved.version,
+      revision: saved.revision,
       stats: {
-        medications: data.medications.length,
-        doses: data.doses.length,
-        moodEntries: data.moodEntries.length,
-        cognitiveTests: data.cognitiveTests?.length ?? 0
+        medications: saved.medications.length,
+        doses: saved.doses.length,
+        moodEntries: saved.moodEntries.length,
+        cognitiveTests: saved.cognitiveTests?.length ?? 0,
+        labLevels: saved.labLevels?.length ?? 0,
+        physiologyRecords: saved.physiologyRecords?.length ?? 0,
+        doseSchedules: saved.doseSchedules?.length ?? 0
       }
     });
   } catch (error) {
@@ -233,14 +152,16 @@ async function saveDataHandler(req, res) {
 /**
  * Express handler to load current snapshot
  */
-export async function loadDataHandler(_req, res) {
+export async function loadDataHandler(req, res) {
   try {
-    const snapshot = await readSnapshot();
+    const snapshot = await readSnapshot(req.profileId);
+    res.set('ETag', `"${getRevision(snapshot)}"`);
     res.json({
       success: true,
-      data: snapshot,
+      data: { ...snapshot, revision: getRevision(snapshot) },
       lastUpdated: snapshot.lastUpdated,
-      version: snapshot.version
+      version: snapshot.version,
+      revision: getRevision(snapshot)
     });
   } catch (error) {
     console.error('[API] Load error:', error);
@@ -251,6 +172,23 @@ export async function loadDataHandler(_req, res) {
   }
 }
 
+/**
+ * Express handler returning the key-derivation parameters of encrypted data
+ * (null while the data is stored in plaintext)
+ */
+export async function encryptionInfoHandler(req, res) {
+  try {
+    const snapshot = await readSnapshot(req.profileId);
+    res.json({ success: true, data: snapshot.encryption ?? null });
+  } catch (error) {
+    console.error('[API] Encryption info error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+}
+
 // Export for use with Express
 export default saveDataHandler;
 
@@ -258,16 +196,31 @@ export default saveDataHandler;
 import express from 'express';
 
 if (import.meta.url === `file://${process.argv[1]}`) {
+  await migrateLegacyDataDir();
+
   const app = express();
+  if (process.env.API_TRUST_PROXY) {
+    // Needed behind a reverse proxy so login rate limiting sees client addresses
+    app.set('trust proxy', process.env.API_TRUST_PROXY);
+  }
 
   // Middleware
   app.use(express.json({ limit: '10mb' }));
 
-  // CORS for development
+  // CORS: credentials are only sent to explicitly allowed origins
+  const allowedOrigins = new Set(
+    (process.env.API_CORS_ORIGINS ?? '').split(',').map((origin) => origin.trim()).filter(Boolean)
+  );
   app.use((req, res, next) => {
-    res.header('Access-Control-Allow-Origin', '*');
-    res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type');
+    const origin = req.get('Origin');
+    if (origin && allowedOrigins.has(origin)) {
+      res.header('Access-Control-Allow-Origin', origin);
+      res.header('Access-Control-Allow-Credentials', 'true');
+      res.header('Vary', 'Origin');
+    }
+    res.header('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, If-Match');
+    res.header('Access-Control-Expose-Headers', 'ETag');
     if (req.method === 'OPTIONS') {
       return res.sendStatus(200);
     }
@@ -276,18 +229,38 @@ if (import.meta.url === `file://${process.argv[1]}`) {
 
   // Router scoped under /api
   const api = express.Router();
-  api.get('/app-data', loadDataHandler);
-  api.post('/app-data', saveDataHandler);
-  api.post('/save-data', saveDataHandler); // legacy
   api.get('/health', (req, res) => {
     res.json({ status: 'ok', service: 'mood-pharma-api' });
   });
+  api.use(createAuthRouter());
+  api.use(requireAuth);
+  api.use(createProfileRouter());
+
+  // Data routes, mounted once per profile and once for the default profile
+  const data = express.Router();
+  data.get('/app-data', loadDataHandler);
+  data.post('/app-data', saveDataHandler);
+  data.post('/save-data', saveDataHandler); // legacy
+  data.get('/encryption', encryptionInfoHandler);
+  data.use(createEntityRouter());
+  data.use(createBackupRouter());
+  data.use(createImportRouter());
+  data.use(createHealthRouter());
+  api.use('/profiles/:profileId', resolveProfile, data);
+  api.use(useDefaultProfile, data);
   app.use('/api', api);
 
   const PORT = process.env.API_PORT || 8113;
   const server = app.listen(PORT, () => {
     console.log(`[API] Server running on http://localhost:${PORT}`);
+    console.log(`[API] POST /api/auth/{setup,login,logout,password}, GET /api/auth/session - Authentication`);
+    console.log(`[API] GET|POST|PATCH|DELETE /api/profiles - Profiles; data routes also under /api/profiles/:profileId`);
     console.log(`[API] POST /api/save-data - Save application data`);
+    console.log(`[API] GET|POST|PATCH|DELETE /api/{medications,doses,mood-entries,cognitive-tests,lab-levels,physiology-records,dose-schedules} - Entity CRUD`);
+    console.log(`[API] GET /api/backups, POST /api/backups/:id/restore - Backup management`);
+    console.log(`[API] POST /api/import - Import an exported snapshot (merge or replace)`);
+    console.log(`[API] POST /api/health/import, GET /api/health/records - Health data (Samsung, Apple Health, Google Fit, Health Connect)`);
+    console.log(`[API] GET /api/encryption - Key-derivation parameters of encrypted data`);
     console.log(`[API] GET /api/health - Health check`);
   });
 
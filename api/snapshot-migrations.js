@@ -0,0 +1,194 @@
+/**
+ * Snapshot Migrations
+ *
+ * Versioned upgrades for AppDataSnapshot files. Each migration takes a
+ * snapshot at `from` and returns a new one at `to`; migrateSnapshot() runs
+ * them in order until the snapshot reaches CURRENT_SCHEMA_VERSION.
+ *
+ * Runs on the server when reading the snapshot, backups and imports, and on
+ * the client inside normalizeSnapshot(), so every old file can still be
+ * loaded. Migrations must be pure: never mutate their input.
+ *
+ * Adding a migration: append it to SNAPSHOT_MIGRATIONS, bump
+ * CURRENT_SCHEMA_VERSION and add a fixture at the old version to the tests.
+ */
+
+export const BASE_SCHEMA_VERSION = '1.0.0';
+export const CURRENT_SCHEMA_VERSION = '1.5.0';
+
+const COLLECTIONS = ['medications', 'doses', 'moodEntries', 'cognitiveTests'];
+const DEFAULT_RANGE_UNIT = 'ng/mL';
+
+const isFiniteNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+function mapCollection(snapshot, key, transform) {
+  return Array.isArray(snapshot[key]) ? snapshot[key].map(transform) : snapshot[key];
+}
+
+/**
+ * 1.0.0 → 1.1.0: records carry a version for conflict detection.
+ * Files from before cognitive tests were synced get an empty collection.
+ */
+function addRecordVersions(snapshot) {
+  const next = { ...snapshot, cognitiveTests: snapshot.cognitiveTests ?? [] };
+  for (const key of COLLECTIONS) {
+    next[key] = mapCollection(next, key, (record) =>
+      record && record.updatedAt === undefined && record.createdAt !== undefined
+        ? { ...record, updatedAt: record.createdAt }
+        : record
+    );
+  }
+  return next;
+}
+
+function canonicalTherapeuticRange(medication) {
+  const fromObject = medication.therapeuticRange;
+  const unit = fromObject?.unit ?? medication.therapeuticRangeUnit ?? DEFAULT_RANGE_UNIT;
+
+  let min;
+  let max;
+  if (isFiniteNumber(fromObject?.min) && isFiniteNumber(fromObject?.max)) {
+    [min, max] = [fromObject.min, fromObject.max];
+  } else if (isFiniteNumber(medication.therapeuticRangeMin) && isFiniteNumber(medication.therapeuticRangeMax)) {
+    [min, max] = [medication.therapeuticRangeMin, medication.therapeuticRangeMax];
+  } else {
+    return undefined;
+  }
+  return { min: Math.min(min, max), max: Math.max(min, max), unit };
+}
+
+/**
+ * 1.1.0 → 1.2.0: medications written by older forms and seeds use either
+ * `therapeuticRange` or the flat `therapeuticRangeMin/Max/Unit` fields, and
+ * either `category` or `class`. The object form and `category` win when both
+ * are present; the duplicate fields are rewritten to match.
+ */
+function canonicaliseMedicationFields(snapshot) {
+  return {
+    ...snapshot,
+    medications: mapCollection(snapshot, 'medications', (medication) => {
+      if (!medication) return medication;
+      const next = { ...medication };
+
+      const range = canonicalTherapeuticRange(medication);
+      if (range) {
+        next.therapeuticRange = range;
+        next.therapeuticRangeMin = range.min;
+        next.therapeuticRangeMax = range.max;
+        next.therapeuticRangeUnit = range.unit;
+      }
+
+      const category = medication.category ?? medication.class;
+      if (category !== undefined) {
+        next.category = category;
+        next.class = category;
+      }
+
+      return next;
+    })
+  };
+}
+
+/**
+ * 1.2.0 → 1.3.0: measured blood levels (therapeutic drug monitoring)
+ */
+function addLabLevels(snapshot) {
+  return { ...snapshot, labLevels: snapshot.labLevels ?? [] };
+}
+
+/**
+ * 1.3.0 → 1.4.0: dated physiological records (weight, renal and hepatic
+ * function) used by the PK model
+ */
+function addPhysiologyRecords(snapshot) {
+  return { ...snapshot, physiologyRecords: snapshot.physiologyRecords ?? [] };
+}
+
+/**
+ * 1.4.0 → 1.5.0: titration and taper schedules with dated dose steps
+ */
+function addDoseSchedules(snapshot) {
+  return { ...snapshot, doseSchedules: snapshot.doseSchedules ?? [] };
+}
+
+export const SNAPSHOT_MIGRATIONS = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Add updatedAt record versions and the cognitiveTests collection',
+    migrate: addRecordVersions
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Canonicalise medication therapeutic range and category/class fields',
+    migrate: canonicaliseMedicationFields
+  },
+  {
+    from: '1.2.0',
+    to: '1.3.0',
+    description: 'Add the labLevels collection',
+    migrate: addLabLevels
+  },
+  {
+    from: '1.3.0',
+    to: '1.4.0',
+    description: 'Add the physiologyRecords collection',
+    migrate: addPhysiologyRecords
+  },
+  {
+    from: '1.4.0',
+    to: '1.5.0',
+    description: 'Add the doseSchedules collection',
+    migrate: addDoseSchedules
+  }
+];
+
+/**
+ * Compare dotted version strings numerically (-1, 0 or 1)
+ */
+export function compareVersions(a, b) {
+  const left = String(a).split('.').map((part) => parseInt(part, 10) || 0);
+  const right = String(b).split('.').map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff < 0 ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Schema version of a snapshot. Files without one, or older than the first
+ * tracked version, are treated as BASE_SCHEMA_VERSION.
+ */
+export function getSchemaVersion(snapshot) {
+  const version = typeof snapshot?.version === 'string' ? snapshot.version : BASE_SCHEMA_VERSION;
+  return compareVersions(version, BASE_SCHEMA_VERSION) < 0 ? BASE_SCHEMA_VERSION : version;
+}
+
+/**
+ * Upgrade `snapshot` to CURRENT_SCHEMA_VERSION.
+ * Returns { snapshot, applied } where `applied` lists the versions migrated to.
+ * Snapshots from a newer app version are returned unchanged.
+ */
+export function migrateSnapshot(snapshot) {
+  if (!snapshot || typeof snapshot !== 'object') {
+    return { snapshot, applied: [] };
+  }
+
+  let version = getSchemaVersion(snapshot);
+  if (compareVersions(version, CURRENT_SCHEMA_VERSION) >= 0) {
+    return { snapshot, applied: [] };
+  }
+
+  let current = snapshot;
+  const applied = [];
+  for (const migration of SNAPSHOT_MIGRATIONS) {
+    if (compareVersions(version, migration.to) >= 0) continue;
+    current = { ...migration.migrate(current), version: migration.to };
+    version = migration.to;
+    applied.push(migration.to);
+  }
+
+  return { snapshot: current, applied };
+}
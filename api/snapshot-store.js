@@ -0,0 +1,253 @@
+/**
+ * Snapshot Store
+ *
+ * File-backed persistence for the AppDataSnapshot of each profile. Shared by
+ * the whole-snapshot handlers in save-data.js and the per-entity routes in
+ * entity-routes.js.
+ *
+ * Everything lives under DATA_DIR (data/app at the project root unless the
+ * DATA_DIR variable says otherwise), outside public/ so neither Vite nor a
+ * build serves it: the default profile at DATA_DIR/app-data.json and every
+ * other profile in its own directory under DATA_DIR/profiles/<id>/. All
+ * functions take the profile id first, so no call can reach another profile's
+ * data by accident.
+ *
+ * Older versions kept this data in public/data; migrateLegacyDataDir() moves
+ * it over when the server starts.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { CURRENT_SCHEMA_VERSION, migrateSnapshot } from './snapshot-migrations.js';
+
+// Get __dirname equivalent for ESM
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '../data/app');
+export const DEFAULT_PROFILE_ID = 'default';
+
+/** Where the data lived while it was inside Vite's static root */
+const LEGACY_DATA_DIR = path.join(__dirname, '../public/data');
+
+/**
+ * Entries of public/data that belong to the server: snapshots and backups of
+ * the default profile, the profile registry, the other profiles, and the
+ * default profile's imported health days. Reports the analysis scripts write
+ * to public/data/health are left where the app fetches them.
+ */
+const LEGACY_ENTRY_PATTERNS = [/^app-data(-[\dTZ-]+)?\.json$/, /^profiles\.json$/, /^profiles$/];
+const LEGACY_HEALTH_DAY_PATTERN = /^\d{4}-\d{2}-\d{2}\.json$/;
+
+const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+export function isValidProfileId(profileId) {
+  return typeof profileId === 'string' && PROFILE_ID_PATTERN.test(profileId);
+}
+
+/**
+ * Directory holding a profile's snapshot and backups
+ */
+export function profileDir(profileId) {
+  if (!isValidProfileId(profileId)) {
+    throw new Error(`Invalid profile id: ${profileId}`);
+  }
+  return profileId === DEFAULT_PROFILE_ID ? DATA_DIR : path.join(DATA_DIR, 'profiles', profileId);
+}
+
+async function pathExists(target) {
+  try {
+    await fs.access(target);
+    return true;
+  } catch (error) {
+    if (error.code === 'ENOENT') return false;
+    throw error;
+  }
+}
+
+/**
+ * Move a file or directory tree, leaving anything already at the target in
+ * place. Returns how many files were moved.
+ */
+async function moveEntry(from, to) {
+  const stats = await fs.stat(from);
+  if (stats.isDirectory()) {
+    let moved = 0;
+    await fs.mkdir(to, { recursive: true });
+    for (const name of await fs.readdir(from)) {
+      moved += await moveEntry(path.join(from, name), path.join(to, name));
+    }
+    await fs.rmdir(from).catch(() => undefined); // Kept if something was left behind
+    return moved;
+  }
+  if (await pathExists(to)) {
+    console.warn(`[API] Not migrating ${from}: ${to} already exists`);
+    return 0;
+  }
+  await fs.mkdir(path.dirname(to), { recursive: true });
+  try {
+    await fs.rename(from, to);
+  } catch (error) {
+    if (error.code !== 'EXDEV') throw error;
+    await fs.copyFile(from, to);
+    await fs.unlink(from);
+  }
+  return 1;
+}
+
+/**
+ * Move data written by older versions from public/data to DATA_DIR. Returns
+ * how many files were moved.
+ */
+export async function migrateLegacyDataDir() {
+  if (path.resolve(LEGACY_DATA_DIR) === path.resolve(DATA_DIR)) return 0;
+
+  let names;
+  try {
+    names = await fs.readdir(LEGACY_DATA_DIR);
+  } catch (error) {
+    if (error.code === 'ENOENT') return 0;
+    throw error;
+  }
+
+  let moved = 0;
+  for (const name of names) {
+    if (LEGACY_ENTRY_PATTERNS.some((pattern) => pattern.test(name))) {
+      moved += await moveEntry(path.join(LEGACY_DATA_DIR, name), path.join(DATA_DIR, name));
+    }
+  }
+
+  const legacyHealthDir = path.join(LEGACY_DATA_DIR, 'health');
+  const healthNames = await fs.readdir(legacyHealthDir).catch(() => []);
+  for (const name of healthNames.filter((entry) => LEGACY_HEALTH_DAY_PATTERN.test(entry))) {
+    moved += await moveEntry(path.join(legacyHealthDir, name), path.join(DATA_DIR, 'health', name));
+  }
+
+  if (moved > 0) {
+    console.log(`[API] Moved ${moved} data file(s) from ${LEGACY_DATA_DIR} to ${DATA_DIR}`);
+  }
+  return moved;
+}
+
+function snapshotFile(profileId) {
+  return path.join(profileDir(profileId), 'app-data.json');
+}
+
+export function nowISO() {
+  return new Date().toISOString();
+}
+
+export function createEmptySnapshot() {
+  return {
+    version: CURRENT_SCHEMA_VERSION,
+    revision: 0,
+    lastUpdated: nowISO(),
+    medications: [],
+    doses: [],
+    moodEntries: [],
+    cognitiveTests: [],
+    labLevels: [],
+    physiologyRecords: [],
+    doseSchedules: []
+  };
+}
+
+export async function ensureDataFileExists(profileId) {
+  await fs.mkdir(profileDir(profileId), { recursive: true });
+  try {
+    await fs.access(snapshotFile(profileId));
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      await fs.writeFile(snapshotFile(profileId), JSON.stringify(createEmptySnapshot(), null, 2), 'utf8');
+    } else {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Upgrade a snapshot read from disk or received from a client to the current
+ * schema version
+ */
+export function upgradeSnapshot(snapshot, source = 'snapshot') {
+  const { snapshot: migrated, applied } = migrateSnapshot(snapshot);
+  if (applied.length > 0) {
+    console.log(`[API] Migrated ${source} from ${snapshot.version ?? 'unversioned'} to ${applied.join(' → ')}`);
+  }
+  return migrated;
+}
+
+export async function readSnapshot(profileId) {
+  await ensureDataFileExists(profileId);
+  try {
+    const fileContent = await fs.readFile(snapshotFile(profileId), 'utf8');
+    return upgradeSnapshot(JSON.parse(fileContent));
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      const empty = createEmptySnapshot();
+      await fs.writeFile(snapshotFile(profileId), JSON.stringify(empty, null, 2), 'utf8');
+      return empty;
+    }
+    throw error;
+  }
+}
+
+export async function writeSnapshot(profileId, snapshot) {
+  await fs.mkdir(profileDir(profileId), { recursive: true });
+  await fs.writeFile(snapshotFile(profileId), JSON.stringify(snapshot, null, 2), 'utf8');
+  return snapshot;
+}
+
+const writeQueues = new Map();
+
+/**
+ * Current revision of a snapshot; files written before revisions existed count as 0
+ */
+export function getRevision(snapshot) {
+  return Number.isInteger(snapshot?.revision) ? snapshot.revision : 0;
+}
+
+/**
+ * Parse an If-Match header value (`"12"`, `W/"12"` or `12`) into a number
+ */
+export function parseIfMatch(header) {
+  if (typeof header !== 'string' || header.trim() === '' || header.trim() === '*') {
+    return undefined;
+  }
+  const value = Number(header.trim().replace(/^W\//, '').replace(/"/g, ''));
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Serialise read-modify-write cycles on a profile's snapshot file.
+ * The mutator receives the current snapshot and returns { snapshot, result };
+ * the snapshot is persisted with its revision bumped and result is handed
+ * back to the caller.
+ */
+export function updateSnapshot(profileId, mutator) {
+  const queue = writeQueues.get(profileId) ?? Promise.resolve();
+  const run = queue.then(async () => {
+    const current = await readSnapshot(profileId);
+    const { snapshot, result } = await mutator(current);
+    if (snapshot) {
+      await writeSnapshot(profileId, { ...snapshot, revision: getRevision(current) + 1 });
+    }
+    return result;
+  });
+
+  // Keep the queue alive even if one update fails
+  writeQueues.set(profileId, run.catch(() => undefined));
+  return run;
+}
+
+/**
+ * Run `task` once every pending write on the profile has finished, holding
+ * off new ones (used to delete a profile)
+ */
+export function withProfileLock(profileId, task) {
+  const queue = writeQueues.get(profileId) ?? Promise.resolve();
+  const run = queue.then(task);
+  writeQueues.set(profileId, run.catch(() => undefined));
+  return run;
+}
@@ -0,0 +1,49 @@
+/**
+ * Payload Validation
+ *
+ * Shared checks for snapshot and entity payloads received by the API, backed
+ * by the zod schemas in entity-schemas.js. Results are
+ * `{ valid, error, errors }`: `error` is a one-line summary and `errors` lists
+ * every failing field as `{ path, message }` for the 400 response.
+ */
+
+import { timestampSchema, validateRecord, validateSnapshot } from './entity-schemas.js';
+
+/**
+ * Validate timestamp
+ * Returns true if timestamp is a valid number within reasonable range
+ */
+export function validateTimestamp(ts) {
+  return timestampSchema.safeParse(ts).success;
+}
+
+/**
+ * Validate data structure
+ */
+export function validateData(data) {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { valid: false, error: 'Data must be an object', errors: [{ path: '', message: 'Data must be an object' }] };
+  }
+  return validateSnapshot(data);
+}
+
+/**
+ * Validate a single entity record written through the per-entity routes
+ */
+export function validateEntity(collection, record) {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { valid: false, error: 'Record must be an object', errors: [{ path: '', message: 'Record must be an object' }] };
+  }
+  return validateRecord(collection, record);
+}
+
+/**
+ * Send a validation failure as 400 with field-level errors
+ */
+export function sendValidationError(res, validation) {
+  return res.status(400).json({
+    success: false,
+    error: validation.error,
+    errors: validation.errors
+  });
+}
@@ -240,29 +240,153 @@ function isNavigationRequest(request) {
 
 /**
  * Background Sync - for dose/mood logging when offline
+ * The outbox lives in IndexedDB (MoodPharmaOutboxDB) and is replayed by the
+ * app itself; the worker only wakes open windows up once connectivity returns.
+ * With no window open, the app replays on its next start.
  */
 self.addEventListener('sync', (event) => {
   console.log('[SW] Background sync event:', event.tag);
 
-  if (event.tag === 'sync-mood-logs') {
-    event.waitUntil(syncMoodLogs());
-  } else if (event.tag === 'sync-medication-logs') {
-    event.waitUntil(syncMedicationLogs());
+  if (event.tag === 'sync-outbox') {
+    event.waitUntil(notifyClientsToReplay());
   }
 });
 
-async function syncMoodLogs() {
-  console.log('[SW] Syncing mood logs...');
-  // IndexedDB sync would happen here
-  // The app will handle this via Dexie
-  return Promise.resolve();
+async function notifyClientsToReplay() {
+  const clientList = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  console.log(`[SW] Asking ${clientList.length} client(s) to replay the outbox`);
+  clientList.forEach((client) => client.postMessage({ type: 'REPLAY_OUTBOX' }));
 }
 
-async function syncMedicationLogs() {
-  console.log('[SW] Syncing medication logs...');
-  // IndexedDB sync would happen here
-  // The app will handle this via Dexie
-  return Promise.resolve();
+/**
+ * Reminders - dose and mood check-in notifications planned by the app
+ * (src/core/services/reminders.ts). "Tomei" queues the dose in the same
+ * outbox as offline writes, so the app sends it (encrypting it if needed) on
+ * its next replay; "Adiar" shows the reminder again later, through a
+ * Notification Trigger or else through an open window's timers. The worker
+ * never waits for a snooze itself: the browser stops idle workers long before
+ * it would fire.
+ */
+const OUTBOX_DB = 'MoodPharmaOutboxDB';
+const OUTBOX_STORE = 'mutations';
+const REMINDER_ICON = '/icons/icon-192x192.svg';
+
+self.addEventListener('notificationclick', (event) => {
+  const { notification, action } = event;
+  const reminder = notification.data;
+  notification.close();
+
+  if (!reminder || !String(notification.tag).startsWith('reminder:')) {
+    event.waitUntil(focusApp());
+  } else if (action === 'taken' && reminder.kind === 'dose') {
+    event.waitUntil(logReminderDose(reminder));
+  } else if (action === 'snooze') {
+    event.waitUntil(snoozeReminder(notification, reminder));
+  } else {
+    event.waitUntil(focusApp());
+  }
+});
+
+async function focusApp() {
+  const clientList = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (clientList.length > 0) {
+    return clientList[0].focus();
+  }
+  return self.clients.openWindow('/');
+}
+
+/**
+ * Open the outbox only if the app already created it; never create or
+ * upgrade it from here
+ */
+function openOutbox() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB);
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onsuccess = () => {
+      const db = request.result;
+      if (db.objectStoreNames.contains(OUTBOX_STORE)) {
+        resolve(db);
+      } else {
+        db.close();
+        reject(new Error('Outbox not initialised'));
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function logReminderDose(reminder) {
+  const now = Date.now();
+  const record = {
+    id: self.crypto.randomUUID(),
+    medicationId: reminder.medicationId,
+    timestamp: now,
+    doseAmount: reminder.amount,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  try {
+    const db = await openOutbox();
+    await new Promise((resolve, reject) => {
+      const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+      tx.objectStore(OUTBOX_STORE).add({
+        profileId: reminder.profileId,
+        write: { op: 'create', collection: 'doses', id: record.id, record },
+        createdAt: now,
+        attempts: 0
+      });
+      tx.oncomplete = resolve;
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+  } catch (error) {
+    console.error('[SW] Could not queue reminder dose:', error);
+    return focusApp();
+  }
+
+  if (self.registration.sync) {
+    await self.registration.sync.register('sync-outbox').catch(() => {});
+  }
+  await notifyClientsToReplay();
+  return self.registration.showNotification('Dose registrada', {
+    tag: `${reminder.id}:done`,
+    body: `${reminder.amount} mg às ${new Date(now).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+    icon: REMINDER_ICON,
+    silent: true
+  });
+}
+
+async function snoozeReminder(notification, reminder) {
+  const until = Date.now() + (reminder.snoozeMinutes || 10) * 60 * 1000;
+  const options = {
+    tag: notification.tag,
+    body: notification.body,
+    icon: REMINDER_ICON,
+    badge: REMINDER_ICON,
+    requireInteraction: notification.requireInteraction,
+    actions: notification.actions,
+    data: reminder
+  };
+
+  if ('TimestampTrigger' in self) {
+    return self.registration.showNotification(notification.title, { ...options, showTrigger: new self.TimestampTrigger(until) });
+  }
+
+  // Open windows keep the timer
+  const clientList = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (clientList.length > 0) {
+    clientList.forEach((client) => client.postMessage({ type: 'REMINDER_SNOOZED', reminder, until }));
+    return;
+  }
+
+  // Nothing can fire later: keep the reminder up and say why
+  return self.registration.showNotification(notification.title, {
+    ...options,
+    body: `${notification.body}\nPara adiar, deixe o app aberto.`,
+    actions: (notification.actions || []).filter((item) => item.action !== 'snooze')
+  });
 }
 
 /**
@@ -1,27 +1,44 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Toaster } from '@/shared/ui/sonner';
 import { AppLayout, NavigationTab } from '@/shared/layouts';
 import { isAuthenticated } from '@/features/auth/services/simple-auth';
+import { LockScreen } from '@/features/auth/components/LockScreen';
+import { isEncryptionLocked, subscribeEncryption } from '@/core/services/encryption-session';
+import { getServerAuthState, refreshServerAuth, subscribeServerAuth } from '@/core/services/auth-client';
 import { useMedications } from '@/hooks/use-medications';
 import { useDoses } from '@/hooks/use-doses';
 import { useMoodEntries } from '@/hooks/use-mood-entries';
 import { useCognitiveTests } from '@/hooks/use-cognitive-tests';
 import { useInitialSetup } from '@/hooks/use-initial-setup';
+import { useOutboxSync } from '@/hooks/use-offline-outbox';
+import { useReminderScheduler } from '@/hooks/use-reminders';
 import DashboardPage from '@/features/analytics/pages/DashboardPage';
 import MedicationsPage from '@/features/medications/pages/MedicationsPage';
 import MoodPage from '@/features/mood/pages/MoodPage';
 import CognitivePage from '@/features/cognitive/pages/CognitivePage';
+import HealthPage from '@/features/health-data/pages/HealthPage';
 import { PWAInstallPrompt } from '@/shared/components/PWAInstallPrompt';
+import { SyncConflictDialog } from '@/shared/components/SyncConflictDialog';
 
 function App() {
   const [activeTab, setActiveTab] = useState<NavigationTab>('dashboard');
   const [authenticated, setAuthenticated] = useState(() => isAuthenticated());
+  const encryptionLocked = useSyncExternalStore(subscribeEncryption, isEncryptionLocked);
+  const serverAuth = useSyncExternalStore(subscribeServerAuth, getServerAuthState);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    refreshServerAuth().catch((error) => console.warn('[Auth] Session check failed:', error));
+  }, []);
 
   const { medications = [], isLoading: medicationsLoading } = useMedications();
   const { doses = [], isLoading: dosesLoading } = useDoses();
   const { moodEntries = [], isLoading: moodLoading } = useMoodEntries();
   const { cognitiveTests = [], isLoading: cognitiveLoading } = useCognitiveTests();
   const { isSeeding } = useInitialSetup();
+  useOutboxSync();
+  useReminderScheduler();
 
   const isInitializing = useMemo(() => {
     return medicationsLoading || dosesLoading || moodLoading || cognitiveLoading || isSeeding;
@@ -49,6 +66,8 @@ function App() {
         return <MedicationsPage />;
       case 'mood':
         return <MoodPage />;
+      case 'health':
+        return <HealthPage />;
       case 'cognitive':
         return <CognitivePage />;
       default:
@@ -63,6 +82,20 @@ function App() {
     }
   };
 
+  // The server refuses data without a session, and encrypted data can't be
+  // read until the key is derived again (cold start)
+  if (serverAuth === 'login-required' || serverAuth === 'setup-required' || encryptionLocked) {
+    return (
+      <LockScreen
+        mode={serverAuth === 'setup-required' ? 'setup' : 'login'}
+        onSuccess={() => {
+          setAuthenticated(true);
+          queryClient.invalidateQueries();
+        }}
+      />
+    );
+  }
+
   // Check if lock screen should be shown
   // TEMPORARILY DISABLED FOR TESTING
   // if (isLockEnabled() && !authenticated) {
@@ -73,6 +106,7 @@ function App() {
     <>
       <Toaster />
       <PWAInstallPrompt />
+      <SyncConflictDialog />
       <AppLayout
         activeTab={activeTab}
         onTabChange={setActiveTab}
@@ -1,4 +1,6 @@
-import { createContext, useContext, ReactNode } from 'react';
+import { createContext, useContext, useSyncExternalStore, ReactNode } from 'react';
+import { getServerAuthState, subscribeServerAuth, type ServerAuthState } from '@/core/services/auth-client';
+import { logout as endSession } from '@/features/auth/services/simple-auth';
 
 interface AuthContextType {
   isAuthenticated: boolean;
@@ -9,23 +11,35 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
+/**
+ * Only a 401 from the server counts as signed out: while offline the state
+ * stays 'unknown' and writes go to the outbox
+ */
+function isSignedIn(state: ServerAuthState): boolean {
+  return state !== 'login-required' && state !== 'setup-required';
+}
+
+/**
+ * Exposes the server session (see auth-client.ts). While it is missing App
+ * shows the lock screen, so protected actions simply don't run.
+ */
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const logout = () => {
-    // No-op in personal mode
-  };
+  const serverAuth = useSyncExternalStore(subscribeServerAuth, getServerAuthState);
+  const isAuthenticated = isSignedIn(serverAuth);
 
   const requireAuth = (callback: () => void) => {
-    // Always allow in personal mode
-    callback();
+    if (isSignedIn(getServerAuthState())) {
+      callback();
+    }
   };
 
   return (
     <AuthContext.Provider
       value={{
-        isAuthenticated: true,
+        isAuthenticated,
         requireAuth,
-        logout,
-        checkAuth: () => true,
+        logout: endSession,
+        checkAuth: () => isSignedIn(getServerAuthState()),
       }}
     >
       {children}
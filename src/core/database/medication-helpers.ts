@@ -114,6 +114,11 @@ export function createMedicationRecord(payload: MedicationDraft, timestamp: numb
     therapeuticRangeMin: payload.therapeuticRangeMin,
     therapeuticRangeMax: payload.therapeuticRangeMax,
     therapeuticRangeUnit: payload.therapeuticRangeUnit,
+    scheduledTime: payload.scheduledTime,
+    scheduledDays: payload.scheduledDays,
+    pkVariability: payload.pkVariability,
+    formulation: payload.formulation,
+    elimination: payload.elimination,
     notes: payload.notes,
     createdAt: payload.createdAt ?? timestamp,
     updatedAt: payload.updatedAt ?? timestamp
@@ -0,0 +1,38 @@
+/**
+ * Active Profile
+ *
+ * Which profile's data this device is looking at. Every data request is
+ * scoped to it through profileApiBase(); switching profiles must also reset
+ * the cached snapshot (see useSwitchProfile).
+ */
+
+export const DEFAULT_PROFILE_ID = 'default';
+export const DEFAULT_BODY_WEIGHT = 70;
+
+const ACTIVE_PROFILE_KEY = 'active_profile_id';
+const API_BASE = '/mood/api';
+
+const listeners = new Set<() => void>();
+
+export function subscribeActiveProfile(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getActiveProfileId(): string {
+  return localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE_ID;
+}
+
+export function setActiveProfileId(profileId: string) {
+  if (profileId === getActiveProfileId()) return;
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * API prefix for a profile's data routes; the default profile keeps the
+ * unprefixed routes
+ */
+export function profileApiBase(profileId: string = getActiveProfileId()): string {
+  return profileId === DEFAULT_PROFILE_ID ? API_BASE : `${API_BASE}/profiles/${encodeURIComponent(profileId)}`;
+}
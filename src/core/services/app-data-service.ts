@@ -1,32 +1,129 @@
-import type { Medication, MedicationDose, MoodEntry, CognitiveTest } from '@/shared/types';
+import type {
+  Medication,
+  MedicationDose,
+  MoodEntry,
+  CognitiveTest,
+  LabLevel,
+  PhysiologyRecord,
+  DoseSchedule,
+  Profile
+} from '@/shared/types';
+import { CURRENT_SCHEMA_VERSION, migrateSnapshot } from '@/core/services/snapshot-migrations';
+import { validateSnapshot, type FieldError } from '@/core/services/entity-schemas';
+import {
+  EncryptionLockedError,
+  decodeRecord,
+  decodeSnapshot,
+  encodeRecord,
+  encodeSnapshot,
+  isEncryptingWrites
+} from '@/core/services/encryption-session';
+import type { EncryptionInfo } from '@/core/services/snapshot-crypto';
+import { AuthRequiredError, apiFetch } from '@/core/services/auth-client';
+import { profileApiBase } from '@/core/services/active-profile';
 
 export interface AppDataSnapshot {
-  version: string;
+  version: string; // Schema version, see snapshot-migrations
+  revision: number; // Server write counter, used as the snapshot ETag
   lastUpdated: string;
   medications: Medication[];
   doses: MedicationDose[];
   moodEntries: MoodEntry[];
   cognitiveTests: CognitiveTest[];
+  labLevels: LabLevel[];
+  physiologyRecords: PhysiologyRecord[];
+  doseSchedules: DoseSchedule[];
 }
 
-const API_ENDPOINT = '/mood/api/app-data';
+/**
+ * Every data route belongs to a profile; `profileId` defaults to the active one
+ */
+function dataUrl(path: string, profileId?: string): string {
+  return `${profileApiBase(profileId)}/${path}`;
+}
 
 function nowIso(): string {
   return new Date().toISOString();
 }
 
-export function normalizeSnapshot(snapshot?: Partial<AppDataSnapshot>): AppDataSnapshot {
-  return {
-    version: snapshot?.version ?? '1.0.0',
+/**
+ * Fill in defaults and upgrade older schema versions to the current one.
+ * Records failing the entity schemas are kept (dropping them here would lose
+ * data on the next save) but reported.
+ */
+export function normalizeSnapshot(input?: Partial<AppDataSnapshot>): AppDataSnapshot {
+  const snapshot = input ? migrateSnapshot(input).snapshot : undefined;
+  const normalized: AppDataSnapshot = {
+    version: snapshot?.version ?? CURRENT_SCHEMA_VERSION,
+    revision: snapshot?.revision ?? 0,
     lastUpdated: snapshot?.lastUpdated ?? nowIso(),
     medications: snapshot?.medications ?? [],
     doses: snapshot?.doses ?? [],
     moodEntries: snapshot?.moodEntries ?? [],
-    cognitiveTests: snapshot?.cognitiveTests ?? []
+    cognitiveTests: snapshot?.cognitiveTests ?? [],
+    labLevels: snapshot?.labLevels ?? [],
+    physiologyRecords: snapshot?.physiologyRecords ?? [],
+    doseSchedules: snapshot?.doseSchedules ?? []
   };
+
+  if (snapshot) {
+    const validation = validateSnapshot(normalized);
+    if (!validation.valid) {
+      console.warn('[AppData] Snapshot contains invalid records:', validation.errors);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Raised when the server rejects a write with 409 because another device
+ * changed the data first. `current` carries the server's version (the whole
+ * snapshot for POST /app-data, the single record for entity routes).
+ */
+export class AppDataConflictError<T = unknown> extends Error {
+  readonly current: T;
+
+  constructor(message: string, current: T) {
+    super(message);
+    this.name = 'AppDataConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * Raised when a record fails the entity schemas, either before it is sent or
+ * when the server answers 400. `errors` carries the field paths.
+ */
+export class EntityValidationError extends Error {
+  readonly errors: FieldError[];
+
+  constructor(message: string, errors: FieldError[]) {
+    super(message);
+    this.name = 'EntityValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Version of a single record as tracked by the server (sent back as If-Match)
+ */
+export function recordVersion(record: { updatedAt?: number; createdAt?: number }): number {
+  return record.updatedAt ?? record.createdAt ?? 0;
 }
 
 async function parseResponse(response: Response) {
+  if (response.status === 409) {
+    const payload = await response.json().catch(() => null);
+    throw new AppDataConflictError(payload?.error ?? 'Conflict', payload?.data);
+  }
+
+  if (response.status === 400) {
+    const payload = await response.clone().json().catch(() => null);
+    if (Array.isArray(payload?.errors)) {
+      throw new EntityValidationError(payload.error ?? 'Invalid data', payload.errors);
+    }
+  }
+
   if (!response.ok) {
     const text = await response.text().catch(() => '');
     throw new Error(`HTTP ${response.status}: ${response.statusText} - ${text}`);
@@ -36,32 +133,370 @@ async function parseResponse(response: Response) {
   return payload?.data ?? payload;
 }
 
-export async function fetchAppData(): Promise<AppDataSnapshot> {
-  const response = await fetch(API_ENDPOINT, {
+export async function fetchAppData(profileId?: string): Promise<AppDataSnapshot> {
+  const response = await apiFetch(dataUrl('app-data', profileId), {
     cache: 'no-store',
     headers: { Accept: 'application/json' }
   });
 
   const raw = await parseResponse(response);
-  return normalizeSnapshot(raw);
+  return normalizeSnapshot(await decodeSnapshot(raw));
 }
 
-export async function saveAppData(snapshot: AppDataSnapshot): Promise<AppDataSnapshot> {
+/**
+ * Save the whole snapshot. `snapshot.revision` is sent as If-Match, so the
+ * server answers with AppDataConflictError when it was changed meanwhile.
+ */
+export async function saveAppData(snapshot: AppDataSnapshot, profileId?: string): Promise<AppDataSnapshot> {
   const payload = normalizeSnapshot({
     ...snapshot,
     lastUpdated: nowIso()
   });
 
-  const response = await fetch(API_ENDPOINT, {
+  const response = await apiFetch(dataUrl('app-data', profileId), {
     method: 'POST',
     headers: {
-      'Content-Type': 'application/json'
+      'Content-Type': 'application/json',
+      'If-Match': `"${payload.revision}"`
     },
-    body: JSON.stringify(payload)
+    body: JSON.stringify(await encodeSnapshot(payload))
   });
 
+  try {
+    const raw = await parseResponse(response);
+    return normalizeSnapshot(await decodeSnapshot(raw));
+  } catch (error) {
+    if (error instanceof AppDataConflictError) {
+      const current = await decodeSnapshot(error.current as Partial<AppDataSnapshot>);
+      throw new AppDataConflictError(error.message, normalizeSnapshot(current));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Per-entity collections exposed as REST resources by the API
+ */
+export type EntityCollection =
+  | 'medications'
+  | 'doses'
+  | 'moodEntries'
+  | 'cognitiveTests'
+  | 'labLevels'
+  | 'physiologyRecords'
+  | 'doseSchedules';
+
+export interface EntityRecordMap {
+  medications: Medication;
+  doses: MedicationDose;
+  moodEntries: MoodEntry;
+  cognitiveTests: CognitiveTest;
+  labLevels: LabLevel;
+  physiologyRecords: PhysiologyRecord;
+  doseSchedules: DoseSchedule;
+}
+
+const ENTITY_RESOURCES: Record<EntityCollection, string> = {
+  medications: 'medications',
+  doses: 'doses',
+  moodEntries: 'mood-entries',
+  cognitiveTests: 'cognitive-tests',
+  labLevels: 'lab-levels',
+  physiologyRecords: 'physiology-records',
+  doseSchedules: 'dose-schedules'
+};
+
+function entityUrl(collection: EntityCollection, id?: string, profileId?: string): string {
+  const collectionUrl = dataUrl(ENTITY_RESOURCES[collection], profileId);
+  return id ? `${collectionUrl}/${encodeURIComponent(id)}` : collectionUrl;
+}
+
+/**
+ * Parse an entity response, decrypting the record it returns (or the
+ * server's copy carried by a conflict)
+ */
+async function parseEntityResponse<K extends EntityCollection>(
+  collection: K,
+  response: Response
+): Promise<EntityRecordMap[K]> {
+  try {
+    const record = await parseResponse(response);
+    return record ? decodeRecord(collection, record) : record;
+  } catch (error) {
+    if (error instanceof AppDataConflictError && error.current) {
+      throw new AppDataConflictError(error.message, await decodeRecord(collection, error.current as EntityRecordMap[K]));
+    }
+    throw error;
+  }
+}
+
+async function fetchEntity<K extends EntityCollection>(
+  collection: K,
+  id: string,
+  profileId?: string
+): Promise<EntityRecordMap[K]> {
+  const response = await apiFetch(entityUrl(collection, id, profileId), {
+    cache: 'no-store',
+    headers: { Accept: 'application/json' }
+  });
+  return parseEntityResponse(collection, response);
+}
+
+export async function createEntity<K extends EntityCollection>(
+  collection: K,
+  record: EntityRecordMap[K],
+  profileId?: string
+): Promise<EntityRecordMap[K]> {
+  const response = await apiFetch(entityUrl(collection, undefined, profileId), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(await encodeRecord(collection, record))
+  });
+  return parseEntityResponse(collection, response);
+}
+
+function versionHeaders(baseVersion?: number): Record<string, string> {
+  return baseVersion === undefined ? {} : { 'If-Match': `"${baseVersion}"` };
+}
+
+/**
+ * Patch one record. Pass the version the edit was based on as `baseVersion`
+ * to have the server reject it with AppDataConflictError if it is stale.
+ *
+ * The server cannot merge into an encrypted record, so with encryption on the
+ * record is fetched, patched here and sent back whole.
+ */
+export async function updateEntity<K extends EntityCollection>(
+  collection: K,
+  id: string,
+  updates: Partial<EntityRecordMap[K]>,
+  baseVersion?: number,
+  profileId?: string
+): Promise<EntityRecordMap[K]> {
+  let body: unknown = updates;
+  if (isEncryptingWrites()) {
+    const current = await fetchEntity(collection, id, profileId);
+    if (baseVersion !== undefined && recordVersion(current) !== baseVersion) {
+      throw new AppDataConflictError('Record was modified by another device', current);
+    }
+    // Stamp the version here; the server keeps the one inside a whole record
+    body = await encodeRecord(collection, { ...current, ...updates, id, updatedAt: updates.updatedAt ?? Date.now() });
+  }
+
+  const response = await apiFetch(entityUrl(collection, id, profileId), {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json', ...versionHeaders(baseVersion) },
+    body: JSON.stringify(body)
+  });
+  return parseEntityResponse(collection, response);
+}
+
+export async function deleteEntity(
+  collection: EntityCollection,
+  id: string,
+  baseVersion?: number,
+  profileId?: string
+): Promise<void> {
+  const response = await apiFetch(entityUrl(collection, id, profileId), {
+    method: 'DELETE',
+    headers: versionHeaders(baseVersion)
+  });
+  await parseEntityResponse(collection, response);
+}
+
+export type AnyEntityRecord = EntityRecordMap[EntityCollection];
+
+/**
+ * Serialisable description of a single-record write. The same object is used
+ * to update the local cache, call the REST endpoint and sit in the offline
+ * outbox until it can be sent.
+ */
+export type EntityWrite =
+  | { op: 'create'; collection: EntityCollection; id: string; record: AnyEntityRecord }
+  | { op: 'update'; collection: EntityCollection; id: string; updates: Partial<AnyEntityRecord>; baseVersion?: number }
+  | { op: 'delete'; collection: EntityCollection; id: string; baseVersion?: number };
+
+/**
+ * Send a write to the server; `profileId` pins it to the profile it was made
+ * in (the outbox may replay it after the user switched)
+ */
+export async function performEntityWrite(write: EntityWrite, profileId?: string): Promise<unknown> {
+  switch (write.op) {
+    case 'create':
+      return createEntity(write.collection, write.record, profileId);
+    case 'update':
+      return updateEntity(write.collection, write.id, write.updates, write.baseVersion, profileId);
+    case 'delete':
+      return deleteEntity(write.collection, write.id, write.baseVersion, profileId);
+  }
+}
+
+/**
+ * Apply a write to a snapshot locally (optimistic update / outbox replay on load)
+ */
+export function applyEntityWrite(snapshot: AppDataSnapshot, write: EntityWrite): AppDataSnapshot {
+  const records = snapshot[write.collection] as AnyEntityRecord[];
+
+  switch (write.op) {
+    case 'create': {
+      const exists = records.some((item) => item.id === write.id);
+      return {
+        ...snapshot,
+        [write.collection]: exists
+          ? records.map((item) => (item.id === write.id ? write.record : item))
+          : [write.record, ...records]
+      };
+    }
+    case 'update':
+      return {
+        ...snapshot,
+        [write.collection]: records.map((item) => (item.id === write.id ? { ...item, ...write.updates } : item))
+      };
+    case 'delete': {
+      const next: AppDataSnapshot = {
+        ...snapshot,
+        [write.collection]: records.filter((item) => item.id !== write.id)
+      };
+      if (write.collection === 'medications') {
+        next.doses = snapshot.doses.filter((dose) => dose.medicationId !== write.id);
+        next.labLevels = snapshot.labLevels.filter((level) => level.medicationId !== write.id);
+        next.doseSchedules = snapshot.doseSchedules.filter((schedule) => schedule.medicationId !== write.id);
+      }
+      return next;
+    }
+  }
+}
+
+/**
+ * True when a request failed because the backend could not be reached
+ * (offline, proxy/gateway errors) rather than because it rejected the data.
+ * Locked encryption and an expired login also count: the write is kept until
+ * the user signs in again.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof TypeError || error instanceof EncryptionLockedError || error instanceof AuthRequiredError) {
+    return true;
+  }
+  return error instanceof Error && /^HTTP (502|503|504)\b/.test(error.message);
+}
+
+export type RecordCounts = Record<EntityCollection, number>;
+
+export interface BackupSummary {
+  id: string;
+  createdAt: string;
+  size: number;
+  lastUpdated: string | null;
+  counts: RecordCounts;
+}
+
+export interface CollectionDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export type SnapshotDiff = Record<EntityCollection, CollectionDiff>;
+
+export interface BackupDetail {
+  id: string;
+  lastUpdated: string | null;
+  counts: RecordCounts;
+  currentCounts: RecordCounts;
+  diff: SnapshotDiff; // What restoring the backup would change in the current snapshot
+  sameKey: boolean; // Encrypted with the current key (or both plaintext); restore is refused otherwise
+}
+
+export async function fetchBackups(): Promise<BackupSummary[]> {
+  const response = await apiFetch(dataUrl('backups'), {
+    cache: 'no-store',
+    headers: { Accept: 'application/json' }
+  });
+  return parseResponse(response);
+}
+
+export async function fetchBackupDetail(id: string): Promise<BackupDetail> {
+  const response = await apiFetch(dataUrl(`backups/${encodeURIComponent(id)}`), {
+    cache: 'no-store',
+    headers: { Accept: 'application/json' }
+  });
+  return parseResponse(response);
+}
+
+export async function restoreBackup(id: string): Promise<AppDataSnapshot> {
+  const response = await apiFetch(dataUrl(`backups/${encodeURIComponent(id)}/restore`), {
+    method: 'POST',
+    headers: { Accept: 'application/json' }
+  });
+  const raw = await parseResponse(response);
+  return normalizeSnapshot(await decodeSnapshot(raw));
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * Import an exported snapshot. The server backs up the current data first and
+ * then either merges by id (imported records win) or replaces everything.
+ */
+export async function importAppData(data: AppDataSnapshot, mode: ImportMode): Promise<AppDataSnapshot> {
+  const response = await apiFetch(dataUrl('import'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ data: await encodeSnapshot(data), mode })
+  });
   const raw = await parseResponse(response);
-  return normalizeSnapshot(raw);
+  return normalizeSnapshot(await decodeSnapshot(raw));
+}
+
+/**
+ * Key derivation parameters of the server copy, null when it is not encrypted
+ */
+export async function fetchEncryptionInfo(profileId?: string): Promise<EncryptionInfo | null> {
+  const response = await apiFetch(dataUrl('encryption', profileId), {
+    cache: 'no-store',
+    headers: { Accept: 'application/json' }
+  });
+  return (await parseResponse(response)) ?? null;
+}
+
+const PROFILES_ENDPOINT = '/mood/api/profiles';
+
+export type ProfileDraft = Pick<Profile, 'name' | 'bodyWeight'>;
+
+export async function fetchProfiles(): Promise<Profile[]> {
+  const response = await apiFetch(PROFILES_ENDPOINT, {
+    cache: 'no-store',
+    headers: { Accept: 'application/json' }
+  });
+  return parseResponse(response);
+}
+
+export async function createProfile(draft: ProfileDraft): Promise<Profile> {
+  const response = await apiFetch(PROFILES_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(draft)
+  });
+  return parseResponse(response);
+}
+
+export async function updateProfile(id: string, updates: Partial<ProfileDraft>): Promise<Profile> {
+  const response = await apiFetch(`${PROFILES_ENDPOINT}/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates)
+  });
+  return parseResponse(response);
+}
+
+/**
+ * Delete a profile together with all of its data and backups
+ */
+export async function deleteProfile(id: string): Promise<void> {
+  const response = await apiFetch(`${PROFILES_ENDPOINT}/${encodeURIComponent(id)}`, {
+    method: 'DELETE'
+  });
+  await parseResponse(response);
 }
 
 export function cloneSnapshot(source: AppDataSnapshot): AppDataSnapshot {
@@ -0,0 +1,184 @@
+/**
+ * Auth Client
+ *
+ * Talks to /api/auth and tracks whether the server session is valid. Every
+ * API call goes through apiFetch(), which sends the HTTP-only session cookie
+ * and turns a 401 into AuthRequiredError so the app can show the lock screen.
+ *
+ * The login secret is derived with the installation's PBKDF2 salt from
+ * /auth/session. Logins still on the old app-wide salt are moved to a random
+ * one right after they succeed.
+ */
+
+import {
+  LEGACY_LOGIN_KDF,
+  createLoginKdf,
+  deriveLoginSecret,
+  type LoginKdf
+} from '@/core/services/snapshot-crypto';
+
+const AUTH_ENDPOINT = '/mood/api/auth';
+
+export type ServerAuthState = 'unknown' | 'authenticated' | 'login-required' | 'setup-required';
+
+/**
+ * Raised by apiFetch() when the server has no valid session for this client
+ */
+export class AuthRequiredError extends Error {
+  readonly setupRequired: boolean;
+
+  constructor(setupRequired = false) {
+    super(setupRequired ? 'Configure uma senha para acessar os dados' : 'Sessão expirada; entre novamente');
+    this.name = 'AuthRequiredError';
+    this.setupRequired = setupRequired;
+  }
+}
+
+export class LoginRateLimitError extends Error {
+  readonly retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(`Muitas tentativas; tente novamente em ${Math.ceil(retryAfterSeconds / 60)} min`);
+    this.name = 'LoginRateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Raised by serverSetup() when the server rejects the setup token
+ */
+export class InvalidSetupTokenError extends Error {
+  constructor() {
+    super('Código de configuração inválido; use o código exibido no console do servidor');
+    this.name = 'InvalidSetupTokenError';
+  }
+}
+
+let state: ServerAuthState = 'unknown';
+const listeners = new Set<() => void>();
+
+function setState(next: ServerAuthState) {
+  if (next === state) return;
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeServerAuth(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getServerAuthState(): ServerAuthState {
+  return state;
+}
+
+/**
+ * fetch() for API routes: sends credentials and reports a missing session
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(input, { credentials: 'include', ...init });
+  if (response.status === 401) {
+    const payload = await response.clone().json().catch(() => null);
+    const setupRequired = payload?.setupRequired === true;
+    setState(setupRequired ? 'setup-required' : 'login-required');
+    throw new AuthRequiredError(setupRequired);
+  }
+  // Every apiFetch() route is protected, so any other answer proves the session
+  setState('authenticated');
+  return response;
+}
+
+async function postAuth(path: string, body: unknown): Promise<Response> {
+  return fetch(`${AUTH_ENDPOINT}/${path}`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+}
+
+async function failure(response: Response): Promise<Error> {
+  const payload = await response.json().catch(() => null);
+  return new Error(payload?.error ?? `HTTP ${response.status}: ${response.statusText}`);
+}
+
+interface SessionInfo {
+  configured: boolean;
+  authenticated: boolean;
+  loginKdf: LoginKdf | null; // null: configured before per-installation salts
+}
+
+async function fetchSessionInfo(): Promise<SessionInfo> {
+  const response = await fetch(`${AUTH_ENDPOINT}/session`, { credentials: 'include', cache: 'no-store' });
+  if (!response.ok) throw await failure(response);
+  return response.json();
+}
+
+/**
+ * Ask the server whether a password exists and the cookie is still valid
+ */
+export async function refreshServerAuth(): Promise<ServerAuthState> {
+  const { configured, authenticated } = await fetchSessionInfo();
+  setState(authenticated ? 'authenticated' : configured ? 'login-required' : 'setup-required');
+  return state;
+}
+
+/**
+ * Start a server session. False for a wrong password.
+ */
+export async function serverLogin(password: string): Promise<boolean> {
+  const { loginKdf } = await fetchSessionInfo();
+  const response = await postAuth('login', { secret: await deriveLoginSecret(password, loginKdf ?? LEGACY_LOGIN_KDF) });
+  if (response.status === 401) return false;
+  if (response.status === 429) {
+    throw new LoginRateLimitError(Number(response.headers.get('Retry-After') ?? 900));
+  }
+  if (!response.ok) throw await failure(response);
+  setState('authenticated');
+
+  if (!loginKdf) {
+    // Same password, re-derived with a random salt; the legacy one keeps working if this fails
+    await changeServerPassword(password, password).catch((error) =>
+      console.warn('[Auth] Could not upgrade the login salt:', error)
+    );
+  }
+  return true;
+}
+
+/**
+ * Set the first server password and start a session. `setupToken` is the
+ * one-time code the server prints to its console.
+ */
+export async function serverSetup(password: string, setupToken: string): Promise<void> {
+  const loginKdf = createLoginKdf();
+  const response = await postAuth('setup', {
+    secret: await deriveLoginSecret(password, loginKdf),
+    loginKdf,
+    setupToken
+  });
+  if (response.status === 403) throw new InvalidSetupTokenError();
+  if (response.status === 429) {
+    throw new LoginRateLimitError(Number(response.headers.get('Retry-After') ?? 900));
+  }
+  if (!response.ok) throw await failure(response);
+  setState('authenticated');
+}
+
+/**
+ * Replace the server password; the new secret gets a fresh salt
+ */
+export async function changeServerPassword(currentPassword: string, newPassword: string): Promise<void> {
+  const { loginKdf: currentKdf } = await fetchSessionInfo();
+  const loginKdf = createLoginKdf();
+  const response = await postAuth('password', {
+    currentSecret: await deriveLoginSecret(currentPassword, currentKdf ?? LEGACY_LOGIN_KDF),
+    newSecret: await deriveLoginSecret(newPassword, loginKdf),
+    loginKdf
+  });
+  if (!response.ok) throw await failure(response);
+}
+
+export async function serverLogout(): Promise<void> {
+  await postAuth('logout', {}).catch((error) => console.warn('[Auth] Logout request failed:', error));
+  setState('login-required');
+}
@@ -0,0 +1,172 @@
+/**
+ * Encryption Session
+ *
+ * Holds the derived key in memory only, so after a cold start the data stays
+ * locked until the user types the password again. A localStorage flag records
+ * that the server copy is encrypted, letting the app show the lock screen
+ * before the first fetch.
+ */
+
+import {
+  decryptRecord,
+  decryptSnapshot,
+  deriveKey,
+  encryptRecord,
+  encryptSnapshot,
+  isEncryptedRecord,
+  verifyKey,
+  type EncryptedRecord,
+  type EncryptionInfo
+} from '@/core/services/snapshot-crypto';
+import type { AnyEntityRecord, AppDataSnapshot, EntityCollection } from '@/core/services/app-data-service';
+
+const ENCRYPTION_ENABLED_KEY = 'data_encryption_enabled';
+
+/**
+ * Raised when encrypted data is read or written without an unlocked key
+ */
+export class EncryptionLockedError extends Error {
+  constructor(message = 'Os dados estão criptografados; desbloqueie com a senha') {
+    super(message);
+    this.name = 'EncryptionLockedError';
+  }
+}
+
+export interface SessionState {
+  info: EncryptionInfo | null;
+  key: CryptoKey | null;
+}
+
+let session: SessionState = { info: null, key: null };
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeEncryption(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function isEncryptionEnabled(): boolean {
+  return localStorage.getItem(ENCRYPTION_ENABLED_KEY) === 'true';
+}
+
+function setEncryptionEnabled(enabled: boolean) {
+  if (enabled === isEncryptionEnabled()) return;
+  localStorage.setItem(ENCRYPTION_ENABLED_KEY, String(enabled));
+  notify();
+}
+
+/**
+ * Encrypted data exists but no key has been unlocked in this session
+ */
+export function isEncryptionLocked(): boolean {
+  return isEncryptionEnabled() && session.key === null;
+}
+
+export function getEncryptionInfo(): EncryptionInfo | null {
+  return session.info;
+}
+
+/**
+ * Use `key` for all reads and writes from now on (null disables encryption)
+ */
+export function setSessionKey(info: EncryptionInfo | null, key: CryptoKey | null) {
+  session = { info, key };
+  setEncryptionEnabled(info !== null);
+  notify();
+}
+
+/**
+ * Current info and key, to put back with restoreSession() if a re-key fails
+ */
+export function captureSession(): SessionState {
+  return { ...session };
+}
+
+export function restoreSession(state: SessionState) {
+  setSessionKey(state.info, state.key);
+}
+
+/**
+ * Derive the key for `info` from `password`; false if the password is wrong
+ */
+export async function unlockWithPassword(info: EncryptionInfo, password: string): Promise<boolean> {
+  const key = await deriveKey(password, info);
+  if (!(await verifyKey(key, info))) {
+    return false;
+  }
+  setSessionKey(info, key);
+  return true;
+}
+
+export function lockSession() {
+  session = { info: session.info, key: null };
+  notify();
+}
+
+function requireKey(info?: EncryptionInfo | null): CryptoKey {
+  if (!session.key || (info && session.info && info.salt !== session.info.salt)) {
+    throw new EncryptionLockedError();
+  }
+  return session.key;
+}
+
+/**
+ * Decrypt a snapshot received from the server. Snapshots carrying
+ * `encryption` mark this device as encrypted even before it is unlocked.
+ */
+export async function decodeSnapshot<S extends Partial<AppDataSnapshot> & { encryption?: EncryptionInfo }>(
+  raw: S
+): Promise<S> {
+  if (!raw?.encryption) {
+    // Decrypted elsewhere; a session that still holds a key re-encrypts on its next write
+    if (!session.info) setEncryptionEnabled(false);
+    return raw;
+  }
+  setEncryptionEnabled(true);
+  const key = requireKey(raw.encryption);
+  return decryptSnapshot(key, raw);
+}
+
+/**
+ * Encrypt a snapshot before it is sent. Refuses to send plaintext while the
+ * server copy is encrypted and the session is locked.
+ */
+export async function encodeSnapshot<S extends AppDataSnapshot>(snapshot: S): Promise<S> {
+  if (!session.info) {
+    if (isEncryptionEnabled()) throw new EncryptionLockedError();
+    return snapshot;
+  }
+  return encryptSnapshot(requireKey(), session.info, snapshot);
+}
+
+export async function decodeRecord<T extends AnyEntityRecord>(
+  collection: EntityCollection,
+  record: T | EncryptedRecord
+): Promise<T> {
+  if (!isEncryptedRecord(record) && !session.info) {
+    return record;
+  }
+  return decryptRecord<T>(requireKey(), collection, record);
+}
+
+export async function encodeRecord(
+  collection: EntityCollection,
+  record: AnyEntityRecord
+): Promise<AnyEntityRecord | EncryptedRecord> {
+  if (!session.info) {
+    if (isEncryptionEnabled()) throw new EncryptionLockedError();
+    return record;
+  }
+  return encryptRecord(requireKey(), collection, record);
+}
+
+/**
+ * Whether writes from this session are encrypted
+ */
+export function isEncryptingWrites(): boolean {
+  return session.info !== null;
+}
@@ -0,0 +1,59 @@
+/**
+ * Typed entry point to the runtime entity schemas.
+ *
+ * The zod schemas live in api/entity-schemas.js so the Express handlers,
+ * forms, entity writes and normalizeSnapshot() all apply the same rules.
+ */
+
+import type { z } from 'zod';
+import * as registry from '../../../api/entity-schemas.js';
+import type { EntityCollection } from '@/core/services/app-data-service';
+
+export interface FieldError {
+  path: string; // Dotted path, e.g. `halfLife` or `doses.3.doseAmount`
+  message: string;
+}
+
+export type ValidationResult =
+  | { valid: true; errors: [] }
+  | { valid: false; error: string; errors: FieldError[] };
+
+export const medicationSchema: z.ZodTypeAny = registry.medicationSchema;
+export const doseSchema: z.ZodTypeAny = registry.doseSchema;
+export const moodEntrySchema: z.ZodTypeAny = registry.moodEntrySchema;
+export const cognitiveTestSchema: z.ZodTypeAny = registry.cognitiveTestSchema;
+export const labLevelSchema: z.ZodTypeAny = registry.labLevelSchema;
+export const physiologyRecordSchema: z.ZodTypeAny = registry.physiologyRecordSchema;
+export const doseScheduleSchema: z.ZodTypeAny = registry.doseScheduleSchema;
+export const snapshotSchema: z.ZodTypeAny = registry.snapshotSchema;
+export const profileSchema: z.ZodTypeAny = registry.profileSchema;
+
+export function validateRecord(collection: EntityCollection, record: unknown): ValidationResult {
+  return registry.validateRecord(collection, record);
+}
+
+/**
+ * Validate form input before id and timestamps are assigned
+ */
+export function validateDraft(collection: EntityCollection, draft: unknown): ValidationResult {
+  return registry.validateDraft(collection, draft);
+}
+
+export function validateProfile(profile: unknown): ValidationResult {
+  return registry.validateProfile(profile);
+}
+
+export function validateSnapshot(snapshot: unknown): ValidationResult {
+  return registry.validateSnapshot(snapshot);
+}
+
+/**
+ * Field path → first message, for showing errors next to form inputs
+ */
+export function fieldErrorMap(errors: FieldError[]): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const { path, message } of errors) {
+    map[path] ??= message;
+  }
+  return map;
+}
@@ -0,0 +1,211 @@
+import Dexie, { type Table } from 'dexie';
+import {
+  AppDataConflictError,
+  applyEntityWrite,
+  isTransientError,
+  performEntityWrite,
+  type AnyEntityRecord,
+  type AppDataSnapshot,
+  type EntityWrite
+} from '@/core/services/app-data-service';
+import { DEFAULT_PROFILE_ID, getActiveProfileId } from '@/core/services/active-profile';
+
+export const OUTBOX_SYNC_TAG = 'sync-outbox';
+
+export interface PendingMutation {
+  seq?: number;
+  profileId: string; // Profile the write belongs to; only replayed while it is active
+  write: EntityWrite;
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+  failed?: boolean; // Rejected by the server (not a connectivity problem); kept for the user to retry or discard
+}
+
+/**
+ * Writes made while the backend was unreachable, replayed in insertion order
+ */
+class OutboxDatabase extends Dexie {
+  mutations!: Table<PendingMutation, number>;
+
+  constructor() {
+    super('MoodPharmaOutboxDB');
+
+    this.version(1).stores({
+      mutations: '++seq, createdAt'
+    });
+
+    // Writes queued before profiles existed belong to the default profile
+    this.version(2)
+      .stores({ mutations: '++seq, createdAt, profileId' })
+      .upgrade((tx) =>
+        tx
+          .table('mutations')
+          .toCollection()
+          .modify((mutation) => {
+            mutation.profileId ??= DEFAULT_PROFILE_ID;
+          })
+      );
+  }
+}
+
+export const outboxDb = new OutboxDatabase();
+
+const queuedListeners = new Set<() => void>();
+
+/**
+ * Called after a write is queued while the browser reports being online, so
+ * the queue is replayed at once instead of on the next `online` event (which
+ * is all browsers without Background Sync get)
+ */
+export function subscribeQueuedWrites(listener: () => void): () => void {
+  queuedListeners.add(listener);
+  return () => queuedListeners.delete(listener);
+}
+
+export async function enqueueWrite(write: EntityWrite): Promise<void> {
+  await outboxDb.mutations.add({ profileId: getActiveProfileId(), write, createdAt: Date.now(), attempts: 0 });
+  await requestBackgroundSync();
+  if (navigator.onLine) {
+    queuedListeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Queued writes of the active profile, oldest first
+ */
+export function listPendingMutations(): Promise<PendingMutation[]> {
+  const profileId = getActiveProfileId();
+  return outboxDb.mutations
+    .orderBy('seq')
+    .filter((mutation) => mutation.profileId === profileId)
+    .toArray();
+}
+
+/**
+ * Queued writes of the active profile still waiting to be sent; writes the
+ * server rejected wait for the user instead and don't hold newer ones back
+ */
+export function countPendingMutations(): Promise<number> {
+  return outboxDb.mutations
+    .where('profileId')
+    .equals(getActiveProfileId())
+    .filter((mutation) => !mutation.failed)
+    .count();
+}
+
+/**
+ * Overlay queued writes on a snapshot fetched from the server, so entries
+ * logged offline stay visible after a reload. Writes the server rejected are
+ * left out: they were never saved.
+ */
+export function applyPendingMutations(snapshot: AppDataSnapshot, pending: PendingMutation[]): AppDataSnapshot {
+  return pending
+    .filter((mutation) => !mutation.failed)
+    .reduce((current, mutation) => applyEntityWrite(current, mutation.write), snapshot);
+}
+
+/**
+ * Ask the service worker to wake us up when connectivity returns.
+ * Browsers without Background Sync fall back to the `online` listener.
+ */
+async function requestBackgroundSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const sync = (registration as ServiceWorkerRegistration & {
+      sync?: { register(tag: string): Promise<void> };
+    }).sync;
+    await sync?.register(OUTBOX_SYNC_TAG);
+  } catch (error) {
+    console.warn('[Outbox] Background Sync indisponível:', error);
+  }
+}
+
+export interface OutboxReplayResult {
+  sent: number;
+  failed: number; // Rejected by the server during this run
+  remaining: number;
+  conflicts: Array<{ write: EntityWrite; theirs: AnyEntityRecord | null }>;
+}
+
+let replayInFlight: Promise<OutboxReplayResult> | null = null;
+
+async function replay(): Promise<OutboxReplayResult> {
+  const result: OutboxReplayResult = { sent: 0, failed: 0, remaining: 0, conflicts: [] };
+  const pending = await listPendingMutations();
+
+  for (const mutation of pending) {
+    // Rejected earlier and already reported; waits for a retry or discard
+    if (mutation.failed) continue;
+
+    try {
+      await performEntityWrite(mutation.write, mutation.profileId);
+      await outboxDb.mutations.delete(mutation.seq!);
+      result.sent++;
+    } catch (error) {
+      if (isTransientError(error)) {
+        // Still offline: keep this and everything after it, in order
+        await outboxDb.mutations.update(mutation.seq!, {
+          attempts: mutation.attempts + 1,
+          lastError: (error as Error).message
+        });
+        break;
+      }
+
+      if (error instanceof AppDataConflictError) {
+        // Handed over to the conflict dialog, which owns it from here
+        result.conflicts.push({ write: mutation.write, theirs: (error.current as AnyEntityRecord) ?? null });
+        await outboxDb.mutations.delete(mutation.seq!);
+        continue;
+      }
+
+      console.error('[Outbox] Servidor rejeitou alteração pendente', mutation.write, error);
+      await outboxDb.mutations.update(mutation.seq!, {
+        attempts: mutation.attempts + 1,
+        lastError: error instanceof Error ? error.message : String(error),
+        failed: true
+      });
+      result.failed++;
+    }
+  }
+
+  result.remaining = await countPendingMutations();
+  return result;
+}
+
+/**
+ * Send the active profile's queued writes to the server in order (the other
+ * profiles' writes wait until they are active again). Concurrent calls share
+ * one run.
+ */
+export function replayOutbox(): Promise<OutboxReplayResult> {
+  if (!replayInFlight) {
+    replayInFlight = replay().finally(() => {
+      replayInFlight = null;
+    });
+  }
+  return replayInFlight;
+}
+
+/**
+ * Re-arm writes the server rejected so the next replay tries them again
+ */
+export async function retryFailedMutations(): Promise<void> {
+  const profileId = getActiveProfileId();
+  await outboxDb.mutations
+    .filter((mutation) => mutation.profileId === profileId && mutation.failed === true)
+    .modify({ failed: false });
+}
+
+/**
+ * Drop a write the server rejected, for good
+ */
+export async function discardFailedMutation(seq: number): Promise<void> {
+  const profileId = getActiveProfileId();
+  await outboxDb.mutations
+    .where('seq')
+    .equals(seq)
+    .filter((mutation) => mutation.profileId === profileId && mutation.failed === true)
+    .delete();
+}
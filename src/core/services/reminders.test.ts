@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { Medication, MedicationDose, MoodEntry } from '@/shared/types';
+import { DEFAULT_REMINDER_SETTINGS, deferPastQuietHours, isInQuietHours, planReminders } from './reminders';
+
+// Local clock times, so the plan does not depend on the test's time zone
+const at = (day: number, hours: number, minutes = 0) => new Date(2025, 4, 5 + day, hours, minutes).getTime();
+
+const settings = { ...DEFAULT_REMINDER_SETTINGS, enabled: true };
+
+const medication: Medication = {
+  id: 'med-1',
+  name: 'Lamotrigina',
+  category: 'Mood Stabilizer',
+  halfLife: 29,
+  volumeOfDistribution: 1.1,
+  bioavailability: 0.98,
+  absorptionRate: 1.5,
+  defaultDose: 100,
+  scheduledTime: '06:30',
+  createdAt: at(0, 0),
+  updatedAt: at(0, 0)
+};
+
+function dose(timestamp: number): MedicationDose {
+  return { id: `d${timestamp}`, medicationId: medication.id, timestamp, doseAmount: 50, createdAt: timestamp };
+}
+
+describe('reminders', () => {
+  it('handles overnight quiet hours', () => {
+    const quiet = settings.quietHours; // 22:30-07:00
+    assert.ok(isInQuietHours(at(0, 23), quiet));
+    assert.ok(isInQuietHours(at(0, 6, 59), quiet));
+    assert.ok(!isInQuietHours(at(0, 7), quiet));
+    assert.strictEqual(deferPastQuietHours(at(0, 23), quiet), at(1, 7));
+    assert.strictEqual(deferPastQuietHours(at(1, 6, 30), quiet), at(1, 7));
+    assert.strictEqual(deferPastQuietHours(at(1, 12), { ...quiet, enabled: false }), at(1, 12));
+  });
+
+  it('plans dose reminders after quiet hours with the last logged amount', () => {
+    const reminders = planReminders({
+      medications: [medication],
+      doses: [dose(at(0, 6, 30))],
+      moodEntries: [],
+      settings: { ...settings, moodCheckIns: [] },
+      now: at(0, 12)
+    });
+    assert.strictEqual(reminders.length, 1);
+    assert.strictEqual(reminders[0].scheduledAt, at(1, 6, 30));
+    assert.strictEqual(reminders[0].at, at(1, 7));
+    assert.strictEqual(reminders[0].amount, 50);
+  });
+
+  it('skips doses already taken early and check-ins right after a mood entry', () => {
+    const moodEntry: MoodEntry = { id: 'm1', timestamp: at(0, 19), moodScore: 6, createdAt: at(0, 19) };
+    const reminders = planReminders({
+      medications: [medication],
+      doses: [dose(at(1, 5))],
+      moodEntries: [moodEntry],
+      settings: { ...settings, moodCheckIns: ['20:00', '21:00'] },
+      now: at(0, 18),
+      horizonHours: 14
+    });
+    assert.deepStrictEqual(
+      reminders.map((reminder) => [reminder.kind, reminder.at]),
+      [['mood', at(0, 21)]]
+    );
+    assert.deepStrictEqual(planReminders({ medications: [medication], doses: [], moodEntries: [], settings: DEFAULT_REMINDER_SETTINGS, now: at(0, 0) }), []);
+  });
+});
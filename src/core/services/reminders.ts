@@ -0,0 +1,283 @@
+/**
+ * Reminders
+ *
+ * Local notifications for scheduled doses (Medication.scheduledTime /
+ * scheduledDays) and mood check-ins, without a push server. Reminders for the
+ * next hours are planned by the app and handed to the service worker: with
+ * Notification Triggers they fire even when the app is closed, otherwise
+ * timers show them while it is open. The worker handles the "Tomei" (queues
+ * the dose in the offline outbox) and "Adiar" actions; without Notification
+ * Triggers a snooze is handed back to an open app, and needs one.
+ *
+ * Settings are per device (localStorage), like the lock screen.
+ */
+
+import type { DoseSchedule, Medication, MedicationDose, MoodEntry } from '@/shared/types';
+import { getActiveProfileId } from '@/core/services/active-profile';
+import { getExpectedDose } from '@/features/analytics/utils/dose-schedules';
+import { getScheduledDoseTimes } from '@/features/analytics/utils/missed-doses';
+import { estimateDosingInterval } from '@/features/analytics/utils/pharmacokinetics';
+
+const REMINDER_SETTINGS_KEY = 'reminder_settings';
+const TAG_PREFIX = 'reminder:';
+const ICON = '/icons/icon-192x192.svg';
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+/** A mood entry this close before a check-in makes it unnecessary */
+const MOOD_CHECK_IN_WINDOW_MS = 2 * MS_PER_HOUR;
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm
+  end: string; // HH:mm; before `start` for overnight quiet hours
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  doses: boolean;
+  moodCheckIns: string[]; // HH:mm
+  quietHours: QuietHours;
+  snoozeMinutes: number;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  doses: true,
+  moodCheckIns: ['20:00'],
+  quietHours: { enabled: true, start: '22:30', end: '07:00' },
+  snoozeMinutes: 10
+};
+
+export type ReminderKind = 'dose' | 'mood';
+
+export interface PlannedReminder {
+  id: string; // Notification tag; the same reminder keeps the same id across plans
+  kind: ReminderKind;
+  at: number; // When to notify (after quiet hours)
+  scheduledAt: number; // Original scheduled time
+  title: string;
+  body: string;
+  medicationId?: string;
+  amount?: number; // mg logged by "Tomei"; no action without it
+}
+
+export interface ReminderPlanInput {
+  medications: Medication[];
+  doses: MedicationDose[];
+  moodEntries: MoodEntry[];
+  doseSchedules?: DoseSchedule[];
+  settings: ReminderSettings;
+  now: number;
+  horizonHours?: number;
+}
+
+// ============================================
+// Settings
+// ============================================
+
+let cachedSettings: ReminderSettings | null = null;
+const listeners = new Set<() => void>();
+
+export function subscribeReminderSettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getReminderSettings(): ReminderSettings {
+  if (!cachedSettings) {
+    try {
+      const stored = JSON.parse(localStorage.getItem(REMINDER_SETTINGS_KEY) ?? 'null');
+      cachedSettings = stored ? { ...DEFAULT_REMINDER_SETTINGS, ...stored } : DEFAULT_REMINDER_SETTINGS;
+    } catch {
+      cachedSettings = DEFAULT_REMINDER_SETTINGS;
+    }
+  }
+  return cachedSettings!;
+}
+
+export function saveReminderSettings(settings: ReminderSettings) {
+  cachedSettings = settings;
+  localStorage.setItem(REMINDER_SETTINGS_KEY, JSON.stringify(settings));
+  listeners.forEach((listener) => listener());
+}
+
+// ============================================
+// Planning
+// ============================================
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function isInQuietHours(time: number, quiet: QuietHours): boolean {
+  if (!quiet.enabled) return false;
+  const date = new Date(time);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = minutesOfDay(quiet.start);
+  const end = minutesOfDay(quiet.end);
+  if (start === end) return false;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * `time`, or the end of the quiet hours it falls in
+ */
+export function deferPastQuietHours(time: number, quiet: QuietHours): number {
+  if (!isInQuietHours(time, quiet)) return time;
+  const end = minutesOfDay(quiet.end);
+  const date = new Date(time);
+  date.setHours(Math.floor(end / 60), end % 60, 0, 0);
+  if (date.getTime() <= time) date.setDate(date.getDate() + 1);
+  return date.getTime();
+}
+
+function doseAmountFor(medication: Medication, doses: MedicationDose[], schedules: DoseSchedule[], at: number) {
+  const schedule = schedules.find((item) => item.medicationId === medication.id && getExpectedDose(item, at) !== null);
+  if (schedule) return getExpectedDose(schedule, at) || undefined;
+  const latest = doses.filter((dose) => dose.medicationId === medication.id).sort((a, b) => b.timestamp - a.timestamp)[0];
+  return latest?.doseAmount ?? medication.defaultDose;
+}
+
+/**
+ * Reminders due in the next `horizonHours`, soonest first. Doses already
+ * logged for a scheduled time (up to half a dosing interval early) and mood
+ * check-ins right after a mood entry are left out; anything in the quiet
+ * hours moves to their end, except mood check-ins, which are dropped.
+ */
+export function planReminders(input: ReminderPlanInput): PlannedReminder[] {
+  const { medications, doses, moodEntries, doseSchedules = [], settings, now, horizonHours = 24 } = input;
+  if (!settings.enabled) return [];
+  const until = now + horizonHours * MS_PER_HOUR;
+  const reminders: PlannedReminder[] = [];
+
+  if (settings.doses) {
+    for (const medication of medications) {
+      const medDoses = doses.filter((dose) => dose.medicationId === medication.id);
+      const earlyWindow = (estimateDosingInterval(medDoses) / 2) * MS_PER_HOUR;
+
+      for (const scheduledAt of getScheduledDoseTimes(medication, now, until)) {
+        if (medDoses.some((dose) => dose.timestamp > scheduledAt - earlyWindow && dose.timestamp <= scheduledAt)) continue;
+        const amount = doseAmountFor(medication, medDoses, doseSchedules, scheduledAt);
+        reminders.push({
+          id: `${TAG_PREFIX}dose:${medication.id}:${scheduledAt}`,
+          kind: 'dose',
+          at: deferPastQuietHours(scheduledAt, settings.quietHours),
+          scheduledAt,
+          title: `Hora de tomar ${medication.name}`,
+          body: amount ? `${amount} mg · agendado para ${medication.scheduledTime}` : `Agendado para ${medication.scheduledTime}`,
+          medicationId: medication.id,
+          amount
+        });
+      }
+    }
+  }
+
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+  for (; day.getTime() < until; day.setDate(day.getDate() + 1)) {
+    for (const time of settings.moodCheckIns) {
+      const minutes = minutesOfDay(time);
+      const scheduledAt = new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60).getTime();
+      if (scheduledAt < now || scheduledAt >= until || isInQuietHours(scheduledAt, settings.quietHours)) continue;
+      if (moodEntries.some((entry) => entry.timestamp > scheduledAt - MOOD_CHECK_IN_WINDOW_MS && entry.timestamp <= scheduledAt)) continue;
+      reminders.push({
+        id: `${TAG_PREFIX}mood:${scheduledAt}`,
+        kind: 'mood',
+        at: scheduledAt,
+        scheduledAt,
+        title: 'Como você está?',
+        body: 'Registre humor, ansiedade e energia agora.'
+      });
+    }
+  }
+
+  return reminders.sort((a, b) => a.at - b.at);
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+interface TimestampTriggerConstructor {
+  new (timestamp: number): unknown;
+}
+
+function getTimestampTrigger(): TimestampTriggerConstructor | null {
+  const trigger = (globalThis as { TimestampTrigger?: TimestampTriggerConstructor }).TimestampTrigger;
+  return trigger && typeof Notification !== 'undefined' && 'showTrigger' in Notification.prototype ? trigger : null;
+}
+
+export function notificationsSupported(): boolean {
+  return typeof Notification !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+/**
+ * Whether reminders still fire with the app closed (Notification Triggers)
+ */
+export function backgroundRemindersSupported(): boolean {
+  return getTimestampTrigger() !== null;
+}
+
+function notificationOptions(reminder: PlannedReminder, settings: ReminderSettings): NotificationOptions {
+  const actions = [
+    ...(reminder.kind === 'dose' && reminder.amount ? [{ action: 'taken', title: 'Tomei' }] : []),
+    { action: 'snooze', title: `Adiar ${settings.snoozeMinutes} min` }
+  ];
+  return {
+    tag: reminder.id,
+    body: reminder.body,
+    icon: ICON,
+    badge: ICON,
+    requireInteraction: reminder.kind === 'dose',
+    data: { ...reminder, profileId: getActiveProfileId(), snoozeMinutes: settings.snoozeMinutes },
+    // Not in the DOM typings yet
+    ...({ actions } as object)
+  };
+}
+
+/**
+ * Hand `reminders` to the service worker, replacing the ones handed before.
+ * Returns a function cancelling the timers of this delivery.
+ */
+export async function deliverReminders(reminders: PlannedReminder[], settings: ReminderSettings): Promise<() => void> {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return () => {};
+  const registration = await navigator.serviceWorker.ready;
+  const Trigger = getTimestampTrigger();
+
+  if (Trigger) {
+    // Pending triggers only; reminders already on screen stay
+    const scheduled = await registration.getNotifications({ includeTriggered: true } as GetNotificationOptions);
+    scheduled
+      .filter((notification) => notification.tag.startsWith(TAG_PREFIX))
+      .filter((notification) => ((notification as Notification & { timestamp?: number }).timestamp ?? 0) > Date.now())
+      .forEach((notification) => notification.close());
+    await Promise.all(
+      reminders.map((reminder) =>
+        registration.showNotification(reminder.title, {
+          ...notificationOptions(reminder, settings),
+          ...({ showTrigger: new Trigger(reminder.at) } as object)
+        })
+      )
+    );
+    return () => {};
+  }
+
+  const timers = reminders.map((reminder) =>
+    window.setTimeout(() => {
+      registration.showNotification(reminder.title, notificationOptions(reminder, settings));
+    }, Math.max(0, reminder.at - Date.now()))
+  );
+  return () => timers.forEach((timer) => window.clearTimeout(timer));
+}
+
+/**
+ * Ask for notification permission; true once granted
+ */
+export async function requestReminderPermission(): Promise<boolean> {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  return (await Notification.requestPermission()) === 'granted';
+}
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  LEGACY_LOGIN_KDF,
+  UnencryptedRecordError,
+  createEncryptionInfo,
+  createLoginKdf,
+  decryptSnapshot,
+  deriveKey,
+  deriveLoginSecret,
+  encryptSnapshot,
+  isEncryptedRecord,
+  verifyKey
+} from './snapshot-crypto';
+import { validateSnapshot } from './entity-schemas';
+import type { AppDataSnapshot } from './app-data-service';
+
+// Fast KDF for tests; production uses PBKDF2_ITERATIONS
+const ITERATIONS = 100_000;
+const T = 1_700_000_000_000;
+
+const snapshot: AppDataSnapshot = {
+  version: '1.2.0',
+  revision: 3,
+  lastUpdated: '2025-01-01T00:00:00.000Z',
+  medications: [],
+  doses: [{ id: 'd1', medicationId: 'med-1', timestamp: T, doseAmount: 20, createdAt: T, updatedAt: T + 5 }],
+  moodEntries: [{ id: 'm1', timestamp: T, moodScore: 6, notes: 'dia difícil', createdAt: T }],
+  cognitiveTests: [],
+  labLevels: [],
+  physiologyRecords: [],
+  doseSchedules: []
+};
+
+describe('snapshot encryption', () => {
+  it('round-trips a snapshot and keeps only routing fields in clear text', async () => {
+    const { info, key } = await createEncryptionInfo('senha-secreta', ITERATIONS);
+    const encrypted = await encryptSnapshot(key, info, snapshot);
+
+    const [dose] = encrypted.doses as unknown[];
+    assert.ok(isEncryptedRecord(dose));
+    assert.deepStrictEqual(Object.keys(dose).sort(), ['createdAt', 'enc', 'id', 'medicationId', 'timestamp', 'updatedAt']);
+    assert.ok(!JSON.stringify(encrypted).includes('dia difícil'));
+    assert.strictEqual(validateSnapshot(encrypted).valid, true);
+
+    const decrypted = await decryptSnapshot(key, encrypted);
+    assert.deepStrictEqual(decrypted.doses, snapshot.doses);
+    assert.deepStrictEqual(decrypted.moodEntries, snapshot.moodEntries);
+    assert.strictEqual('encryption' in decrypted, false);
+  });
+
+  it('rejects a key derived from the wrong password', async () => {
+    const { info, key } = await createEncryptionInfo('senha-secreta', ITERATIONS);
+    assert.strictEqual(await verifyKey(await deriveKey('senha-secreta', info), info), true);
+
+    const wrongKey = await deriveKey('outra-senha', info);
+    assert.strictEqual(await verifyKey(wrongKey, info), false);
+    const encrypted = await encryptSnapshot(key, info, snapshot);
+    await assert.rejects(decryptSnapshot(wrongKey, encrypted));
+  });
+
+  it('refuses plaintext records inside an encrypted snapshot', async () => {
+    const { info, key } = await createEncryptionInfo('senha-secreta', ITERATIONS);
+    const encrypted = await encryptSnapshot(key, info, snapshot);
+    const mixed = { ...encrypted, moodEntries: snapshot.moodEntries };
+    assert.strictEqual(validateSnapshot(mixed).valid, false);
+  });
+
+  it('does not pass plaintext records through when decrypting', async () => {
+    const { info, key } = await createEncryptionInfo('senha-secreta', ITERATIONS);
+    const encrypted = await encryptSnapshot(key, info, snapshot);
+    const mixed = { ...encrypted, moodEntries: snapshot.moodEntries };
+    await assert.rejects(decryptSnapshot(key, mixed), UnencryptedRecordError);
+  });
+});
+
+describe('login secret', () => {
+  it('uses a random salt per installation', async () => {
+    const first = createLoginKdf(ITERATIONS);
+    const second = createLoginKdf(ITERATIONS);
+    assert.notStrictEqual(first.salt, second.salt);
+    assert.strictEqual(createLoginKdf().iterations, 600_000);
+
+    const secret = await deriveLoginSecret('senha-secreta', first);
+    assert.strictEqual(await deriveLoginSecret('senha-secreta', first), secret);
+    assert.notStrictEqual(await deriveLoginSecret('senha-secreta', second), secret);
+    assert.notStrictEqual(await deriveLoginSecret('senha-secreta', LEGACY_LOGIN_KDF), secret);
+  });
+});
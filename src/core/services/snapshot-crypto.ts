@@ -0,0 +1,228 @@
+/**
+ * Snapshot Crypto
+ *
+ * Client-side encryption of persisted records with WebCrypto. The key is
+ * derived from the user's password with PBKDF2-SHA256 and never leaves the
+ * device; the server stores one AES-GCM envelope per record.
+ *
+ * Envelopes keep the fields the API needs to route, filter and version records
+ * (id, createdAt, updatedAt, timestamp and a dose's medicationId) in clear
+ * text. Everything else, names, doses, scores and notes, is only in `enc`.
+ */
+
+import type { AppDataSnapshot, AnyEntityRecord, EntityCollection } from '@/core/services/app-data-service';
+
+export const PBKDF2_ITERATIONS = 600_000;
+const KEY_CHECK_PLAINTEXT = 'mood-pharma-key-check';
+const KEY_CHECK_AAD = 'key-check';
+
+const COLLECTIONS: EntityCollection[] = ['medications', 'doses', 'moodEntries', 'cognitiveTests', 'labLevels', 'physiologyRecords', 'doseSchedules'];
+
+export interface EncryptedPayload {
+  iv: string; // base64, 12 bytes
+  ct: string; // base64 ciphertext + GCM tag
+}
+
+/**
+ * Stored on the snapshot so every device can derive the same key
+ */
+export interface EncryptionInfo {
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64, 16 bytes
+  keyCheck: EncryptedPayload; // Known plaintext, proves a derived key is right
+}
+
+/**
+ * PBKDF2 parameters of the login secret; the server keeps them with the
+ * credentials and hands them out before login
+ */
+export interface LoginKdf {
+  salt: string; // base64, 16 bytes, random per installation
+  iterations: number;
+}
+
+export interface EncryptedRecord {
+  id: string;
+  createdAt?: number;
+  updatedAt?: number;
+  timestamp?: number;
+  medicationId?: string;
+  enc: EncryptedPayload;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/** Fixed app-wide parameters of logins set up before per-installation salts */
+export const LEGACY_LOGIN_KDF: LoginKdf = {
+  salt: toBase64(encoder.encode('mood-pharma-tracker/login')),
+  iterations: 100_000
+};
+
+/**
+ * Raised when an encrypted snapshot holds a record that is not encrypted
+ */
+export class UnencryptedRecordError extends Error {
+  constructor(collection: EntityCollection, id: string) {
+    super(`Registro sem criptografia em dados criptografados (${collection}/${id})`);
+    this.name = 'UnencryptedRecordError';
+  }
+}
+
+async function encryptText(key: CryptoKey, plaintext: string, aad: string): Promise<EncryptedPayload> {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(aad) },
+    key,
+    encoder.encode(plaintext)
+  );
+  return { iv: toBase64(iv), ct: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function decryptText(key: CryptoKey, payload: EncryptedPayload, aad: string): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv), additionalData: encoder.encode(aad) },
+    key,
+    fromBase64(payload.ct)
+  );
+  return decoder.decode(plaintext);
+}
+
+export async function deriveKey(
+  password: string,
+  info: Pick<EncryptionInfo, 'salt' | 'iterations'>
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(info.salt), iterations: info.iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * New random login parameters, as costly as the data key's
+ */
+export function createLoginKdf(iterations: number = PBKDF2_ITERATIONS): LoginKdf {
+  return { salt: toBase64(randomBytes(16)), iterations };
+}
+
+/**
+ * Secret sent to the server at login instead of the password. It is derived
+ * with its own salt, so knowing it doesn't help derive the data key.
+ */
+export async function deriveLoginSecret(password: string, kdf: LoginKdf): Promise<string> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(kdf.salt), iterations: kdf.iterations },
+    material,
+    256
+  );
+  return toBase64(new Uint8Array(bits));
+}
+
+/**
+ * New salt and key for `password`
+ */
+export async function createEncryptionInfo(
+  password: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<{ info: EncryptionInfo; key: CryptoKey }> {
+  const salt = toBase64(randomBytes(16));
+  const key = await deriveKey(password, { salt, iterations });
+  const keyCheck = await encryptText(key, KEY_CHECK_PLAINTEXT, KEY_CHECK_AAD);
+  return { info: { kdf: 'PBKDF2-SHA256', iterations, salt, keyCheck }, key };
+}
+
+export async function verifyKey(key: CryptoKey, info: EncryptionInfo): Promise<boolean> {
+  try {
+    return (await decryptText(key, info.keyCheck, KEY_CHECK_AAD)) === KEY_CHECK_PLAINTEXT;
+  } catch {
+    return false;
+  }
+}
+
+export function isEncryptedRecord(record: unknown): record is EncryptedRecord {
+  return !!record && typeof record === 'object' && 'enc' in record;
+}
+
+function recordAad(collection: EntityCollection, id: string): string {
+  return `${collection}:${id}`;
+}
+
+export async function encryptRecord(
+  key: CryptoKey,
+  collection: EntityCollection,
+  record: AnyEntityRecord
+): Promise<EncryptedRecord> {
+  const envelope: EncryptedRecord = {
+    id: record.id,
+    createdAt: record.createdAt,
+    enc: await encryptText(key, JSON.stringify(record), recordAad(collection, record.id))
+  };
+  if (record.updatedAt !== undefined) envelope.updatedAt = record.updatedAt;
+  if ('timestamp' in record) envelope.timestamp = record.timestamp;
+  if ('medicationId' in record) envelope.medicationId = record.medicationId;
+  return envelope;
+}
+
+/**
+ * Decrypt an envelope. A plaintext record can't be trusted to come from the
+ * key holder, so it is refused with UnencryptedRecordError.
+ */
+export async function decryptRecord<T extends AnyEntityRecord>(
+  key: CryptoKey,
+  collection: EntityCollection,
+  record: T | EncryptedRecord
+): Promise<T> {
+  if (!isEncryptedRecord(record)) {
+    throw new UnencryptedRecordError(collection, record.id);
+  }
+  const decrypted = JSON.parse(await decryptText(key, record.enc, recordAad(collection, record.id))) as T;
+  // The server's copy of the version wins so If-Match keeps matching
+  const result = { ...decrypted, id: record.id };
+  if (record.updatedAt !== undefined) result.updatedAt = record.updatedAt;
+  return result;
+}
+
+export async function encryptSnapshot<S extends AppDataSnapshot>(
+  key: CryptoKey,
+  info: EncryptionInfo,
+  snapshot: S
+): Promise<S & { encryption: EncryptionInfo }> {
+  const next = { ...snapshot, encryption: info } as unknown as Record<string, unknown>;
+  for (const collection of COLLECTIONS) {
+    const records = snapshot[collection] as AnyEntityRecord[];
+    next[collection] = await Promise.all(records.map((record) => encryptRecord(key, collection, record)));
+  }
+  return next as unknown as S & { encryption: EncryptionInfo };
+}
+
+export async function decryptSnapshot<S extends Partial<AppDataSnapshot>>(key: CryptoKey, snapshot: S): Promise<S> {
+  const next: Record<string, unknown> = { ...snapshot };
+  delete next.encryption;
+  for (const collection of COLLECTIONS) {
+    const records = (snapshot[collection] ?? []) as Array<AnyEntityRecord | EncryptedRecord>;
+    next[collection] = await Promise.all(records.map((record) => decryptRecord(key, collection, record)));
+  }
+  return next as S;
+}
@@ -0,0 +1,86 @@
+import {
+  normalizeSnapshot,
+  type AnyEntityRecord,
+  type AppDataSnapshot,
+  type EntityCollection,
+  type ImportMode
+} from '@/core/services/app-data-service';
+import { recordsEqual } from '@/core/services/snapshot-merge';
+import { migrateSnapshot } from '@/core/services/snapshot-migrations';
+import { validateSnapshot, type FieldError } from '@/core/services/entity-schemas';
+
+export const IMPORT_COLLECTIONS: EntityCollection[] = ['medications', 'doses', 'moodEntries', 'cognitiveTests', 'labLevels', 'physiologyRecords', 'doseSchedules'];
+
+export type ImportValidationResult =
+  | { valid: true; snapshot: AppDataSnapshot }
+  | { valid: false; error: string; errors?: FieldError[] };
+
+/**
+ * How each imported record relates to the current data:
+ * new (unknown id), updated (same id, different content) or duplicate (identical).
+ * `removed` lists current records that a replace would drop.
+ */
+export interface CollectionImportPreview {
+  added: string[];
+  updated: string[];
+  duplicate: string[];
+  removed: string[];
+}
+
+export type ImportPreview = Record<EntityCollection, CollectionImportPreview>;
+
+/**
+ * Validate a parsed export file with the entity schemas the API applies to
+ * whole-snapshot writes, after upgrading it to the current schema version
+ */
+export function validateImportedSnapshot(data: unknown): ImportValidationResult {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { valid: false, error: 'Data must be an object' };
+  }
+
+  const { snapshot } = migrateSnapshot(data as Partial<AppDataSnapshot>);
+  const validation = validateSnapshot(snapshot);
+  if (!validation.valid) {
+    return { valid: false, error: validation.error, errors: validation.errors };
+  }
+
+  return { valid: true, snapshot: normalizeSnapshot(snapshot) };
+}
+
+export function previewImport(current: AppDataSnapshot, incoming: AppDataSnapshot): ImportPreview {
+  const preview = {} as ImportPreview;
+
+  for (const collection of IMPORT_COLLECTIONS) {
+    const records: AnyEntityRecord[] = current[collection];
+    const currentById = new Map(records.map((record) => [record.id, record]));
+    const incomingIds = new Set<string>();
+    const result: CollectionImportPreview = { added: [], updated: [], duplicate: [], removed: [] };
+
+    for (const record of incoming[collection] as AnyEntityRecord[]) {
+      incomingIds.add(record.id);
+      const existing = currentById.get(record.id);
+      if (existing === undefined) {
+        result.added.push(record.id);
+      } else if (recordsEqual(existing, record)) {
+        result.duplicate.push(record.id);
+      } else {
+        result.updated.push(record.id);
+      }
+    }
+
+    result.removed = [...currentById.keys()].filter((id) => !incomingIds.has(id));
+    preview[collection] = result;
+  }
+
+  return preview;
+}
+
+/**
+ * Number of records an import would change in the given mode
+ */
+export function countImportChanges(preview: ImportPreview, mode: ImportMode): number {
+  return IMPORT_COLLECTIONS.reduce((total, collection) => {
+    const { added, updated, removed } = preview[collection];
+    return total + added.length + updated.length + (mode === 'replace' ? removed.length : 0);
+  }, 0);
+}
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { mergeSnapshots } from './snapshot-merge';
+import type { AppDataSnapshot } from './app-data-service';
+import type { MedicationDose } from '@/shared/types';
+
+function dose(id: string, doseAmount: number, updatedAt = 1): MedicationDose {
+  return { id, medicationId: 'med-1', timestamp: 1_700_000_000_000, doseAmount, createdAt: 1, updatedAt };
+}
+
+function snapshot(doses: MedicationDose[], revision = 1): AppDataSnapshot {
+  return {
+    version: '1.0.0',
+    revision,
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    medications: [],
+    doses,
+    moodEntries: [],
+    cognitiveTests: [],
+    labLevels: [],
+    physiologyRecords: [],
+    doseSchedules: []
+  };
+}
+
+describe('mergeSnapshots', () => {
+  it('keeps additions from both sides', () => {
+    const base = snapshot([dose('a', 10)]);
+    const ours = snapshot([dose('b', 5), dose('a', 10)]);
+    const theirs = snapshot([dose('c', 7), dose('a', 10)], 2);
+    const { merged, conflicts } = mergeSnapshots(base, ours, theirs);
+    assert.deepStrictEqual(merged.doses.map(d => d.id).sort(), ['a', 'b', 'c']);
+    assert.strictEqual(conflicts.length, 0);
+    assert.strictEqual(merged.revision, 2);
+  });
+
+  it('applies one-sided edits and deletions', () => {
+    const base = snapshot([dose('a', 10), dose('b', 10)]);
+    const ours = snapshot([dose('a', 20, 2), dose('b', 10)]);
+    const theirs = snapshot([dose('a', 10)], 2);
+    const { merged, conflicts } = mergeSnapshots(base, ours, theirs);
+    assert.deepStrictEqual(merged.doses, [dose('a', 20, 2)]);
+    assert.strictEqual(conflicts.length, 0);
+  });
+
+  it('reports conflicting edits and provisionally keeps the newest', () => {
+    const base = snapshot([dose('a', 10)]);
+    const ours = snapshot([dose('a', 20, 3)]);
+    const theirs = snapshot([dose('a', 30, 2)], 2);
+    const { merged, conflicts } = mergeSnapshots(base, ours, theirs);
+    assert.strictEqual(conflicts.length, 1);
+    assert.strictEqual(conflicts[0].key, 'doses:a');
+    assert.strictEqual(merged.doses[0].doseAmount, 20);
+  });
+
+  it('reports edit-versus-delete as a conflict', () => {
+    const base = snapshot([dose('a', 10)]);
+    const ours = snapshot([dose('a', 15, 2)]);
+    const theirs = snapshot([], 2);
+    const { merged, conflicts } = mergeSnapshots(base, ours, theirs);
+    assert.strictEqual(conflicts.length, 1);
+    assert.strictEqual(conflicts[0].theirs, null);
+    assert.strictEqual(merged.doses.length, 1);
+  });
+});
@@ -0,0 +1,137 @@
+import type { AppDataSnapshot, EntityCollection, EntityRecordMap } from '@/core/services/app-data-service';
+
+type AnyRecord = EntityRecordMap[EntityCollection];
+
+/**
+ * Same record edited differently on this device and on the server.
+ * A null side means that side deleted the record.
+ */
+export interface RecordConflict<K extends EntityCollection = EntityCollection> {
+  key: string;
+  collection: K;
+  id: string;
+  ours: EntityRecordMap[K] | null;
+  theirs: EntityRecordMap[K] | null;
+}
+
+export interface SnapshotMergeResult {
+  merged: AppDataSnapshot;
+  conflicts: RecordConflict[];
+}
+
+export function conflictKey(collection: EntityCollection, id: string): string {
+  return `${collection}:${id}`;
+}
+
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonical);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = canonical((value as Record<string, unknown>)[key]);
+        return acc;
+      }, {});
+  }
+  return value;
+}
+
+export function recordsEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return false;
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
+
+function indexById<T extends { id: string }>(records: T[]): Map<string, T> {
+  return new Map(records.map((record) => [record.id, record]));
+}
+
+function newer<T extends AnyRecord>(ours: T, theirs: T): T {
+  return (ours.updatedAt ?? 0) > (theirs.updatedAt ?? 0) ? ours : theirs;
+}
+
+function mergeCollection<K extends EntityCollection>(
+  collection: K,
+  base: EntityRecordMap[K][],
+  ours: EntityRecordMap[K][],
+  theirs: EntityRecordMap[K][],
+  conflicts: RecordConflict[]
+): EntityRecordMap[K][] {
+  const baseById = indexById(base);
+  const oursById = indexById(ours);
+  const theirsById = indexById(theirs);
+
+  // Preserve server order, then append records only we know about
+  const orderedIds = [
+    ...theirs.map((record) => record.id),
+    ...ours.map((record) => record.id).filter((id) => !theirsById.has(id))
+  ];
+
+  const merged: EntityRecordMap[K][] = [];
+  for (const id of orderedIds) {
+    const b = baseById.get(id) ?? null;
+    const o = oursById.get(id) ?? null;
+    const t = theirsById.get(id) ?? null;
+
+    let result: EntityRecordMap[K] | null;
+    if (recordsEqual(o, b)) {
+      result = t;
+    } else if (recordsEqual(t, b) || recordsEqual(o, t)) {
+      result = o;
+    } else {
+      conflicts.push({ key: conflictKey(collection, id), collection, id, ours: o, theirs: t });
+      // Keep something visible until the user decides: the newest edit, or the surviving copy
+      result = o && t ? newer(o, t) : (o ?? t);
+    }
+
+    if (result) {
+      merged.push(result);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Three-way merge of snapshots by record id.
+ *
+ * `base` is what this device last loaded, `ours` is base plus local edits and
+ * `theirs` is the server copy that made our write stale. Records changed on
+ * only one side take that side; records changed on both sides in different
+ * ways are reported as conflicts (provisionally resolved to the newest
+ * `updatedAt`).
+ */
+export function mergeSnapshots(
+  base: AppDataSnapshot,
+  ours: AppDataSnapshot,
+  theirs: AppDataSnapshot
+): SnapshotMergeResult {
+  const conflicts: RecordConflict[] = [];
+  const merged: AppDataSnapshot = {
+    ...theirs,
+    medications: mergeCollection('medications', base.medications, ours.medications, theirs.medications, conflicts),
+    doses: mergeCollection('doses', base.doses, ours.doses, theirs.doses, conflicts),
+    moodEntries: mergeCollection('moodEntries', base.moodEntries, ours.moodEntries, theirs.moodEntries, conflicts),
+    cognitiveTests: mergeCollection(
+      'cognitiveTests',
+      base.cognitiveTests,
+      ours.cognitiveTests,
+      theirs.cognitiveTests,
+      conflicts
+    ),
+    labLevels: mergeCollection('labLevels', base.labLevels, ours.labLevels, theirs.labLevels, conflicts),
+    physiologyRecords: mergeCollection(
+      'physiologyRecords',
+      base.physiologyRecords,
+      ours.physiologyRecords,
+      theirs.physiologyRecords,
+      conflicts
+    ),
+    doseSchedules: mergeCollection('doseSchedules', base.doseSchedules, ours.doseSchedules, theirs.doseSchedules, conflicts)
+  };
+
+  return { merged, conflicts };
+}
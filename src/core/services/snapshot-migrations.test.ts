@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { readFileSync } from 'node:fs';
+import {
+  CURRENT_SCHEMA_VERSION,
+  SNAPSHOT_MIGRATIONS,
+  compareVersions,
+  getSchemaVersion,
+  migrateSnapshot
+} from './snapshot-migrations';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type RawSnapshot = Record<string, any>;
+
+function loadFixture(name: string): RawSnapshot {
+  return JSON.parse(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+}
+
+describe('snapshot migration registry', () => {
+  it('chains migrations from the base version up to the current one', () => {
+    assert.strictEqual(SNAPSHOT_MIGRATIONS[0].from, '1.0.0');
+    for (let i = 1; i < SNAPSHOT_MIGRATIONS.length; i++) {
+      assert.strictEqual(SNAPSHOT_MIGRATIONS[i].from, SNAPSHOT_MIGRATIONS[i - 1].to);
+    }
+    assert.strictEqual(SNAPSHOT_MIGRATIONS[SNAPSHOT_MIGRATIONS.length - 1].to, CURRENT_SCHEMA_VERSION);
+  });
+
+  it('compares versions numerically and treats unversioned files as the base version', () => {
+    assert.strictEqual(compareVersions('1.10.0', '1.9.0'), 1);
+    assert.strictEqual(compareVersions('1.2', '1.2.0'), 0);
+    assert.strictEqual(getSchemaVersion({}), '1.0.0');
+    assert.strictEqual(getSchemaVersion({ version: '0.3.0' }), '1.0.0');
+  });
+});
+
+describe('1.0.0 → 1.1.0', () => {
+  it('adds record versions and the cognitiveTests collection to unversioned files', () => {
+    const fixture = loadFixture('snapshot-unversioned.json');
+    const { snapshot, applied } = migrateSnapshot(fixture);
+
+    assert.deepStrictEqual(applied, ['1.1.0', '1.2.0', '1.3.0', '1.4.0', '1.5.0']);
+    assert.strictEqual(snapshot.version, CURRENT_SCHEMA_VERSION);
+    assert.deepStrictEqual(snapshot.cognitiveTests, []);
+    assert.strictEqual(snapshot.doses[0].updatedAt, 1736503600000);
+    assert.strictEqual(snapshot.moodEntries[0].updatedAt, 1736510000000);
+    assert.strictEqual(snapshot.medications[0].updatedAt, 1736500000000);
+  });
+
+  it('keeps existing updatedAt values', () => {
+    const { snapshot } = migrateSnapshot(loadFixture('snapshot-v1.0.0.json'));
+    assert.strictEqual(snapshot.doses[0].updatedAt, 1740904200000);
+    assert.strictEqual(snapshot.doses[1].updatedAt, 1740991000000);
+    assert.strictEqual(snapshot.cognitiveTests[0].updatedAt, 1740910000000);
+  });
+});
+
+describe('1.1.0 → 1.2.0', () => {
+  it('builds the therapeuticRange object from flat fields, ordering min and max', () => {
+    const { snapshot } = migrateSnapshot(loadFixture('snapshot-unversioned.json'));
+    const [medication] = snapshot.medications;
+    assert.deepStrictEqual(medication.therapeuticRange, { min: 20, max: 40, unit: 'ng/mL' });
+    assert.strictEqual(medication.therapeuticRangeMin, 20);
+    assert.strictEqual(medication.therapeuticRangeMax, 40);
+    assert.strictEqual(medication.category, 'Stimulant');
+    assert.strictEqual(medication.class, 'Stimulant');
+  });
+
+  it('prefers the range object and category when duplicate fields disagree', () => {
+    const { snapshot } = migrateSnapshot(loadFixture('snapshot-v1.0.0.json'));
+    const [escitalopram, melatonin] = snapshot.medications;
+    assert.deepStrictEqual(escitalopram.therapeuticRange, { min: 15, max: 80, unit: 'ng/mL' });
+    assert.strictEqual(escitalopram.therapeuticRangeMin, 15);
+    assert.strictEqual(escitalopram.therapeuticRangeMax, 80);
+    assert.strictEqual(escitalopram.therapeuticRangeUnit, 'ng/mL');
+    assert.strictEqual(escitalopram.class, 'SSRI');
+
+    assert.strictEqual(melatonin.therapeuticRange, undefined);
+    assert.strictEqual('category' in melatonin, false);
+  });
+
+  it('only runs the remaining steps for a 1.1.0 file', () => {
+    const fixture = loadFixture('snapshot-v1.1.0.json');
+    const { snapshot, applied } = migrateSnapshot(fixture);
+    assert.deepStrictEqual(applied, ['1.2.0', '1.3.0', '1.4.0', '1.5.0']);
+    assert.strictEqual(snapshot.revision, 42);
+    assert.deepStrictEqual(snapshot.medications[0].therapeuticRange, { min: 50, max: 100, unit: 'ng/mL' });
+    assert.deepStrictEqual(snapshot.moodEntries, fixture.moodEntries);
+  });
+});
+
+describe('1.2.0 → 1.3.0', () => {
+  it('adds an empty labLevels collection and leaves the rest alone', () => {
+    const fixture = loadFixture('snapshot-v1.2.0.json');
+    const { snapshot, applied } = migrateSnapshot(fixture);
+    assert.deepStrictEqual(applied, ['1.3.0', '1.4.0', '1.5.0']);
+    assert.deepStrictEqual(snapshot.labLevels, []);
+    assert.deepStrictEqual(snapshot.medications, fixture.medications);
+    assert.deepStrictEqual(snapshot.doses, fixture.doses);
+  });
+});
+
+describe('1.3.0 → 1.4.0', () => {
+  it('adds an empty physiologyRecords collection and keeps lab levels', () => {
+    const fixture = loadFixture('snapshot-v1.3.0.json');
+    const { snapshot, applied } = migrateSnapshot(fixture);
+    assert.deepStrictEqual(applied, ['1.4.0', '1.5.0']);
+    assert.deepStrictEqual(snapshot.physiologyRecords, []);
+    assert.deepStrictEqual(snapshot.labLevels, fixture.labLevels);
+  });
+});
+
+describe('1.4.0 → 1.5.0', () => {
+  it('adds an empty doseSchedules collection and keeps physiology records', () => {
+    const fixture = loadFixture('snapshot-v1.4.0.json');
+    const { snapshot, applied } = migrateSnapshot(fixture);
+    assert.deepStrictEqual(applied, ['1.5.0']);
+    assert.deepStrictEqual(snapshot.doseSchedules, []);
+    assert.deepStrictEqual(snapshot.physiologyRecords, fixture.physiologyRecords);
+  });
+});
+
+describe('migrateSnapshot', () => {
+  it('does not mutate its input', () => {
+    const fixture = loadFixture('snapshot-v1.0.0.json');
+    const copy = structuredClone(fixture);
+    migrateSnapshot(fixture);
+    assert.deepStrictEqual(fixture, copy);
+  });
+
+  it('is a no-op for current and newer snapshots', () => {
+    const current = migrateSnapshot(loadFixture('snapshot-v1.0.0.json')).snapshot;
+    const again = migrateSnapshot(current);
+    assert.deepStrictEqual(again.applied, []);
+    assert.strictEqual(again.snapshot, current);
+
+    const future = { version: '9.0.0', medications: [{ id: 'x', class: 'Other' }] };
+    assert.strictEqual(migrateSnapshot(future).snapshot, future);
+  });
+});
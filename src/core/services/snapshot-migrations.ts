@@ -0,0 +1,33 @@
+/**
+ * Typed entry point to the snapshot migration registry.
+ *
+ * The registry itself lives in api/snapshot-migrations.js so the server and
+ * the client upgrade old snapshots with exactly the same steps.
+ */
+
+import * as registry from '../../../api/snapshot-migrations.js';
+
+export interface SnapshotMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: <T extends object>(snapshot: T) => T;
+}
+
+export interface MigrationResult<T> {
+  snapshot: T;
+  applied: string[]; // Versions migrated to, in order
+}
+
+export const BASE_SCHEMA_VERSION: string = registry.BASE_SCHEMA_VERSION;
+export const CURRENT_SCHEMA_VERSION: string = registry.CURRENT_SCHEMA_VERSION;
+export const SNAPSHOT_MIGRATIONS: readonly SnapshotMigration[] = registry.SNAPSHOT_MIGRATIONS;
+
+export const compareVersions: (a: string, b: string) => number = registry.compareVersions;
+
+export const getSchemaVersion: (snapshot: { version?: unknown } | null | undefined) => string =
+  registry.getSchemaVersion;
+
+export function migrateSnapshot<T extends object>(snapshot: T): MigrationResult<T> {
+  return registry.migrateSnapshot(snapshot);
+}
@@ -25,6 +25,7 @@ import {
   type ConcentrationSeriesMode,
 } from '@/features/analytics/utils/concentration-series';
 import CorrelationMatrix from './CorrelationMatrix';
+import { usePatientProfile } from '@/hooks/use-physiology-records';
 import LagCorrelationChart from './LagCorrelationChart';
 import OptimalDosingRecommendation from './OptimalDosingRecommendation';
 import ImpactAnalysisTab from './ImpactAnalysisTab';
@@ -48,6 +49,7 @@ export default function AdvancedCorrelationsView({
   const [activeTab, setActiveTab] = useState('impact');
   const [concentrationMode, setConcentrationMode] = useState<ConcentrationSeriesMode>('trend');
   const [matrixLagHours, setMatrixLagHours] = useState<0 | 24 | 48>(0);
+  const patient = usePatientProfile();
 
   const { dataRange, dayRange } = useMemo(() => {
     const allTimestamps = [
@@ -150,7 +152,7 @@ export default function AdvancedCorrelationsView({
       const medDoses = filteredDoses.filter(d => d.medicationId === medication.id);
       if (medDoses.length < 2) continue;
 
-      const raw = sampleConcentrationAtTimes(medication, medDoses, timestamps, 70);
+      const raw = sampleConcentrationAtTimes(medication, filteredDoses, timestamps, patient, medications);
       const values = concentrationMode === 'trend'
         ? computeTrendFromSamples(timestamps, raw, getTrendWindowMs(medication), 3)
         : raw;
@@ -179,7 +181,7 @@ export default function AdvancedCorrelationsView({
     });
 
     return series;
-  }, [filteredMoodEntries, filteredDoses, medications, selectedMedications, concentrationMode, windowRange.end, windowRange.start]);
+  }, [filteredMoodEntries, filteredDoses, medications, selectedMedications, concentrationMode, patient, windowRange.end, windowRange.start]);
 
   const moodMetrics = ['humor', 'ansiedade', 'energia', 'foco', 'cognicao', 'attShift'] as const;
   type MoodMetric = typeof moodMetrics[number];
@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/ui/card';
+import { Label } from '@/shared/ui/label';
+import { Switch } from '@/shared/ui/switch';
 import { TimeframeSelector, type TimeframePeriod, getTimeframeDays, usePersistedTimeframe } from '@/shared/components/TimeframeSelector';
 import type { Medication, MedicationDose, MoodEntry } from '@/shared/types';
 import PKChart from './PKChart';
@@ -8,17 +10,18 @@ interface ConcentrationChartProps {
   medications: Medication[];
   doses: MedicationDose[];
   moodEntries: MoodEntry[];
-  bodyWeight?: number;
+  bodyWeight?: number; // kg; PKChart falls back to the active profile's weight
 }
 
 export default function ConcentrationChart({
   medications,
   doses,
   moodEntries,
-  bodyWeight = 70
+  bodyWeight
 }: ConcentrationChartProps) {
   const initialTimeframe = usePersistedTimeframe('dashboard-concentration-timeframe', '7d');
   const [timeframe, setTimeframe] = useState<TimeframePeriod>(initialTimeframe);
+  const [showVariability, setShowVariability] = useState(false);
 
   const daysRange = getTimeframeDays(timeframe) ?? 7;
 
@@ -52,13 +55,19 @@ export default function ConcentrationChart({
                 Individual medication concentration curves with therapeutic ranges and mood overlay
               </CardDescription>
             </div>
-            <div className="w-full sm:w-48">
+            <div className="w-full sm:w-48 space-y-3">
               <TimeframeSelector
                 value={timeframe}
                 onChange={setTimeframe}
                 storageKey="dashboard-concentration-timeframe"
                 showLabel={false}
               />
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="variability-toggle" className="text-xs cursor-pointer">
+                  Variabilidade (P5–P95)
+                </Label>
+                <Switch id="variability-toggle" checked={showVariability} onCheckedChange={setShowVariability} />
+              </div>
             </div>
           </div>
         </CardHeader>
@@ -74,6 +83,7 @@ export default function ConcentrationChart({
             moodEntries={moodEntries}
             daysRange={daysRange}
             bodyWeight={bodyWeight}
+            showVariabilityBand={showVariability}
           />
         ))}
       </div>
@@ -88,6 +98,7 @@ export default function ConcentrationChart({
               <li>Humor registrado à direita (escala 1-10)</li>
               <li>Timestamps reais dos registros de humor</li>
               <li>Linhas tracejadas indicam faixa terapêutica</li>
+              <li>Faixa sombreada: 5º–95º percentil da concentração considerando a variação de meia-vida, Vd, F e Ka entre pessoas</li>
               <li>Exporte como PNG clicando no ícone de download</li>
             </ul>
           </div>
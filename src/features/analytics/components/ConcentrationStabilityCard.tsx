@@ -12,6 +12,7 @@ import {
 } from '@phosphor-icons/react';
 import { cn } from '@/shared/utils';
 import type { Medication, MedicationDose, MoodEntry } from '@/shared/types';
+import { usePatientProfile } from '@/hooks/use-physiology-records';
 import {
   analyzeConcentrationVariability,
   analyzeOptimalDoseInterval,
@@ -185,6 +186,7 @@ export default function ConcentrationStabilityCard({
   moodEntries,
   className
 }: ConcentrationStabilityCardProps) {
+  const patient = usePatientProfile();
   const analysisResults = useMemo(() => {
     const results: Array<{
       variability: ConcentrationVariabilityResult | null;
@@ -193,7 +195,7 @@ export default function ConcentrationStabilityCard({
     }> = [];
 
     for (const med of medications) {
-      const variability = analyzeConcentrationVariability(med, doses, moodEntries);
+      const variability = analyzeConcentrationVariability(med, doses, moodEntries, 7, patient, medications);
       const interval = analyzeOptimalDoseInterval(med, doses, moodEntries);
       
       if (variability || interval) {
@@ -202,7 +204,7 @@ export default function ConcentrationStabilityCard({
     }
 
     return results;
-  }, [medications, doses, moodEntries]);
+  }, [medications, doses, moodEntries, patient]);
 
   if (analysisResults.length === 0) {
     return (
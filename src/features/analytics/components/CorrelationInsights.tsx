@@ -22,11 +22,9 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/shared/ui
 import { useState } from 'react';
 import type { Medication, MedicationDose, MoodEntry } from '@/shared/types';
 import { StatisticsEngine } from '@/features/analytics/utils/statistics-engine';
-import { 
-  isChronicMedication,
-  calculateConcentration,
-  getAdjustedHalfLife 
-} from '@/features/analytics/utils/pharmacokinetics';
+import { usePatientProfile } from '@/hooks/use-physiology-records';
+import { isChronicMedication } from '@/features/analytics/utils/pharmacokinetics';
+import { concentrationsWithInteractions } from '@/features/analytics/utils/drug-interactions';
 
 interface CorrelationInsightsProps {
   medications: Medication[];
@@ -125,6 +123,7 @@ function getEffectSizeInterpretation(moodDiff: number): {
 
 export default function CorrelationInsights({ medications, doses, moodEntries }: CorrelationInsightsProps) {
   const [showMethodology, setShowMethodology] = useState(false);
+  const patient = usePatientProfile();
 
   const windowed = useMemo(() => {
     const DAY_MS = 24 * 60 * 60 * 1000;
@@ -169,7 +168,6 @@ export default function CorrelationInsights({ medications, doses, moodEntries }:
   const correlations = useMemo(() => {
     const results: CorrelationResult[] = [];
     const HOUR_MS = 60 * 60 * 1000;
-    const bodyWeight = 70;
 
     for (const medication of medications) {
       const medDoses = windowed.doses.filter(d => d.medicationId === medication.id);
@@ -200,20 +198,20 @@ export default function CorrelationInsights({ medications, doses, moodEntries }:
         const concentrations: number[] = [];
         const moods: number[] = [];
 
-        for (const mood of windowed.moodEntries) {
-          const targetTime = mood.timestamp - lagMs;
-          const concentration = calculateConcentration(
-            medication,
-            medDoses,
-            targetTime,
-            bodyWeight
-          );
-
-          if (concentration > 0) {
-            concentrations.push(concentration);
+        const atMoods = concentrationsWithInteractions(
+          medication,
+          medications,
+          windowed.doses,
+          windowed.moodEntries.map((mood) => mood.timestamp - lagMs),
+          patient
+        );
+
+        windowed.moodEntries.forEach((mood, i) => {
+          if (atMoods[i] > 0) {
+            concentrations.push(atMoods[i]);
             moods.push(mood.moodScore);
           }
-        }
+        });
 
         if (concentrations.length < 7) {
           continue;
@@ -321,7 +319,7 @@ export default function CorrelationInsights({ medications, doses, moodEntries }:
     }
 
     return results.sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
-  }, [medications, windowed.doses, windowed.moodEntries]);
+  }, [medications, windowed.doses, windowed.moodEntries, patient]);
 
   const insights = useMemo(() => {
     const result: Insight[] = [];
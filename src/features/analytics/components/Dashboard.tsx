@@ -7,6 +7,7 @@ import type { Medication, MedicationDose, MoodEntry, CognitiveTest } from '@/sha
 import type { NavigationTab } from '@/shared/layouts/AppLayout';
 import DoseLogger from '@/features/doses/components/DoseLogger';
 import QuickMoodLog from '@/features/mood/components/QuickMoodLog';
+import MissedDoseCard from '@/features/doses/components/MissedDoseCard';
 import ConcentrationChart from './ConcentrationChart';
 import CorrelationInsights from './CorrelationInsights';
 import StreaksAndProgress from './StreaksAndProgress';
@@ -120,6 +121,8 @@ export default function Dashboard({ medications, doses, moodEntries, cognitiveTe
         </Card>
       </div>
 
+      <MissedDoseCard medications={medications} doses={doses} />
+
       {(medications.length === 0 || doses.length === 0 || moodEntries.length === 0) && (
         <SimpleTestDataGenerator />
       )}
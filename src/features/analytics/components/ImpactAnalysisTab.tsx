@@ -27,6 +27,7 @@ import {
 } from '@phosphor-icons/react';
 import { cn } from '@/shared/utils';
 import type { Medication, MedicationDose, MoodEntry } from '@/shared/types';
+import { useDoseSchedules } from '@/hooks/use-dose-schedules';
 import {
   generateInsightsReport,
   type ActionableInsight,
@@ -214,10 +215,12 @@ export default function ImpactAnalysisTab({
   timeframeDays,
   className
 }: ImpactAnalysisTabProps) {
+  const { doseSchedules } = useDoseSchedules();
+
   // Generate the full insights report
   const report = useMemo(() =>
-    generateInsightsReport(medications, doses, moodEntries, timeframeDays),
-    [medications, doses, moodEntries, timeframeDays]
+    generateInsightsReport(medications, doses, moodEntries, timeframeDays, doseSchedules),
+    [medications, doses, moodEntries, timeframeDays, doseSchedules]
   );
 
   const hasData = report.dataQuality.moodEntries >= 5;
@@ -29,13 +29,16 @@ import {
   type ConcentrationSeriesMode,
 } from '@/features/analytics/utils/concentration-series';
 import type { Medication, MedicationDose, MoodEntry } from '@/shared/types';
+import { usePatientProfile } from '@/hooks/use-physiology-records';
+import { useMedications } from '@/hooks/use-medications';
+import type { PatientInput } from '@/features/analytics/utils/patient-physiology';
 
 interface LagCorrelationChartProps {
   medication: Medication;
   doses: MedicationDose[];
   moodEntries: MoodEntry[];
   maxLagHours?: number;
-  bodyWeight?: number;
+  bodyWeight?: number; // kg; defaults to the active profile's physiology records
 }
 
 interface LagDataPoint {
@@ -53,8 +56,11 @@ export default function LagCorrelationChart({
   doses,
   moodEntries,
   maxLagHours = 12,
-  bodyWeight = 70,
+  bodyWeight: bodyWeightOverride,
 }: LagCorrelationChartProps) {
+  const profilePatient = usePatientProfile();
+  const patient: PatientInput = bodyWeightOverride ?? profilePatient;
+  const { medications } = useMedications();
   const [correlationMethod, setCorrelationMethod] = useState<'pearson' | 'spearman'>('pearson');
   const [seriesTransform, setSeriesTransform] = useState<'levels' | 'differences'>('levels');
   const [concentrationMode, setConcentrationMode] = useState<ConcentrationSeriesMode>(() =>
@@ -96,8 +102,8 @@ export default function LagCorrelationChart({
     }
 
     const concentrations = concentrationMode === 'trend'
-      ? sampleTrendConcentrationAtTimes(medication, medDoses, timestamps, bodyWeight)
-      : sampleConcentrationAtTimes(medication, medDoses, timestamps, bodyWeight);
+      ? sampleTrendConcentrationAtTimes(medication, doses, timestamps, patient, medications)
+      : sampleConcentrationAtTimes(medication, doses, timestamps, patient, medications);
 
     const moodByHour = new Map<number, number[]>();
     for (const mood of moodEntries) {
@@ -248,7 +254,7 @@ export default function LagCorrelationChart({
       tmax,
       trimmedPreDose,
     };
-  }, [medication, doses, moodEntries, maxLagHours, bodyWeight, correlationMethod, seriesTransform, concentrationMode, isChronic, adherenceMetrics]);
+  }, [medication, medications, doses, moodEntries, maxLagHours, patient, correlationMethod, seriesTransform, concentrationMode, isChronic, adherenceMetrics]);
 
   if ('error' in analysis) {
     const { error } = analysis;
@@ -16,14 +16,23 @@ import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/ui/card';
 import { Button } from '@/shared/ui/button';
-import { Download, Eye, EyeSlash, Waveform, ChartLine, Smiley } from '@phosphor-icons/react';
+import { Download, Eye, EyeSlash, Waveform, ChartLine, Smiley, UsersThree, Sliders } from '@phosphor-icons/react';
 import type { Medication, MedicationDose, MoodEntry } from '@/shared/types';
+import { usePatientProfile } from '@/hooks/use-physiology-records';
+import type { PatientInput } from '@/features/analytics/utils/patient-physiology';
+import { useLabLevels } from '@/hooks/use-lab-levels';
+import { useMedications } from '@/hooks/use-medications';
+import { levelInNgPerMl } from '@/features/analytics/utils/pk-fitting';
+import { pkCache } from '@/features/analytics/utils/pharmacokinetics-cache';
+import { findInteractions, simulateWithInteractions } from '@/features/analytics/utils/drug-interactions';
+import RegimenPlanner from './RegimenPlanner';
 import {
   calculateConcentration,
   calculateEffectConcentration,
   getEffectMetrics,
   calculateSteadyStateMetrics,
   calculateAdherenceEffectLag,
+  getTherapeuticRangeNgPerMl,
   isChronicMedication
 } from '@/features/analytics/utils/pharmacokinetics';
 
@@ -32,9 +41,10 @@ interface PKChartProps {
   doses: MedicationDose[];
   moodEntries: MoodEntry[];
   daysRange?: number;
-  bodyWeight?: number;
+  bodyWeight?: number; // kg; defaults to the active profile's physiology records
   futureHours?: number;
   showTherapeuticRange?: boolean;
+  showVariabilityBand?: boolean; // Controlled by the parent when set; otherwise toggled in the header
 }
 
 interface ChartDataPoint {
@@ -47,6 +57,10 @@ interface ChartDataPoint {
   cognitive: number | null;
   moodTimestamp: number | null;
   moodCount?: number;
+  measuredLevel: number | null; // ng/mL, from a recorded lab result
+  labName?: string;
+  variabilityBand?: [number, number] | null; // 5th-95th percentile across the population
+  variabilityMedian?: number | null;
   formattedTime: string;
   isFuture: boolean;
 }
@@ -56,6 +70,8 @@ const COGNITIVE_COLOR = '#a855f7';
 const EFFECT_COLOR = '#f97316';
 const TREND_COLOR = '#f97316';
 const CSS_COLOR = '#06b6d4';
+const MEASURED_COLOR = '#e11d48';
+const BAND_OPACITY = 0.18;
 const POINTS_PER_DAY = 48;
 
 const ZONE_COLORS = {
@@ -105,15 +121,23 @@ export default function PKChart({
   doses,
   moodEntries,
   daysRange = 7,
-  bodyWeight = 70,
+  bodyWeight: bodyWeightOverride,
   futureHours = 12,
   showTherapeuticRange = true,
+  showVariabilityBand,
 }: PKChartProps) {
+  const profilePatient = usePatientProfile();
+  const patient: PatientInput = bodyWeightOverride ?? profilePatient;
+  const { labLevels } = useLabLevels(medication.id);
+  const { medications } = useMedications();
   const chartRef = useRef<HTMLDivElement>(null);
   const color = medication.color ?? '#8b5cf6';
   const [showTherapeutic, setShowTherapeutic] = useState(showTherapeuticRange);
   const [showCss, setShowCss] = useState(true);
   const [showOptimalZone, setShowOptimalZone] = useState(true);
+  const [showBandLocal, setShowBandLocal] = useState(false);
+  const [showPlanner, setShowPlanner] = useState(false);
+  const showBand = showVariabilityBand ?? showBandLocal;
 
   const isChronic = useMemo(() => isChronicMedication(medication), [medication]);
   const [showEffectCurve, setShowEffectCurve] = useState(!isChronic);
@@ -122,8 +146,8 @@ export default function PKChart({
   const effectMetrics = useMemo(() => getEffectMetrics(medication), [medication]);
   const adherenceMetrics = useMemo(() => calculateAdherenceEffectLag(medication), [medication]);
   const ssMetrics = useMemo(
-    () => calculateSteadyStateMetrics(medication, doses),
-    [medication, doses]
+    () => calculateSteadyStateMetrics(medication, doses, patient),
+    [medication, doses, patient]
   );
 
   const isNewlyStarted = useMemo(() => {
@@ -140,7 +164,12 @@ export default function PKChart({
     return Math.max(0, Math.ceil((28 - daysSinceStart) / 7));
   }, [medication, isNewlyStarted, isChronic]);
 
-  const { chartData, therapeuticRange, optimalConcentrationRange, nowTimestamp, doseMarkers } = useMemo(() => {
+  const interactions = useMemo(
+    () => findInteractions(medications).filter((interaction) => interaction.victim.id === medication.id),
+    [medications, medication.id]
+  );
+
+  const { chartData: baseChartData, therapeuticRange, optimalConcentrationRange, nowTimestamp, doseMarkers, grid } = useMemo(() => {
     const medDoses = doses.filter(d => d.medicationId === medication.id);
     
     const doseTimestamps = medDoses.map(d => d.timestamp);
@@ -174,6 +203,29 @@ export default function PKChart({
       .sort((a, b) => a.timestamp - b.timestamp);
     
     const shouldAggregate = daysRange > 3;
+
+    // With interactions, clearance changes over time, so plasma and
+    // effect-site levels come from one simulation over every time the chart needs
+    const gridTimes = Array.from({ length: totalPoints + 1 }, (_, i) => startTime + i * interval);
+    const extraTimes = [...relevantMoods, ...labLevels]
+      .map((entry) => entry.timestamp)
+      .filter((time) => time >= startTime && time <= endTime);
+    const simulationTimes = [...new Set([...gridTimes, ...extraTimes])].sort((a, b) => a - b);
+    const interaction = interactions.length > 0
+      ? simulateWithInteractions(medication, medications, doses, simulationTimes, patient)
+      : null;
+    const simulatedIndex = new Map(simulationTimes.map((time, i) => [time, i]));
+    const plasmaAt = (time: number) =>
+      interaction
+        ? interaction.concentrations[simulatedIndex.get(time)!]
+        : calculateConcentration(medication, relevantDoses, time, patient);
+    const effectAt = (time: number) =>
+      interaction
+        ? interaction.effectConcentrations[simulatedIndex.get(time)!]
+        : calculateEffectConcentration(medication, relevantDoses, time, patient);
+    const clearanceFactors = interaction
+      ? gridTimes.map((time) => interaction.clearanceFactors[simulatedIndex.get(time)!])
+      : undefined;
     
     interface AggregatedMood {
       moodScore: number;
@@ -231,13 +283,13 @@ export default function PKChart({
     const rawConcentrations: (number | null)[] = [];
     
     for (let i = 0; i <= totalPoints; i++) {
-      const timestamp = startTime + (i * interval);
+      const timestamp = gridTimes[i];
       
-      const conc = calculateConcentration(medication, relevantDoses, timestamp, bodyWeight);
+      const conc = plasmaAt(timestamp);
       const concentration = conc > 0.01 ? conc : null;
       rawConcentrations.push(concentration);
 
-      const effectConc = calculateEffectConcentration(medication, relevantDoses, timestamp, bodyWeight);
+      const effectConc = effectAt(timestamp);
       const effectConcentration = effectConc > 0.01 ? effectConc : null;
       
       const moodEntry = moodMap.get(timestamp);
@@ -252,6 +304,7 @@ export default function PKChart({
         cognitive: moodEntry?.cognitiveScore ?? null,
         moodTimestamp: moodEntry?.timestamp ?? null,
         moodCount: moodEntry?.count,
+        measuredLevel: null,
         formattedTime: format(timestamp, 'dd/MM HH:mm', { locale: ptBR }),
         isFuture: timestamp > nowTimestamp,
       });
@@ -281,8 +334,8 @@ export default function PKChart({
         );
         
         if (!existingPoint) {
-          const conc = calculateConcentration(medication, relevantDoses, mood.timestamp, bodyWeight);
-          const effectConc = calculateEffectConcentration(medication, relevantDoses, mood.timestamp, bodyWeight);
+          const conc = plasmaAt(mood.timestamp);
+          const effectConc = effectAt(mood.timestamp);
           data.push({
             timestamp: mood.timestamp,
             concentration: conc > 0.01 ? conc : null,
@@ -293,6 +346,7 @@ export default function PKChart({
             cognitive: mood.cognitiveScore ?? null,
             moodTimestamp: mood.timestamp,
             moodCount: 1,
+            measuredLevel: null,
             formattedTime: format(mood.timestamp, 'dd/MM HH:mm', { locale: ptBR }),
             isFuture: mood.timestamp > nowTimestamp,
           });
@@ -300,6 +354,26 @@ export default function PKChart({
       }
     }
     
+    // Measured levels get their own points so they sit at the sampling time
+    for (const level of labLevels) {
+      if (level.timestamp < startTime || level.timestamp > endTime) continue;
+      const conc = plasmaAt(level.timestamp);
+      data.push({
+        timestamp: level.timestamp,
+        concentration: conc > 0.01 ? conc : null,
+        effectConcentration: null,
+        trendConcentration: null,
+        concentrationProjected: null,
+        mood: null,
+        cognitive: null,
+        moodTimestamp: null,
+        measuredLevel: levelInNgPerMl(level),
+        labName: level.lab,
+        formattedTime: format(level.timestamp, 'dd/MM HH:mm', { locale: ptBR }),
+        isFuture: level.timestamp > nowTimestamp,
+      });
+    }
+
     data.sort((a, b) => a.timestamp - b.timestamp);
     
     const goodMoodConcentrations = data
@@ -314,34 +388,49 @@ export default function PKChart({
       optimalConcRange = { min: p10, max: p90 };
     }
     
-    let therRange: { min: number; max: number } | null = null;
-    if (medication.therapeuticRange) {
-      const unit = medication.therapeuticRange.unit?.toLowerCase() ?? 'ng/ml';
-      const toNg = (v: number) => {
-        if (unit.includes('mcg') || unit.includes('µg')) return v * 1000;
-        if (unit.includes('mg/l')) return v * 1000;
-        return v;
-      };
-      therRange = {
-        min: toNg(medication.therapeuticRange.min),
-        max: toNg(medication.therapeuticRange.max),
-      };
-    }
-    
     return {
       chartData: data,
-      therapeuticRange: therRange,
+      therapeuticRange: getTherapeuticRangeNgPerMl(medication),
       optimalConcentrationRange: optimalConcRange,
       nowTimestamp,
       doseMarkers: visibleDoseTimestamps,
+      grid: { startTime, endTime, totalPoints, relevantDoses, clearanceFactors },
     };
-  }, [medication, doses, moodEntries, daysRange, bodyWeight, futureHours]);
+  }, [medication, medications, interactions, doses, moodEntries, labLevels, daysRange, patient, futureHours]);
+
+  // Percentile band on the same grid as the plasma curve; points added for
+  // moods and lab levels have none and are bridged by connectNulls
+  const chartData = useMemo<ChartDataPoint[]>(() => {
+    if (!showBand || grid.relevantDoses.length === 0) return baseChartData;
+
+    const percentiles = pkCache.getPercentileCurve(
+      medication,
+      grid.relevantDoses,
+      grid.startTime,
+      grid.endTime,
+      grid.totalPoints,
+      patient,
+      { clearanceFactors: grid.clearanceFactors }
+    );
+    const byTime = new Map(percentiles.map((point) => [point.time, point]));
+
+    return baseChartData.map((point) => {
+      const percentile = byTime.get(point.timestamp);
+      if (!percentile || percentile.p95 <= 0.01) return point;
+      return {
+        ...point,
+        variabilityBand: [percentile.p5, percentile.p95],
+        variabilityMedian: percentile.p50,
+      };
+    });
+  }, [showBand, baseChartData, grid, medication, patient]);
 
   const concentrationDomain = useMemo<[number, number]>(() => {
     const values: Array<number | null | undefined> = [];
 
     for (const point of chartData) {
-      values.push(point.concentration);
+      values.push(point.concentration, point.measuredLevel);
+      if (showBand && point.variabilityBand) values.push(...point.variabilityBand);
       if (showEffectCurve) values.push(point.effectConcentration);
       if (showTrendCurve) values.push(point.trendConcentration);
     }
@@ -356,7 +445,7 @@ export default function PKChart({
       minPaddingAbs: 0.1,
       fallback: [0, 100],
     });
-  }, [chartData, showEffectCurve, showTrendCurve, showTherapeutic, therapeuticRange]);
+  }, [chartData, showEffectCurve, showTrendCurve, showTherapeutic, therapeuticRange, showBand]);
 
   const formatConcentrationTick = useCallback((value: number) => {
     const max = concentrationDomain[1];
@@ -415,6 +504,22 @@ export default function PKChart({
             )}
           </div>
         )}
+        {point.variabilityBand && (
+          <div className="mb-1 text-xs" style={{ color }}>
+            População (P5–P95): {point.variabilityBand[0].toFixed(1)}–{point.variabilityBand[1].toFixed(1)} ng/mL
+            {point.variabilityMedian != null && (
+              <span className="opacity-70 ml-1">(mediana {point.variabilityMedian.toFixed(1)})</span>
+            )}
+          </div>
+        )}
+        {point.measuredLevel !== null && (
+          <div className="mb-1">
+            <span style={{ color: MEASURED_COLOR }}>
+              Nível medido: <strong>{point.measuredLevel.toFixed(1)} ng/mL</strong>
+            </span>
+            {point.labName && <span className="text-xs opacity-70 ml-1">({point.labName})</span>}
+          </div>
+        )}
         {point.effectConcentration !== null && showEffectCurve && (
           <div className="mb-1">
             <span style={{ color: EFFECT_COLOR }}>
@@ -494,6 +599,19 @@ export default function PKChart({
         <CardTitle className="flex items-center gap-2 text-base">
           <div className="w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
           {medication.name}
+          {medication.formulation && medication.formulation.kind !== 'IR' && (
+            <span className="text-xs font-normal text-muted-foreground" title="Liberação modificada">
+              {medication.formulation.kind}
+            </span>
+          )}
+          {interactions.length > 0 && (
+            <span
+              className="text-xs font-normal text-amber-600"
+              title={interactions.map((interaction) => interaction.rule.description).join('\n')}
+            >
+              CL ajustada
+            </span>
+          )}
         </CardTitle>
         <div className="flex items-center gap-1">
           {ssMetrics && (
@@ -532,6 +650,18 @@ export default function PKChart({
               <span className="hidden sm:inline text-xs">Tendência</span>
             </Button>
           )}
+          {showVariabilityBand === undefined && (
+            <Button
+              variant={showBandLocal ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setShowBandLocal(!showBandLocal)}
+              title={showBandLocal ? 'Ocultar variabilidade populacional' : 'Mostrar variabilidade populacional (P5–P95)'}
+              className="gap-1"
+            >
+              <UsersThree className="h-4 w-4" />
+              <span className="hidden sm:inline text-xs">P5–P95</span>
+            </Button>
+          )}
           {therapeuticRange && (
             <Button 
               variant="ghost" 
@@ -554,6 +684,16 @@ export default function PKChart({
               <span className="hidden sm:inline text-xs">Ótimo</span>
             </Button>
           )}
+          <Button
+            variant={showPlanner ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setShowPlanner(!showPlanner)}
+            title={showPlanner ? 'Fechar simulador de esquemas' : 'Simular outro esquema de doses'}
+            className="gap-1"
+          >
+            <Sliders className="h-4 w-4" />
+            <span className="hidden sm:inline text-xs">Simular</span>
+          </Button>
           <Button variant="ghost" size="sm" onClick={exportChart} title="Exportar gráfico">
             <Download className="h-4 w-4" />
           </Button>
@@ -741,6 +881,23 @@ export default function PKChart({
                 </>
               )}
               
+              {showBand && (
+                <Area
+                  yAxisId="conc"
+                  type="monotoneX"
+                  dataKey="variabilityBand"
+                  name="Variabilidade (P5–P95)"
+                  stroke="none"
+                  fill={color}
+                  fillOpacity={BAND_OPACITY}
+                  legendType="square"
+                  connectNulls
+                  isAnimationActive={false}
+                  dot={false}
+                  activeDot={false}
+                />
+              )}
+
               <Area
                 yAxisId="conc"
                 type="monotoneX"
@@ -785,6 +942,20 @@ export default function PKChart({
                 />
               )}
               
+              {labLevels.length > 0 && (
+                <Line
+                  yAxisId="conc"
+                  dataKey="measuredLevel"
+                  name="Nível medido"
+                  stroke={MEASURED_COLOR}
+                  strokeWidth={0}
+                  legendType="diamond"
+                  isAnimationActive={false}
+                  dot={{ r: 5, fill: MEASURED_COLOR, stroke: '#fff', strokeWidth: 1.5 }}
+                  activeDot={{ r: 7, fill: MEASURED_COLOR, stroke: '#fff', strokeWidth: 2 }}
+                />
+              )}
+
               <Line
                 yAxisId="mood"
                 type="monotoneX"
@@ -940,6 +1111,8 @@ export default function PKChart({
             </p>
           </div>
         )}
+
+        {showPlanner && <RegimenPlanner medication={medication} doses={doses} patient={patient} />}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,489 @@
+/**
+ * Regimen Planner
+ *
+ * What-if simulator under the PK chart: draft a regimen (doses, times,
+ * weekdays), start it on a date after the logged history and compare its
+ * projected plasma/effect curves, steady state and time in therapeutic range
+ * with the current regimen and with saved drafts (regimen-simulation.ts).
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+  ReferenceArea,
+} from 'recharts';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { v4 as uuidv4 } from 'uuid';
+import { FloppyDisk, Plus, Trash, X } from '@phosphor-icons/react';
+import { Button } from '@/shared/ui/button';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { Checkbox } from '@/shared/ui/checkbox';
+import { ToggleGroup, ToggleGroupItem } from '@/shared/ui/toggle-group';
+import type { Medication, MedicationDose, RegimenDose, RegimenDraft, Weekday } from '@/shared/types';
+import { safeFormat } from '@/shared/utils';
+import { parseLocalDateTime } from '@/shared/utils/date-helpers';
+import { useMedications } from '@/hooks/use-medications';
+import { getTherapeuticRangeNgPerMl } from '@/features/analytics/utils/pharmacokinetics';
+import type { PatientInput } from '@/features/analytics/utils/patient-physiology';
+import {
+  inferCurrentRegimen,
+  projectRegimen,
+  type RegimenInput,
+  type RegimenProjection
+} from '@/features/analytics/utils/regimen-simulation';
+
+interface RegimenPlannerProps {
+  medication: Medication;
+  doses: MedicationDose[];
+  patient: PatientInput;
+}
+
+interface DoseRow {
+  time: string;
+  amount: string;
+}
+
+interface Series {
+  key: string;
+  name: string;
+  color: string;
+  projection: RegimenProjection;
+}
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: 'S',
+  tue: 'T',
+  wed: 'Q',
+  thu: 'Q',
+  fri: 'S',
+  sat: 'S',
+  sun: 'D'
+};
+const ALL_WEEKDAYS = Object.keys(WEEKDAY_LABELS) as Weekday[];
+
+const DRAFT_COLOR = '#f97316';
+const SAVED_COLORS = ['#06b6d4', '#a855f7', '#e11d48', '#84cc16'];
+const HISTORY_DAYS = 2;
+const PROJECTION_OPTIONS = [7, 14, 28];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function toRows(doses: RegimenDose[]): DoseRow[] {
+  return doses.map((dose) => ({ time: dose.time, amount: String(dose.amount) }));
+}
+
+function parseRows(rows: DoseRow[]): RegimenDose[] | null {
+  const doses = rows.map((row) => ({ time: row.time, amount: parseFloat(row.amount.replace(',', '.')) }));
+  const valid = doses.length > 0 && doses.every((dose) => TIME_PATTERN.test(dose.time) && dose.amount > 0);
+  return valid ? [...doses].sort((a, b) => a.time.localeCompare(b.time)) : null;
+}
+
+function describeRegimen(regimen: RegimenInput): string {
+  const doses = regimen.doses.map((dose) => `${dose.amount} mg às ${dose.time}`).join(', ');
+  return regimen.days ? `${doses} (${regimen.days.length} dias/semana)` : doses;
+}
+
+export default function RegimenPlanner({ medication, doses, patient }: RegimenPlannerProps) {
+  const { updateMedication } = useMedications();
+  const savedDrafts = useMemo(() => medication.regimenDrafts ?? [], [medication.regimenDrafts]);
+  const current = useMemo(() => inferCurrentRegimen(medication.id, doses), [medication.id, doses]);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('Novo esquema');
+  const [rows, setRows] = useState<DoseRow[]>(() =>
+    current
+      ? toRows(current)
+      : [{ time: medication.scheduledTime ?? '08:00', amount: medication.defaultDose ? String(medication.defaultDose) : '' }]
+  );
+  const [days, setDays] = useState<Weekday[]>(ALL_WEEKDAYS);
+  const [startDate, setStartDate] = useState(() => safeFormat(Date.now(), 'yyyy-MM-dd', ''));
+  const [projectionDays, setProjectionDays] = useState(14);
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+
+  const draftDoses = useMemo(() => parseRows(rows), [rows]);
+  const draftDays = days.length === ALL_WEEKDAYS.length ? undefined : days;
+  const therapeuticRange = useMemo(() => getTherapeuticRangeNgPerMl(medication), [medication]);
+
+  const { series, chartData, start } = useMemo(() => {
+    const now = Date.now();
+    let start = now;
+    try {
+      start = Math.max(now, parseLocalDateTime(startDate, '00:00'));
+    } catch {
+      // Keep starting now while the date field is incomplete
+    }
+    const window = {
+      from: now - HISTORY_DAYS * 24 * 3600 * 1000,
+      start,
+      until: start + projectionDays * 24 * 3600 * 1000,
+      points: (HISTORY_DAYS + projectionDays) * 12,
+      patient
+    };
+
+    const series: Series[] = [];
+    if (current) {
+      series.push({
+        key: 'current',
+        name: 'Atual',
+        color: medication.color ?? '#8b5cf6',
+        projection: projectRegimen(medication, doses, { doses: current }, window)
+      });
+    }
+    if (draftDoses && days.length > 0) {
+      series.push({
+        key: 'draft',
+        name: name.trim() || 'Rascunho',
+        color: DRAFT_COLOR,
+        projection: projectRegimen(medication, doses, { doses: draftDoses, days: draftDays }, window)
+      });
+    }
+    savedDrafts
+      .filter((draft) => comparedIds.includes(draft.id) && draft.id !== editingId)
+      .forEach((draft, index) => {
+        series.push({
+          key: draft.id,
+          name: draft.name,
+          color: SAVED_COLORS[index % SAVED_COLORS.length],
+          projection: projectRegimen(medication, doses, draft, window)
+        });
+      });
+
+    // Every projection shares the same time grid
+    const chartData = (series[0]?.projection.curve ?? []).map((point, i) => {
+      const row: Record<string, number> = { time: point.time };
+      for (const item of series) {
+        row[item.key] = item.projection.curve[i].plasma;
+        row[`${item.key}-effect`] = item.projection.curve[i].effect;
+      }
+      return row;
+    });
+
+    return { series, chartData, start };
+  }, [medication, doses, patient, current, draftDoses, days.length, draftDays, name, savedDrafts, comparedIds, editingId, startDate, projectionDays]);
+
+  const saveDrafts = async (regimenDrafts: RegimenDraft[]) => {
+    try {
+      await updateMedication(medication.id, { regimenDrafts });
+      return true;
+    } catch (error) {
+      toast.error('Não foi possível salvar o esquema', {
+        description: error instanceof Error ? error.message : undefined
+      });
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draftDoses || days.length === 0) return;
+    const draft: RegimenDraft = {
+      id: editingId ?? uuidv4(),
+      name: name.trim() || 'Esquema',
+      doses: draftDoses,
+      days: draftDays,
+      createdAt: savedDrafts.find((item) => item.id === editingId)?.createdAt ?? Date.now()
+    };
+    const next = editingId
+      ? savedDrafts.map((item) => (item.id === editingId ? draft : item))
+      : [...savedDrafts, draft];
+    if (await saveDrafts(next)) {
+      setEditingId(draft.id);
+      toast.success(`Esquema "${draft.name}" salvo`);
+    }
+  };
+
+  const handleLoad = (draft: RegimenDraft) => {
+    setEditingId(draft.id);
+    setName(draft.name);
+    setRows(toRows(draft.doses));
+    setDays(draft.days ?? ALL_WEEKDAYS);
+  };
+
+  const handleNew = () => {
+    setEditingId(null);
+    setName('Novo esquema');
+  };
+
+  const handleDelete = async (draft: RegimenDraft) => {
+    if (!confirm(`Excluir o esquema "${draft.name}"?`)) return;
+    if (await saveDrafts(savedDrafts.filter((item) => item.id !== draft.id))) {
+      setComparedIds((ids) => ids.filter((id) => id !== draft.id));
+      if (editingId === draft.id) setEditingId(null);
+    }
+  };
+
+  const toggleCompared = (id: string, checked: boolean) => {
+    setComparedIds((ids) => (checked ? [...ids, id] : ids.filter((item) => item !== id)));
+  };
+
+  const updateRow = (index: number, field: keyof DoseRow, value: string) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t space-y-4">
+      <div>
+        <h4 className="text-sm font-semibold">Simulador de esquemas</h4>
+        <p className="text-xs text-muted-foreground">
+          Projeção se o esquema for seguido a partir da data de início, mantendo as doses já registradas antes dela.
+        </p>
+      </div>
+
+      {/* Draft editor */}
+      <div className="p-3 rounded-lg bg-muted/40 border space-y-3">
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor={`regimen-name-${medication.id}`} className="text-xs">Nome</Label>
+            <Input
+              id={`regimen-name-${medication.id}`}
+              value={name}
+              maxLength={80}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`regimen-start-${medication.id}`} className="text-xs">Início</Label>
+            <Input
+              id={`regimen-start-${medication.id}`}
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Projeção</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={String(projectionDays)}
+              onValueChange={(value) => value && setProjectionDays(Number(value))}
+            >
+              {PROJECTION_OPTIONS.map((option) => (
+                <ToggleGroupItem key={option} value={String(option)} className="text-xs">
+                  {option}d
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs">Doses diárias</Label>
+          {rows.map((row, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                type="time"
+                value={row.time}
+                onChange={(e) => updateRow(index, 'time', e.target.value)}
+                className="w-32"
+                aria-label="Horário"
+              />
+              <Input
+                inputMode="decimal"
+                value={row.amount}
+                onChange={(e) => updateRow(index, 'amount', e.target.value)}
+                placeholder="mg"
+                className="w-24"
+                aria-label="Dose (mg)"
+              />
+              <span className="text-xs text-muted-foreground">mg</span>
+              {rows.length > 1 && (
+                <Button variant="ghost" size="sm" onClick={() => setRows(rows.filter((_, i) => i !== index))}>
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+          <Button variant="ghost" size="sm" onClick={() => setRows([...rows, { time: '20:00', amount: rows[0]?.amount ?? '' }])}>
+            <Plus className="w-4 h-4 mr-1" />
+            Adicionar horário
+          </Button>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Dias da semana</Label>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            size="sm"
+            value={days}
+            onValueChange={(value) => setDays(value as Weekday[])}
+          >
+            {ALL_WEEKDAYS.map((day) => (
+              <ToggleGroupItem key={day} value={day} className="text-xs w-8">
+                {WEEKDAY_LABELS[day]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleSave} disabled={!draftDoses || days.length === 0}>
+            <FloppyDisk className="w-4 h-4 mr-2" />
+            {editingId ? 'Atualizar esquema' : 'Salvar esquema'}
+          </Button>
+          {editingId && (
+            <Button size="sm" variant="outline" onClick={handleNew}>
+              Salvar como novo
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Saved drafts */}
+      {savedDrafts.length > 0 && (
+        <div className="space-y-1">
+          <Label className="text-xs">Esquemas salvos (marque para comparar)</Label>
+          {savedDrafts.map((draft) => (
+            <div key={draft.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={comparedIds.includes(draft.id)}
+                disabled={draft.id === editingId}
+                onCheckedChange={(checked) => toggleCompared(draft.id, checked === true)}
+                aria-label={`Comparar ${draft.name}`}
+              />
+              <button className="flex-1 min-w-0 text-left hover:underline" onClick={() => handleLoad(draft)}>
+                <span className="font-medium">{draft.name}</span>
+                <span className="text-xs text-muted-foreground ml-2">{describeRegimen(draft)}</span>
+              </button>
+              <Button variant="ghost" size="sm" onClick={() => handleDelete(draft)}>
+                <Trash className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Projection */}
+      {series.length > 0 ? (
+        <>
+          <div className="h-[260px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted/30" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(time: number) => format(time, 'dd/MM')}
+                  tick={{ fontSize: 10 }}
+                />
+                <YAxis
+                  tick={{ fontSize: 10 }}
+                  tickFormatter={(value: number) => value.toFixed(0)}
+                  label={{ value: 'ng/mL', angle: -90, position: 'insideLeft', fontSize: 10 }}
+                />
+                <Tooltip
+                  labelFormatter={(time) => format(Number(time), "dd MMM 'às' HH:mm", { locale: ptBR })}
+                  formatter={(value) => `${Number(value).toFixed(1)} ng/mL`}
+                />
+                <Legend formatter={(value) => <span className="text-xs">{value}</span>} />
+                {therapeuticRange && (
+                  <ReferenceArea
+                    y1={therapeuticRange.min}
+                    y2={therapeuticRange.max}
+                    fill="#22c55e"
+                    fillOpacity={0.08}
+                    ifOverflow="hidden"
+                  />
+                )}
+                <ReferenceLine
+                  x={start}
+                  stroke="#64748b"
+                  strokeDasharray="4 4"
+                  label={{ value: 'Início', position: 'top', fontSize: 9, fill: '#64748b' }}
+                />
+                {series.map((item) => (
+                  <Line
+                    key={item.key}
+                    type="monotoneX"
+                    dataKey={item.key}
+                    name={item.name}
+                    stroke={item.color}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+                {series.map((item) => (
+                  <Line
+                    key={`${item.key}-effect`}
+                    type="monotoneX"
+                    dataKey={`${item.key}-effect`}
+                    name={`${item.name} (efeito)`}
+                    stroke={item.color}
+                    strokeWidth={1}
+                    strokeDasharray="5 3"
+                    strokeOpacity={0.7}
+                    dot={false}
+                    legendType="none"
+                    isAnimationActive={false}
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="py-1 text-left font-medium">Esquema</th>
+                  <th className="py-1 text-right font-medium">mg/dia</th>
+                  <th className="py-1 text-right font-medium">Css média</th>
+                  <th className="py-1 text-right font-medium">Cmín–Cmáx</th>
+                  <th className="py-1 text-right font-medium">Flutuação</th>
+                  <th className="py-1 text-right font-medium">Tempo na faixa</th>
+                </tr>
+              </thead>
+              <tbody>
+                {series.map(({ key, name: seriesName, color, projection }) => (
+                  <tr key={key} className="border-t">
+                    <td className="py-1">
+                      <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: color }} />
+                      {seriesName}
+                    </td>
+                    <td className="py-1 text-right">{projection.dailyAmount}</td>
+                    <td className="py-1 text-right">
+                      {projection.steadyState ? `${projection.steadyState.Css_avg.toFixed(1)} ng/mL` : '—'}
+                    </td>
+                    <td className="py-1 text-right">
+                      {projection.steadyState
+                        ? `${projection.steadyState.Cmin_ss.toFixed(0)}–${projection.steadyState.Cmax_ss.toFixed(0)}`
+                        : '—'}
+                    </td>
+                    <td className="py-1 text-right">
+                      {projection.steadyState ? `${projection.steadyState.fluctuation.toFixed(0)}%` : '—'}
+                    </td>
+                    <td className="py-1 text-right font-semibold">
+                      {projection.timeInRange !== null ? `${Math.round(projection.timeInRange * 100)}%` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Linhas contínuas: plasma; tracejadas: efeito. Tempo na faixa conta a projeção a partir do início
+            {therapeuticRange ? '' : ' e exige uma faixa terapêutica cadastrada'}.
+            {current ? ` Esquema atual inferido dos últimos 14 dias: ${describeRegimen({ doses: current })}.` : ''}
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground text-center">
+          Preencha horário e dose para ver a projeção.
+        </p>
+      )}
+    </div>
+  );
+}
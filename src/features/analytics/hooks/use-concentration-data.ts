@@ -1,7 +1,10 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useCallback } from 'react';
 import type { Medication, MedicationDose } from '@/shared/types';
+import { usePatientProfile } from '@/hooks/use-physiology-records';
 import { pkCache } from '../utils/pharmacokinetics-cache';
+import { concentrationsWithInteractions, findInteractions } from '../utils/drug-interactions';
+import { patientKey, type PatientInput } from '../utils/patient-physiology';
 
 interface ConcentrationDataParams {
   medication: Medication;
@@ -9,7 +12,12 @@ interface ConcentrationDataParams {
   startTime: number;
   endTime: number;
   points?: number;
-  bodyWeight?: number;
+  bodyWeight?: number; // kg; defaults to the active profile's physiology records
+  medications?: Medication[]; // Every medication in use, with their doses in `doses`, to follow interactions
+}
+
+function hasInteractions(medication: Medication, medications: Medication[]): boolean {
+  return findInteractions(medications).some((interaction) => interaction.victim.id === medication.id);
 }
 
 interface ConcentrationDataPoint {
@@ -24,8 +32,11 @@ export function useConcentrationCurve({
   startTime,
   endTime,
   points = 100,
-  bodyWeight = 70
+  bodyWeight: bodyWeightOverride,
+  medications = [medication]
 }: ConcentrationDataParams) {
+  const profilePatient = usePatientProfile();
+  const patient: PatientInput = bodyWeightOverride ?? profilePatient;
   const queryKey = [
     'concentration-curve',
     medication.id,
@@ -33,13 +44,23 @@ export function useConcentrationCurve({
     startTime,
     endTime,
     points,
-    bodyWeight
+    patientKey(patient),
+    medications.map(m => m.id).join('|')
   ];
 
   const query = useQuery({
     queryKey,
     queryFn: async (): Promise<ConcentrationDataPoint[]> => {
-      const curve = pkCache.getCurve(medication, doses, startTime, endTime, points, bodyWeight);
+      const medDoses = doses.filter(d => d.medicationId === medication.id);
+      let curve: Array<{ time: number; concentration: number }>;
+      if (hasInteractions(medication, medications)) {
+        // Clearance changes over time, which the cached closed form can't follow
+        const times = Array.from({ length: points + 1 }, (_, i) => startTime + (i * (endTime - startTime)) / points);
+        const concentrations = concentrationsWithInteractions(medication, medications, doses, times, patient);
+        curve = times.map((time, i) => ({ time, concentration: concentrations[i] }));
+      } else {
+        curve = pkCache.getCurve(medication, medDoses, startTime, endTime, points, patient);
+      }
 
       return curve.map(point => ({
         time: point.time,
@@ -65,20 +86,32 @@ export function useConcentrationPoint(
   medication: Medication,
   doses: MedicationDose[],
   targetTime: number,
-  bodyWeight: number = 70
+  bodyWeightOverride?: number,
+  medications: Medication[] = [medication]
 ) {
+  const profilePatient = usePatientProfile();
+  const patient: PatientInput = bodyWeightOverride ?? profilePatient;
   const queryKey = [
     'concentration-point',
     medication.id,
     doses.map(d => `${d.id}:${d.timestamp}:${d.doseAmount}`).join('|'),
     targetTime,
-    bodyWeight
+    patientKey(patient),
+    medications.map(m => m.id).join('|')
   ];
 
   const query = useQuery({
     queryKey,
     queryFn: async () => {
-      return pkCache.getConcentration(medication, doses, targetTime, bodyWeight);
+      if (hasInteractions(medication, medications)) {
+        return concentrationsWithInteractions(medication, medications, doses, [targetTime], patient)[0];
+      }
+      return pkCache.getConcentration(
+        medication,
+        doses.filter(d => d.medicationId === medication.id),
+        targetTime,
+        patient
+      );
     },
     staleTime: 5 * 60 * 1000,
     gcTime: 10 * 60 * 1000,
@@ -1,5 +1,7 @@
 import type { Medication, MedicationDose } from '@/shared/types';
-import { calculateConcentration, isChronicMedication } from './pharmacokinetics';
+import { isChronicMedication } from './pharmacokinetics';
+import { concentrationsWithInteractions } from './drug-interactions';
+import type { PatientInput } from './patient-physiology';
 
 const HOUR_MS = 60 * 60 * 1000;
 
@@ -19,17 +21,21 @@ export function getTrendWindowMs(medication: Medication): number {
   return Math.round(hours * HOUR_MS);
 }
 
+/**
+ * Concentrations at `timestamps`, adjusted for interactions with the other
+ * `medications`; `doses` may hold every medication's doses
+ */
 export function sampleConcentrationAtTimes(
   medication: Medication,
   doses: MedicationDose[],
   timestamps: number[],
-  bodyWeight: number = 70,
+  patient: PatientInput = 70,
+  medications: Medication[] = [medication],
   minNonZero: number = 0.01
 ): Array<number | null> {
-  return timestamps.map((t) => {
-    const conc = calculateConcentration(medication, doses, t, bodyWeight);
-    return conc > minNonZero ? conc : null;
-  });
+  return concentrationsWithInteractions(medication, medications, doses, timestamps, patient).map((conc) =>
+    conc > minNonZero ? conc : null
+  );
 }
 
 export function computeTrendFromSamples(
@@ -72,10 +78,11 @@ export function sampleTrendConcentrationAtTimes(
   medication: Medication,
   doses: MedicationDose[],
   timestamps: number[],
-  bodyWeight: number = 70
+  patient: PatientInput = 70,
+  medications: Medication[] = [medication]
 ): Array<number | null> {
   const windowMs = getTrendWindowMs(medication);
-  const raw = sampleConcentrationAtTimes(medication, doses, timestamps, bodyWeight);
+  const raw = sampleConcentrationAtTimes(medication, doses, timestamps, patient, medications);
   return computeTrendFromSamples(timestamps, raw, windowMs, 3);
 }
 
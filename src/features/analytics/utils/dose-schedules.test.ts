@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { DoseSchedule, Medication, MedicationDose } from '@/shared/types';
+import {
+  SCHEDULE_TEMPLATES,
+  buildLinearTaper,
+  calculateScheduleAdherence,
+  getExpectedDose,
+  getScheduleEnd
+} from './dose-schedules';
+import { detectRedFlags } from './insights-generator';
+
+const HOUR = 60 * 60 * 1000;
+// Local midnight, so days do not depend on the test's time zone
+const START = new Date(2025, 4, 5).getTime();
+const day = (n: number) => new Date(2025, 4, 5 + n).getTime();
+
+const lamotrigine: Medication = {
+  id: 'med-ltg',
+  name: 'Lamotrigina',
+  category: 'Mood Stabilizer',
+  halfLife: 29,
+  volumeOfDistribution: 1.1,
+  bioavailability: 0.98,
+  absorptionRate: 1.5,
+  createdAt: START,
+  updatedAt: START
+};
+
+const titration: DoseSchedule = {
+  id: 'sched-1',
+  medicationId: lamotrigine.id,
+  kind: 'titration',
+  startDate: '2025-05-05',
+  steps: SCHEDULE_TEMPLATES.find((template) => template.id === 'lamotrigine')!.buildSteps(200),
+  createdAt: START
+};
+
+function dose(n: number, amount: number): MedicationDose {
+  const timestamp = day(n) + 9 * HOUR;
+  return { id: `d${n}-${amount}`, medicationId: lamotrigine.id, timestamp, doseAmount: amount, createdAt: timestamp };
+}
+
+describe('dose schedules', () => {
+  it('derives step doses and the planned end from the start date', () => {
+    assert.strictEqual(getScheduleEnd(titration), day(42));
+    assert.strictEqual(getExpectedDose(titration, day(13) + 20 * HOUR), 25);
+    assert.strictEqual(getExpectedDose(titration, day(14)), 50);
+    assert.strictEqual(getExpectedDose(titration, day(41)), 200);
+    assert.strictEqual(getExpectedDose(titration, day(42)), null);
+    assert.deepStrictEqual(
+      buildLinearTaper(2, 0.25, 28).map((step) => step.dose),
+      [2, 1.5, 1, 0.5, 0]
+    );
+  });
+
+  it('compares daily logged totals with the expected dose of finished days', () => {
+    const doses = [dose(0, 25), dose(1, 12.5), dose(1, 12.5), dose(2, 12.5), dose(4, 50)];
+    const adherence = calculateScheduleAdherence(titration, doses, day(5) + 12 * HOUR);
+    assert.deepStrictEqual(
+      adherence.days.map((d) => d.status),
+      ['ok', 'ok', 'under', 'missed', 'over']
+    );
+    assert.strictEqual(adherence.rate, 2 / 5);
+  });
+
+  it('flags dose deviations even without recent mood entries', () => {
+    const onSchedule = [0, 1, 2, 3, 4, 5, 6].map((n) => dose(n, 25));
+    assert.deepStrictEqual(detectRedFlags([], onSchedule, [lamotrigine], day(7), [titration]), []);
+
+    const [flag] = detectRedFlags([], [...onSchedule.slice(0, 6), dose(6, 100)], [lamotrigine], day(7), [titration]);
+    assert.strictEqual(flag.type, 'dose_deviation');
+    assert.strictEqual(flag.severity, 'alert');
+    assert.strictEqual(flag.daysAffected, 1);
+  });
+});
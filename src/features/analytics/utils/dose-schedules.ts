@@ -0,0 +1,185 @@
+import type { DoseSchedule, DoseScheduleKind, DoseScheduleStep, MedicationDose } from '@/shared/types';
+
+/**
+ * Titration and taper schedules.
+ *
+ * A schedule is a list of consecutive steps (mg per day for N days) from a
+ * local start date. Adherence compares, for every finished day of the
+ * schedule, the total logged amount of the medication with the step's dose.
+ */
+
+/** Relative difference between logged and expected daily amount still counted as on schedule */
+export const DOSE_TOLERANCE = 0.1;
+
+export interface ScheduleTemplate {
+  id: string;
+  label: string;
+  kind: DoseScheduleKind;
+  description: string;
+  /** Steps for a target (titration) or current (taper) daily dose in mg */
+  buildSteps: (dose: number) => DoseScheduleStep[];
+}
+
+export interface ScheduleStepDates extends DoseScheduleStep {
+  index: number;
+  start: number; // Local midnight of the first day
+  end: number; // Local midnight after the last day
+}
+
+export type ScheduleDayStatus = 'ok' | 'missed' | 'under' | 'over';
+
+export interface ScheduleDay {
+  date: number; // Local midnight
+  stepIndex: number;
+  expected: number; // mg
+  taken: number; // mg logged that day
+  status: ScheduleDayStatus;
+}
+
+export interface ScheduleAdherence {
+  days: ScheduleDay[];
+  onScheduleDays: number;
+  /** Share (0-1) of evaluated days on schedule; null before the first day has ended */
+  rate: number | null;
+}
+
+function roundDose(dose: number): number {
+  return Math.round(dose * 100) / 100;
+}
+
+/**
+ * Linear taper removing `fraction` of the starting dose every `days` days;
+ * the last step (0 mg) keeps flagging doses logged after stopping
+ */
+export function buildLinearTaper(startDose: number, fraction: number = 0.1, days: number = 14): DoseScheduleStep[] {
+  const stepCount = Math.ceil(1 / fraction);
+  const steps: DoseScheduleStep[] = [];
+  for (let i = 0; i <= stepCount; i++) {
+    const dose = roundDose(Math.max(0, startDose * (1 - i * fraction)));
+    steps.push({ dose, days });
+    if (dose === 0) break;
+  }
+  return steps;
+}
+
+export const SCHEDULE_TEMPLATES: ScheduleTemplate[] = [
+  {
+    id: 'lamotrigine',
+    label: 'Lamotrigina 25→50→100→200 mg',
+    kind: 'titration',
+    description: '25 mg por 2 semanas, 50 mg por 2 semanas, 100 mg por 1 semana e a dose alvo a partir da 6ª semana',
+    buildSteps: (dose) => [
+      { dose: 25, days: 14 },
+      { dose: 50, days: 14 },
+      { dose: 100, days: 7 },
+      { dose, days: 7 }
+    ]
+  },
+  {
+    id: 'benzodiazepine-taper',
+    label: 'Benzodiazepínico: −10% a cada 2 semanas',
+    kind: 'taper',
+    description: 'Redução de 10% da dose inicial a cada 2 semanas até suspender',
+    buildSteps: (dose) => buildLinearTaper(dose, 0.1, 14)
+  },
+  {
+    id: 'ssri-taper',
+    label: 'ISRS: −25% a cada 4 semanas',
+    kind: 'taper',
+    description: 'Redução de 25% da dose inicial a cada 4 semanas até suspender',
+    buildSteps: (dose) => buildLinearTaper(dose, 0.25, 28)
+  }
+];
+
+/**
+ * Local midnight of a yyyy-MM-dd date
+ */
+export function parseLocalDate(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+}
+
+function addDays(midnight: number, days: number): number {
+  const date = new Date(midnight);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+function startOfDay(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Dates of every step; days are calendar days, so steps stay aligned across
+ * DST changes
+ */
+export function getStepDates(schedule: Pick<DoseSchedule, 'startDate' | 'steps'>): ScheduleStepDates[] {
+  let start = parseLocalDate(schedule.startDate);
+  return schedule.steps.map((step, index) => {
+    const end = addDays(start, step.days);
+    const dates = { ...step, index, start, end };
+    start = end;
+    return dates;
+  });
+}
+
+/**
+ * Planned end: local midnight after the last day of the last step
+ */
+export function getScheduleEnd(schedule: Pick<DoseSchedule, 'startDate' | 'steps'>): number {
+  const steps = getStepDates(schedule);
+  return steps.length > 0 ? steps[steps.length - 1].end : parseLocalDate(schedule.startDate);
+}
+
+/**
+ * Step in effect at `time`, or null outside the schedule
+ */
+export function getStepAt(schedule: Pick<DoseSchedule, 'startDate' | 'steps'>, time: number): ScheduleStepDates | null {
+  return getStepDates(schedule).find((step) => time >= step.start && time < step.end) ?? null;
+}
+
+/**
+ * Daily dose the schedule expects on the day of `time` (mg), or null outside it
+ */
+export function getExpectedDose(schedule: Pick<DoseSchedule, 'startDate' | 'steps'>, time: number): number | null {
+  return getStepAt(schedule, time)?.dose ?? null;
+}
+
+export function classifyDay(expected: number, taken: number): ScheduleDayStatus {
+  if (expected === 0) return taken > 0 ? 'over' : 'ok';
+  if (taken === 0) return 'missed';
+  if (taken < expected * (1 - DOSE_TOLERANCE)) return 'under';
+  if (taken > expected * (1 + DOSE_TOLERANCE)) return 'over';
+  return 'ok';
+}
+
+/**
+ * Logged vs expected amount for every day of the schedule that ended by
+ * `until`
+ */
+export function calculateScheduleAdherence(
+  schedule: DoseSchedule,
+  doses: MedicationDose[],
+  until: number = Date.now()
+): ScheduleAdherence {
+  const totals = new Map<number, number>();
+  for (const dose of doses) {
+    if (dose.medicationId !== schedule.medicationId) continue;
+    const day = startOfDay(dose.timestamp);
+    totals.set(day, (totals.get(day) ?? 0) + dose.doseAmount);
+  }
+
+  const days: ScheduleDay[] = [];
+  for (const step of getStepDates(schedule)) {
+    for (let date = step.start; date < step.end; date = addDays(date, 1)) {
+      if (addDays(date, 1) > until) break;
+      const taken = roundDose(totals.get(date) ?? 0);
+      days.push({ date, stepIndex: step.index, expected: step.dose, taken, status: classifyDay(step.dose, taken) });
+    }
+  }
+
+  const onScheduleDays = days.filter((day) => day.status === 'ok').length;
+  return { days, onScheduleDays, rate: days.length > 0 ? onScheduleDays / days.length : null };
+}
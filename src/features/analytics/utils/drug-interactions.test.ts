@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { Medication, MedicationDose } from '@/shared/types';
+import { calculateConcentration, calculateEffectConcentration } from './pharmacokinetics';
+import {
+  concentrationsWithInteractions,
+  findInteractions,
+  getAdjustedHalfLife,
+  simulateWithInteractions
+} from './drug-interactions';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const T0 = Date.parse('2025-05-01T08:00:00Z');
+
+const lamotrigine: Medication = {
+  id: 'med-ltg',
+  name: 'Lamotrigina',
+  category: 'Mood Stabilizer',
+  halfLife: 29,
+  volumeOfDistribution: 1.1,
+  bioavailability: 0.98,
+  absorptionRate: 1.5,
+  createdAt: T0,
+  updatedAt: T0
+};
+
+const valproate: Medication = {
+  ...lamotrigine,
+  id: 'med-vpa',
+  name: 'Depakote',
+  genericName: 'Divalproato de sódio',
+  halfLife: 12,
+  volumeOfDistribution: 0.15,
+  bioavailability: 0.9,
+  absorptionRate: 0.5
+};
+
+const sertraline: Medication = { ...lamotrigine, id: 'med-ser', name: 'Sertralina', halfLife: 26, volumeOfDistribution: 20 };
+
+function dailyDoses(medication: Medication, days: number, amount: number): MedicationDose[] {
+  return Array.from({ length: days }, (_, day) => ({
+    id: `${medication.id}-d${day}`,
+    medicationId: medication.id,
+    timestamp: T0 + day * DAY,
+    doseAmount: amount,
+    createdAt: T0
+  }));
+}
+
+describe('drug interactions', () => {
+  it('matches rules by generic and brand names, including self-induction', () => {
+    const ids = findInteractions([lamotrigine, valproate, sertraline]).map((interaction) => interaction.rule.id);
+    assert.deepStrictEqual(ids.sort(), ['lamotrigine-autoinduction', 'valproate-lamotrigine']);
+  });
+
+  it('shortens the lamotrigine half-life as autoinduction builds up', () => {
+    const doses = dailyDoses(lamotrigine, 42, 200);
+    const firstDay = getAdjustedHalfLife(lamotrigine, doses, [lamotrigine], T0 + 12 * HOUR);
+    const sixWeeks = getAdjustedHalfLife(lamotrigine, doses, [lamotrigine], T0 + 41 * DAY);
+
+    assert.ok(firstDay > 28, `day 1: ${firstDay.toFixed(1)} h`);
+    assert.ok(sixWeeks < 26 && sixWeeks > 23, `week 6: ${sixWeeks.toFixed(1)} h`);
+  });
+
+  it('roughly doubles the lamotrigine half-life under valproate and raises its levels', () => {
+    const medications = [lamotrigine, valproate];
+    const doses = [...dailyDoses(lamotrigine, 21, 100), ...dailyDoses(valproate, 21, 1000)];
+    const time = T0 + 20 * DAY;
+
+    const withValproate = getAdjustedHalfLife(lamotrigine, doses, medications, time);
+    const alone = getAdjustedHalfLife(lamotrigine, doses, [lamotrigine], time);
+    assert.ok(withValproate > alone * 1.6, `${alone.toFixed(1)} h → ${withValproate.toFixed(1)} h`);
+
+    const [combined] = simulateWithInteractions(lamotrigine, medications, doses, [time])!.concentrations;
+    const [single] = simulateWithInteractions(lamotrigine, [lamotrigine], doses, [time])!.concentrations;
+    assert.ok(combined > single * 1.5);
+  });
+
+  it('follows calculateConcentration() when clearance does not change', () => {
+    const doses = dailyDoses(sertraline, 10, 50);
+    const times = Array.from({ length: 40 }, (_, i) => T0 + i * 6 * HOUR);
+    assert.strictEqual(simulateWithInteractions(sertraline, [sertraline], doses, times), null);
+
+    const unchanged = simulateWithInteractions(
+      lamotrigine,
+      [lamotrigine, { ...valproate, halfLife: Number.NaN }],
+      dailyDoses(lamotrigine, 10, 50),
+      times
+    );
+    // Only autoinduction remains; at the start it has had no time to act
+    const expected = calculateConcentration(lamotrigine, dailyDoses(lamotrigine, 10, 50), times[2], 70);
+    assert.ok(Math.abs(unchanged!.concentrations[2] - expected) / expected < 0.01);
+    const expectedEffect = calculateEffectConcentration(lamotrigine, dailyDoses(lamotrigine, 10, 50), times[2], 70);
+    assert.ok(Math.abs(unchanged!.effectConcentrations[2] - expectedEffect) / expectedEffect < 0.01);
+  });
+
+  it('moves the effect site with the adjusted plasma curve', () => {
+    const doses = [...dailyDoses(lamotrigine, 21, 100), ...dailyDoses(valproate, 21, 1000)];
+    const times = [T0 + 20 * DAY, T0 + 20 * DAY + 6 * HOUR];
+    const combined = simulateWithInteractions(lamotrigine, [lamotrigine, valproate], doses, times)!;
+    const single = simulateWithInteractions(lamotrigine, [lamotrigine], doses, times)!;
+    assert.ok(combined.effectConcentrations[1] > single.effectConcentrations[1] * 1.5);
+  });
+
+  it('gives concentrations at unordered times from every medication\'s doses', () => {
+    const doses = [...dailyDoses(lamotrigine, 21, 100), ...dailyDoses(valproate, 21, 1000)];
+    const times = [T0 + 20 * DAY, T0 + 10 * DAY, T0 + 20 * DAY];
+
+    const adjusted = concentrationsWithInteractions(lamotrigine, [lamotrigine, valproate], doses, times);
+    const [earlier, later] = simulateWithInteractions(lamotrigine, [lamotrigine, valproate], doses, [times[1], times[0]])!
+      .concentrations;
+    assert.deepStrictEqual(adjusted, [later, earlier, later]);
+
+    // Without a rule the other medication's doses are left out
+    const plain = concentrationsWithInteractions(valproate, [valproate], doses, times);
+    const valproateDoses = doses.filter((dose) => dose.medicationId === valproate.id);
+    assert.strictEqual(plain[1], calculateConcentration(valproate, valproateDoses, times[1], 70));
+  });
+});
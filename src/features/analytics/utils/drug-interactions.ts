@@ -0,0 +1,417 @@
+import type { Medication, MedicationDose } from '@/shared/types';
+import {
+  calculateConcentration,
+  getEffectLagForMedication,
+  getKaForMedication,
+  getKe0ForMedication,
+  getReleaseProfile
+} from './pharmacokinetics';
+import { buildInputEvents, createSimulator, type Simulator } from './pk-simulation';
+import { getBodyWeightAt, getClearanceFactor, type PatientInput } from './patient-physiology';
+
+/**
+ * Drug-drug interactions on clearance.
+ *
+ * Each rule says that a perpetrator (an enzyme inhibitor or inducer) changes
+ * the clearance of a victim drug. The size of the change follows the
+ * perpetrator's own simulated concentration through an Emax model,
+ * C / (EC50 + C), so it grows with the dose and fades after the perpetrator
+ * is stopped. Induction (and mechanism-based inhibition) also needs new
+ * enzyme to be made or degraded, so it builds up and wears off with the
+ * enzyme turnover half-time instead of following the concentration at once.
+ *
+ * Lamotrigine autoinduction is the rule whose perpetrator is the victim
+ * itself.
+ *
+ * Rule values are approximations from product labels and interaction
+ * studies; they are meant to show the direction and rough size of the effect,
+ * not to replace clinical judgement.
+ */
+
+export type InteractionMechanism = 'inhibition' | 'induction';
+export type InteractionSeverity = 'minor' | 'moderate' | 'major';
+
+export interface InteractionRule {
+  id: string;
+  /** Name fragments matched against name, generic and brand name (lowercase, no accents) */
+  perpetrator: string[];
+  victim: string[];
+  pathway: string;
+  mechanism: InteractionMechanism;
+  /** Victim clearance multiplier at full effect (0.5 = halved, 2 = doubled) */
+  maxClearanceRatio: number;
+  /** Perpetrator concentration (ng/mL) giving half of the full effect */
+  ec50: number;
+  /** Enzyme turnover half-time in days; absent for rapidly reversible inhibition */
+  turnoverDays?: number;
+  severity: InteractionSeverity;
+  description: string;
+  recommendation?: string;
+}
+
+const LAMOTRIGINE = ['lamotrigin', 'lamictal'];
+const CARBAMAZEPINE = ['carbamazepin', 'tegretol'];
+const VALPROATE = ['valpro', 'divalproex', 'depakote', 'depakene'];
+const QUETIAPINE = ['quetiapin', 'seroquel'];
+const CLONAZEPAM = ['clonazepam', 'rivotril', 'klonopin'];
+const AMPHETAMINES = ['anfetamin', 'amfetamin', 'amphetamin', 'venvanse', 'vyvanse', 'adderall'];
+const CITALOPRAM = ['citalopram', 'lexapro', 'celexa', 'cipramil'];
+const STRONG_CYP3A4_INHIBITORS = ['cetoconazol', 'ketoconazol', 'itraconazol', 'claritromicin', 'clarithromycin'];
+
+export const DRUG_INTERACTIONS: InteractionRule[] = [
+  {
+    id: 'lamotrigine-autoinduction',
+    perpetrator: LAMOTRIGINE,
+    victim: LAMOTRIGINE,
+    pathway: 'UGT1A4',
+    mechanism: 'induction',
+    maxClearanceRatio: 1.25, // t½ ~20% shorter after a few weeks
+    ec50: 1500,
+    turnoverDays: 7,
+    severity: 'minor',
+    description: 'A lamotrigina induz a própria glucuronidação: a meia-vida cai cerca de 20% nas primeiras semanas de uso.'
+  },
+  {
+    id: 'carbamazepine-lamotrigine',
+    perpetrator: CARBAMAZEPINE,
+    victim: LAMOTRIGINE,
+    pathway: 'UGT1A4',
+    mechanism: 'induction',
+    maxClearanceRatio: 2,
+    ec50: 3000,
+    turnoverDays: 5,
+    severity: 'major',
+    description: 'A carbamazepina induz a glucuronidação da lamotrigina e reduz sua meia-vida pela metade.',
+    recommendation: 'A dose de lamotrigina costuma ser dobrada. Ao suspender a carbamazepina, os níveis sobem ao longo de ~2 semanas.'
+  },
+  {
+    id: 'valproate-lamotrigine',
+    perpetrator: VALPROATE,
+    victim: LAMOTRIGINE,
+    pathway: 'UGT1A4',
+    mechanism: 'inhibition',
+    maxClearanceRatio: 0.45, // t½ roughly doubles
+    ec50: 5000, // Near-maximal already at low valproate doses
+    severity: 'major',
+    description: 'O valproato inibe a glucuronidação da lamotrigina e mais que dobra sua meia-vida.',
+    recommendation: 'Titular a lamotrigina com metade da dose habitual (risco de rash grave / SJS).'
+  },
+  {
+    id: 'carbamazepine-quetiapine',
+    perpetrator: CARBAMAZEPINE,
+    victim: QUETIAPINE,
+    pathway: 'CYP3A4',
+    mechanism: 'induction',
+    maxClearanceRatio: 6, // AUC −85%
+    ec50: 3000,
+    turnoverDays: 5,
+    severity: 'major',
+    description: 'A carbamazepina induz o CYP3A4 e pode levar a quetiapina a níveis subterapêuticos.',
+    recommendation: 'Evitar a combinação ou ajustar a dose de quetiapina com acompanhamento clínico.'
+  },
+  {
+    id: 'cyp3a4-inhibitors-quetiapine',
+    perpetrator: STRONG_CYP3A4_INHIBITORS,
+    victim: QUETIAPINE,
+    pathway: 'CYP3A4',
+    mechanism: 'inhibition',
+    maxClearanceRatio: 0.16, // AUC ×6 with ketoconazole
+    ec50: 500,
+    severity: 'major',
+    description: 'Inibidores fortes do CYP3A4 multiplicam a exposição à quetiapina (sedação, hipotensão, QTc).',
+    recommendation: 'A bula recomenda reduzir a dose de quetiapina para 1/6 durante o uso do inibidor.'
+  },
+  {
+    id: 'carbamazepine-clonazepam',
+    perpetrator: CARBAMAZEPINE,
+    victim: CLONAZEPAM,
+    pathway: 'CYP3A4',
+    mechanism: 'induction',
+    maxClearanceRatio: 1.5,
+    ec50: 3000,
+    turnoverDays: 5,
+    severity: 'moderate',
+    description: 'A carbamazepina acelera o metabolismo do clonazepam e reduz seus níveis em 20-40%.'
+  },
+  {
+    id: 'fluoxetine-amphetamine',
+    perpetrator: ['fluoxetin', 'prozac', 'daforin'],
+    victim: AMPHETAMINES,
+    pathway: 'CYP2D6',
+    mechanism: 'inhibition',
+    maxClearanceRatio: 0.7,
+    ec50: 100,
+    turnoverDays: 7, // Norfluoxetine keeps inhibiting for weeks
+    severity: 'moderate',
+    description: 'A fluoxetina inibe o CYP2D6 e aumenta a exposição à anfetamina.',
+    recommendation: 'Observar efeitos adrenérgicos e sinais de síndrome serotoninérgica.'
+  },
+  {
+    id: 'paroxetine-amphetamine',
+    perpetrator: ['paroxetin', 'paxil', 'pondera', 'aropax'],
+    victim: AMPHETAMINES,
+    pathway: 'CYP2D6',
+    mechanism: 'inhibition',
+    maxClearanceRatio: 0.7,
+    ec50: 20,
+    turnoverDays: 3, // Mechanism-based inhibition
+    severity: 'moderate',
+    description: 'A paroxetina inibe o CYP2D6 de forma irreversível e aumenta a exposição à anfetamina.',
+    recommendation: 'Observar efeitos adrenérgicos e sinais de síndrome serotoninérgica.'
+  },
+  {
+    id: 'bupropion-amphetamine',
+    perpetrator: ['bupropion', 'wellbutrin', 'zyban'],
+    victim: AMPHETAMINES,
+    pathway: 'CYP2D6',
+    mechanism: 'inhibition',
+    maxClearanceRatio: 0.75,
+    ec50: 50,
+    turnoverDays: 3,
+    severity: 'moderate',
+    description: 'A bupropiona inibe o CYP2D6 e aumenta a exposição à anfetamina; ambas reduzem o limiar convulsivo.'
+  },
+  {
+    id: 'omeprazole-citalopram',
+    perpetrator: ['omeprazol'],
+    victim: CITALOPRAM,
+    pathway: 'CYP2C19',
+    mechanism: 'inhibition',
+    maxClearanceRatio: 0.65, // AUC +50%
+    ec50: 300,
+    severity: 'moderate',
+    description: 'Omeprazol/esomeprazol inibem o CYP2C19 e aumentam os níveis de (es)citalopram em ~50%.',
+    recommendation: 'Atenção ao QTc em doses altas de (es)citalopram.'
+  },
+  {
+    id: 'fluvoxamine-citalopram',
+    perpetrator: ['fluvoxamin', 'luvox'],
+    victim: CITALOPRAM,
+    pathway: 'CYP2C19',
+    mechanism: 'inhibition',
+    maxClearanceRatio: 0.5,
+    ec50: 50,
+    severity: 'moderate',
+    description: 'A fluvoxamina inibe o CYP2C19 e dobra a exposição ao (es)citalopram; dois ISRS somam risco serotoninérgico.'
+  }
+];
+
+export interface DrugInteraction {
+  rule: InteractionRule;
+  perpetrator: Medication;
+  victim: Medication;
+}
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase();
+}
+
+function matches(medication: Medication, fragments: string[]): boolean {
+  const names = [medication.name, medication.genericName, medication.brandName]
+    .filter((name): name is string => !!name)
+    .map(normalize);
+  return fragments.some((fragment) => names.some((name) => name.includes(fragment)));
+}
+
+function isSelfRule(rule: InteractionRule): boolean {
+  return rule.perpetrator === rule.victim;
+}
+
+/**
+ * Every rule that applies between the given medications
+ */
+export function findInteractions(medications: Medication[], rules: InteractionRule[] = DRUG_INTERACTIONS): DrugInteraction[] {
+  const found: DrugInteraction[] = [];
+  for (const rule of rules) {
+    for (const victim of medications) {
+      if (!matches(victim, rule.victim)) continue;
+      if (isSelfRule(rule)) {
+        found.push({ rule, perpetrator: victim, victim });
+        continue;
+      }
+      for (const perpetrator of medications) {
+        if (perpetrator.id !== victim.id && matches(perpetrator, rule.perpetrator)) {
+          found.push({ rule, perpetrator, victim });
+        }
+      }
+    }
+  }
+  return found;
+}
+
+const MS_PER_HOUR = 1000 * 3600;
+const HISTORY_STEP = MS_PER_HOUR;
+const MAX_HISTORY_DAYS = 90;
+
+function hasValidParameters(medication: Medication): boolean {
+  return (
+    Number.isFinite(medication.halfLife) && medication.halfLife > 0 &&
+    Number.isFinite(medication.volumeOfDistribution) && medication.volumeOfDistribution > 0 &&
+    Number.isFinite(medication.bioavailability) && medication.bioavailability > 0
+  );
+}
+
+function simulatorFor(medication: Medication, doses: MedicationDose[], patient: PatientInput, startTime: number): Simulator {
+  const Ke = Math.LN2 / medication.halfLife;
+  const events = buildInputEvents(
+    doses.filter((dose) => dose.medicationId === medication.id),
+    getReleaseProfile(medication)
+  );
+  return createSimulator(
+    {
+      halfLife: medication.halfLife,
+      volumeOfDistribution: medication.volumeOfDistribution,
+      bioavailability: medication.bioavailability,
+      absorptionRate: getKaForMedication(medication, Ke),
+      effectRate: getKe0ForMedication(medication)
+    },
+    medication.volumeOfDistribution > 10,
+    events,
+    (time) => getBodyWeightAt(patient, time),
+    startTime
+  );
+}
+
+export interface InteractionSimulation {
+  interactions: DrugInteraction[];
+  /** Victim concentration (ng/mL) at each requested time */
+  concentrations: Float64Array;
+  /** Victim effect-site concentration (ng/mL) at each requested time, after the class effect lag */
+  effectConcentrations: Float64Array;
+  /** Victim clearance multiplier from interactions on the way to each requested time (renal/hepatic adjustment not included) */
+  clearanceFactors: Float64Array;
+}
+
+/**
+ * Victim concentrations with clearance changed by its interactions, at
+ * ascending `times`. Null when no rule applies to the victim. Perpetrators are
+ * simulated with their own parameters (interactions one level deep). Every
+ * drug also gets the patient's renal/hepatic adjustment.
+ */
+export function simulateWithInteractions(
+  victim: Medication,
+  medications: Medication[],
+  doses: MedicationDose[],
+  times: number[],
+  patient: PatientInput = 70
+): InteractionSimulation | null {
+  const interactions = findInteractions(medications).filter(
+    (interaction) => interaction.victim.id === victim.id && hasValidParameters(interaction.perpetrator)
+  );
+  if (interactions.length === 0 || times.length === 0 || !hasValidParameters(victim)) return null;
+
+  // The effect site at t shows the plasma course up to t − lag, so it is
+  // read at the lagged times, merged in order with the plasma ones
+  const effectLag = getEffectLagForMedication(victim) * MS_PER_HOUR;
+  const readings = [
+    ...times.map((time, index) => ({ time, index, effect: false })),
+    ...times.map((time, index) => ({ time: time - effectLag, index, effect: true }))
+  ].sort((a, b) => a.time - b.time);
+  const firstTime = readings[0].time;
+
+  // Walk the recent history in hourly steps so enzyme turnover and the
+  // perpetrator's concentration are followed before the first requested time
+  const involved = new Set(interactions.map((interaction) => interaction.perpetrator.id).concat(victim.id));
+  const firstDose = doses.reduce(
+    (earliest, dose) => (involved.has(dose.medicationId) ? Math.min(earliest, dose.timestamp) : earliest),
+    firstTime
+  );
+  const historyStart = Math.max(firstDose, firstTime - MAX_HISTORY_DAYS * 24 * MS_PER_HOUR);
+  const steps: number[] = [];
+  for (let time = historyStart; time < firstTime; time += HISTORY_STEP) steps.push(time);
+  const requestedFrom = steps.length;
+  steps.push(...readings.map((reading) => reading.time));
+
+  const victimSimulator = simulatorFor(victim, doses, patient, steps[0]);
+  const perpetratorSimulators = new Map<string, Simulator>();
+  const perpetratorById = new Map(interactions.map(({ perpetrator }) => [perpetrator.id, perpetrator]));
+  for (const { perpetrator } of interactions) {
+    if (perpetrator.id !== victim.id && !perpetratorSimulators.has(perpetrator.id)) {
+      perpetratorSimulators.set(perpetrator.id, simulatorFor(perpetrator, doses, patient, steps[0]));
+    }
+  }
+
+  const effects = interactions.map(() => 0); // Fraction of the full effect, 0-1
+  const concentrations = new Float64Array(times.length);
+  const effectConcentrations = new Float64Array(times.length);
+  const clearanceFactors = new Float64Array(times.length);
+  let factor = 1;
+  let previous = steps[0];
+
+  for (let i = 0; i < steps.length; i++) {
+    const time = steps[i];
+    victimSimulator.setClearanceFactor(factor * getClearanceFactor(victim, patient, time));
+    victimSimulator.advanceTo(time);
+    perpetratorSimulators.forEach((simulator, id) => {
+      simulator.setClearanceFactor(getClearanceFactor(perpetratorById.get(id)!, patient, time));
+      simulator.advanceTo(time);
+    });
+
+    if (i >= requestedFrom) {
+      const { index, effect } = readings[i - requestedFrom];
+      if (effect) {
+        effectConcentrations[index] = victimSimulator.effectConcentration();
+      } else {
+        concentrations[index] = victimSimulator.concentration();
+        clearanceFactors[index] = factor;
+      }
+    }
+
+    const dtDays = (time - previous) / (24 * MS_PER_HOUR);
+    previous = time;
+    factor = 1;
+    interactions.forEach(({ rule, perpetrator }, k) => {
+      const concentration =
+        perpetrator.id === victim.id
+          ? victimSimulator.concentration()
+          : perpetratorSimulators.get(perpetrator.id)!.concentration();
+      const target = concentration / (rule.ec50 + concentration);
+      effects[k] = rule.turnoverDays
+        ? target + (effects[k] - target) * Math.exp((-Math.LN2 / rule.turnoverDays) * dtDays)
+        : target;
+      factor *= 1 + (rule.maxClearanceRatio - 1) * effects[k];
+    });
+  }
+
+  return { interactions, concentrations, effectConcentrations, clearanceFactors };
+}
+
+/**
+ * Plasma concentrations (ng/mL) of `medication` at `times`, in any order.
+ * Follows its interactions with the other `medications` when any applies and
+ * calculateConcentration() otherwise; `doses` may hold every medication's
+ * doses, since perpetrators need theirs.
+ */
+export function concentrationsWithInteractions(
+  medication: Medication,
+  medications: Medication[],
+  doses: MedicationDose[],
+  times: number[],
+  patient: PatientInput = 70
+): number[] {
+  const sorted = [...new Set(times)].sort((a, b) => a - b);
+  const simulation = simulateWithInteractions(medication, medications, doses, sorted, patient);
+  if (!simulation) {
+    const medDoses = doses.filter((dose) => dose.medicationId === medication.id);
+    return times.map((time) => calculateConcentration(medication, medDoses, time, patient));
+  }
+  const byTime = new Map(sorted.map((time, i) => [time, simulation.concentrations[i]]));
+  return times.map((time) => byTime.get(time)!);
+}
+
+/**
+ * Effective half-life at `time` once interactions (including lamotrigine
+ * autoinduction) and the patient's renal/hepatic function are taken into
+ * account
+ */
+export function getAdjustedHalfLife(
+  medication: Medication,
+  doses: MedicationDose[],
+  medications: Medication[] = [medication],
+  time: number = Date.now(),
+  patient: PatientInput = 70
+): number {
+  const simulation = simulateWithInteractions(medication, medications, doses, [time], patient);
+  const interactionFactor = simulation ? simulation.clearanceFactors[0] : 1;
+  return medication.halfLife / (interactionFactor * getClearanceFactor(medication, patient, time));
+}
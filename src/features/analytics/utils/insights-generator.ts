@@ -8,14 +8,18 @@
  * - Temporal pattern analysis
  */
 
-import type { Medication, MedicationDose, MoodEntry } from '@/shared/types';
+import type { DoseSchedule, Medication, MedicationDose, MoodEntry } from '@/shared/types';
 import { StatisticsEngine } from './statistics-engine';
 import {
   getDefaultConcentrationMode,
   sampleConcentrationAtTimes,
   sampleTrendConcentrationAtTimes,
 } from './concentration-series';
-import { isChronicMedication, calculateConcentration } from './pharmacokinetics';
+import { isChronicMedication } from './pharmacokinetics';
+import { concentrationsWithInteractions } from './drug-interactions';
+import type { PatientInput } from './patient-physiology';
+import { calculateScheduleAdherence, getScheduleEnd, parseLocalDate } from './dose-schedules';
+import { forecastSupply, formatUnitCount } from './inventory';
 
 // ============================================
 // Types
@@ -44,7 +48,7 @@ export interface ActionableInsight {
 
 export interface RedFlag {
   id: string;
-  type: 'mood_low' | 'anxiety_high' | 'adherence' | 'cognitive_decline' | 'energy_low' | 'volatility';
+  type: 'mood_low' | 'anxiety_high' | 'adherence' | 'dose_deviation' | 'low_supply' | 'cognitive_decline' | 'energy_low' | 'volatility';
   severity: 'warning' | 'alert';
   title: string;
   description: string;
@@ -230,11 +234,12 @@ export function generateMedicationInsights(
     // Include a lookback so concentrations at the start of the window aren't artificially low
     // (important for chronic meds and long half-lives).
     const lookbackMs = Math.max(7 * 24 * hourMs, medication.halfLife * 5 * hourMs);
-    const medDoses = doses.filter(d =>
-      d.medicationId === medication.id &&
+    // Other medications' doses stay in for interactions
+    const windowDoses = doses.filter(d =>
       d.timestamp <= timeframeEnd &&
       d.timestamp >= (timeframeStart - lookbackMs)
     );
+    const medDoses = windowDoses.filter(d => d.medicationId === medication.id);
     if (medDoses.length < 2) return;
 
     const startHour = Math.floor(timeframeStart / hourMs) * hourMs;
@@ -244,8 +249,8 @@ export function generateMedicationInsights(
 
     const mode = getDefaultConcentrationMode(medication);
     const concentrationSeries = mode === 'trend'
-      ? sampleTrendConcentrationAtTimes(medication, medDoses, concentrationTimestamps, 70)
-      : sampleConcentrationAtTimes(medication, medDoses, concentrationTimestamps, 70);
+      ? sampleTrendConcentrationAtTimes(medication, windowDoses, concentrationTimestamps, 70, medications)
+      : sampleConcentrationAtTimes(medication, windowDoses, concentrationTimestamps, 70, medications);
 
     const concentrationAligned: number[] = concentrationSeries.map((v) =>
       typeof v === 'number' && Number.isFinite(v) && v > 0.01 ? v : Number.NaN
@@ -347,13 +352,88 @@ export function generateMedicationInsights(
   return insights.sort((a, b) => b.impactScore - a.impactScore);
 }
 
+/**
+ * Days of the last week that a titration or taper schedule was not followed
+ */
+function detectDoseDeviations(
+  doses: MedicationDose[],
+  medications: Medication[],
+  schedules: DoseSchedule[],
+  timeframeEnd: number
+): RedFlag[] {
+  const flags: RedFlag[] = [];
+  const last7Days = timeframeEnd - 7 * 24 * 60 * 60 * 1000;
+
+  schedules.forEach(schedule => {
+    const med = medications.find(m => m.id === schedule.medicationId);
+    if (!med) return;
+
+    const days = calculateScheduleAdherence(schedule, doses, timeframeEnd).days.filter(d => d.date >= last7Days);
+    const deviations = days.filter(d => d.status !== 'ok');
+    if (deviations.length === 0) return;
+
+    const latest = deviations[deviations.length - 1];
+    const exceeded = deviations.some(d => d.status === 'over');
+    const isTaper = schedule.kind === 'taper';
+    flags.push({
+      id: `dose-deviation-${schedule.id}`,
+      type: 'dose_deviation',
+      severity: exceeded || deviations.length >= 3 ? 'alert' : 'warning',
+      title: `Fora do Esquema: ${med.name}`,
+      description: `${deviations.length} de ${days.length} dias do esquema de ${isTaper ? 'redução' : 'titulação'} com dose diferente da prevista (último: ${latest.taken} mg registrados, ${latest.expected} mg previstos).`,
+      value: latest.taken,
+      threshold: latest.expected,
+      daysAffected: deviations.length,
+      suggestion: isTaper
+        ? 'Reduções mais rápidas que o planejado podem causar abstinência ou rebote. Converse com seu médico antes de mudar o esquema.'
+        : 'Subir a dose mais rápido que o planejado aumenta o risco de efeitos adversos (ex.: rash com lamotrigina). Siga o esquema ou converse com seu médico.'
+    });
+  });
+
+  return flags;
+}
+
+/**
+ * Medications whose supply runs out within their low-supply threshold at the
+ * recent dosing rate
+ */
+function detectLowSupply(doses: MedicationDose[], medications: Medication[], timeframeEnd: number): RedFlag[] {
+  const flags: RedFlag[] = [];
+
+  medications.forEach(med => {
+    const forecast = forecastSupply(med, doses, timeframeEnd);
+    if (!med.inventory || !forecast?.lowSupply || forecast.daysLeft === null) return;
+
+    const daysLeft = Math.floor(forecast.daysLeft);
+    flags.push({
+      id: `low-supply-${med.id}`,
+      type: 'low_supply',
+      severity: daysLeft <= 2 ? 'alert' : 'warning',
+      title: `Estoque Baixo: ${med.name}`,
+      description: `Restam ${formatUnitCount(med.inventory, forecast.unitsOnHand)}, o suficiente para ${daysLeft === 0 ? 'menos de 1 dia' : `cerca de ${daysLeft} dia${daysLeft === 1 ? '' : 's'}`} no ritmo atual.`,
+      value: forecast.daysLeft,
+      threshold: forecast.lowSupplyDays,
+      daysAffected: daysLeft,
+      suggestion: forecast.renewalsLeft > 0
+        ? `Providencie a reposição: a receita ainda tem ${forecast.renewalsLeft} renovação(ões).`
+        : 'Sem renovações na receita: agende a consulta para uma nova receita antes que o remédio acabe.'
+    });
+  });
+
+  return flags;
+}
+
 export function detectRedFlags(
   moodEntries: MoodEntry[],
   doses: MedicationDose[],
   medications: Medication[],
-  timeframeEnd: number = Date.now()
+  timeframeEnd: number = Date.now(),
+  schedules: DoseSchedule[] = []
 ): RedFlag[] {
-  const flags: RedFlag[] = [];
+  const flags: RedFlag[] = [
+    ...detectDoseDeviations(doses, medications, schedules, timeframeEnd),
+    ...detectLowSupply(doses, medications, timeframeEnd)
+  ];
   const last7Days = timeframeEnd - 7 * 24 * 60 * 60 * 1000;
   const recentEntries = moodEntries.filter(e => e.timestamp >= last7Days && e.timestamp <= timeframeEnd);
 
@@ -464,8 +544,15 @@ export function detectRedFlags(
     }
   }
 
-  // Check medication adherence (simplified - just looking at dose frequency)
+  // Check medication adherence (simplified - just looking at dose frequency);
+  // medications on a schedule were checked against it above
+  const scheduled = new Set(
+    schedules
+      .filter(s => parseLocalDate(s.startDate) <= timeframeEnd && getScheduleEnd(s) > last7Days)
+      .map(s => s.medicationId)
+  );
   medications.forEach(med => {
+    if (scheduled.has(med.id)) return;
     const medDoses = doses.filter(d =>
       d.medicationId === med.id &&
       d.timestamp >= last7Days &&
@@ -565,7 +652,8 @@ export function generateInsightsReport(
   medications: Medication[],
   doses: MedicationDose[],
   moodEntries: MoodEntry[],
-  timeframeDays?: number
+  timeframeDays?: number,
+  schedules: DoseSchedule[] = []
 ): InsightsReport {
   const now = Date.now();
   
@@ -610,7 +698,7 @@ export function generateInsightsReport(
     .slice(0, 5);
 
   // Detect red flags
-  const redFlags = detectRedFlags(moodEntries, doses, medications, timeframeEnd);
+  const redFlags = detectRedFlags(moodEntries, doses, medications, timeframeEnd, schedules);
 
   // Calculate stability metrics
   const stabilityMetrics = calculateStabilityMetrics(moodEntries, timeframeStart, timeframeEnd);
@@ -817,7 +905,8 @@ export function analyzeConcentrationVariability(
   doses: MedicationDose[],
   moodEntries: MoodEntry[],
   windowDays: number = 7,
-  bodyWeight: number = 70
+  patient: PatientInput = 70,
+  medications: Medication[] = [medication]
 ): ConcentrationVariabilityResult | null {
   const hourMs = 60 * 60 * 1000;
   const dayMs = 24 * hourMs;
@@ -843,9 +932,7 @@ export function analyzeConcentrationVariability(
     hourlyTimestamps.push(t);
   }
 
-  const concentrations = hourlyTimestamps.map(t =>
-    calculateConcentration(medication, medDoses, t, bodyWeight)
-  );
+  const concentrations = concentrationsWithInteractions(medication, medications, doses, hourlyTimestamps, patient);
 
   const windows: ConcentrationVariabilityResult['windows'] = [];
   const stepMs = dayMs;
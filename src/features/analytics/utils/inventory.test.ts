@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { Medication, MedicationDose } from '@/shared/types';
+import { forecastSupply, getUnitsOnHand } from './inventory';
+import { detectRedFlags } from './insights-generator';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 4, 5, 8);
+
+const sertraline: Medication = {
+  id: 'med-ser',
+  name: 'Sertralina',
+  category: 'SSRI',
+  halfLife: 26,
+  volumeOfDistribution: 20,
+  bioavailability: 0.44,
+  absorptionRate: 0.8,
+  defaultDose: 50,
+  scheduledTime: '08:00',
+  inventory: {
+    unitsPerPack: 30,
+    strengthPerUnit: 50,
+    unitLabel: 'comprimido',
+    unitsCounted: 30,
+    countedAt: START - 1,
+    prescriptions: [{ id: 'rx-1', date: '2025-05-01', quantity: 30, renewalsLeft: 2 }]
+  },
+  createdAt: START,
+  updatedAt: START
+};
+
+// 100 mg (two tablets) every morning
+function dailyDoses(days: number): MedicationDose[] {
+  return Array.from({ length: days }, (_, i) => ({
+    id: `d${i}`,
+    medicationId: sertraline.id,
+    timestamp: START + i * DAY,
+    doseAmount: 100,
+    createdAt: START + i * DAY
+  }));
+}
+
+describe('inventory', () => {
+  it('draws the stock down with each dose and adds refills after the count', () => {
+    const doses = dailyDoses(5);
+    assert.strictEqual(getUnitsOnHand(sertraline, doses, START + 4.5 * DAY), 20);
+    // Doses before the count are already reflected in it
+    const recounted = { ...sertraline, inventory: { ...sertraline.inventory!, unitsCounted: 24, countedAt: START + 2.5 * DAY } };
+    assert.strictEqual(getUnitsOnHand(recounted, doses, START + 4.5 * DAY), 20);
+
+    const refilled = {
+      ...sertraline,
+      inventory: { ...sertraline.inventory!, refills: [{ id: 'r1', timestamp: START + 3.5 * DAY, units: 30 }] }
+    };
+    assert.strictEqual(getUnitsOnHand(refilled, doses, START + 4.5 * DAY), 50);
+    assert.strictEqual(getUnitsOnHand({ ...sertraline, inventory: null }, doses), null);
+  });
+
+  it('forecasts the run-out date from the recent rate and flags low supply', () => {
+    const doses = dailyDoses(10);
+    const now = START + 10 * DAY;
+    const forecast = forecastSupply(sertraline, doses, now)!;
+    assert.strictEqual(forecast.unitsOnHand, 10);
+    assert.strictEqual(forecast.dailyUnits, 2);
+    assert.strictEqual(forecast.daysLeft, 5);
+    assert.strictEqual(forecast.runOutAt, now + 5 * DAY);
+    assert.ok(forecast.lowSupply);
+
+    const flags = detectRedFlags([], doses, [sertraline], now);
+    assert.deepStrictEqual(
+      flags.map((flag) => [flag.type, flag.severity, flag.daysAffected]),
+      [['low_supply', 'warning', 5]]
+    );
+    assert.match(flags[0].suggestion, /2 renovação/);
+  });
+
+  it('falls back to the scheduled dose without recent doses', () => {
+    const forecast = forecastSupply({ ...sertraline, scheduledDays: ['mon', 'wed', 'fri'] }, [], START + DAY)!;
+    assert.strictEqual(forecast.usageSource, 'scheduled');
+    assert.ok(Math.abs(forecast.dailyUnits - 3 / 7) < 1e-9);
+    assert.strictEqual(forecast.lowSupply, false);
+  });
+});
@@ -0,0 +1,140 @@
+import type { Medication, MedicationDose, MedicationInventory } from '@/shared/types';
+
+/**
+ * Medication supply and refill forecast.
+ *
+ * Nothing is decremented in place: the stock on hand is derived from the last
+ * count, the refills after it and the doses logged after it, so doses logged
+ * offline, edited or deleted always leave the right count. The run-out date
+ * extrapolates the units used per day over the last two weeks, or the
+ * scheduled dose when nothing was logged in that time.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_LOW_SUPPLY_DAYS = 7;
+export const DEFAULT_UNIT_LABEL = 'unidade';
+
+/** Days of logged doses the usage rate is averaged over */
+const USAGE_WINDOW_DAYS = 14;
+
+export interface SupplyForecast {
+  unitsOnHand: number;
+  packsOnHand: number;
+  dailyUnits: number; // 0 when there is no usage to extrapolate
+  usageSource: 'logged' | 'scheduled' | 'none';
+  daysLeft: number | null; // null without usage
+  runOutAt: number | null;
+  lowSupplyDays: number;
+  lowSupply: boolean;
+  renewalsLeft: number; // Across all prescriptions
+}
+
+/**
+ * Tablets/capsules a dose takes (fractional for split tablets)
+ */
+export function unitsForDose(inventory: MedicationInventory, doseAmount: number): number {
+  return doseAmount / inventory.strengthPerUnit;
+}
+
+/**
+ * e.g. "12 comprimidos", "1,5 comprimido"
+ */
+export function formatUnitCount(inventory: MedicationInventory, units: number): string {
+  const label = inventory.unitLabel || DEFAULT_UNIT_LABEL;
+  const rounded = Math.round(units * 10) / 10;
+  return `${rounded.toLocaleString('pt-BR')} ${rounded >= 2 && !label.endsWith('s') ? `${label}s` : label}`;
+}
+
+/**
+ * Units on hand at `at`; null when the medication has no inventory
+ */
+export function getUnitsOnHand(medication: Medication, doses: MedicationDose[], at: number = Date.now()): number | null {
+  const inventory = medication.inventory;
+  if (!inventory) return null;
+
+  const after = (timestamp: number) => timestamp > inventory.countedAt && timestamp <= at;
+  const refilled = (inventory.refills ?? [])
+    .filter((refill) => after(refill.timestamp))
+    .reduce((sum, refill) => sum + refill.units, 0);
+  const used = doses
+    .filter((dose) => dose.medicationId === medication.id && after(dose.timestamp))
+    .reduce((sum, dose) => sum + unitsForDose(inventory, dose.doseAmount), 0);
+
+  return Math.max(0, inventory.unitsCounted + refilled - used);
+}
+
+/**
+ * "12 comprimidos em estoque" once `dose` is logged, for the dose toasts
+ * (`doses` may not have it yet); undefined without inventory
+ */
+export function describeStockAfterDose(
+  medication: Medication,
+  doses: MedicationDose[],
+  dose: Pick<MedicationDose, 'timestamp' | 'doseAmount'>
+): string | undefined {
+  const inventory = medication.inventory;
+  if (!inventory) return undefined;
+  const logged: MedicationDose = { ...dose, id: '', medicationId: medication.id, createdAt: dose.timestamp };
+  const units = getUnitsOnHand(medication, [...doses, logged], Math.max(Date.now(), dose.timestamp));
+  return units === null ? undefined : `${formatUnitCount(inventory, units)} em estoque`;
+}
+
+/**
+ * Units used per day recently. Averaged over the last two weeks, or since the
+ * first logged dose when the medication is newer than that.
+ */
+export function getDailyUnitUsage(
+  medication: Medication,
+  doses: MedicationDose[],
+  now: number = Date.now()
+): Pick<SupplyForecast, 'dailyUnits' | 'usageSource'> {
+  const inventory = medication.inventory;
+  if (!inventory) return { dailyUnits: 0, usageSource: 'none' };
+
+  const medDoses = doses.filter((dose) => dose.medicationId === medication.id && dose.timestamp <= now);
+  const windowStart = now - USAGE_WINDOW_DAYS * MS_PER_DAY;
+  const recent = medDoses.filter((dose) => dose.timestamp > windowStart);
+
+  if (recent.length > 0) {
+    const firstDose = Math.min(...medDoses.map((dose) => dose.timestamp));
+    const days = Math.max(1, (now - Math.max(windowStart, firstDose)) / MS_PER_DAY);
+    const units = recent.reduce((sum, dose) => sum + unitsForDose(inventory, dose.doseAmount), 0);
+    return { dailyUnits: units / days, usageSource: 'logged' };
+  }
+
+  if (medication.scheduledTime && medication.defaultDose) {
+    const daysPerWeek = medication.scheduledDays?.length || 7;
+    return {
+      dailyUnits: (unitsForDose(inventory, medication.defaultDose) * daysPerWeek) / 7,
+      usageSource: 'scheduled'
+    };
+  }
+
+  return { dailyUnits: 0, usageSource: 'none' };
+}
+
+/**
+ * Stock, usage rate and run-out date; null when the medication has no inventory
+ */
+export function forecastSupply(medication: Medication, doses: MedicationDose[], now: number = Date.now()): SupplyForecast | null {
+  const inventory = medication.inventory;
+  const unitsOnHand = getUnitsOnHand(medication, doses, now);
+  if (!inventory || unitsOnHand === null) return null;
+
+  const { dailyUnits, usageSource } = getDailyUnitUsage(medication, doses, now);
+  const daysLeft = dailyUnits > 0 ? unitsOnHand / dailyUnits : null;
+  const lowSupplyDays = inventory.lowSupplyDays ?? DEFAULT_LOW_SUPPLY_DAYS;
+
+  return {
+    unitsOnHand,
+    packsOnHand: unitsOnHand / inventory.unitsPerPack,
+    dailyUnits,
+    usageSource,
+    daysLeft,
+    runOutAt: daysLeft !== null ? now + daysLeft * MS_PER_DAY : null,
+    lowSupplyDays,
+    lowSupply: daysLeft !== null && daysLeft < lowSupplyDays,
+    renewalsLeft: (inventory.prescriptions ?? []).reduce((sum, prescription) => sum + prescription.renewalsLeft, 0)
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { DoseSchedule, Medication, MedicationDose } from '@/shared/types';
+import { checkScheduledDoses, getCatchUpGuidance } from './missed-doses';
+
+const HOUR = 60 * 60 * 1000;
+// Local midnight, so scheduled clock times do not depend on the test's time zone
+const day = (n: number) => new Date(2025, 4, 5 + n).getTime();
+
+const medication: Medication = {
+  id: 'med-1',
+  name: 'Sertralina',
+  category: 'SSRI',
+  halfLife: 6,
+  volumeOfDistribution: 20,
+  bioavailability: 0.9,
+  absorptionRate: 1,
+  scheduledTime: '08:00',
+  createdAt: day(0),
+  updatedAt: day(0)
+};
+
+function dailyDoses(days: number, delays: Record<number, number> = {}): MedicationDose[] {
+  const doses: MedicationDose[] = [];
+  for (let n = 0; n < days; n++) {
+    const timestamp = day(n) + (8 + (delays[n] ?? 0)) * HOUR;
+    doses.push({ id: `d${n}`, medicationId: medication.id, timestamp, doseAmount: 50, createdAt: timestamp });
+  }
+  return doses;
+}
+
+describe('missed doses', () => {
+  it('matches scheduled times with logged doses', () => {
+    const checks = checkScheduledDoses(medication, dailyDoses(9, { 8: 2.5 }), day(9) + 12 * HOUR);
+    assert.deepStrictEqual(
+      checks.map((check) => [check.status, check.delayMinutes]),
+      [['late', 150], ['missed', undefined]]
+    );
+    assert.strictEqual(checks[1].scheduledAt, day(9) + 8 * HOUR);
+
+    const due = checkScheduledDoses(medication, dailyDoses(9), day(9) + 8 * HOUR + 10 * 60 * 1000);
+    assert.strictEqual(due[due.length - 1].status, 'due');
+  });
+
+  it('takes a dose early in the interval and skips it close to the next one', () => {
+    const doses = dailyDoses(9);
+    const missedAt = day(9) + 8 * HOUR;
+
+    const early = getCatchUpGuidance(medication, doses, missedAt, day(9) + 11 * HOUR);
+    assert.strictEqual(early.recommendation, 'take_now');
+    assert.strictEqual(early.nextDoseAt, day(10) + 8 * HOUR);
+    assert.strictEqual(early.amount, 50);
+    assert.ok(early.takeNow.atNextDose > early.skip.atNextDose);
+
+    const late = getCatchUpGuidance(medication, doses, missedAt, day(10) + 2 * HOUR);
+    assert.strictEqual(late.recommendation, 'skip');
+    assert.ok(late.takeNow.peak > late.skip.peak * 1.25);
+  });
+
+  it('still takes a late dose when a long half-life keeps the peak almost unchanged', () => {
+    const longHalfLife = { ...medication, halfLife: 96 };
+    const guidance = getCatchUpGuidance(longHalfLife, dailyDoses(30), day(30) + 8 * HOUR, day(31) + 2 * HOUR);
+    assert.strictEqual(guidance.recommendation, 'take_now');
+    assert.ok(guidance.takeNow.peak < guidance.skip.peak * 1.25);
+  });
+
+  it('uses the titration step due at each time', () => {
+    const schedule: DoseSchedule = {
+      id: 'sched-1',
+      medicationId: medication.id,
+      kind: 'titration',
+      startDate: '2025-05-05',
+      steps: [
+        { dose: 50, days: 10 },
+        { dose: 100, days: 14 }
+      ],
+      createdAt: day(0)
+    };
+    const guidance = getCatchUpGuidance(medication, dailyDoses(9), day(9) + 8 * HOUR, day(9) + 11 * HOUR, {
+      schedules: [schedule]
+    });
+    assert.strictEqual(guidance.amount, 50);
+    assert.strictEqual(guidance.nextAmount, 100);
+
+    const plain = getCatchUpGuidance(medication, dailyDoses(9), day(9) + 8 * HOUR, day(9) + 11 * HOUR);
+    assert.strictEqual(plain.nextAmount, 50);
+    assert.ok(guidance.skip.peak > plain.skip.peak);
+  });
+
+  it('projects with the interactions of the other medications', () => {
+    const lamotrigine: Medication = {
+      ...medication,
+      id: 'med-ltg',
+      name: 'Lamotrigina',
+      category: 'Mood Stabilizer',
+      halfLife: 29,
+      volumeOfDistribution: 1.1
+    };
+    const valproate: Medication = {
+      ...medication,
+      id: 'med-vpa',
+      name: 'Depakote',
+      category: 'Mood Stabilizer',
+      halfLife: 12,
+      volumeOfDistribution: 0.15,
+      scheduledTime: undefined
+    };
+    const doses = [
+      ...dailyDoses(9).map((dose) => ({ ...dose, medicationId: lamotrigine.id })),
+      ...dailyDoses(9).map((dose) => ({ ...dose, id: `v${dose.id}`, medicationId: valproate.id, doseAmount: 500 }))
+    ];
+    const missedAt = day(9) + 8 * HOUR;
+    const now = day(9) + 11 * HOUR;
+
+    const alone = getCatchUpGuidance(lamotrigine, doses, missedAt, now);
+    const withValproate = getCatchUpGuidance(lamotrigine, doses, missedAt, now, {
+      medications: [lamotrigine, valproate]
+    });
+    assert.ok(withValproate.takeNow.peak > alone.takeNow.peak);
+    assert.ok(withValproate.skip.atNextDose > alone.skip.atNextDose);
+  });
+});
@@ -0,0 +1,249 @@
+import type { DoseSchedule, Medication, MedicationDose } from '@/shared/types';
+import { getExpectedDose } from './dose-schedules';
+import { concentrationsWithInteractions } from './drug-interactions';
+import { estimateDosingInterval, getTherapeuticRangeNgPerMl } from './pharmacokinetics';
+import type { PatientInput } from './patient-physiology';
+import { expandRegimen } from './regimen-simulation';
+
+/**
+ * Missed and late doses.
+ *
+ * Scheduled dose times come from the medication's `scheduledTime` /
+ * `scheduledDays`; each one is matched with the nearest unmatched logged dose
+ * within half a dosing interval. For a missed dose, the catch-up guidance
+ * projects the concentration if it is taken now versus skipped until the next
+ * scheduled time, with the amounts of an active titration or taper and the
+ * interactions of the other medications.
+ */
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+/** Same tolerance as the temporal adherence analysis */
+export const ON_TIME_TOLERANCE_MINUTES = 30;
+
+/** Taking a late dose is fine when it raises the next peak by at most this fraction */
+const MAX_PEAK_INCREASE = 0.25;
+
+export type ScheduledDoseStatus = 'taken' | 'late' | 'missed' | 'due';
+
+export interface ScheduledDoseCheck {
+  medicationId: string;
+  scheduledAt: number;
+  status: ScheduledDoseStatus;
+  dose?: MedicationDose; // Logged dose matched to this time
+  delayMinutes?: number; // Negative when taken early
+}
+
+export interface CatchUpProjection {
+  doseTimes: number[]; // Doses this option adds (now and/or the next scheduled one)
+  atNextDose: number; // ng/mL right before the next scheduled dose
+  peak: number; // ng/mL, highest until one interval after the next dose
+  trough: number; // ng/mL, lowest in the same window
+}
+
+export interface CatchUpGuidance {
+  medicationId: string;
+  missedAt: number;
+  nextDoseAt: number;
+  amount: number; // mg, to take now
+  nextAmount: number; // mg, due at nextDoseAt
+  dosingInterval: number; // hours
+  hoursLate: number;
+  hoursUntilNext: number;
+  recommendation: 'take_now' | 'skip';
+  reason: string;
+  takeNow: CatchUpProjection;
+  skip: CatchUpProjection;
+}
+
+/**
+ * Scheduled dose times of `medication` in [from, until); none without a
+ * `scheduledTime`
+ */
+export function getScheduledDoseTimes(medication: Medication, from: number, until: number): number[] {
+  if (!medication.scheduledTime) return [];
+  const days = medication.scheduledDays?.length ? medication.scheduledDays : undefined;
+  return expandRegimen(
+    medication.id,
+    { doses: [{ time: medication.scheduledTime, amount: 0 }], days },
+    from,
+    until
+  ).map((dose) => dose.timestamp);
+}
+
+/**
+ * Status of every scheduled dose time in the last `lookbackHours` up to `now`,
+ * oldest first
+ */
+export function checkScheduledDoses(
+  medication: Medication,
+  doses: MedicationDose[],
+  now: number = Date.now(),
+  lookbackHours: number = 48
+): ScheduledDoseCheck[] {
+  const medDoses = doses.filter((dose) => dose.medicationId === medication.id);
+  const window = (estimateDosingInterval(medDoses) / 2) * MS_PER_HOUR;
+  const toleranceMs = ON_TIME_TOLERANCE_MINUTES * MS_PER_MINUTE;
+  const matched = new Set<string>();
+
+  return getScheduledDoseTimes(medication, now - lookbackHours * MS_PER_HOUR, now).map((scheduledAt) => {
+    const dose = medDoses
+      .filter((item) => !matched.has(item.id) && Math.abs(item.timestamp - scheduledAt) < window)
+      .sort((a, b) => Math.abs(a.timestamp - scheduledAt) - Math.abs(b.timestamp - scheduledAt))[0];
+
+    if (!dose) {
+      return {
+        medicationId: medication.id,
+        scheduledAt,
+        status: now - scheduledAt > toleranceMs ? 'missed' : 'due'
+      };
+    }
+
+    matched.add(dose.id);
+    const delay = dose.timestamp - scheduledAt;
+    return {
+      medicationId: medication.id,
+      scheduledAt,
+      status: delay > toleranceMs ? 'late' : 'taken',
+      dose,
+      delayMinutes: Math.round(delay / MS_PER_MINUTE)
+    };
+  });
+}
+
+/**
+ * Dose due at `at`: the step of an active titration or taper when there is
+ * one, `fallback` otherwise
+ */
+function amountAt(medication: Medication, schedules: DoseSchedule[], at: number, fallback: number): number {
+  const schedule = schedules.find((item) => item.medicationId === medication.id && getExpectedDose(item, at) !== null);
+  return schedule ? getExpectedDose(schedule, at)! : fallback;
+}
+
+function project(
+  medication: Medication,
+  medications: Medication[],
+  history: MedicationDose[],
+  planned: Array<{ timestamp: number; amount: number }>,
+  from: number,
+  nextDoseAt: number,
+  until: number,
+  patient: PatientInput
+): CatchUpProjection {
+  const doses = [
+    ...history,
+    ...planned.map(({ timestamp, amount }) => ({
+      id: `catch-up-${timestamp}`,
+      medicationId: medication.id,
+      timestamp,
+      doseAmount: amount,
+      createdAt: timestamp
+    }))
+  ];
+
+  const points = 120;
+  const step = (until - from) / points;
+  const times = Array.from({ length: points + 1 }, (_, i) => from + i * step);
+  const [atNextDose, ...curve] = concentrationsWithInteractions(
+    medication,
+    medications,
+    doses,
+    [nextDoseAt, ...times],
+    patient
+  );
+
+  return {
+    doseTimes: planned.map((dose) => dose.timestamp),
+    atNextDose,
+    peak: Math.max(...curve),
+    trough: Math.min(...curve)
+  };
+}
+
+/**
+ * Whether to take a missed dose now or skip to the next scheduled one.
+ *
+ * The usual rule (take it unless more than half the interval has passed) is
+ * overridden when taking it would push the peak above the therapeutic range,
+ * and relaxed for long half-lives where the extra dose barely moves the peak.
+ * `doses` may hold every medication's doses; with `medications`, the
+ * projections follow the same interactions as the concentration charts.
+ */
+export function getCatchUpGuidance(
+  medication: Medication,
+  doses: MedicationDose[],
+  missedAt: number,
+  now: number = Date.now(),
+  options: {
+    amount?: number;
+    patient?: PatientInput;
+    medications?: Medication[];
+    schedules?: DoseSchedule[];
+  } = {}
+): CatchUpGuidance {
+  const { patient = 70, medications = [medication], schedules = [] } = options;
+  const history = doses.filter((dose) => dose.timestamp <= now);
+  const medHistory = history
+    .filter((dose) => dose.medicationId === medication.id)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const lastAmount = medHistory[medHistory.length - 1]?.doseAmount ?? medication.defaultDose ?? 0;
+
+  const dosingInterval = estimateDosingInterval(medHistory);
+  const tauMs = dosingInterval * MS_PER_HOUR;
+  const nextDoseAt =
+    getScheduledDoseTimes(medication, now + 1, now + 8 * 24 * MS_PER_HOUR)[0] ??
+    missedAt + Math.ceil((now - missedAt) / tauMs) * tauMs;
+  const until = nextDoseAt + tauMs;
+  const amount = options.amount ?? amountAt(medication, schedules, now, lastAmount);
+  const nextAmount = amountAt(medication, schedules, nextDoseAt, amount);
+
+  const next = { timestamp: nextDoseAt, amount: nextAmount };
+  const takeNow = project(
+    medication,
+    medications,
+    history,
+    [{ timestamp: now, amount }, next],
+    now,
+    nextDoseAt,
+    until,
+    patient
+  );
+  const skip = project(medication, medications, history, [next], now, nextDoseAt, until, patient);
+
+  const hoursLate = (now - missedAt) / MS_PER_HOUR;
+  const hoursUntilNext = (nextDoseAt - now) / MS_PER_HOUR;
+  const peakIncrease = skip.peak > 0 ? takeNow.peak / skip.peak - 1 : 0;
+  const range = getTherapeuticRangeNgPerMl(medication);
+
+  let recommendation: CatchUpGuidance['recommendation'];
+  let reason: string;
+  if (range && takeNow.peak > range.max && skip.peak <= range.max) {
+    recommendation = 'skip';
+    reason = `Tomar agora levaria o pico a ${takeNow.peak.toFixed(1)} ng/mL, acima da faixa terapêutica (${range.max} ng/mL).`;
+  } else if (hoursUntilNext >= dosingInterval / 2) {
+    recommendation = 'take_now';
+    reason = `Faltam ${hoursUntilNext.toFixed(1)}h para a próxima dose, mais da metade do intervalo de ${dosingInterval}h.`;
+  } else if (peakIncrease <= MAX_PEAK_INCREASE) {
+    recommendation = 'take_now';
+    reason = `Com meia-vida de ${medication.halfLife}h, a dose atrasada eleva o próximo pico em só ${Math.round(peakIncrease * 100)}%.`;
+  } else {
+    recommendation = 'skip';
+    reason = `A próxima dose é em ${hoursUntilNext.toFixed(1)}h; tomar agora elevaria o pico em ${Math.round(peakIncrease * 100)}%. Pule esta e retome no horário, sem dobrar.`;
+  }
+
+  return {
+    medicationId: medication.id,
+    missedAt,
+    nextDoseAt,
+    amount,
+    nextAmount,
+    dosingInterval,
+    hoursLate,
+    hoursUntilNext,
+    recommendation,
+    reason,
+    takeNow,
+    skip
+  };
+}
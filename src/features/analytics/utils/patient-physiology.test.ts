@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { Medication, MedicationDose, PhysiologyRecord } from '@/shared/types';
+import { calculateConcentration } from './pharmacokinetics';
+import {
+  buildPatientProfile,
+  estimateCreatinineClearance,
+  getBodyWeightAt,
+  getClearanceFactor,
+  getPhysiologyAt
+} from './patient-physiology';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const T0 = Date.parse('2025-05-01T08:00:00Z');
+
+const lithium: Medication = {
+  id: 'med-li',
+  name: 'Carbonato de lítio',
+  category: 'Mood Stabilizer',
+  halfLife: 24,
+  volumeOfDistribution: 0.8,
+  bioavailability: 1,
+  absorptionRate: 1,
+  elimination: { renalFraction: 0.95 },
+  createdAt: T0,
+  updatedAt: T0
+};
+
+function record(day: number, fields: Partial<PhysiologyRecord>): PhysiologyRecord {
+  return { id: `phys-${day}`, timestamp: T0 + day * DAY, createdAt: T0 + day * DAY, ...fields };
+}
+
+const doses: MedicationDose[] = [
+  { id: 'd1', medicationId: lithium.id, timestamp: T0, doseAmount: 300, route: 'oral', createdAt: T0 }
+];
+
+describe('patient physiology', () => {
+  it('interpolates weight between weighings and holds it outside them', () => {
+    const patient = buildPatientProfile([record(10, { weight: 90 }), record(0, { weight: 70 })], 60);
+    assert.strictEqual(getBodyWeightAt(patient, T0 - DAY), 70);
+    assert.strictEqual(getBodyWeightAt(patient, T0 + 5 * DAY), 80);
+    assert.strictEqual(getBodyWeightAt(patient, T0 + 20 * DAY), 90);
+    assert.strictEqual(getBodyWeightAt(buildPatientProfile([], 60), T0), 60);
+  });
+
+  it('estimates CrCl with Cockcroft-Gault when only creatinine is recorded', () => {
+    const patient = buildPatientProfile(
+      [record(0, { weight: 72, birthDate: '1985-05-01', sex: 'female', serumCreatinine: 1 })],
+      70
+    );
+    const state = getPhysiologyAt(patient, T0);
+    assert.ok(state.creatinineClearanceEstimated);
+    assert.ok(Math.abs(state.creatinineClearance! - estimateCreatinineClearance(40, 72, 1, 'female')) < 0.1);
+  });
+
+  it('scales renally cleared drugs to CrCl and leaves numeric weights alone', () => {
+    const impaired = buildPatientProfile([record(0, { weight: 70, creatinineClearance: 40 })], 70);
+    const factor = getClearanceFactor(lithium, impaired, T0);
+    assert.ok(Math.abs(factor - (0.95 * 0.4 + 0.05)) < 1e-9);
+    assert.strictEqual(getClearanceFactor(lithium, 70, T0), 1);
+    assert.strictEqual(getClearanceFactor({ ...lithium, elimination: undefined }, impaired, T0), 1);
+
+    const at = T0 + 2 * DAY;
+    assert.ok(calculateConcentration(lithium, doses, at, impaired) > calculateConcentration(lithium, doses, at, 70) * 1.5);
+  });
+});
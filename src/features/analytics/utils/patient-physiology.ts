@@ -0,0 +1,174 @@
+import type { BiologicalSex, ChildPughClass, Medication, PhysiologyRecord, SmokingStatus } from '@/shared/types';
+
+/**
+ * Patient physiology for the PK model.
+ *
+ * PK functions take a `PatientInput`: either a fixed body weight in kg (the
+ * long-standing default of 70) or a PatientProfile built from the dated
+ * physiology records. With a profile, the weight at each time scales Vd, and
+ * medications with an `elimination` profile get their clearance adjusted to
+ * the patient's renal function (CrCl), Child-Pugh class and smoking status.
+ *
+ * Medications with applied personal parameters (pkFit) are not adjusted: the
+ * measured levels they were fitted to already reflect the patient's organs.
+ */
+
+export interface PatientProfile {
+  /** Changes whenever anything used by the PK model changes (cache keys) */
+  key: string;
+  defaultWeight: number; // kg, used while no weight is recorded
+  records: PhysiologyRecord[]; // Ascending by timestamp
+}
+
+export type PatientInput = number | PatientProfile;
+
+export interface PhysiologyState {
+  bodyWeight: number; // kg
+  height?: number; // cm
+  age?: number; // years
+  sex?: BiologicalSex;
+  creatinineClearance?: number; // mL/min
+  creatinineClearanceEstimated: boolean; // True when derived with Cockcroft-Gault
+  childPugh: ChildPughClass;
+  smoking?: SmokingStatus;
+}
+
+/** CrCl taken as normal renal function; above it clearance is not increased further */
+export const NORMAL_CREATININE_CLEARANCE = 100;
+const MIN_RENAL_RATIO = 0.05;
+
+/** Non-renal clearance multipliers when a medication has none of its own */
+export const DEFAULT_HEPATIC_IMPAIRMENT: Record<Exclude<ChildPughClass, 'none'>, number> = {
+  A: 0.8,
+  B: 0.6,
+  C: 0.4
+};
+
+const MS_PER_YEAR = 365.25 * 24 * 3600 * 1000;
+
+export function buildPatientProfile(records: PhysiologyRecord[], defaultWeight: number): PatientProfile {
+  const sorted = [...records].sort((a, b) => a.timestamp - b.timestamp);
+  const key = [
+    defaultWeight,
+    ...sorted.map((record) => `${record.id}@${record.updatedAt ?? record.createdAt}`)
+  ].join('|');
+  return { key, defaultWeight, records: sorted };
+}
+
+export function patientKey(patient: PatientInput): string {
+  return typeof patient === 'number' ? String(patient) : patient.key;
+}
+
+/**
+ * Latest value of a field at `time`, or the earliest one when every record
+ * having it is later (a value entered today also describes the recent past)
+ */
+function latestValue<K extends keyof PhysiologyRecord>(
+  records: PhysiologyRecord[],
+  field: K,
+  time: number
+): PhysiologyRecord[K] | undefined {
+  let value: PhysiologyRecord[K] | undefined;
+  for (const record of records) {
+    if (record[field] === undefined) continue;
+    if (record.timestamp > time && value !== undefined) break;
+    value = record[field];
+    if (record.timestamp > time) break;
+  }
+  return value;
+}
+
+/**
+ * Body weight at `time`, linearly interpolated between weighings
+ */
+export function getBodyWeightAt(patient: PatientInput, time: number): number {
+  if (typeof patient === 'number') return patient;
+
+  let before: PhysiologyRecord | undefined;
+  for (const record of patient.records) {
+    if (record.weight === undefined) continue;
+    if (record.timestamp <= time) {
+      before = record;
+      continue;
+    }
+    if (!before) return record.weight;
+    const fraction = (time - before.timestamp) / (record.timestamp - before.timestamp);
+    return before.weight! + (record.weight - before.weight!) * fraction;
+  }
+  return before?.weight ?? patient.defaultWeight;
+}
+
+function ageAt(birthDate: string, time: number): number | undefined {
+  const birth = Date.parse(`${birthDate}T00:00:00`);
+  return Number.isFinite(birth) ? (time - birth) / MS_PER_YEAR : undefined;
+}
+
+/**
+ * Cockcroft-Gault creatinine clearance (mL/min)
+ */
+export function estimateCreatinineClearance(
+  age: number,
+  weight: number,
+  serumCreatinine: number,
+  sex?: BiologicalSex
+): number {
+  const crcl = ((140 - age) * weight) / (72 * serumCreatinine);
+  return Math.max(0, sex === 'female' ? crcl * 0.85 : crcl);
+}
+
+export function getPhysiologyAt(patient: PatientInput, time: number): PhysiologyState {
+  const bodyWeight = getBodyWeightAt(patient, time);
+  if (typeof patient === 'number') {
+    return { bodyWeight, creatinineClearanceEstimated: false, childPugh: 'none' };
+  }
+
+  const { records } = patient;
+  const birthDate = latestValue(records, 'birthDate', time);
+  const age = birthDate ? ageAt(birthDate, time) : undefined;
+  const sex = latestValue(records, 'sex', time);
+
+  let creatinineClearance = latestValue(records, 'creatinineClearance', time);
+  let creatinineClearanceEstimated = false;
+  const serumCreatinine = latestValue(records, 'serumCreatinine', time);
+  if (creatinineClearance === undefined && serumCreatinine !== undefined && age !== undefined) {
+    creatinineClearance = estimateCreatinineClearance(age, bodyWeight, serumCreatinine, sex);
+    creatinineClearanceEstimated = true;
+  }
+
+  return {
+    bodyWeight,
+    height: latestValue(records, 'height', time),
+    age,
+    sex,
+    creatinineClearance,
+    creatinineClearanceEstimated,
+    childPugh: latestValue(records, 'childPugh', time) ?? 'none',
+    smoking: latestValue(records, 'smoking', time)
+  };
+}
+
+/**
+ * Clearance multiplier for `medication` in this patient at `time` (1 = as
+ * stored on the medication)
+ */
+export function getClearanceFactor(medication: Medication, patient: PatientInput, time: number): number {
+  const { elimination } = medication;
+  if (typeof patient === 'number' || !elimination || medication.pkFit) return 1;
+
+  const state = getPhysiologyAt(patient, time);
+  const renalRatio =
+    state.creatinineClearance === undefined
+      ? 1
+      : Math.min(1, Math.max(MIN_RENAL_RATIO, state.creatinineClearance / NORMAL_CREATININE_CLEARANCE));
+
+  let nonRenal = 1;
+  if (state.childPugh !== 'none') {
+    nonRenal *= elimination.hepaticImpairment?.[state.childPugh] ?? DEFAULT_HEPATIC_IMPAIRMENT[state.childPugh];
+  }
+  if (state.smoking === 'current' && elimination.smokingInduction) {
+    nonRenal *= elimination.smokingInduction;
+  }
+
+  const renalFraction = Math.min(1, Math.max(0, elimination.renalFraction));
+  return renalFraction * renalRatio + (1 - renalFraction) * nonRenal;
+}
@@ -1,8 +1,15 @@
 import type { Medication, MedicationDose } from '@/shared/types';
-import { calculateConcentration } from './pharmacokinetics';
+import { calculateConcentration, getReleaseProfile } from './pharmacokinetics';
+import {
+  generatePercentileCurves,
+  getParameterDistributions,
+  type MonteCarloOptions,
+  type PercentilePoint
+} from './pk-variability';
+import { patientKey, type PatientInput } from './patient-physiology';
 
 // Increment CACHE_VERSION when pharmacokinetic formula changes
-const CACHE_VERSION = 2; // v2: Fixed ln(2) + two-compartment model
+const CACHE_VERSION = 3; // v3: Release profiles, clearance adjustment and parameters in the key
 
 interface CacheKey {
   medicationId: string;
@@ -24,19 +31,58 @@ interface CurveCacheEntry {
   version: number;
 }
 
+interface PercentileCacheEntry {
+  curve: PercentilePoint[];
+  timestamp: number;
+  version: number;
+}
+
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 const MAX_CACHE_SIZE = 500;
 
+/** FNV-1a over the factors rounded to 4 decimals; enough to tell interaction timelines apart */
+function hashFactors(factors: ArrayLike<number>): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < factors.length; i++) {
+    hash ^= Math.round(factors[i] * 1e4);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * FNV-1a over everything calculateConcentration reads from the medication, so
+ * editing its parameters, formulation or elimination never serves a stale curve
+ */
+function hashPKParameters(medication: Medication): string {
+  const text = JSON.stringify([
+    medication.halfLife,
+    medication.volumeOfDistribution,
+    medication.bioavailability,
+    medication.absorptionRate,
+    medication.class || medication.category || null,
+    getReleaseProfile(medication),
+    medication.pkFit ? null : medication.elimination ?? null
+  ]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
 class PharmacokineticCache {
   private concentrationCache = new Map<string, CacheEntry>();
   private curveCache = new Map<string, CurveCacheEntry>();
+  private percentileCache = new Map<string, PercentileCacheEntry>();
   private accessOrder: string[] = [];
 
   private getCacheKey(
-    medicationId: string,
+    medication: Medication,
     doses: MedicationDose[],
     targetTime: number,
-    bodyWeight: number
+    patient: PatientInput
   ): string {
     const sortedDoseIds = doses
       .map(d => `${d.id}:${d.timestamp}:${d.doseAmount}`)
@@ -44,16 +90,16 @@ class PharmacokineticCache {
       .join('|');
 
     const timeKey = Math.floor(targetTime / 60000);
-    return `v${CACHE_VERSION}:${medicationId}:${sortedDoseIds}:${timeKey}:${bodyWeight}`;
+    return `v${CACHE_VERSION}:${medication.id}:${hashPKParameters(medication)}:${sortedDoseIds}:${timeKey}:${patientKey(patient)}`;
   }
 
   private getCurveKey(
-    medicationId: string,
+    medication: Medication,
     doses: MedicationDose[],
     startTime: number,
     endTime: number,
     points: number,
-    bodyWeight: number
+    patient: PatientInput
   ): string {
     const sortedDoseIds = doses
       .map(d => `${d.id}:${d.timestamp}:${d.doseAmount}`)
@@ -62,7 +108,24 @@ class PharmacokineticCache {
 
     const startKey = Math.floor(startTime / 60000);
     const endKey = Math.floor(endTime / 60000);
-    return `v${CACHE_VERSION}:curve:${medicationId}:${sortedDoseIds}:${startKey}:${endKey}:${points}:${bodyWeight}`;
+    return `v${CACHE_VERSION}:curve:${medication.id}:${hashPKParameters(medication)}:${sortedDoseIds}:${startKey}:${endKey}:${points}:${patientKey(patient)}`;
+  }
+
+  private getPercentileKey(
+    medication: Medication,
+    doses: MedicationDose[],
+    startTime: number,
+    endTime: number,
+    points: number,
+    patient: PatientInput,
+    options: MonteCarloOptions
+  ): string {
+    const curveKey = this.getCurveKey(medication, doses, startTime, endTime, points, patient);
+    // The distributions are part of the key: editing a medication's
+    // parameters or CVs must not serve a stale band
+    const distributions = JSON.stringify(getParameterDistributions(medication));
+    const clearance = options.clearanceFactors ? hashFactors(options.clearanceFactors) : '';
+    return `${curveKey.replace(':curve:', ':percentiles:')}:${distributions}:${options.samples ?? ''}:${options.seed ?? ''}:${clearance}`;
   }
 
   private evictOldestEntry(): void {
@@ -72,6 +135,7 @@ class PharmacokineticCache {
     if (oldestKey) {
       this.concentrationCache.delete(oldestKey);
       this.curveCache.delete(oldestKey);
+      this.percentileCache.delete(oldestKey);
     }
   }
 
@@ -91,9 +155,9 @@ class PharmacokineticCache {
     medication: Medication,
     doses: MedicationDose[],
     targetTime: number,
-    bodyWeight: number = 70
+    patient: PatientInput = 70
   ): number {
-    const key = this.getCacheKey(medication.id, doses, targetTime, bodyWeight);
+    const key = this.getCacheKey(medication, doses, targetTime, patient);
     const cached = this.concentrationCache.get(key);
 
     if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
@@ -101,7 +165,7 @@ class PharmacokineticCache {
       return cached.concentration;
     }
 
-    const concentration = calculateConcentration(medication, doses, targetTime, bodyWeight);
+    const concentration = calculateConcentration(medication, doses, targetTime, patient);
 
     this.concentrationCache.set(key, {
       concentration,
@@ -120,15 +184,15 @@ class PharmacokineticCache {
     startTime: number,
     endTime: number,
     points: number = 100,
-    bodyWeight: number = 70
+    patient: PatientInput = 70
   ): Array<{ time: number; concentration: number }> {
     const key = this.getCurveKey(
-      medication.id,
+      medication,
       doses,
       startTime,
       endTime,
       points,
-      bodyWeight
+      patient
     );
 
     const cached = this.curveCache.get(key);
@@ -143,7 +207,7 @@ class PharmacokineticCache {
 
     for (let i = 0; i <= points; i++) {
       const time = startTime + (i * interval);
-      const concentration = this.getConcentration(medication, doses, time, bodyWeight);
+      const concentration = this.getConcentration(medication, doses, time, patient);
       curve.push({ time, concentration });
     }
 
@@ -158,10 +222,45 @@ class PharmacokineticCache {
     return curve;
   }
 
+  /**
+   * 5th/50th/95th percentile curves from population variability (Monte Carlo,
+   * see pk-variability.ts)
+   */
+  getPercentileCurve(
+    medication: Medication,
+    doses: MedicationDose[],
+    startTime: number,
+    endTime: number,
+    points: number = 100,
+    patient: PatientInput = 70,
+    options: MonteCarloOptions = {}
+  ): PercentilePoint[] {
+    const key = this.getPercentileKey(medication, doses, startTime, endTime, points, patient, options);
+    const cached = this.percentileCache.get(key);
+
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      this.updateAccessOrder(key);
+      return cached.curve;
+    }
+
+    const curve = generatePercentileCurves(medication, doses, startTime, endTime, points, patient, options);
+
+    this.percentileCache.set(key, {
+      curve,
+      timestamp: Date.now(),
+      version: CACHE_VERSION
+    });
+
+    this.updateAccessOrder(key);
+
+    return curve;
+  }
+
   invalidate(medicationId?: string): void {
     if (!medicationId) {
       this.concentrationCache.clear();
       this.curveCache.clear();
+      this.percentileCache.clear();
       this.accessOrder = [];
       return;
     }
@@ -181,9 +280,16 @@ class PharmacokineticCache {
       }
     });
 
+    this.percentileCache.forEach((_, key) => {
+      if (key.includes(medPattern)) {
+        keysToDelete.push(key);
+      }
+    });
+
     keysToDelete.forEach(key => {
       this.concentrationCache.delete(key);
       this.curveCache.delete(key);
+      this.percentileCache.delete(key);
       const index = this.accessOrder.indexOf(key);
       if (index > -1) {
         this.accessOrder.splice(index, 1);
@@ -195,7 +301,8 @@ class PharmacokineticCache {
     return {
       concentrationCacheSize: this.concentrationCache.size,
       curveCacheSize: this.curveCache.size,
-      totalCacheSize: this.concentrationCache.size + this.curveCache.size,
+      percentileCacheSize: this.percentileCache.size,
+      totalCacheSize: this.concentrationCache.size + this.curveCache.size + this.percentileCache.size,
       accessOrderLength: this.accessOrder.length
     };
   }
@@ -216,9 +323,16 @@ class PharmacokineticCache {
       }
     });
 
+    this.percentileCache.forEach((entry, key) => {
+      if (now - entry.timestamp >= CACHE_TTL) {
+        expiredKeys.push(key);
+      }
+    });
+
     expiredKeys.forEach(key => {
       this.concentrationCache.delete(key);
       this.curveCache.delete(key);
+      this.percentileCache.delete(key);
       const index = this.accessOrder.indexOf(key);
       if (index > -1) {
         this.accessOrder.splice(index, 1);
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { Medication, MedicationDose } from '@/shared/types';
+import { calculateConcentration, calculateEffectConcentration, calculateSteadyStateMetrics } from './pharmacokinetics';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.parse('2025-05-01T08:00:00Z');
+
+const methylphenidate: Medication = {
+  id: 'mph',
+  name: 'Methylphenidate',
+  category: 'Stimulant',
+  halfLife: 3.5,
+  volumeOfDistribution: 2.65,
+  bioavailability: 0.3,
+  absorptionRate: 1.5,
+  createdAt: T0,
+  updatedAt: T0
+};
+
+const oros: Medication = {
+  ...methylphenidate,
+  formulation: { kind: 'OROS', releaseDuration: 7, immediateFraction: 0.22 }
+};
+
+const dose: MedicationDose = { id: 'd1', medicationId: 'mph', timestamp: T0, doseAmount: 36, createdAt: T0 };
+
+/** Hourly profile over 36h and its trapezoidal AUC */
+function profile(medication: Medication) {
+  const values = Array.from({ length: 36 * 4 + 1 }, (_, i) =>
+    calculateConcentration(medication, [dose], T0 + (i / 4) * HOUR, 70)
+  );
+  const peak = Math.max(...values);
+  const auc = values.reduce((sum, value, i) => (i === 0 ? 0 : sum + ((value + values[i - 1]) / 2) * 0.25), 0);
+  return { values, peak, tmax: values.indexOf(peak) / 4, auc };
+}
+
+describe('modified-release formulations', () => {
+  it('flattens and delays the peak without changing exposure', () => {
+    const ir = profile(methylphenidate);
+    const mr = profile(oros);
+
+    assert.ok(mr.peak < ir.peak * 0.75, `OROS peak ${mr.peak} vs IR ${ir.peak}`);
+    assert.ok(mr.tmax > ir.tmax + 3, `OROS Tmax ${mr.tmax}h vs IR ${ir.tmax}h`);
+    assert.ok(Math.abs(mr.auc - ir.auc) / ir.auc < 0.02, 'same dose should give the same AUC');
+  });
+
+  it('holds everything back during the lag time', () => {
+    const delayed: Medication = { ...methylphenidate, formulation: { kind: 'DR', lagTime: 2 } };
+    assert.strictEqual(calculateConcentration(delayed, [dose], T0 + 1.9 * HOUR, 70), 0);
+    const shifted = calculateConcentration(delayed, [dose], T0 + 5 * HOUR, 70);
+    const reference = calculateConcentration(methylphenidate, [dose], T0 + 3 * HOUR, 70);
+    assert.ok(Math.abs(shifted - reference) < 1e-9);
+  });
+
+  it('narrows the steady-state fluctuation', () => {
+    const daily = Array.from({ length: 10 }, (_, day) => ({ ...dose, id: `d${day}`, timestamp: T0 + day * 24 * HOUR }));
+    const ir = calculateSteadyStateMetrics(methylphenidate, daily, 70)!;
+    const mr = calculateSteadyStateMetrics(oros, daily, 70)!;
+
+    assert.ok(Math.abs(mr.Css_avg - ir.Css_avg) < 1e-9);
+    assert.ok(mr.Cmax_ss < ir.Cmax_ss);
+    assert.ok(mr.Cmin_ss >= 0 && mr.Cmin_ss <= mr.Cmax_ss);
+  });
+});
+
+describe('effect site', () => {
+  it('starts empty after the lag and stays under the plasma peak', () => {
+    const sertraline: Medication = { ...methylphenidate, id: 'ser', category: 'SSRI', halfLife: 26, volumeOfDistribution: 1 };
+    const serDose: MedicationDose = { ...dose, medicationId: 'ser', doseAmount: 50 };
+    const plasma = Array.from({ length: 49 }, (_, i) => calculateConcentration(sertraline, [serDose], T0 + i * HOUR, 70));
+    const effect = Array.from({ length: 49 }, (_, i) => calculateEffectConcentration(sertraline, [serDose], T0 + i * HOUR, 70));
+
+    // SSRI effect lag is 30 min
+    assert.ok(calculateEffectConcentration(sertraline, [serDose], T0 + 0.6 * HOUR, 70) < plasma[1] * 0.05);
+    assert.ok(Math.max(...effect) < Math.max(...plasma));
+    assert.ok(effect.indexOf(Math.max(...effect)) > plasma.indexOf(Math.max(...plasma)));
+  });
+});
@@ -1,5 +1,6 @@
 import type { Medication, MedicationDose } from '@/shared/types';
 import { perfMonitor } from './performance-monitor';
+import { getBodyWeightAt, getClearanceFactor, type PatientInput } from './patient-physiology';
 
 const DEBUG_PK = false;
 
@@ -45,43 +46,6 @@ const EFFECT_LAG_BY_CLASS: Record<string, number> = {
   'Other': 0.25,
 };
 
-const AUTOINDUCTION_DRUGS = ['lamotrigine', 'lamictal', 'lamotrigina'];
-const AUTOINDUCTION_DAYS_TO_FULL_EFFECT = 21;
-const AUTOINDUCTION_HALF_LIFE_REDUCTION = 0.20;
-
-export function getAdjustedHalfLife(
-  medication: Medication,
-  doses: MedicationDose[]
-): number {
-  const baseName = (medication.name || '').toLowerCase();
-  const genericName = (medication.genericName || '').toLowerCase();
-  
-  const isAutoinducer = AUTOINDUCTION_DRUGS.some(
-    drug => baseName.includes(drug) || genericName.includes(drug)
-  );
-  
-  if (!isAutoinducer) {
-    return medication.halfLife;
-  }
-  
-  const medDoses = doses.filter(d => d.medicationId === medication.id);
-  if (medDoses.length === 0) {
-    return medication.halfLife;
-  }
-  
-  const firstDoseTime = Math.min(...medDoses.map(d => d.timestamp));
-  const daysSinceFirstDose = (Date.now() - firstDoseTime) / (1000 * 60 * 60 * 24);
-  
-  if (daysSinceFirstDose < 7) {
-    return medication.halfLife;
-  }
-  
-  const inductionProgress = Math.min(1, daysSinceFirstDose / AUTOINDUCTION_DAYS_TO_FULL_EFFECT);
-  const reductionFactor = 1 - (AUTOINDUCTION_HALF_LIFE_REDUCTION * inductionProgress);
-  
-  return medication.halfLife * reductionFactor;
-}
-
 export function getKaForMedication(medication: Medication, Ke: number): number {
   if (Number.isFinite(medication.absorptionRate) && medication.absorptionRate > 0) {
     return medication.absorptionRate;
@@ -103,13 +67,85 @@ export function calculateAccumulationFactor(Ke: number, dosingInterval: number):
   return 1 / (1 - term);
 }
 
+// ============================================
+// Modified-Release Formulations
+// ============================================
+
+/**
+ * Response to a unit dose written as Σ coefficient × e^(−rate × t), which
+ * covers every disposition model here and can be integrated in closed form
+ * for zero-order release
+ */
+type ExponentialTerms = Array<[coefficient: number, rate: number]>;
+
+export interface ReleaseProfile {
+  lagTime: number; // hours
+  immediateFraction: number; // 0-1, available at once after the lag
+  releaseDuration: number; // hours of zero-order release for the remainder
+}
+
+export function getReleaseProfile(medication: Medication): ReleaseProfile {
+  const formulation = medication.formulation;
+  const releaseDuration =
+    Number.isFinite(formulation?.releaseDuration) && formulation!.releaseDuration! > 0 ? formulation!.releaseDuration! : 0;
+  const lagTime = Number.isFinite(formulation?.lagTime) ? Math.max(0, formulation!.lagTime!) : 0;
+  const immediateFraction =
+    releaseDuration > 0 ? Math.min(1, Math.max(0, formulation?.immediateFraction ?? 0)) : 1;
+  return { lagTime, immediateFraction, releaseDuration };
+}
+
+export function isModifiedRelease(medication: Medication): boolean {
+  const profile = getReleaseProfile(medication);
+  return profile.lagTime > 0 || profile.immediateFraction < 1;
+}
+
+/** First-order absorption (Ka) into a term eliminated at rate k, per unit dose */
+function batemanTerms(Ka: number, k: number): ExponentialTerms {
+  const rate = Math.abs(Ka - k) < 1e-6 ? k + 1e-3 : k;
+  const coefficient = Ka / (Ka - rate);
+  return [[coefficient, rate], [-coefficient, Ka]];
+}
+
+function evaluateTerms(terms: ExponentialTerms, t: number): number {
+  let total = 0;
+  for (const [coefficient, rate] of terms) total += coefficient * Math.exp(-rate * t);
+  return total;
+}
+
+/** ∫₀ᵗ of the response, i.e. the response to a unit-rate infusion lasting t */
+function integrateTerms(terms: ExponentialTerms, t: number): number {
+  if (t <= 0) return 0;
+  let total = 0;
+  for (const [coefficient, rate] of terms) total += (coefficient * (1 - Math.exp(-rate * t))) / rate;
+  return total;
+}
+
+/**
+ * Response `hours` after a unit dose released according to `profile`: the
+ * immediate fraction as a bolus, the rest as a constant-rate input
+ */
+function releaseResponse(terms: ExponentialTerms, hours: number, profile: ReleaseProfile): number {
+  const t = hours - profile.lagTime;
+  if (t <= 0) return 0;
+
+  let response = profile.immediateFraction * evaluateTerms(terms, t);
+  if (profile.immediateFraction < 1) {
+    const inputRate = (1 - profile.immediateFraction) / profile.releaseDuration;
+    response += inputRate * (integrateTerms(terms, t) - integrateTerms(terms, t - profile.releaseDuration));
+  }
+  return response;
+}
+
 export function calculateConcentration(
   medication: Medication,
   doses: MedicationDose[],
   targetTime: number,
-  bodyWeight: number = 70
+  patient: PatientInput = 70
 ): number {
   const MG_PER_L_TO_NG_PER_ML = 1000;
+  // Weight and organ function at the evaluation time; they change slowly
+  // next to the dosing interval
+  const bodyWeight = getBodyWeightAt(patient, targetTime);
 
   return perfMonitor.measure(
     'calculateConcentration',
@@ -120,7 +156,7 @@ export function calculateConcentration(
       if (!Number.isFinite(volumeOfDistribution) || volumeOfDistribution <= 0) return 0;
       if (!Number.isFinite(bioavailability) || bioavailability <= 0) return 0;
 
-      const Ke = Math.LN2 / halfLife;
+      const Ke = (Math.LN2 / halfLife) * getClearanceFactor(medication, patient, targetTime);
       let Ka = getKaForMedication(medication, Ke);
 
       if (Math.abs(Ka - Ke) < 1e-6) Ka = Ke + 1e-3;
@@ -134,6 +170,7 @@ export function calculateConcentration(
 
       const Tmax = calculateTmax(Ka, Ke);
       const medClass = medication.class || medication.category || 'Other';
+      const release = getReleaseProfile(medication);
 
       debugLog(`Medication: ${medication.name}`, {
         class: medClass,
@@ -144,6 +181,7 @@ export function calculateConcentration(
         Vd,
         F,
         useTwoCompartment,
+        release,
         bodyWeight
       });
 
@@ -175,21 +213,20 @@ export function calculateConcentration(
 
           // Coefficient ratio based on Vd (higher Vd → more in peripheral compartment)
           const peripheralFraction = Math.min(volumeOfDistribution / 20, 0.7); // Cap at 70%
-          const A = (F * D * Ka) / (Vd * (Ka - alpha)) * (1 - peripheralFraction);
-          const B = (F * D * Ka) / (Vd * (Ka - beta)) * peripheralFraction;
+          const A = (F * D / Vd) * (1 - peripheralFraction);
+          const B = (F * D / Vd) * peripheralFraction;
 
           concentration =
-            A * (Math.exp(-alpha * timeSinceDose) - Math.exp(-Ka * timeSinceDose)) +
-            B * (Math.exp(-beta * timeSinceDose) - Math.exp(-Ka * timeSinceDose));
+            A * releaseResponse(batemanTerms(Ka, alpha), timeSinceDose, release) +
+            B * releaseResponse(batemanTerms(Ka, beta), timeSinceDose, release);
 
         } else {
           // One-compartment model (simpler, for most drugs)
           // C(t) = (F * D * Ka) / (Vd * (Ka - Ke)) * (e^{-Ke t} - e^{-Ka t})
-          const denom = Vd * (Ka - Ke);
-          if (!Number.isFinite(denom) || denom === 0) continue;
+          // for an immediate-release dose; see releaseResponse() for the rest
+          if (!Number.isFinite(Vd) || Vd === 0) continue;
 
-          concentration = (F * D * Ka) / denom *
-            (Math.exp(-Ke * timeSinceDose) - Math.exp(-Ka * timeSinceDose));
+          concentration = (F * D / Vd) * releaseResponse(batemanTerms(Ka, Ke), timeSinceDose, release);
         }
 
         totalConcentration += Math.max(0, concentration);
@@ -219,7 +256,7 @@ export function generateConcentrationCurve(
   startTime: number,
   endTime: number,
   points: number = 100,
-  bodyWeight: number = 70
+  patient: PatientInput = 70
 ): Array<{ time: number; concentration: number }> {
   return perfMonitor.measure(
     'generateConcentrationCurve',
@@ -229,7 +266,7 @@ export function generateConcentrationCurve(
 
       for (let i = 0; i <= points; i++) {
         const time = startTime + (i * interval);
-        const concentration = calculateConcentration(medication, doses, time, bodyWeight);
+        const concentration = calculateConcentration(medication, doses, time, patient);
         curve.push({ time, concentration });
       }
 
@@ -311,15 +348,17 @@ export function getEffectLagForMedication(medication: Medication): number {
  * @param medication - The medication with PK parameters
  * @param doses - Array of doses taken
  * @param targetTime - Time point to calculate effect concentration
- * @param bodyWeight - Patient body weight in kg (default 70)
+ * @param patient - Body weight in kg (default 70) or the patient profile
  * @returns Effect-site concentration in ng/mL (same units as plasma concentration)
  */
 export function calculateEffectConcentration(
   medication: Medication,
   doses: MedicationDose[],
   targetTime: number,
-  bodyWeight: number = 70
+  patient: PatientInput = 70
 ): number {
+  const bodyWeight = getBodyWeightAt(patient, targetTime);
+
   return perfMonitor.measure(
     'calculateEffectConcentration',
     () => {
@@ -333,12 +372,13 @@ export function calculateEffectConcentration(
       if (!Number.isFinite(volumeOfDistribution) || volumeOfDistribution <= 0) return 0;
       if (!Number.isFinite(bioavailability) || bioavailability <= 0) return 0;
 
-      const Ke = Math.LN2 / halfLife;
+      const Ke = (Math.LN2 / halfLife) * getClearanceFactor(medication, patient, targetTime);
       let Ka = getKaForMedication(medication, Ke);
       if (Math.abs(Ka - Ke) < 1e-6) Ka = Ke + 1e-3;
 
       const Vd = volumeOfDistribution * bodyWeight;
       const F = bioavailability;
+      const release = getReleaseProfile(medication);
 
       const MG_PER_L_TO_NG_PER_ML = 1000;
 
@@ -357,20 +397,16 @@ export function calculateEffectConcentration(
 
         // Calculate effect concentration using effect compartment model
         // Ce(t) = (F × D × Ka × ke0) / (Vd × (Ka - Ke) × (ke0 - Ke))
-        //       × [e^(-Ke×t)/(ke0-Ke) - e^(-Ka×t)/(ke0-Ka) - e^(-ke0×t)×(Ka-Ke)/((ke0-Ke)(ke0-Ka))]
+        //       × [e^(-Ke×t)/(ke0-Ke) - e^(-Ka×t)/(ke0-Ka) + e^(-ke0×t)×(Ka-Ke)/((ke0-Ke)(ke0-Ka))]
         //
         // Simplified form for numerical stability:
         // Ce(t) ≈ Cp(t) × (1 - e^(-ke0 × t)) for steady observation
         //
         // More accurate: convolution integral approach
 
-        // Calculate plasma concentration at this time point first
         const denom = Vd * (Ka - Ke);
         if (!Number.isFinite(denom) || denom === 0) continue;
 
-        const Cp = (F * D * Ka) / denom *
-          (Math.exp(-Ke * timeSinceDose) - Math.exp(-Ka * timeSinceDose));
-
         // Apply effect compartment equilibration factor
         // This gives the "lagged" effect concentration
         // For ke0 >> Ke: effect tracks plasma closely
@@ -383,22 +419,28 @@ export function calculateEffectConcentration(
         const ke0MinusKa = ke0 - Ka;
         const KaMinusKe = Ka - Ke;
 
+        let terms: ExponentialTerms;
+
         // Handle edge cases where rate constants are similar
         if (Math.abs(ke0MinusKe) < 1e-6 || Math.abs(ke0MinusKa) < 1e-6) {
-          // Fallback to simplified equilibration factor
-          const equilibrationFactor = 1 - Math.exp(-ke0 * timeSinceDose);
-          totalEffectConcentration += Math.max(0, Cp * equilibrationFactor);
+          // Fallback to simplified equilibration factor: Cp × (1 - e^(-ke0×t))
+          const plasma = batemanTerms(Ka, Ke);
+          terms = [
+            ...plasma,
+            ...plasma.map(([coefficient, rate]): [number, number] => [-coefficient, rate + ke0])
+          ];
         } else {
           // Full tri-exponential solution
-          const coeff = (F * D * Ka * ke0) / (Vd * KaMinusKe);
-
-          const term1 = Math.exp(-Ke * timeSinceDose) / ke0MinusKe;
-          const term2 = Math.exp(-Ka * timeSinceDose) / ke0MinusKa;
-          const term3 = Math.exp(-ke0 * timeSinceDose) * (KaMinusKe / (ke0MinusKe * ke0MinusKa));
-
-          const Ce = coeff * (term1 - term2 - term3);
-          totalEffectConcentration += Math.max(0, Ce);
+          const coeff = (Ka * ke0) / KaMinusKe;
+          terms = [
+            [coeff / ke0MinusKe, Ke],
+            [-coeff / ke0MinusKa, Ka],
+            [coeff * (KaMinusKe / (ke0MinusKe * ke0MinusKa)), ke0]
+          ];
         }
+
+        const Ce = (F * D / Vd) * releaseResponse(terms, timeSinceDose, release);
+        totalEffectConcentration += Math.max(0, Ce);
       }
 
       return totalEffectConcentration * MG_PER_L_TO_NG_PER_ML;
@@ -420,7 +462,7 @@ export function generateDualConcentrationCurves(
   startTime: number,
   endTime: number,
   points: number = 100,
-  bodyWeight: number = 70
+  patient: PatientInput = 70
 ): Array<{ time: number; plasma: number; effect: number }> {
   return perfMonitor.measure(
     'generateDualConcentrationCurves',
@@ -430,8 +472,8 @@ export function generateDualConcentrationCurves(
 
       for (let i = 0; i <= points; i++) {
         const time = startTime + (i * interval);
-        const plasma = calculateConcentration(medication, doses, time, bodyWeight);
-        const effect = calculateEffectConcentration(medication, doses, time, bodyWeight);
+        const plasma = calculateConcentration(medication, doses, time, patient);
+        const effect = calculateEffectConcentration(medication, doses, time, patient);
         curve.push({ time, plasma, effect });
       }
 
@@ -478,6 +520,23 @@ export function getEffectMetrics(medication: Medication): EffectMetrics {
 // Steady-State Concentration Functions
 // ============================================
 
+/**
+ * Therapeutic range converted to ng/mL, the unit of calculateConcentration()
+ */
+export function getTherapeuticRangeNgPerMl(medication: Medication): { min: number; max: number } | null {
+  if (!medication.therapeuticRange) return null;
+  const unit = medication.therapeuticRange.unit?.toLowerCase() ?? 'ng/ml';
+  const toNg = (v: number) => {
+    if (unit.includes('mcg') || unit.includes('µg')) return v * 1000;
+    if (unit.includes('mg/l')) return v * 1000;
+    return v;
+  };
+  return {
+    min: toNg(medication.therapeuticRange.min),
+    max: toNg(medication.therapeuticRange.max),
+  };
+}
+
 const CHRONIC_MEDICATION_CLASSES = ['SSRI', 'SNRI', 'Mood Stabilizer', 'Antipsychotic'];
 
 export function isChronicMedication(medication: Medication): boolean {
@@ -521,9 +580,15 @@ export interface SteadyStateMetrics {
 export function calculateSteadyStateMetrics(
   medication: Medication,
   doses: MedicationDose[],
-  bodyWeight: number = 70
+  patient: PatientInput = 70
 ): SteadyStateMetrics | null {
-  const { halfLife, volumeOfDistribution, bioavailability } = medication;
+  const { volumeOfDistribution, bioavailability } = medication;
+  if (!Number.isFinite(medication.halfLife) || medication.halfLife <= 0) return null;
+
+  // Steady state for the patient as they are now
+  const now = Date.now();
+  const bodyWeight = getBodyWeightAt(patient, now);
+  const halfLife = medication.halfLife / getClearanceFactor(medication, patient, now);
 
   if (!Number.isFinite(halfLife) || halfLife <= 0) return null;
   if (!Number.isFinite(volumeOfDistribution) || volumeOfDistribution <= 0) return null;
@@ -548,18 +613,26 @@ export function calculateSteadyStateMetrics(
   const Ka = getKaForMedication(medication, Ke);
   const Tmax = calculateTmax(Ka, Ke);
 
-  const singleDoseCmax_mgL = (F * avgDose * Ka) / (Vd * (Ka - Ke)) *
-    (Math.exp(-Ke * Tmax) - Math.exp(-Ka * Tmax));
-  const Cmax_ss = Math.max(0, singleDoseCmax_mgL * R * 1000);
+  let Cmax_ss: number;
+  let Cmin_ss: number;
 
-  const Cmin_ss = Cmax_ss * Math.exp(-Ke * tau);
+  if (isModifiedRelease(medication)) {
+    // No closed-form peak/trough for lagged or zero-order input: simulate
+    // regular dosing until steady state and read the last interval
+    ({ Cmax_ss, Cmin_ss } = simulateSteadyStateRange({ ...medication, halfLife }, avgDose, tau, bodyWeight));
+  } else {
+    const singleDoseCmax_mgL = (F * avgDose * Ka) / (Vd * (Ka - Ke)) *
+      (Math.exp(-Ke * Tmax) - Math.exp(-Ka * Tmax));
+    Cmax_ss = Math.max(0, singleDoseCmax_mgL * R * 1000);
+    Cmin_ss = Cmax_ss * Math.exp(-Ke * tau);
+  }
 
   const fluctuation = Cmax_ss > 0 ? ((Cmax_ss - Cmin_ss) / Css_avg) * 100 : 0;
 
   const timeToSteadyState = 5 * halfLife;
 
   const firstDose = Math.min(...medDoses.map(d => d.timestamp));
-  const hoursSinceFirst = (Date.now() - firstDose) / (1000 * 3600);
+  const hoursSinceFirst = (now - firstDose) / (1000 * 3600);
   const atSteadyState = hoursSinceFirst >= timeToSteadyState;
 
   return {
@@ -574,6 +647,34 @@ export function calculateSteadyStateMetrics(
   };
 }
 
+function simulateSteadyStateRange(
+  medication: Medication,
+  doseAmount: number,
+  tau: number,
+  bodyWeight: number
+): { Cmax_ss: number; Cmin_ss: number } {
+  const SAMPLES_PER_INTERVAL = 48;
+  const tauMs = tau * 3600 * 1000;
+  const doseCount = Math.min(200, Math.ceil((5 * medication.halfLife) / tau) + 1);
+  const doses: MedicationDose[] = Array.from({ length: doseCount }, (_, i) => ({
+    id: `ss-${i}`,
+    medicationId: medication.id,
+    timestamp: i * tauMs,
+    doseAmount,
+    createdAt: 0
+  }));
+
+  const lastDose = (doseCount - 1) * tauMs;
+  let Cmax_ss = 0;
+  let Cmin_ss = Infinity;
+  for (let i = 0; i <= SAMPLES_PER_INTERVAL; i++) {
+    const concentration = calculateConcentration(medication, doses, lastDose + (i / SAMPLES_PER_INTERVAL) * tauMs, bodyWeight);
+    Cmax_ss = Math.max(Cmax_ss, concentration);
+    Cmin_ss = Math.min(Cmin_ss, concentration);
+  }
+  return { Cmax_ss, Cmin_ss: Number.isFinite(Cmin_ss) ? Cmin_ss : 0 };
+}
+
 // ============================================
 // Adherence Effect Lag (for Chronic Medications)
 // ============================================
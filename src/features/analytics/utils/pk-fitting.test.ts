@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { LabLevel, Medication, MedicationDose } from '@/shared/types';
+import { calculateConcentration } from './pharmacokinetics';
+import { applyPKFit, fitPersonalPK, levelInNgPerMl, revertPKFit } from './pk-fitting';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.parse('2025-05-01T08:00:00Z');
+
+const medication: Medication = {
+  id: 'med-1',
+  name: 'Sertralina',
+  category: 'SSRI',
+  halfLife: 26,
+  volumeOfDistribution: 2,
+  bioavailability: 0.44,
+  absorptionRate: 0.7,
+  createdAt: T0,
+  updatedAt: T0
+};
+
+const doses: MedicationDose[] = Array.from({ length: 14 }, (_, day) => ({
+  id: `d${day}`,
+  medicationId: medication.id,
+  timestamp: T0 + day * 24 * HOUR,
+  doseAmount: 100,
+  createdAt: T0
+}));
+
+/** Trough levels of a person who clears the drug twice as slowly as the population */
+function troughLevels(days: number[]): LabLevel[] {
+  const slow = { ...medication, halfLife: 52 };
+  return days.map((day) => {
+    const timestamp = T0 + day * 24 * HOUR - HOUR;
+    return {
+      id: `lvl-${day}`,
+      medicationId: medication.id,
+      timestamp,
+      concentration: calculateConcentration(slow, doses, timestamp, 70),
+      unit: 'ng/mL',
+      createdAt: timestamp
+    };
+  });
+}
+
+describe('fitPersonalPK', () => {
+  it('moves the half-life towards the one behind the measured levels', () => {
+    const fit = fitPersonalPK(medication, doses, troughLevels([7, 10, 13]))!;
+    assert.ok(fit, 'expected a fit');
+    assert.strictEqual(fit.levelCount, 3);
+    assert.ok(fit.halfLife > 35 && fit.halfLife < 60, `halfLife ${fit.halfLife}`);
+    for (const residual of fit.residuals) {
+      const before = Math.abs(residual.populationPrediction - residual.observed);
+      const after = Math.abs(residual.individualPrediction - residual.observed);
+      assert.ok(after < before, 'fitted predictions should be closer than the population ones');
+    }
+  });
+
+  it('needs at least one level taken after a logged dose', () => {
+    const early: LabLevel = { ...troughLevels([7])[0], timestamp: T0 - HOUR };
+    assert.strictEqual(fitPersonalPK(medication, doses, [early]), null);
+    assert.strictEqual(fitPersonalPK(medication, [], troughLevels([7])), null);
+  });
+
+  it('converts units and round-trips apply/revert through population values', () => {
+    assert.strictEqual(levelInNgPerMl({ concentration: 0.25, unit: 'mg/L' }), 250);
+
+    const fit = fitPersonalPK(medication, doses, troughLevels([7, 13]))!;
+    const applied = { ...medication, ...applyPKFit(fit, T0) };
+    assert.strictEqual(applied.pkFit?.populationHalfLife, 26);
+
+    const refit = fitPersonalPK(applied, doses, troughLevels([7, 13]))!;
+    assert.strictEqual(refit.populationHalfLife, 26, 'refitting keeps the population prior');
+
+    const reverted = { ...applied, ...revertPKFit(applied) };
+    assert.strictEqual(reverted.halfLife, 26);
+    assert.strictEqual(reverted.volumeOfDistribution, 2);
+    assert.strictEqual(reverted.pkFit, null);
+  });
+});
@@ -0,0 +1,253 @@
+import type { LabLevel, LabLevelUnit, Medication, MedicationDose, PersonalPKFit } from '@/shared/types';
+import { calculateConcentration } from './pharmacokinetics';
+import { getParameterDistributions } from './pk-variability';
+import type { PatientInput } from './patient-physiology';
+
+/**
+ * Individual PK parameters from measured blood levels (therapeutic drug
+ * monitoring).
+ *
+ * Maximum a posteriori (MAP) Bayesian estimation, as used by TDM software:
+ * the population half-life and Vd are the prior (log-normal, with typical
+ * between-subject variability), and each measured level pulls the estimate
+ * towards the person's own kinetics. With one or two levels the result stays
+ * close to the population values; more levels let the data dominate.
+ *
+ * Only halfLife and volumeOfDistribution are individualised. F and Ka are
+ * poorly identifiable from sparse trough levels and keep their population
+ * values.
+ */
+
+/** Conversion of each accepted unit to ng/mL, the unit of calculateConcentration() */
+export const LAB_LEVEL_UNIT_FACTORS: Record<LabLevelUnit, number> = {
+  'ng/mL': 1,
+  'µg/L': 1,
+  'µg/mL': 1000,
+  'mg/L': 1000
+};
+
+export function levelInNgPerMl(level: Pick<LabLevel, 'concentration' | 'unit'>): number {
+  return level.concentration * (LAB_LEVEL_UNIT_FACTORS[level.unit] ?? 1);
+}
+
+export interface PKFitOptions {
+  patient?: PatientInput; // Body weight in kg or the patient profile
+  halfLifeCV?: number; // Between-subject variability of the prior; defaults to the medication's (pk-variability.ts)
+  volumeCV?: number;
+  residualCV?: number; // Assay + model error of a single level
+}
+
+export interface LevelResidual {
+  levelId: string;
+  timestamp: number;
+  observed: number; // ng/mL
+  populationPrediction: number;
+  individualPrediction: number;
+}
+
+export interface PKFitResult {
+  halfLife: number;
+  volumeOfDistribution: number;
+  populationHalfLife: number;
+  populationVolumeOfDistribution: number;
+  /** Approximate 95% intervals from the curvature of the posterior */
+  halfLifeInterval: [number, number] | null;
+  volumeInterval: [number, number] | null;
+  levelCount: number;
+  residuals: LevelResidual[];
+}
+
+const DEFAULTS: { patient: PatientInput; residualCV: number } = {
+  patient: 70,
+  residualCV: 0.2
+};
+
+const MIN_PREDICTION = 1e-6;
+
+/** SD on the log scale of a log-normal with coefficient of variation `cv` */
+function logSd(cv: number): number {
+  return Math.sqrt(Math.log(1 + cv * cv));
+}
+
+/**
+ * Population values of a medication: the stored ones, or the ones kept in
+ * `pkFit` while a personal fit is applied
+ */
+export function populationParameters(medication: Medication): { halfLife: number; volumeOfDistribution: number } {
+  return medication.pkFit
+    ? {
+        halfLife: medication.pkFit.populationHalfLife,
+        volumeOfDistribution: medication.pkFit.populationVolumeOfDistribution
+      }
+    : { halfLife: medication.halfLife, volumeOfDistribution: medication.volumeOfDistribution };
+}
+
+/**
+ * MAP estimate of halfLife and volumeOfDistribution from `levels` and the
+ * dose history. Null when no level falls after a logged dose.
+ */
+export function fitPersonalPK(
+  medication: Medication,
+  doses: MedicationDose[],
+  levels: LabLevel[],
+  options: PKFitOptions = {}
+): PKFitResult | null {
+  const distributions = getParameterDistributions(medication);
+  const { patient, halfLifeCV, volumeCV, residualCV } = {
+    ...DEFAULTS,
+    halfLifeCV: distributions.halfLife.cv,
+    volumeCV: distributions.volumeOfDistribution.cv,
+    ...options
+  };
+  const population = populationParameters(medication);
+  if (!(population.halfLife > 0) || !(population.volumeOfDistribution > 0)) return null;
+
+  const medDoses = doses
+    .filter((dose) => dose.medicationId === medication.id)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const firstDose = medDoses[0]?.timestamp ?? Infinity;
+  const usable = levels
+    .filter((level) => level.medicationId === medication.id && level.timestamp > firstDose)
+    .map((level) => ({ level, observed: levelInNgPerMl(level) }))
+    .filter(({ observed }) => observed > 0);
+  if (usable.length === 0) return null;
+
+  // The fit estimates the patient's actual parameters, so renal/hepatic
+  // adjustment stays out of the predictions (and is skipped once applied)
+  const predict = (halfLife: number, volumeOfDistribution: number, timestamp: number) =>
+    calculateConcentration(
+      { ...medication, halfLife, volumeOfDistribution, elimination: undefined },
+      medDoses,
+      timestamp,
+      patient
+    );
+
+  const prior = [Math.log(population.halfLife), Math.log(population.volumeOfDistribution)];
+  const omega = [logSd(halfLifeCV), logSd(volumeCV)];
+  const sigma = logSd(residualCV);
+
+  // -2 log posterior (up to a constant) in log-parameter space
+  const objective = ([logHalfLife, logVolume]: number[]) => {
+    const halfLife = Math.exp(logHalfLife);
+    const volume = Math.exp(logVolume);
+    let total = ((logHalfLife - prior[0]) / omega[0]) ** 2 + ((logVolume - prior[1]) / omega[1]) ** 2;
+    for (const { level, observed } of usable) {
+      const predicted = Math.max(predict(halfLife, volume, level.timestamp), MIN_PREDICTION);
+      total += ((Math.log(observed) - Math.log(predicted)) / sigma) ** 2;
+    }
+    return total;
+  };
+
+  const estimate = nelderMead(objective, prior, [omega[0], omega[1]]);
+  const [halfLife, volumeOfDistribution] = estimate.map(Math.exp);
+  const standardErrors = logStandardErrors(objective, estimate);
+
+  const interval = (index: number): [number, number] | null =>
+    standardErrors
+      ? [Math.exp(estimate[index] - 1.96 * standardErrors[index]), Math.exp(estimate[index] + 1.96 * standardErrors[index])]
+      : null;
+
+  return {
+    halfLife,
+    volumeOfDistribution,
+    populationHalfLife: population.halfLife,
+    populationVolumeOfDistribution: population.volumeOfDistribution,
+    halfLifeInterval: interval(0),
+    volumeInterval: interval(1),
+    levelCount: usable.length,
+    residuals: usable.map(({ level, observed }) => ({
+      levelId: level.id,
+      timestamp: level.timestamp,
+      observed,
+      populationPrediction: predict(population.halfLife, population.volumeOfDistribution, level.timestamp),
+      individualPrediction: predict(halfLife, volumeOfDistribution, level.timestamp)
+    }))
+  };
+}
+
+/**
+ * Medication updates that make the PK model use `fit`, keeping the
+ * population values so revertPKFit() can restore them
+ */
+export function applyPKFit(fit: PKFitResult, now = Date.now()): Pick<Medication, 'halfLife' | 'volumeOfDistribution' | 'pkFit'> {
+  const pkFit: PersonalPKFit = {
+    halfLife: fit.halfLife,
+    volumeOfDistribution: fit.volumeOfDistribution,
+    populationHalfLife: fit.populationHalfLife,
+    populationVolumeOfDistribution: fit.populationVolumeOfDistribution,
+    levelCount: fit.levelCount,
+    fittedAt: now
+  };
+  return { halfLife: fit.halfLife, volumeOfDistribution: fit.volumeOfDistribution, pkFit };
+}
+
+/**
+ * Medication updates that go back to the population values
+ */
+export function revertPKFit(medication: Medication): Pick<Medication, 'halfLife' | 'volumeOfDistribution' | 'pkFit'> {
+  return { ...populationParameters(medication), pkFit: null };
+}
+
+/**
+ * Downhill simplex minimisation; enough for the two smooth parameters here
+ */
+function nelderMead(f: (x: number[]) => number, start: number[], step: number[], maxIterations = 300, tolerance = 1e-8): number[] {
+  const n = start.length;
+  let simplex = [start, ...step.map((size, i) => start.map((value, j) => (i === j ? value + size : value)))].map(
+    (point) => ({ point, value: f(point) })
+  );
+
+  const combine = (a: number[], b: number[], t: number) => a.map((value, i) => value + t * (b[i] - value));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[n];
+    if (Math.abs(worst.value - best.value) < tolerance) break;
+
+    const centroid = start.map((_, i) => simplex.slice(0, n).reduce((sum, vertex) => sum + vertex.point[i], 0) / n);
+    const reflected = combine(centroid, worst.point, -1);
+    const reflectedValue = f(reflected);
+
+    if (reflectedValue < best.value) {
+      const expanded = combine(centroid, worst.point, -2);
+      const expandedValue = f(expanded);
+      simplex[n] = expandedValue < reflectedValue
+        ? { point: expanded, value: expandedValue }
+        : { point: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { point: reflected, value: reflectedValue };
+    } else {
+      const contracted = combine(centroid, worst.point, 0.5);
+      const contractedValue = f(contracted);
+      if (contractedValue < worst.value) {
+        simplex[n] = { point: contracted, value: contractedValue };
+      } else {
+        simplex = simplex.map((vertex, i) => {
+          if (i === 0) return vertex;
+          const point = combine(best.point, vertex.point, 0.5);
+          return { point, value: f(point) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return simplex[0].point;
+}
+
+/**
+ * Standard errors of the log parameters from a finite-difference Hessian of
+ * the -2 log posterior (covariance = 2 H⁻¹). Null when the surface is flat or
+ * not convex at the estimate.
+ */
+function logStandardErrors(f: (x: number[]) => number, x: number[], h = 1e-3): number[] | null {
+  const at = (dx: number, dy: number) => f([x[0] + dx, x[1] + dy]);
+  const center = at(0, 0);
+  const hxx = (at(h, 0) - 2 * center + at(-h, 0)) / (h * h);
+  const hyy = (at(0, h) - 2 * center + at(0, -h)) / (h * h);
+  const hxy = (at(h, h) - at(h, -h) - at(-h, h) + at(-h, -h)) / (4 * h * h);
+  const determinant = hxx * hyy - hxy * hxy;
+  if (!(determinant > 0) || !(hxx > 0)) return null;
+  return [Math.sqrt((2 * hyy) / determinant), Math.sqrt((2 * hxx) / determinant)];
+}
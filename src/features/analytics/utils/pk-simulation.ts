@@ -0,0 +1,197 @@
+import type { MedicationDose } from '@/shared/types';
+import type { ReleaseProfile } from './pharmacokinetics';
+
+/**
+ * Event-driven simulation of the PK model.
+ *
+ * calculateConcentration() sums the closed-form response of every dose at
+ * every time, which is simple but assumes fixed parameters and costs
+ * O(doses) per point. Here the drug amount in the gut and in each
+ * disposition term is carried forward in closed form from event to event
+ * (dose release, grid point), which costs O(doses + points) for a whole curve
+ * and lets clearance change between steps. Used for Monte Carlo draws
+ * (pk-variability.ts) and for interaction-driven clearance changes
+ * (drug-interactions.ts).
+ *
+ * The structure (one or two compartments, the two-compartment split and the
+ * release profile) is the same as calculateConcentration(), so with constant
+ * clearance both give the same curve. The optional effect site follows that
+ * plasma curve with dCe/dt = ke0 × (Cp − Ce), like
+ * calculateEffectConcentration() does for one-compartment drugs.
+ */
+
+const MG_PER_L_TO_NG_PER_ML = 1000;
+const MS_PER_HOUR = 1000 * 3600;
+
+export interface SimulationParameters {
+  halfLife: number;
+  volumeOfDistribution: number;
+  bioavailability: number;
+  absorptionRate: number;
+  effectRate?: number; // ke0 (1/h); the effect site is only tracked when set
+}
+
+/** Drug reaching the gut: boluses and changes of the zero-order release rate (mg/h) */
+export interface InputEvent {
+  time: number;
+  bolus: number;
+  rateChange: number;
+}
+
+export function buildInputEvents(doses: MedicationDose[], release: ReleaseProfile): InputEvent[] {
+  const lag = release.lagTime * MS_PER_HOUR;
+  const events: InputEvent[] = [];
+  for (const dose of doses) {
+    const start = dose.timestamp + lag;
+    const released = dose.doseAmount * (1 - release.immediateFraction);
+    events.push({ time: start, bolus: dose.doseAmount * release.immediateFraction, rateChange: 0 });
+    if (released > 0) {
+      const rate = released / release.releaseDuration;
+      events.push({ time: start, bolus: 0, rateChange: rate });
+      events.push({ time: start + release.releaseDuration * MS_PER_HOUR, bolus: 0, rateChange: -rate });
+    }
+  }
+  return events.sort((a, b) => a.time - b.time);
+}
+
+/** Body weight in kg, fixed or as a function of time (see getBodyWeightAt) */
+export type BodyWeightInput = number | ((time: number) => number);
+
+export interface Simulator {
+  /** Move the clock forward to `time`, releasing every input event on the way */
+  advanceTo(time: number): void;
+  /** Plasma concentration (ng/mL) at the current clock */
+  concentration(): number;
+  /** Effect-site concentration (ng/mL) at the current clock; 0 without an effectRate */
+  effectConcentration(): number;
+  /** Scale clearance (Ke) from the current clock on; 1 = unchanged */
+  setClearanceFactor(factor: number): void;
+}
+
+export function createSimulator(
+  parameters: SimulationParameters,
+  useTwoCompartment: boolean,
+  events: InputEvent[],
+  bodyWeight: BodyWeightInput,
+  startTime: number
+): Simulator {
+  const { halfLife, volumeOfDistribution, bioavailability: F } = parameters;
+  const baseKe = Math.LN2 / halfLife;
+  let Ka = parameters.absorptionRate;
+  if (Math.abs(Ka - baseKe) < 1e-6) Ka = baseKe + 1e-3;
+  const weightAt = typeof bodyWeight === 'number' ? () => bodyWeight : bodyWeight;
+
+  // Same split as calculateConcentration(); divided by Vd when read
+  let weights: number[];
+  if (useTwoCompartment) {
+    const peripheralFraction = Math.min(volumeOfDistribution / 20, 0.7);
+    weights = [F * (1 - peripheralFraction), F * peripheralFraction];
+  } else {
+    weights = [F];
+  }
+
+  let rates: number[] = [];
+  const setClearanceFactor = (factor: number) => {
+    const Ke = baseKe * factor;
+    rates = (useTwoCompartment ? [Math.min(Ka, 3 * Ke), Ke] : [Ke]).map((k) =>
+      Math.abs(Ka - k) < 1e-6 ? k + 1e-3 : k
+    );
+  };
+  setClearanceFactor(1);
+
+  const ke0 = parameters.effectRate ?? 0;
+  // Response of the effect site to a term coefficient × e^(−rate × t) over dt
+  const chase = (coefficient: number, rate: number, dt: number) =>
+    Math.abs(ke0 - rate) < 1e-6
+      ? coefficient * ke0 * dt * Math.exp(-ke0 * dt)
+      : ((coefficient * ke0) / (ke0 - rate)) * (Math.exp(-rate * dt) - Math.exp(-ke0 * dt));
+
+  let gut = 0;
+  let inputRate = 0;
+  const amounts = weights.map(() => 0);
+  // Effect-site counterpart of each amount, in the same units
+  const effects = weights.map(() => 0);
+  let clock = Math.min(events[0]?.time ?? startTime, startTime);
+  let next = 0;
+
+  const step = (to: number) => {
+    const dt = (to - clock) / MS_PER_HOUR;
+    clock = to;
+    if (
+      dt <= 0 ||
+      (gut === 0 && inputRate === 0 && amounts.every((amount) => amount === 0) && effects.every((effect) => effect === 0))
+    ) {
+      return;
+    }
+    const gutDecay = Math.exp(-Ka * dt);
+    for (let j = 0; j < rates.length; j++) {
+      const k = rates[j];
+      const decay = Math.exp(-k * dt);
+      if (ke0 > 0) {
+        // The amount over the step is steady + c1·e^(−k·t) + c2·e^(−Ka·t)
+        const steady = inputRate / k;
+        const c2 = (Ka * (gut - inputRate / Ka)) / (k - Ka);
+        const c1 = amounts[j] - steady - c2;
+        effects[j] =
+          effects[j] * Math.exp(-ke0 * dt) + chase(steady, 0, dt) + chase(c1, k, dt) + chase(c2, Ka, dt);
+      }
+      // Bolus already in the gut, plus release at inputRate during the step
+      const fromInput = (Ka / (Ka - k)) * ((1 - decay) / k - (1 - gutDecay) / Ka);
+      amounts[j] = amounts[j] * decay + (gut * Ka * (decay - gutDecay)) / (Ka - k) + inputRate * fromInput;
+    }
+    gut = gut * gutDecay + (inputRate * (1 - gutDecay)) / Ka;
+  };
+
+  return {
+    advanceTo(time: number) {
+      while (next < events.length && events[next].time <= time) {
+        step(events[next].time);
+        gut += events[next].bolus;
+        inputRate += events[next].rateChange;
+        if (Math.abs(inputRate) < 1e-12) inputRate = 0;
+        next++;
+      }
+      step(time);
+    },
+    concentration() {
+      let total = 0;
+      for (let j = 0; j < weights.length; j++) {
+        total += weights[j] * Math.max(0, amounts[j]);
+      }
+      return (total / (volumeOfDistribution * weightAt(clock))) * MG_PER_L_TO_NG_PER_ML;
+    },
+    effectConcentration() {
+      let total = 0;
+      for (let j = 0; j < weights.length; j++) {
+        total += weights[j] * Math.max(0, effects[j]);
+      }
+      return (total / (volumeOfDistribution * weightAt(clock))) * MG_PER_L_TO_NG_PER_ML;
+    },
+    setClearanceFactor
+  };
+}
+
+/**
+ * Concentrations (ng/mL) at ascending `times`. `clearanceFactors[i]` applies
+ * while moving to `times[i]` (for i = 0, over the history before the first
+ * time as well).
+ */
+export function simulateConcentrations(
+  parameters: SimulationParameters,
+  useTwoCompartment: boolean,
+  events: InputEvent[],
+  times: ArrayLike<number>,
+  bodyWeight: BodyWeightInput,
+  clearanceFactors?: ArrayLike<number>
+): Float64Array {
+  const out = new Float64Array(times.length);
+  if (times.length === 0) return out;
+
+  const simulator = createSimulator(parameters, useTwoCompartment, events, bodyWeight, times[0]);
+  for (let i = 0; i < times.length; i++) {
+    if (clearanceFactors) simulator.setClearanceFactor(clearanceFactors[i]);
+    simulator.advanceTo(times[i]);
+    out[i] = simulator.concentration();
+  }
+  return out;
+}
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { Medication, MedicationDose } from '@/shared/types';
+import { calculateConcentration } from './pharmacokinetics';
+import { generatePercentileCurves, getParameterDistributions } from './pk-variability';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const T0 = Date.parse('2025-05-01T08:00:00Z');
+
+const sertraline: Medication = {
+  id: 'med-1',
+  name: 'Sertralina',
+  category: 'SSRI',
+  halfLife: 26,
+  volumeOfDistribution: 2,
+  bioavailability: 0.44,
+  absorptionRate: 0.7,
+  createdAt: T0,
+  updatedAt: T0
+};
+
+function dailyDoses(medication: Medication, days: number, amount: number): MedicationDose[] {
+  return Array.from({ length: days }, (_, day) => ({
+    id: `${medication.id}-d${day}`,
+    medicationId: medication.id,
+    timestamp: T0 + day * DAY,
+    doseAmount: amount,
+    createdAt: T0
+  }));
+}
+
+const noVariability = { halfLifeCV: 0, volumeOfDistributionCV: 0, bioavailabilityCV: 0, absorptionRateCV: 0 };
+
+describe('generatePercentileCurves', () => {
+  it('collapses to calculateConcentration() when every CV is zero, for every release profile', () => {
+    const escitalopram: Medication = {
+      ...sertraline,
+      id: 'med-2',
+      name: 'Escitalopram',
+      halfLife: 30,
+      volumeOfDistribution: 20, // two-compartment branch
+      bioavailability: 0.8,
+      absorptionRate: 1
+    };
+
+    const venlafaxineXR: Medication = {
+      ...sertraline,
+      id: 'med-3',
+      name: 'Venlafaxine XR',
+      halfLife: 11,
+      volumeOfDistribution: 7.5,
+      bioavailability: 0.45,
+      absorptionRate: 0.9,
+      formulation: { kind: 'XR', lagTime: 0.5, releaseDuration: 10 }
+    };
+    const oros: Medication = {
+      ...escitalopram,
+      id: 'med-4',
+      formulation: { kind: 'OROS', releaseDuration: 7, immediateFraction: 0.22 }
+    };
+
+    for (const medication of [sertraline, escitalopram, venlafaxineXR, oros]) {
+      const fixed = { ...medication, pkVariability: noVariability };
+      const doses = dailyDoses(fixed, 10, 20);
+      const curve = generatePercentileCurves(fixed, doses, T0, T0 + 12 * DAY, 96, 70, { samples: 5 });
+
+      for (const point of curve) {
+        const expected = calculateConcentration(fixed, doses, point.time, 70);
+        assert.ok(Math.abs(point.p5 - expected) <= 1e-6 * Math.max(1, expected), `${medication.name} p5 at ${point.time}`);
+        assert.ok(Math.abs(point.p95 - expected) <= 1e-6 * Math.max(1, expected), `${medication.name} p95 at ${point.time}`);
+      }
+    }
+  });
+
+  it('brackets the typical curve with an ordered band', () => {
+    const doses = dailyDoses(sertraline, 14, 100);
+    const curve = generatePercentileCurves(sertraline, doses, T0, T0 + 14 * DAY, 56, 70);
+    const trough = curve.find((point) => point.time === T0 + 13 * DAY)!;
+    const typical = calculateConcentration(sertraline, doses, trough.time, 70);
+
+    for (const point of curve.slice(1)) {
+      assert.ok(point.p5 <= point.p50 && point.p50 <= point.p95);
+    }
+    assert.ok(trough.p5 < typical * 0.8 && trough.p95 > typical * 1.2, 'band should be wide');
+    assert.ok(Math.abs(trough.p50 - typical) / typical < 0.2, 'median should stay near the typical curve');
+  });
+
+  it('uses preset CVs when the medication has none', () => {
+    const lamotrigine = { ...sertraline, name: 'Lamotrigine' };
+    assert.strictEqual(getParameterDistributions(lamotrigine).volumeOfDistribution.cv, 0.15);
+    assert.strictEqual(
+      getParameterDistributions({ ...lamotrigine, pkVariability: { volumeOfDistributionCV: 0.5 } }).volumeOfDistribution.cv,
+      0.5
+    );
+  });
+
+  it('handles a 90-day window at chart resolution quickly', () => {
+    const doses = dailyDoses(sertraline, 90, 100);
+    const started = performance.now();
+    const curve = generatePercentileCurves(sertraline, doses, T0, T0 + 90 * DAY, 90 * 48, 70);
+    const elapsed = performance.now() - started;
+
+    assert.strictEqual(curve.length, 90 * 48 + 1);
+    assert.ok(elapsed < 2000, `took ${elapsed.toFixed(0)} ms`);
+  });
+
+  it('leaves out doses that washed out long before the window', () => {
+    const history = dailyDoses(sertraline, 3 * 365, 100);
+    const start = T0 + (3 * 365 - 7) * DAY;
+    const end = T0 + 3 * 365 * DAY;
+    const recent = history.filter((dose) => dose.timestamp >= start - 60 * DAY);
+
+    const curve = generatePercentileCurves(sertraline, history, start, end, 7 * 48, 70);
+    const reference = generatePercentileCurves(sertraline, recent, start, end, 7 * 48, 70);
+
+    for (let i = 0; i < curve.length; i++) {
+      assert.ok(Math.abs(curve[i].p95 - reference[i].p95) <= reference[i].p95 * 0.01);
+      assert.ok(Math.abs(curve[i].p5 - reference[i].p5) <= reference[i].p5 * 0.01);
+    }
+  });
+});
@@ -0,0 +1,191 @@
+import type { Medication, MedicationDose, PKVariability } from '@/shared/types';
+import { getMedicationPresets } from '@/shared/constants/medication-presets';
+import { getKaForMedication, getReleaseProfile } from './pharmacokinetics';
+import { getBodyWeightAt, getClearanceFactor, type PatientInput } from './patient-physiology';
+import { buildInputEvents, simulateConcentrations, type SimulationParameters } from './pk-simulation';
+
+/**
+ * Population variability of predicted concentrations.
+ *
+ * The stored halfLife, Vd, F and Ka are typical values; real people spread
+ * around them (the preset comments quote ranges such as "10-12h" or
+ * "12-26 L/kg"). Each parameter is treated as log-normal with the stored
+ * value as its median and a per-medication coefficient of variation. Monte
+ * Carlo draws of the four parameters give a family of curves whose 5th, 50th
+ * and 95th percentiles are drawn as a band around the deterministic curve.
+ *
+ * Each draw runs through the event-driven simulator (pk-simulation.ts)
+ * instead of summing every dose at every point, and only doses from the last
+ * few (slow) half-lives before the window are simulated, so a 90-day window
+ * with a few hundred draws stays interactive however long the history is.
+ */
+
+/** Typical between-subject CVs when neither the medication nor a preset has them */
+export const DEFAULT_PK_VARIABILITY: Required<PKVariability> = {
+  halfLifeCV: 0.35,
+  volumeOfDistributionCV: 0.3,
+  bioavailabilityCV: 0.1,
+  absorptionRateCV: 0.4
+};
+
+export interface ParameterDistribution {
+  median: number;
+  cv: number;
+}
+
+export interface PKParameterDistributions {
+  halfLife: ParameterDistribution;
+  volumeOfDistribution: ParameterDistribution;
+  bioavailability: ParameterDistribution;
+  absorptionRate: ParameterDistribution;
+}
+
+export interface MonteCarloOptions {
+  samples?: number;
+  seed?: number; // Fixed by default so the band does not flicker between renders
+  /** Clearance multiplier at each grid time, e.g. from drug interactions (see simulateConcentrations) */
+  clearanceFactors?: ArrayLike<number>;
+}
+
+export interface PercentilePoint {
+  time: number;
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+const DEFAULT_SAMPLES = 200;
+const DEFAULT_SEED = 0x5eed;
+
+/** Half-lives before the window after which a dose adds under 1% */
+const HISTORY_HALF_LIVES = 7;
+/** Normal quantile of the slowest half-life draw the history must cover (99th percentile) */
+const HISTORY_HALF_LIFE_Z = 2.33;
+
+function findPresetVariability(medication: Medication): PKVariability | undefined {
+  const names = [medication.name, medication.brandName, medication.genericName]
+    .filter((name): name is string => !!name)
+    .map((name) => name.trim().toLowerCase());
+  const preset = getMedicationPresets().find(
+    (item) => names.includes(item.name.toLowerCase()) || (!!item.brandName && names.includes(item.brandName.toLowerCase()))
+  );
+  return preset?.pkVariability;
+}
+
+/**
+ * Parameter distributions of a medication: its own CVs, else the matching
+ * preset's, else DEFAULT_PK_VARIABILITY
+ */
+export function getParameterDistributions(medication: Medication): PKParameterDistributions {
+  const variability = {
+    ...DEFAULT_PK_VARIABILITY,
+    ...findPresetVariability(medication),
+    ...medication.pkVariability
+  };
+  const Ke = Math.LN2 / medication.halfLife;
+
+  return {
+    halfLife: { median: medication.halfLife, cv: variability.halfLifeCV },
+    volumeOfDistribution: { median: medication.volumeOfDistribution, cv: variability.volumeOfDistributionCV },
+    bioavailability: { median: medication.bioavailability, cv: variability.bioavailabilityCV },
+    absorptionRate: { median: getKaForMedication(medication, Ke), cv: variability.absorptionRateCV }
+  };
+}
+
+/** mulberry32: small, fast and good enough for sampling */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createNormal(random: () => number): () => number {
+  return () => {
+    const u = 1 - random(); // (0, 1]
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+}
+
+function sampleLogNormal(distribution: ParameterDistribution, z: number): number {
+  const sd = Math.sqrt(Math.log(1 + distribution.cv * distribution.cv));
+  return distribution.median * Math.exp(sd * z);
+}
+
+function percentile(sorted: Float64Array, q: number): number {
+  const position = q * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * 5th/50th/95th percentile concentration curves over `points + 1` evenly
+ * spaced times (the same grid as generateConcentrationCurve())
+ */
+export function generatePercentileCurves(
+  medication: Medication,
+  doses: MedicationDose[],
+  startTime: number,
+  endTime: number,
+  points: number = 100,
+  patient: PatientInput = 70,
+  options: MonteCarloOptions = {}
+): PercentilePoint[] {
+  const { samples = DEFAULT_SAMPLES, seed = DEFAULT_SEED, clearanceFactors } = options;
+  const { halfLife, volumeOfDistribution, bioavailability } = medication;
+
+  const interval = (endTime - startTime) / points;
+  const times = Array.from({ length: points + 1 }, (_, i) => startTime + i * interval);
+  const empty = () => times.map((time) => ({ time, p5: 0, p50: 0, p95: 0 }));
+
+  if (!Number.isFinite(halfLife) || halfLife <= 0) return empty();
+  if (!Number.isFinite(volumeOfDistribution) || volumeOfDistribution <= 0) return empty();
+  if (!Number.isFinite(bioavailability) || bioavailability <= 0) return empty();
+
+  // Renal/hepatic adjustment on top of any interaction-driven factors
+  const factors =
+    typeof patient === 'number'
+      ? clearanceFactors
+      : times.map((time, i) => getClearanceFactor(medication, patient, time) * (clearanceFactors?.[i] ?? 1));
+  const distributions = getParameterDistributions(medication);
+
+  // Like the deterministic chart's relevantDoses, but long enough for a slow
+  // eliminator: a 99th-percentile half-life, stretched by the lowest clearance
+  const lowestFactor = factors ? Math.max(0.1, Math.min(1, ...Array.from(factors))) : 1;
+  const slowHalfLife = sampleLogNormal(distributions.halfLife, HISTORY_HALF_LIFE_Z) / lowestFactor;
+  const historyStart = startTime - HISTORY_HALF_LIVES * slowHalfLife * 3600 * 1000;
+  const medDoses = doses.filter(
+    (dose) => dose.medicationId === medication.id && dose.timestamp >= historyStart && dose.timestamp <= endTime
+  );
+  if (medDoses.length === 0) return empty();
+  const events = buildInputEvents(medDoses, getReleaseProfile(medication));
+  const bodyWeight = (time: number) => getBodyWeightAt(patient, time);
+  // The model structure follows the typical Vd, so draws near the threshold
+  // do not mix two model shapes into the band
+  const useTwoCompartment = volumeOfDistribution > 10;
+  const normal = createNormal(createRandom(seed));
+
+  // Row per time point, one column per draw, so each row sorts in place
+  const values = new Float64Array(times.length * samples);
+  for (let s = 0; s < samples; s++) {
+    const parameters: SimulationParameters = {
+      halfLife: sampleLogNormal(distributions.halfLife, normal()),
+      volumeOfDistribution: sampleLogNormal(distributions.volumeOfDistribution, normal()),
+      bioavailability: Math.min(1, sampleLogNormal(distributions.bioavailability, normal())),
+      absorptionRate: sampleLogNormal(distributions.absorptionRate, normal())
+    };
+    const curve = simulateConcentrations(parameters, useTwoCompartment, events, times, bodyWeight, factors);
+    for (let i = 0; i < curve.length; i++) values[i * samples + s] = curve[i];
+  }
+
+  return times.map((time, i) => {
+    const row = values.subarray(i * samples, (i + 1) * samples).sort();
+    return { time, p5: percentile(row, 0.05), p50: percentile(row, 0.5), p95: percentile(row, 0.95) };
+  });
+}
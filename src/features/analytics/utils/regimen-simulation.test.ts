@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { Medication, MedicationDose } from '@/shared/types';
+import { expandRegimen, inferCurrentRegimen, projectRegimen } from './regimen-simulation';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+// Local midnight of a Monday, so clock times do not depend on the test's time zone
+const MONDAY = new Date(2025, 4, 5).getTime();
+
+const escitalopram: Medication = {
+  id: 'med-esc',
+  name: 'Escitalopram',
+  category: 'SSRI',
+  halfLife: 30,
+  volumeOfDistribution: 20,
+  bioavailability: 0.8,
+  absorptionRate: 1,
+  therapeuticRange: { min: 15, max: 80, unit: 'ng/mL' },
+  createdAt: MONDAY,
+  updatedAt: MONDAY
+};
+
+function logged(days: number, times: Array<[number, number]>): MedicationDose[] {
+  const doses: MedicationDose[] = [];
+  for (let day = 0; day < days; day++) {
+    for (const [hour, amount] of times) {
+      const timestamp = MONDAY + day * DAY + hour * HOUR;
+      doses.push({ id: `d${day}-${hour}`, medicationId: escitalopram.id, timestamp, doseAmount: amount, createdAt: timestamp });
+    }
+  }
+  return doses;
+}
+
+describe('regimen simulation', () => {
+  it('expands daily times on the selected weekdays only', () => {
+    const doses = expandRegimen(escitalopram.id, { doses: [{ time: '08:00', amount: 10 }], days: ['mon', 'wed'] }, MONDAY, MONDAY + 7 * DAY);
+    assert.deepStrictEqual(
+      doses.map((dose) => dose.timestamp),
+      [MONDAY + 8 * HOUR, MONDAY + 2 * DAY + 8 * HOUR]
+    );
+  });
+
+  it('infers the current regimen from regular logged doses', () => {
+    const doses = logged(10, [[8, 10], [20, 10]]);
+    doses.push({ ...doses[0], id: 'extra', timestamp: MONDAY + 3 * DAY + 14 * HOUR, doseAmount: 5 });
+    assert.deepStrictEqual(inferCurrentRegimen(escitalopram.id, doses, MONDAY + 10 * DAY), [
+      { time: '08:00', amount: 10 },
+      { time: '20:00', amount: 10 }
+    ]);
+  });
+
+  it('projects a dose change from the regimen start on', () => {
+    const history = logged(21, [[8, 20]]);
+    const start = MONDAY + 21 * DAY;
+    const window = { from: start - 2 * DAY, start, until: start + 21 * DAY, points: 200 };
+
+    const same = projectRegimen(escitalopram, history, { doses: [{ time: '08:00', amount: 20 }] }, window);
+    const halved = projectRegimen(escitalopram, history, { doses: [{ time: '08:00', amount: 5 }, { time: '20:00', amount: 5 }] }, window);
+
+    assert.ok(Math.abs(halved.steadyState!.Css_avg / same.steadyState!.Css_avg - 0.5) < 0.01);
+    assert.ok(halved.steadyState!.fluctuation < same.steadyState!.fluctuation);
+    // Identical before the switch, half the level over the last day
+    assert.strictEqual(halved.curve[0].plasma, same.curve[0].plasma);
+    const lastDayMean = (projection: typeof same) => {
+      const points = projection.curve.filter((point) => point.time >= window.until - DAY);
+      return points.reduce((sum, point) => sum + point.plasma, 0) / points.length;
+    };
+    assert.ok(Math.abs(lastDayMean(halved) / lastDayMean(same) - 0.5) < 0.05);
+    assert.ok(same.timeInRange! > halved.timeInRange!);
+  });
+});
@@ -0,0 +1,162 @@
+import type { Medication, MedicationDose, RegimenDose, RegimenDraft, Weekday } from '@/shared/types';
+import {
+  calculateSteadyStateMetrics,
+  generateDualConcentrationCurves,
+  getTherapeuticRangeNgPerMl,
+  type SteadyStateMetrics
+} from './pharmacokinetics';
+import type { PatientInput } from './patient-physiology';
+
+/**
+ * What-if regimens.
+ *
+ * A regimen is a set of daily dose times (optionally on some weekdays only).
+ * Projecting it keeps the logged doses before its start and replaces
+ * everything after with the regimen's doses, so switching regimens shows the
+ * transition from the real history and not only the new steady state.
+ */
+
+const MS_PER_HOUR = 1000 * 3600;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/** Weekdays in Date#getDay() order */
+const WEEKDAY_BY_INDEX: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** Slot width when grouping logged doses into a regimen */
+const SLOT_MINUTES = 30;
+const STEADY_STATE_SAMPLE_DAYS = 7;
+
+export type RegimenInput = Pick<RegimenDraft, 'doses' | 'days'>;
+
+export interface RegimenProjection {
+  curve: Array<{ time: number; plasma: number; effect: number }>;
+  steadyState: SteadyStateMetrics | null;
+  /** Share (0-1) of projected points from the regimen start inside the therapeutic range */
+  timeInRange: number | null;
+  dailyAmount: number; // mg per dosing day
+}
+
+export interface ProjectionWindow {
+  from: number; // First plotted time; logged doses before it still count
+  start: number; // Regimen start; logged doses from here on are replaced
+  until: number;
+  points?: number;
+  patient?: PatientInput;
+}
+
+function parseTimeOfDay(time: string): [number, number] {
+  const [hours, minutes] = time.split(':').map(Number);
+  return [hours, minutes];
+}
+
+/**
+ * Hypothetical doses of `regimen` in [from, until), at local clock times
+ */
+export function expandRegimen(
+  medicationId: string,
+  regimen: RegimenInput,
+  from: number,
+  until: number
+): MedicationDose[] {
+  const doses: MedicationDose[] = [];
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+
+  while (day.getTime() < until) {
+    if (!regimen.days || regimen.days.includes(WEEKDAY_BY_INDEX[day.getDay()])) {
+      for (const dose of regimen.doses) {
+        const [hours, minutes] = parseTimeOfDay(dose.time);
+        const timestamp = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes).getTime();
+        if (timestamp >= from && timestamp < until) {
+          doses.push({
+            id: `what-if-${timestamp}-${dose.time}`,
+            medicationId,
+            timestamp,
+            doseAmount: dose.amount,
+            createdAt: timestamp
+          });
+        }
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+
+  return doses.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Regimen the logged doses of the last `lookbackDays` follow: the times of
+ * day (30-minute slots) used on at least half the dosing days, with the
+ * median amount of each. Null when there is no regular pattern.
+ */
+export function inferCurrentRegimen(
+  medicationId: string,
+  doses: MedicationDose[],
+  now: number = Date.now(),
+  lookbackDays: number = 14
+): RegimenDose[] | null {
+  const recent = doses.filter(
+    (dose) => dose.medicationId === medicationId && dose.timestamp <= now && dose.timestamp > now - lookbackDays * MS_PER_DAY
+  );
+  if (recent.length === 0) return null;
+
+  const dosingDays = new Set(recent.map((dose) => new Date(dose.timestamp).toDateString())).size;
+  const slots = new Map<number, number[]>();
+  for (const dose of recent) {
+    const date = new Date(dose.timestamp);
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    const slot = (Math.round(minutes / SLOT_MINUTES) * SLOT_MINUTES) % (24 * 60);
+    slots.set(slot, [...(slots.get(slot) ?? []), dose.doseAmount]);
+  }
+
+  const regimen: RegimenDose[] = [];
+  for (const [slot, amounts] of [...slots].sort((a, b) => a[0] - b[0])) {
+    if (amounts.length < dosingDays / 2) continue;
+    const sorted = [...amounts].sort((a, b) => a - b);
+    regimen.push({
+      time: `${String(Math.floor(slot / 60)).padStart(2, '0')}:${String(slot % 60).padStart(2, '0')}`,
+      amount: sorted[Math.floor(sorted.length / 2)]
+    });
+  }
+  return regimen.length > 0 ? regimen : null;
+}
+
+/**
+ * Plasma and effect curves, steady state and time in therapeutic range if
+ * `regimen` were followed from `window.start`
+ */
+export function projectRegimen(
+  medication: Medication,
+  loggedDoses: MedicationDose[],
+  regimen: RegimenInput,
+  window: ProjectionWindow
+): RegimenProjection {
+  const { from, start, until, points = 200, patient = 70 } = window;
+  const washout = from - 7 * medication.halfLife * MS_PER_HOUR;
+
+  const history = loggedDoses.filter(
+    (dose) => dose.medicationId === medication.id && dose.timestamp >= washout && dose.timestamp < start
+  );
+  const planned = expandRegimen(medication.id, regimen, start, until);
+  const curve = generateDualConcentrationCurves(medication, [...history, ...planned], from, until, points, patient);
+
+  const steadyState = calculateSteadyStateMetrics(
+    medication,
+    expandRegimen(medication.id, regimen, start, start + STEADY_STATE_SAMPLE_DAYS * MS_PER_DAY),
+    patient
+  );
+
+  const range = getTherapeuticRangeNgPerMl(medication);
+  const projected = curve.filter((point) => point.time >= start);
+  const timeInRange =
+    range && projected.length > 0
+      ? projected.filter((point) => point.plasma >= range.min && point.plasma <= range.max).length / projected.length
+      : null;
+
+  return {
+    curve,
+    steadyState,
+    timeInRange,
+    dailyAmount: regimen.doses.reduce((sum, dose) => sum + dose.amount, 0)
+  };
+}
@@ -3,6 +3,8 @@
  *
  * Password-protected entry screen
  * Glassmorphism design matching app aesthetic
+ * `setup` mode creates the first password (server login and data encryption);
+ * it asks for the one-time setup code the server prints to its console
  */
 
 import { useState, FormEvent } from 'react';
@@ -11,14 +13,19 @@ import { GlassCard, GlassCardHeader, GlassCardTitle, GlassCardDescription, Glass
 import { Button } from '@/shared/ui/button';
 import { Input } from '@/shared/ui/input';
 import { Eye, EyeOff, Lock } from 'lucide-react';
-import { login } from '../services/simple-auth';
+import { login, setupAccount } from '../services/simple-auth';
+import { InvalidSetupTokenError, LoginRateLimitError } from '@/core/services/auth-client';
 
 interface LockScreenProps {
   onSuccess: () => void;
+  mode?: 'login' | 'setup';
 }
 
-export function LockScreen({ onSuccess }: LockScreenProps) {
+export function LockScreen({ onSuccess, mode = 'login' }: LockScreenProps) {
+  const isSetup = mode === 'setup';
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [setupToken, setSetupToken] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
@@ -29,6 +36,20 @@ export function LockScreen({ onSuccess }: LockScreenProps) {
     setIsLoading(true);
 
     try {
+      if (isSetup) {
+        if (password.length < 4) {
+          setError('Senha deve ter pelo menos 4 caracteres');
+          return;
+        }
+        if (password !== confirmPassword) {
+          setError('As senhas não coincidem');
+          return;
+        }
+        await setupAccount(password, setupToken.trim());
+        onSuccess();
+        return;
+      }
+
       const success = await login(password);
 
       if (success) {
@@ -38,7 +59,9 @@ export function LockScreen({ onSuccess }: LockScreenProps) {
         setPassword('');
       }
     } catch (err) {
-      setError('Erro ao autenticar');
+      setError(
+        err instanceof LoginRateLimitError || err instanceof InvalidSetupTokenError ? err.message : 'Erro ao autenticar'
+      );
       console.error('Login error:', err);
     } finally {
       setIsLoading(false);
@@ -67,12 +90,32 @@ export function LockScreen({ onSuccess }: LockScreenProps) {
             </div>
             <GlassCardTitle className="text-2xl">Mood & Pharma Tracker</GlassCardTitle>
             <GlassCardDescription>
-              Digite sua senha para acessar o aplicativo
+              {isSetup
+                ? 'Crie uma senha para proteger e criptografar seus dados'
+                : 'Digite sua senha para acessar o aplicativo'}
             </GlassCardDescription>
           </GlassCardHeader>
 
           <GlassCardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
+              {/* Setup code (setup only) */}
+              {isSetup && (
+                <div className="space-y-2">
+                  <label htmlFor="setup-token" className="text-sm font-medium text-neutral-12">
+                    Código de configuração
+                  </label>
+                  <Input
+                    id="setup-token"
+                    value={setupToken}
+                    onChange={(e) => setSetupToken(e.target.value)}
+                    placeholder="Exibido no console do servidor"
+                    autoComplete="off"
+                    disabled={isLoading}
+                    required
+                  />
+                </div>
+              )}
+
               {/* Password input */}
               <div className="space-y-2">
                 <label htmlFor="password" className="text-sm font-medium text-neutral-12">
@@ -105,6 +148,24 @@ export function LockScreen({ onSuccess }: LockScreenProps) {
                 </div>
               </div>
 
+              {/* Confirm password (setup only) */}
+              {isSetup && (
+                <div className="space-y-2">
+                  <label htmlFor="confirm-password" className="text-sm font-medium text-neutral-12">
+                    Confirmar senha
+                  </label>
+                  <Input
+                    id="confirm-password"
+                    type={showPassword ? 'text' : 'password'}
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    placeholder="Digite a senha novamente"
+                    disabled={isLoading}
+                    required
+                  />
+                </div>
+              )}
+
               {/* Error message */}
               {error && (
                 <div className="p-3 rounded-lg bg-error-100 border border-error-600 text-error-700 text-sm">
@@ -116,9 +177,9 @@ export function LockScreen({ onSuccess }: LockScreenProps) {
               <Button
                 type="submit"
                 className="w-full"
-                disabled={isLoading || !password}
+                disabled={isLoading || !password || (isSetup && !setupToken.trim())}
               >
-                {isLoading ? 'Autenticando...' : 'Entrar'}
+                {isLoading ? 'Autenticando...' : isSetup ? 'Criar senha' : 'Entrar'}
               </Button>
             </form>
 
@@ -126,7 +187,9 @@ export function LockScreen({ onSuccess }: LockScreenProps) {
             <div className="mt-6 text-center text-xs text-neutral-10">
               <p>Seus dados estão protegidos com senha</p>
               <p className="mt-1">
-                Para redefinir a senha, limpe os dados do navegador
+                {isSetup
+                  ? 'A senha não pode ser recuperada: sem ela os dados criptografados ficam ilegíveis'
+                  : 'Para redefinir a senha, limpe os dados do navegador'}
               </p>
             </div>
           </GlassCardContent>
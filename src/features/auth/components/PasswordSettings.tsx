@@ -3,9 +3,13 @@
  *
  * Configure lock screen password
  * Toggle lock screen on/off
+ *
+ * The password also encrypts the stored data: setting it encrypts the
+ * snapshot, changing it re-encrypts it and turning protection off decrypts it.
  */
 
 import { useState, FormEvent } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { GlassCard, GlassCardHeader, GlassCardTitle, GlassCardDescription, GlassCardContent } from '@/shared/ui/glass-card';
 import { Button } from '@/shared/ui/button';
 import { Input } from '@/shared/ui/input';
@@ -20,8 +24,18 @@ import {
   hasPassword,
   validatePassword
 } from '../services/simple-auth';
+import {
+  changeEncryptionPassword,
+  disableEncryption,
+  enableEncryption,
+  isEncryptionEnabled
+} from '../services/data-encryption';
+import { APP_DATA_QUERY_KEY } from '@/hooks/use-app-data-store';
+import { changeServerPassword } from '@/core/services/auth-client';
+import type { AppDataSnapshot } from '@/core/services/app-data-service';
 
 export function PasswordSettings() {
+  const queryClient = useQueryClient();
   const [lockEnabled, setLockEnabled] = useState(isLockEnabled());
   const [hasExistingPassword, setHasExistingPassword] = useState(hasPassword());
 
@@ -36,15 +50,32 @@ export function PasswordSettings() {
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
-  const handleToggleLock = () => {
-    if (lockEnabled) {
-      disableLock();
-      setLockEnabled(false);
-      setMessage({ type: 'success', text: 'Proteção por senha desativada' });
-    } else {
-      if (hasExistingPassword) {
+  const showSaved = (saved: AppDataSnapshot) => {
+    queryClient.setQueryData(APP_DATA_QUERY_KEY, saved);
+  };
+
+  const handleToggleLock = async () => {
+    setMessage(null);
+    setIsLoading(true);
+
+    try {
+      if (lockEnabled) {
+        if (isEncryptionEnabled()) {
+          showSaved(await disableEncryption());
+        }
+        disableLock();
+        setLockEnabled(false);
+        setMessage({ type: 'success', text: 'Proteção por senha desativada' });
+      } else if (hasExistingPassword) {
+        // The key is derived from the password, so it has to be typed again
+        if (!currentPassword || !(await validatePassword(currentPassword))) {
+          setMessage({ type: 'error', text: 'Digite a senha atual para reativar a proteção' });
+          return;
+        }
+        showSaved(await enableEncryption(currentPassword));
         enableLock();
         setLockEnabled(true);
+        setCurrentPassword('');
         setMessage({ type: 'success', text: 'Proteção por senha ativada' });
       } else {
         setMessage({
@@ -52,6 +83,14 @@ export function PasswordSettings() {
           text: 'Configure uma senha primeiro'
         });
       }
+    } catch (error) {
+      console.error('Lock toggle error:', error);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Erro ao alterar a proteção'
+      });
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -85,6 +124,25 @@ export function PasswordSettings() {
         }
       }
 
+      // Re-encrypt the data first: if that fails it is rolled back to the old
+      // key and the server password is left alone
+      const wasEncrypted = isEncryptionEnabled();
+      const saved = wasEncrypted
+        ? await changeEncryptionPassword(newPassword)
+        : await enableEncryption(newPassword);
+      showSaved(saved);
+
+      // The server checks the current password again before accepting the new one
+      if (hasExistingPassword) {
+        try {
+          await changeServerPassword(currentPassword, newPassword);
+        } catch (error) {
+          // Keep the data readable with the password the server still accepts
+          showSaved(wasEncrypted ? await changeEncryptionPassword(currentPassword) : await disableEncryption());
+          throw error;
+        }
+      }
+
       // Set new password
       await setPassword(newPassword);
 
@@ -146,7 +204,7 @@ export function PasswordSettings() {
               id="lock-toggle"
               checked={lockEnabled}
               onCheckedChange={handleToggleLock}
-              disabled={!hasExistingPassword && !lockEnabled}
+              disabled={isLoading || (!hasExistingPassword && !lockEnabled)}
             />
           </div>
 
@@ -264,10 +322,13 @@ export function PasswordSettings() {
           <div className="text-xs text-neutral-10 space-y-1 pt-4 border-t border-neutral-6">
             <p className="font-semibold">Importante:</p>
             <ul className="list-disc list-inside space-y-1 ml-2">
-              <li>A senha é armazenada localmente de forma segura (SHA-256)</li>
+              <li>Com a proteção ativa, os dados são criptografados no dispositivo (AES-GCM, chave PBKDF2 derivada da senha) e o servidor guarda apenas texto cifrado</li>
+              <li>Backups antigos sem criptografia são apagados ao ativar a proteção</li>
+              <li>A senha é pedida novamente sempre que o app é reaberto</li>
+              <li>O servidor exige login com esta senha; ao alterá-la, as sessões em outros dispositivos são encerradas</li>
               <li>Senha mínima: 4 caracteres</li>
-              <li>Para redefinir senha esquecida: limpe os dados do navegador</li>
-              <li>Lock screen é opcional - pode desativar a qualquer momento</li>
+              <li>Senha esquecida não pode ser recuperada: sem ela os dados criptografados ficam ilegíveis</li>
+              <li>Desativar a proteção grava os dados novamente sem criptografia</li>
             </ul>
           </div>
         </div>
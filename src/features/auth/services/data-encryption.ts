@@ -0,0 +1,103 @@
+/**
+ * Data Encryption Service
+ *
+ * Turns client-side encryption of the stored snapshot on and off, re-encrypts
+ * it when the password changes and unlocks it after a cold start. Each change
+ * rewrites the whole snapshot of every profile through saveAppData(), so the
+ * server holds ciphertext as soon as it returns. All profiles share one key.
+ */
+
+import {
+  fetchAppData,
+  fetchEncryptionInfo,
+  fetchProfiles,
+  saveAppData,
+  type AppDataSnapshot
+} from '@/core/services/app-data-service';
+import { getActiveProfileId } from '@/core/services/active-profile';
+import { createEncryptionInfo, type EncryptionInfo } from '@/core/services/snapshot-crypto';
+import {
+  captureSession,
+  isEncryptionEnabled,
+  isEncryptionLocked,
+  restoreSession,
+  setSessionKey,
+  unlockWithPassword
+} from '@/core/services/encryption-session';
+
+export { isEncryptionEnabled, isEncryptionLocked };
+
+/**
+ * Save every profile's data again under `info`/`key` (null for plaintext).
+ * If a save fails, the profiles already rewritten are put back under the
+ * previous session. Returns the active profile's snapshot.
+ */
+async function rewriteSnapshot(info: EncryptionInfo | null, key: CryptoKey | null): Promise<AppDataSnapshot> {
+  const profiles = await fetchProfiles();
+  const snapshots = new Map<string, AppDataSnapshot>();
+  for (const profile of profiles) {
+    snapshots.set(profile.id, await fetchAppData(profile.id));
+  }
+  const previous = captureSession();
+  const rewritten: string[] = [];
+
+  setSessionKey(info, key);
+  try {
+    for (const [profileId, snapshot] of snapshots) {
+      snapshots.set(profileId, await saveAppData(snapshot, profileId));
+      rewritten.push(profileId);
+    }
+  } catch (error) {
+    restoreSession(previous);
+    for (const profileId of rewritten) {
+      await saveAppData(snapshots.get(profileId)!, profileId).catch((rollbackError) =>
+        console.error(`[AppData] Could not restore profile ${profileId}:`, rollbackError)
+      );
+    }
+    throw error;
+  }
+  return snapshots.get(getActiveProfileId()) ?? fetchAppData();
+}
+
+/**
+ * Encrypt the stored data with a key derived from `password`
+ */
+export async function enableEncryption(password: string): Promise<AppDataSnapshot> {
+  const { info, key } = await createEncryptionInfo(password);
+  const saved = await rewriteSnapshot(info, key);
+  console.log('[AppData] Encryption enabled');
+  return saved;
+}
+
+/**
+ * Re-encrypt the stored data with a new salt and a key derived from
+ * `newPassword`. Requires an unlocked session.
+ */
+export async function changeEncryptionPassword(newPassword: string): Promise<AppDataSnapshot> {
+  const { info, key } = await createEncryptionInfo(newPassword);
+  const saved = await rewriteSnapshot(info, key);
+  console.log('[AppData] Data re-encrypted with the new password');
+  return saved;
+}
+
+/**
+ * Store the data in plaintext again. Requires an unlocked session.
+ */
+export async function disableEncryption(): Promise<AppDataSnapshot> {
+  const saved = await rewriteSnapshot(null, null);
+  console.log('[AppData] Encryption disabled');
+  return saved;
+}
+
+/**
+ * Derive the key for the server's encrypted data from `password`. Returns
+ * false for a wrong password and true when the data isn't encrypted.
+ */
+export async function unlockEncryption(password: string): Promise<boolean> {
+  const info = await fetchEncryptionInfo();
+  if (!info) {
+    setSessionKey(null, null);
+    return true;
+  }
+  return unlockWithPassword(info, password);
+}
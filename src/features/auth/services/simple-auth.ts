@@ -2,9 +2,15 @@
  * Simple Authentication Service
  *
  * Provides password-based lock screen functionality
- * No backend required - uses localStorage for persistence
+ * The local hash in localStorage backs the lock screen; the same password
+ * also opens the server session (auth-client.ts) and, when the data is
+ * encrypted (data-encryption.ts), derives the data key.
  */
 
+import { enableEncryption, isEncryptionEnabled, unlockEncryption } from './data-encryption';
+import { lockSession } from '@/core/services/encryption-session';
+import { refreshServerAuth, serverLogin, serverLogout, serverSetup } from '@/core/services/auth-client';
+
 const AUTH_PASSWORD_HASH_KEY = 'auth_password_hash';
 const AUTH_SESSION_TOKEN_KEY = 'auth_session_token';
 const AUTH_LOCK_ENABLED_KEY = 'lock_screen_enabled';
@@ -122,16 +128,39 @@ export function isAuthenticated(): boolean {
  * Login with password
  */
 export async function login(password: string): Promise<boolean> {
-  const isValid = await validatePassword(password);
+  let verified = false;
+
+  // A still-valid session cookie skips the server login, not the password check
+  if ((await refreshServerAuth()) !== 'authenticated') {
+    if (!(await serverLogin(password))) return false;
+    verified = true;
+  }
+  if (isEncryptionEnabled()) {
+    if (!(await unlockEncryption(password))) return false;
+    verified = true;
+  }
+  if (!verified && !(await validatePassword(password))) {
+    return false;
+  }
 
-  if (isValid) {
-    // Generate and store session token
-    const token = generateSessionToken();
-    localStorage.setItem(AUTH_SESSION_TOKEN_KEY, token);
-    return true;
+  // Devices that signed in through the server learn the local hash here
+  localStorage.setItem(AUTH_PASSWORD_HASH_KEY, await hashPassword(password));
+  localStorage.setItem(AUTH_SESSION_TOKEN_KEY, generateSessionToken());
+  return true;
+}
+
+/**
+ * First run: set the server password, then protect and encrypt the data with it
+ */
+export async function setupAccount(password: string, setupToken: string): Promise<void> {
+  if (!password || password.length < 4) {
+    throw new Error('Password must be at least 4 characters');
   }
 
-  return false;
+  await serverSetup(password, setupToken);
+  await enableEncryption(password);
+  await setPassword(password);
+  localStorage.setItem(AUTH_SESSION_TOKEN_KEY, generateSessionToken());
 }
 
 /**
@@ -139,6 +168,8 @@ export async function login(password: string): Promise<boolean> {
  */
 export function logout(): void {
   localStorage.removeItem(AUTH_SESSION_TOKEN_KEY);
+  lockSession();
+  void serverLogout();
 }
 
 /**
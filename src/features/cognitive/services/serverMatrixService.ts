@@ -7,6 +7,7 @@
  * ### 📚 Notes
  * - API key do Gemini fica segura no servidor
  * - Timeout configurado para 30 segundos
+ * - Envia o cookie de sessão; o endpoint exige login
  * - Retry logic em caso de falha temporária
  *
  * ### 🔄 Returns
@@ -67,6 +68,7 @@ export async function generateMatrixFromServer(
   try {
     const response = await fetch('/api/generate-matrix', {
       method: 'POST',
+      credentials: 'include',
       headers: {
         'Content-Type': 'application/json'
       },
@@ -192,6 +194,7 @@ export async function checkServerHealth(): Promise<boolean> {
   try {
     const response = await fetch('/api/health', {
       method: 'GET',
+      credentials: 'include',
       signal: AbortSignal.timeout(5000)
     });
 
@@ -13,6 +13,8 @@ import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { safeFormat } from '@/shared/utils';
 import { parseLocalDateTime } from '@/shared/utils/date-helpers';
+import { validateDraft } from '@/core/services/entity-schemas';
+import { describeStockAfterDose } from '@/features/analytics/utils/inventory';
 
 export default function DoseLogger() {
   const { medications } = useMedications();
@@ -37,15 +39,23 @@ export default function DoseLogger() {
     (async () => {
       try {
         const timestamp = parseLocalDateTime(selectedDate, selectedTime);
-
-        await createDose({
+        const dose = {
           medicationId: selectedMedicationId,
           timestamp,
           doseAmount: parseFloat(doseAmount)
-        });
+        };
+
+        const validation = validateDraft('doses', dose);
+        if (!validation.valid) {
+          toast.error('Invalid dose', { description: validation.error });
+          return;
+        }
+
+        await createDose(dose);
 
+        const stock = describeStockAfterDose(medication, doses, dose);
         toast.success(`Logged ${doseAmount}mg of ${medication.name}`, {
-          description: safeFormat(timestamp, 'MMM d, h:mm a')
+          description: [safeFormat(timestamp, 'MMM d, h:mm a'), stock].filter(Boolean).join(' · ')
         });
 
         setSelectedMedicationId('');
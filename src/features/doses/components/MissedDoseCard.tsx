@@ -0,0 +1,172 @@
+/**
+ * Missed Dose Card
+ *
+ * Scheduled doses that were missed or taken late (see missed-doses.ts). For a
+ * missed dose it says whether to take it now or skip to the next one, with the
+ * projected concentration of both options.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { Alarm, Check, SkipForward } from '@phosphor-icons/react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/ui/card';
+import { Button } from '@/shared/ui/button';
+import { Badge } from '@/shared/ui/badge';
+import type { Medication, MedicationDose } from '@/shared/types';
+import { safeFormat } from '@/shared/utils';
+import { useDoses } from '@/hooks/use-doses';
+import { useDoseSchedules } from '@/hooks/use-dose-schedules';
+import { usePatientProfile } from '@/hooks/use-physiology-records';
+import {
+  checkScheduledDoses,
+  getCatchUpGuidance,
+  type CatchUpGuidance,
+  type CatchUpProjection,
+  type ScheduledDoseCheck
+} from '@/features/analytics/utils/missed-doses';
+
+const REFRESH_MS = 60 * 1000;
+
+interface MissedDoseItem {
+  medication: Medication;
+  guidance: CatchUpGuidance | null; // Only when the latest scheduled dose was missed
+  late: ScheduledDoseCheck[];
+}
+
+interface MissedDoseCardProps {
+  medications: Medication[];
+  doses: MedicationDose[];
+}
+
+function ProjectionRow({ label, projection }: { label: string; projection: CatchUpProjection }) {
+  return (
+    <tr>
+      <td className="py-0.5">{label}</td>
+      <td className="py-0.5 text-right">{projection.atNextDose.toFixed(1)}</td>
+      <td className="py-0.5 text-right">{projection.peak.toFixed(1)}</td>
+      <td className="py-0.5 text-right">{projection.trough.toFixed(1)}</td>
+    </tr>
+  );
+}
+
+export default function MissedDoseCard({ medications, doses }: MissedDoseCardProps) {
+  const { createDose } = useDoses();
+  const { doseSchedules } = useDoseSchedules();
+  const patient = usePatientProfile();
+  const [now, setNow] = useState(() => Date.now());
+  const [skipped, setSkipped] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const items = useMemo(() => {
+    return medications.flatMap<MissedDoseItem>((medication) => {
+      const checks = checkScheduledDoses(medication, doses, now, 24);
+      const latest = checks[checks.length - 1];
+      const late = checks.filter((check) => check.status === 'late');
+
+      if (latest?.status === 'missed' && !skipped.has(`${medication.id}:${latest.scheduledAt}`)) {
+        const guidance = getCatchUpGuidance(medication, doses, latest.scheduledAt, now, {
+          patient,
+          medications,
+          schedules: doseSchedules
+        });
+        return [{ medication, guidance, late }];
+      }
+      return late.length > 0 ? [{ medication, guidance: null, late }] : [];
+    });
+  }, [medications, doses, doseSchedules, patient, now, skipped]);
+
+  if (items.length === 0) return null;
+
+  const takeNow = async (medication: Medication, amount: number) => {
+    await createDose({ medicationId: medication.id, timestamp: Date.now(), doseAmount: amount });
+    toast.success(`${amount} mg de ${medication.name} registrados`);
+  };
+
+  const skip = (medicationId: string, missedAt: number) => {
+    setSkipped((current) => new Set(current).add(`${medicationId}:${missedAt}`));
+  };
+
+  return (
+    <Card className="border-amber-500/40">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Alarm className="w-5 h-5 text-amber-500" weight="duotone" />
+          Doses esquecidas ou atrasadas
+        </CardTitle>
+        <CardDescription>Comparação dos horários agendados com as doses registradas nas últimas 24h.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {items.map(({ medication, guidance, late }) => (
+          <div key={medication.id} className="space-y-2 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{medication.name}</span>
+              {guidance && (
+                <Badge variant={guidance.recommendation === 'take_now' ? 'default' : 'secondary'}>
+                  {guidance.recommendation === 'take_now' ? 'Tomar agora' : 'Pular esta dose'}
+                </Badge>
+              )}
+            </div>
+
+            {late.map((check) => (
+              <p key={check.scheduledAt} className="text-xs text-muted-foreground">
+                Dose das {safeFormat(check.scheduledAt, 'HH:mm')} tomada com {(check.delayMinutes! / 60).toFixed(1)}h de atraso
+              </p>
+            ))}
+
+            {guidance && (
+              <>
+                <p>
+                  Dose das {safeFormat(guidance.missedAt, 'HH:mm')} não registrada ({guidance.hoursLate.toFixed(1)}h de
+                  atraso). {guidance.reason}
+                  {guidance.nextAmount !== guidance.amount && ` Pelo esquema, a próxima dose é de ${guidance.nextAmount} mg.`}
+                </p>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="font-medium py-0.5">ng/mL</th>
+                      <th className="font-medium py-0.5 text-right">
+                        Antes da próxima ({safeFormat(guidance.nextDoseAt, 'dd/MM HH:mm')})
+                      </th>
+                      <th className="font-medium py-0.5 text-right">Pico</th>
+                      <th className="font-medium py-0.5 text-right">Vale</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <ProjectionRow label={`Tomar ${guidance.amount} mg agora`} projection={guidance.takeNow} />
+                    <ProjectionRow label="Pular" projection={guidance.skip} />
+                  </tbody>
+                </table>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant={guidance.recommendation === 'take_now' ? 'default' : 'outline'}
+                    onClick={() => takeNow(medication, guidance.amount)}
+                    disabled={!(guidance.amount > 0)}
+                  >
+                    <Check className="w-4 h-4 mr-2" />
+                    Registrar dose agora
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={guidance.recommendation === 'skip' ? 'default' : 'outline'}
+                    onClick={() => skip(medication.id, guidance.missedAt)}
+                  >
+                    <SkipForward className="w-4 h-4 mr-2" />
+                    Pular
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          Estimativa do modelo farmacocinético; em caso de dúvida siga a orientação do seu médico ou farmacêutico.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -19,6 +19,7 @@ import { Clock } from '@phosphor-icons/react';
 import { safeFormat } from '@/shared/utils';
 import { parseLocalDateTime } from '@/shared/utils/date-helpers';
 import type { Medication } from '@/shared/types';
+import { describeStockAfterDose } from '@/features/analytics/utils/inventory';
 
 interface QuickDoseModalProps {
   isOpen: boolean;
@@ -85,8 +86,9 @@ export function QuickDoseModal({ isOpen, onClose }: QuickDoseModalProps) {
 
       const doseStr = `${amount}${medication.unit || 'mg'}`;
 
+      const stock = describeStockAfterDose(medication, doses, { timestamp, doseAmount: +amount.toFixed(2) });
       toast.success(`Logged ${doseStr} of ${medication.name}`, {
-        description: safeFormat(timestamp, 'MMM d, h:mm a'),
+        description: [safeFormat(timestamp, 'MMM d, h:mm a'), stock].filter(Boolean).join(' · '),
         duration: 3000,
       });
 
@@ -126,8 +128,9 @@ export function QuickDoseModal({ isOpen, onClose }: QuickDoseModalProps) {
 
       const doseStr = `${amount}${selectedMedication.unit || 'mg'}`;
 
+      const stock = describeStockAfterDose(selectedMedication, doses, { timestamp, doseAmount: +amount.toFixed(2) });
       toast.success(`Logged ${doseStr} of ${selectedMedication.name}`, {
-        description: safeFormat(timestamp, 'MMM d, h:mm a'),
+        description: [safeFormat(timestamp, 'MMM d, h:mm a'), stock].filter(Boolean).join(' · '),
         duration: 3000,
       });
 
@@ -236,7 +239,9 @@ export function QuickDoseModal({ isOpen, onClose }: QuickDoseModalProps) {
                   const ts = useCustomTime ? parseLocalDateTime(selectedDate, selectedTime) : Date.now();
                   await createDose({ medicationId: selectedMedication.id, timestamp: ts, doseAmount: +amount.toFixed(2) });
                   if ('vibrate' in navigator) navigator.vibrate(50);
-                  toast.success(`Logged ${amount}${selectedMedication.unit || 'mg'} of ${selectedMedication.name}`);
+                  toast.success(`Logged ${amount}${selectedMedication.unit || 'mg'} of ${selectedMedication.name}`, {
+                    description: describeStockAfterDose(selectedMedication, doses, { timestamp: ts, doseAmount: +amount.toFixed(2) })
+                  });
                   setTimeout(() => onClose(), 300);
                 } catch (err) {
                   toast.error('Failed to log dose');
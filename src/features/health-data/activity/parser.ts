@@ -1,5 +1,14 @@
 import { BaseHealthParser } from '../core/base-parser';
-import { ActivityRecord, SamsungActivityCSV, SamsungStepsCSV } from '../core/types';
+import { ActivityRecord } from '../core/types';
+import {
+  parseSamsungCsvDateTime,
+  parseSamsungCsvNumber,
+  readSamsungCsv,
+  samsungActivityType,
+  type SamsungCsvProfile,
+  type SamsungCsvRow,
+  type SamsungCsvTable
+} from '../csv/samsung-csv-profiles';
 
 export class ActivityParser extends BaseHealthParser<ActivityRecord> {
   constructor() {
@@ -10,119 +19,65 @@ export class ActivityParser extends BaseHealthParser<ActivityRecord> {
    * Parse combined activity data (steps and exercises)
    */
   parseCSV(csvContent: string): ActivityRecord[] {
-    const lines = csvContent.trim().split('\n');
-    if (lines.length < 2) {
-      console.warn('CSV de atividade vazio ou inválido');
-      return [];
-    }
-
-    const headerLine = lines[0];
-    
-    // Detect if this is steps data or activity data based on headers
-    if (this.isStepsData(headerLine)) {
-      return this.parseStepsCSV(csvContent);
-    } else if (this.isActivityData(headerLine)) {
-      return this.parseActivityCSV(csvContent);
-    } else {
+    const table = readSamsungCsv(csvContent);
+    if (!table || (table.kind !== 'steps' && table.kind !== 'activity')) {
       console.warn('Formato de CSV de atividade não reconhecido');
       return [];
     }
+    return this.parseTable(table);
   }
 
   /**
    * Parse steps-specific CSV data
    */
   parseStepsCSV(csvContent: string): ActivityRecord[] {
-    const lines = csvContent.trim().split('\n');
-    const delimiter = this.detectDelimiter(lines[0]);
-    const headers = this.splitCsvLine(lines[0], delimiter);
-
-    const records: ActivityRecord[] = [];
-    let errorCount = 0;
-
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
-      try {
-        const values = this.splitCsvLine(line, delimiter);
-        const record = this.parseStepsLine(values);
-        if (record) {
-          records.push(record);
-        }
-      } catch (error) {
-        console.warn(`Erro na linha ${i + 1} do CSV de passos:`, error);
-        errorCount++;
-      }
-    }
-
-    this.logParsingStats('Passos', lines.length - 1, records.length, errorCount);
-    return records;
+    return this.parseTable(readSamsungCsv(csvContent, { kind: 'steps' })!);
   }
 
   /**
    * Parse activity/exercise CSV data
    */
   parseActivityCSV(csvContent: string): ActivityRecord[] {
-    const lines = csvContent.trim().split('\n');
-    const delimiter = this.detectDelimiter(lines[0]);
-    const headers = this.splitCsvLine(lines[0], delimiter);
+    return this.parseTable(readSamsungCsv(csvContent, { kind: 'activity' })!);
+  }
 
+  /**
+   * Records of a steps or activity CSV already read with readSamsungCsv
+   */
+  parseTable(table: SamsungCsvTable): ActivityRecord[] {
+    const isSteps = table.kind === 'steps';
+    const label = isSteps ? 'passos' : 'atividade';
     const records: ActivityRecord[] = [];
     let errorCount = 0;
 
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
+    table.rows.forEach((row, index) => {
       try {
-        const values = this.splitCsvLine(line, delimiter);
-        const record = this.parseActivityLine(values);
+        const record = isSteps ? this.parseStepsRow(row, table.profile) : this.parseActivityRow(row, table.profile);
         if (record) {
           records.push(record);
         }
       } catch (error) {
-        console.warn(`Erro na linha ${i + 1} do CSV de atividade:`, error);
+        console.warn(`Erro na linha ${index + 2} do CSV de ${label}:`, error);
         errorCount++;
       }
-    }
+    });
 
-    this.logParsingStats('Atividade', lines.length - 1, records.length, errorCount);
+    this.logParsingStats(isSteps ? 'Passos' : 'Atividade', table.rows.length + 1, records.length, errorCount);
     return records;
   }
 
-  private isStepsData(headerLine: string): boolean {
-    return headerLine.toLowerCase().includes('passos');
-  }
-
-  private isActivityData(headerLine: string): boolean {
-    return headerLine.toLowerCase().includes('atividade') || 
-           headerLine.toLowerCase().includes('tempo decorrido');
-  }
-
-  private parseStepsLine(values: string[]): ActivityRecord | null {
-    if (values.length < 3) {
-      console.warn('Linha de passos incompleta:', values);
-      return null;
-    }
-
-    const rawData: SamsungStepsCSV = {
-      Data: this.cleanCsvValue(values[0]),
-      Hora: this.cleanCsvValue(values[1]),
-      Passos: this.cleanCsvValue(values[2])
-    };
-
+  private parseStepsRow(row: SamsungCsvRow, profile: SamsungCsvProfile): ActivityRecord | null {
     // Parse timestamp
-    const timestamp = this.parseDateTime(rawData.Data, rawData.Hora);
+    const timestamp = parseSamsungCsvDateTime(profile, row.date, row.time);
     if (!this.isValidTimestamp(timestamp)) {
-      console.warn('Timestamp inválido para passos:', rawData.Data, rawData.Hora);
+      console.warn('Timestamp inválido para passos:', row.date, row.time);
       return null;
     }
 
     // Parse steps
-    const steps = this.parseNumber(rawData.Passos);
-    if (steps < 0 || steps > 10000) { // Reasonable range for a single measurement
-      console.warn('Número de passos inválido:', steps);
+    const steps = parseSamsungCsvNumber(profile, row.steps);
+    if (!(steps >= 0 && steps <= 10000)) { // Reasonable range for a single measurement
+      console.warn('Número de passos inválido:', row.steps);
       return null;
     }
 
@@ -142,41 +97,25 @@ export class ActivityParser extends BaseHealthParser<ActivityRecord> {
     };
   }
 
-  private parseActivityLine(values: string[]): ActivityRecord | null {
-    if (values.length < 8) {
-      console.warn('Linha de atividade incompleta:', values);
-      return null;
-    }
-
-    const rawData: SamsungActivityCSV = {
-      'Aplicação de origem': this.cleanCsvValue(values[0]),
-      'Tipo de atividade': this.cleanCsvValue(values[1]),
-      'Nome da atividade': this.cleanCsvValue(values[2]),
-      Data: this.cleanCsvValue(values[3]),
-      Hora: this.cleanCsvValue(values[4]),
-      'Tempo decorrido': this.cleanCsvValue(values[5]),
-      'Tempo ativo': this.cleanCsvValue(values[6]),
-      'Distância (km)': this.cleanCsvValue(values[7])
-    };
-
+  private parseActivityRow(row: SamsungCsvRow, profile: SamsungCsvProfile): ActivityRecord | null {
     // Parse timestamp  
-    const timestamp = this.parseDateTime(rawData.Data, rawData.Hora);
+    const timestamp = parseSamsungCsvDateTime(profile, row.date, row.time);
     if (!this.isValidTimestamp(timestamp)) {
-      console.warn('Timestamp inválido para atividade:', rawData.Data, rawData.Hora);
+      console.warn('Timestamp inválido para atividade:', row.date, row.time);
       return null;
     }
 
     // Parse activity data
-    const duration = this.parseNumber(rawData['Tempo decorrido']);
-    const activeDuration = this.parseNumber(rawData['Tempo ativo']);
-    const distance = this.parseNumber(rawData['Distância (km)']);
+    const duration = parseSamsungCsvNumber(profile, row.elapsedTime);
+    const activeDuration = parseSamsungCsvNumber(profile, row.activeTime) || 0;
+    const distance = parseSamsungCsvNumber(profile, row.distanceKm) || 0;
     
-    if (duration <= 0) {
-      console.warn('Duração inválida para atividade:', duration);
+    if (!(duration > 0)) {
+      console.warn('Duração inválida para atividade:', row.elapsedTime);
       return null;
     }
 
-    const activityType = this.normalizeActivityType(rawData['Tipo de atividade']);
+    const activityType = samsungActivityType(profile, row.activityType);
 
     return {
       ...this.createBaseRecord(timestamp),
@@ -191,27 +130,6 @@ export class ActivityParser extends BaseHealthParser<ActivityRecord> {
     };
   }
 
-  private normalizeActivityType(activityType: string): ActivityRecord['activityType'] {
-    const normalized = activityType.toUpperCase();
-    
-    switch (normalized) {
-      case 'WALKING':
-      case 'CAMINHADA':
-        return 'WALKING';
-      case 'RUNNING':
-      case 'CORRIDA':
-        return 'RUNNING';
-      case 'CYCLING':
-      case 'CICLISMO':
-        return 'CYCLING';
-      case 'GENERIC':
-      case 'GENÉRICO':
-        return 'GENERIC';
-      default:
-        return 'OTHER';
-    }
-  }
-
   private estimateStepsDuration(steps: number): number {
     // Assume average walking speed of 100 steps per minute
     return Math.max(60, (steps / 100) * 60); // minimum 1 minute
@@ -0,0 +1,190 @@
+import { createHealthRecordBase } from '../core/base-parser';
+import type { ActivityRecord, HeartRateRecord, HRVRecord, SleepRecord } from '../core/types';
+import type { HealthFileKind, ParsedHealthRecord } from '../services/health-file-parser';
+
+/**
+ * Streaming reader for Apple Health's export.xml.
+ *
+ * The export is a single <HealthData> element with a <Record> per sample and a
+ * <Workout> per workout, and easily runs to hundreds of MB, so instead of
+ * being parsed as a document it is scanned chunk by chunk for those start
+ * tags, and the records are handed out in batches as they are found.
+ */
+
+const RECORD_KINDS: Record<string, HealthFileKind> = {
+  HKQuantityTypeIdentifierHeartRate: 'heart-rate',
+  HKQuantityTypeIdentifierStepCount: 'steps',
+  HKQuantityTypeIdentifierHeartRateVariabilitySDNN: 'hrv',
+  HKCategoryTypeIdentifierSleepAnalysis: 'sleep'
+};
+
+const SLEEP_STAGES: Record<string, SleepRecord['stage']> = {
+  HKCategoryValueSleepAnalysisAwake: 'awake',
+  HKCategoryValueSleepAnalysisAsleepCore: 'light',
+  HKCategoryValueSleepAnalysisAsleepDeep: 'deep',
+  HKCategoryValueSleepAnalysisAsleepREM: 'rem',
+  // Before watchOS 9 sleep was not split into stages
+  HKCategoryValueSleepAnalysisAsleep: 'light',
+  HKCategoryValueSleepAnalysisAsleepUnspecified: 'light'
+};
+
+const WORKOUT_TYPES: Record<string, ActivityRecord['activityType']> = {
+  HKWorkoutActivityTypeWalking: 'WALKING',
+  HKWorkoutActivityTypeRunning: 'RUNNING',
+  HKWorkoutActivityTypeCycling: 'CYCLING'
+};
+
+const SECONDS_PER_UNIT: Record<string, number> = { s: 1, min: 60, hr: 3600 };
+const KM_PER_UNIT: Record<string, number> = { km: 1, m: 0.001, mi: 1.609344 };
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of source.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attributes[name] = value.replace(/&(?:(amp|lt|gt|quot|apos)|#(\d+)|#x([\da-f]+));/gi, (_, entity, code, hex) =>
+      entity ? ENTITIES[entity] : String.fromCodePoint(code ? Number(code) : parseInt(hex, 16))
+    );
+  }
+  return attributes;
+}
+
+/**
+ * Apple's local times with offset ("2024-01-31 22:15:03 -0300")
+ */
+export function parseAppleDate(value: string | undefined): number {
+  const match = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/.exec(value?.trim() ?? '');
+  return match ? Date.parse(`${match[1]}T${match[2]}${match[3]}:${match[4]}`) : NaN;
+}
+
+function secondsBetween(start: number, endDate: string | undefined): number {
+  const end = parseAppleDate(endDate);
+  return Number.isFinite(end) && end > start ? Math.round((end - start) / 1000) : 0;
+}
+
+function optionalNumber(value: string | undefined, factor = 1): number | undefined {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed * factor : undefined;
+}
+
+export class AppleHealthParser {
+  private readonly source = 'apple-health' as const;
+
+  /** Elements of each kind seen so far, valid or not */
+  readonly rows: Partial<Record<HealthFileKind, number>> = {};
+
+  /**
+   * Scan the XML as it arrives in `chunks`, calling `onBatch` with every
+   * `batchSize` records found
+   */
+  async parse(
+    chunks: AsyncIterable<string>,
+    onBatch: (records: ParsedHealthRecord[]) => Promise<void>,
+    batchSize = 5000
+  ): Promise<void> {
+    let buffer = '';
+    let batch: ParsedHealthRecord[] = [];
+
+    for await (const chunk of chunks) {
+      buffer += chunk;
+      const tags = /<(Record|Workout)\s([^>]*)>/g;
+      let consumed = 0;
+      for (let match = tags.exec(buffer); match; match = tags.exec(buffer)) {
+        consumed = tags.lastIndex;
+        const parsed = this.parseElement(match[1], parseAttributes(match[2]));
+        if (parsed) batch.push(parsed);
+        if (batch.length >= batchSize) {
+          await onBatch(batch);
+          batch = [];
+        }
+      }
+
+      // '<' is escaped inside attribute values, so the last one left may
+      // start a tag that continues in the next chunk
+      const rest = buffer.slice(consumed);
+      const lastTag = rest.lastIndexOf('<');
+      buffer = lastTag === -1 ? '' : rest.slice(lastTag);
+    }
+
+    if (batch.length > 0) {
+      await onBatch(batch);
+    }
+  }
+
+  private count(kind: HealthFileKind) {
+    this.rows[kind] = (this.rows[kind] ?? 0) + 1;
+  }
+
+  private parseElement(tag: string, attributes: Record<string, string>): ParsedHealthRecord | null {
+    if (tag === 'Workout') {
+      this.count('activity');
+      return this.parseWorkout(attributes);
+    }
+
+    const kind = RECORD_KINDS[attributes.type];
+    if (!kind) return null;
+    this.count(kind);
+
+    const timestamp = parseAppleDate(attributes.startDate);
+    if (!Number.isFinite(timestamp)) return null;
+    const value = Number(attributes.value);
+
+    switch (kind) {
+      case 'heart-rate': {
+        if (!(value > 0 && value <= 300)) return null;
+        const record: HeartRateRecord = {
+          ...createHealthRecordBase('heart-rate', this.source, timestamp),
+          heartRate: Math.round(value),
+          source_device: attributes.sourceName || undefined
+        };
+        return { kind, record };
+      }
+      case 'steps': {
+        if (!(value >= 0)) return null;
+        const duration = secondsBetween(timestamp, attributes.endDate);
+        const record: ActivityRecord = {
+          ...createHealthRecordBase('activity', this.source, timestamp),
+          activityType: 'WALKING',
+          duration,
+          activeDuration: duration,
+          steps: value
+        };
+        return { kind, record };
+      }
+      case 'hrv': {
+        if (!(value > 0)) return null;
+        const record: HRVRecord = { ...createHealthRecordBase('hrv', this.source, timestamp), sdnn: value };
+        return { kind, record };
+      }
+      case 'sleep': {
+        const stage = SLEEP_STAGES[attributes.value];
+        const duration = secondsBetween(timestamp, attributes.endDate);
+        if (!stage || duration <= 0) return null;
+        const record: SleepRecord = { ...createHealthRecordBase('sleep', this.source, timestamp), stage, duration };
+        return { kind, record };
+      }
+      default:
+        return null;
+    }
+  }
+
+  private parseWorkout(attributes: Record<string, string>): ParsedHealthRecord | null {
+    const timestamp = parseAppleDate(attributes.startDate);
+    if (!Number.isFinite(timestamp)) return null;
+
+    const duration = Math.round(
+      optionalNumber(attributes.duration, SECONDS_PER_UNIT[attributes.durationUnit] ?? 60) ??
+        secondsBetween(timestamp, attributes.endDate)
+    );
+    if (duration <= 0) return null;
+
+    const record: ActivityRecord = {
+      ...createHealthRecordBase('activity', this.source, timestamp),
+      activityType: WORKOUT_TYPES[attributes.workoutActivityType] ?? 'OTHER',
+      duration,
+      activeDuration: duration,
+      distance: optionalNumber(attributes.totalDistance, KM_PER_UNIT[attributes.totalDistanceUnit] ?? 1),
+      calories: optionalNumber(attributes.totalEnergyBurned)
+    };
+    return { kind: 'activity', record };
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Health Data View
+ *
+ * Health tab: import of health app exports and the imported data per day (heart
+ * rate, steps, workouts, sleep), with the heart rate set against mood and
+ * medication levels.
+ */
+
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Footprints, Heartbeat, Moon, Trash } from '@phosphor-icons/react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/ui/card';
+import { Button } from '@/shared/ui/button';
+import { safeFormat } from '@/shared/utils';
+import { useMedications } from '@/hooks/use-medications';
+import { useDoses } from '@/hooks/use-doses';
+import { useMoodEntries } from '@/hooks/use-mood-entries';
+import { parseLocalDate } from '@/features/analytics/utils/dose-schedules';
+import { useHealthRecords } from '../hooks/useHealthRecords';
+import { HEALTH_FILE_KIND_LABELS, healthRecordKind, type HealthFileKind } from '../services/health-file-parser';
+import { summarizeHealthByDay } from '../utils/daily-summary';
+import type { HeartRateRecord } from '../core/types';
+import { HealthImportDropzone } from './HealthImportDropzone';
+import HeartRateCorrelationChart from './HeartRateCorrelationChart';
+
+const RANGES = [
+  { days: 30, label: '30 dias' },
+  { days: 90, label: '90 dias' },
+  { days: 0, label: 'Tudo' }
+];
+
+const tickDate = (date: string) => safeFormat(parseLocalDate(date), 'dd/MM');
+
+export default function HealthDataView() {
+  const { records, isLoading, importFiles, clearRecords } = useHealthRecords();
+  const { medications } = useMedications();
+  const { doses } = useDoses();
+  const { moodEntries } = useMoodEntries();
+  const [rangeDays, setRangeDays] = useState(30);
+
+  const counts = useMemo(() => {
+    const byKind: Partial<Record<HealthFileKind, { count: number; first: number; last: number }>> = {};
+    for (const record of records) {
+      const kind = healthRecordKind(record);
+      if (!kind) continue;
+      const entry = (byKind[kind] ??= { count: 0, first: record.timestamp, last: record.timestamp });
+      entry.count += 1;
+      entry.first = Math.min(entry.first, record.timestamp);
+      entry.last = Math.max(entry.last, record.timestamp);
+    }
+    return byKind;
+  }, [records]);
+
+  const days = useMemo(() => {
+    const all = summarizeHealthByDay(records);
+    if (rangeDays === 0 || all.length === 0) return all;
+    const from = safeFormat(parseLocalDate(all[all.length - 1].date) - (rangeDays - 1) * 24 * 60 * 60 * 1000, 'yyyy-MM-dd');
+    return all.filter((day) => day.date >= from);
+  }, [records, rangeDays]);
+
+  const heartRates = useMemo(
+    () => records.filter((record): record is HeartRateRecord => record.type === 'heart-rate'),
+    [records]
+  );
+
+  const handleClear = async () => {
+    if (!confirm('Apagar todos os dados de saúde importados neste dispositivo?')) return;
+    await clearRecords();
+    toast.success('Dados de saúde apagados');
+  };
+
+  const hasSteps = days.some((day) => day.steps !== undefined);
+  const hasSleep = days.some((day) => day.sleepHours !== undefined);
+  const hasHeartRate = days.some((day) => day.heartRateAvg !== undefined);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold tracking-tight">Saúde</h2>
+          <p className="text-muted-foreground">Dados de apps de saúde importados neste dispositivo</p>
+        </div>
+        {records.length > 0 && (
+          <Button variant="outline" size="sm" onClick={handleClear}>
+            <Trash className="w-4 h-4 mr-2" />
+            Apagar dados
+          </Button>
+        )}
+      </div>
+
+      <HealthImportDropzone onImport={importFiles} />
+
+      {isLoading ? null : records.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground text-sm">Nenhum dado de saúde importado</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            {(Object.keys(HEALTH_FILE_KIND_LABELS) as HealthFileKind[]).map((kind) => {
+              const entry = counts[kind];
+              return (
+                <Card key={kind} className="shadow-sm">
+                  <CardContent className="pt-4">
+                    <p className="text-xs text-muted-foreground">{HEALTH_FILE_KIND_LABELS[kind]}</p>
+                    <p className="text-2xl font-semibold">{entry?.count ?? 0}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {entry ? `${safeFormat(entry.first, 'dd/MM/yy')} – ${safeFormat(entry.last, 'dd/MM/yy')}` : 'sem registros'}
+                    </p>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-2">
+            {RANGES.map((range) => (
+              <Button
+                key={range.days}
+                variant={rangeDays === range.days ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setRangeDays(range.days)}
+              >
+                {range.label}
+              </Button>
+            ))}
+          </div>
+
+          {hasHeartRate && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Heartbeat className="w-5 h-5 text-primary" weight="duotone" />
+                  Frequência cardíaca por dia
+                </CardTitle>
+                <CardDescription>Média, mínima e máxima (bpm)</CardDescription>
+              </CardHeader>
+              <CardContent className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={days}>
+                    <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                    <XAxis dataKey="date" tickFormatter={tickDate} tick={{ fontSize: 10 }} />
+                    <YAxis tick={{ fontSize: 10 }} domain={['auto', 'auto']} />
+                    <Tooltip labelFormatter={(date) => tickDate(String(date))} />
+                    <Line type="monotone" dataKey="heartRateMax" name="Máx." stroke="#ef4444" strokeWidth={1} dot={false} connectNulls />
+                    <Line type="monotone" dataKey="heartRateAvg" name="Média" stroke="#e11d48" strokeWidth={2} dot={false} connectNulls />
+                    <Line type="monotone" dataKey="heartRateMin" name="Mín." stroke="#fb7185" strokeWidth={1} dot={false} connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            {hasSteps && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <Footprints className="w-5 h-5 text-primary" weight="duotone" />
+                    Passos por dia
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={days}>
+                      <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                      <XAxis dataKey="date" tickFormatter={tickDate} tick={{ fontSize: 10 }} />
+                      <YAxis tick={{ fontSize: 10 }} />
+                      <Tooltip labelFormatter={(date) => tickDate(String(date))} />
+                      <Bar dataKey="steps" name="Passos" fill="#22c55e" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+            )}
+
+            {hasSleep && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <Moon className="w-5 h-5 text-primary" weight="duotone" />
+                    Sono por noite
+                  </CardTitle>
+                  <CardDescription>Horas dormidas, sem os despertares</CardDescription>
+                </CardHeader>
+                <CardContent className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={days}>
+                      <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                      <XAxis dataKey="date" tickFormatter={tickDate} tick={{ fontSize: 10 }} />
+                      <YAxis tick={{ fontSize: 10 }} />
+                      <Tooltip labelFormatter={(date) => `Noite de ${tickDate(String(date))}`} />
+                      <Bar dataKey="sleepHours" name="Horas" fill="#6366f1" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {heartRates.length > 0 && (
+            <HeartRateCorrelationChart
+              heartRateData={heartRates}
+              moodEntries={moodEntries}
+              doses={doses}
+              medications={medications}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * Health Import Dropzone
+ *
+ * Drop (or pick) health exports: Samsung Health CSVs, Apple Health's
+ * export.xml, Google Fit (Takeout) or Health Connect JSON, or a ZIP of any of
+ * them; each file is parsed and stored in MoodPharmaHealthDB, and the result
+ * of every file is listed below with how many records were added, already
+ * imported or not valid. Files we cannot read are summed up in one line.
+ */
+
+import { useRef, useState, type DragEvent } from 'react';
+import { toast } from 'sonner';
+import { CheckCircle, FileArrowUp, WarningCircle } from '@phosphor-icons/react';
+import { Card, CardContent } from '@/shared/ui/card';
+import { Button } from '@/shared/ui/button';
+import { Badge } from '@/shared/ui/badge';
+import { cn } from '@/shared/utils';
+import { HEALTH_FILE_KIND_LABELS, type HealthFileResult } from '../services/health-file-parser';
+
+interface HealthImportDropzoneProps {
+  onImport: (files: File[]) => Promise<HealthFileResult[]>;
+}
+
+export function HealthImportDropzone({ onImport }: HealthImportDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [results, setResults] = useState<HealthFileResult[]>([]);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []).filter((file) => /\.(csv|zip|xml|json)$/i.test(file.name));
+    if (files.length === 0) {
+      toast.error('Nenhum arquivo de exportação de saúde', {
+        description: 'Use CSV do Samsung Health, export.xml do Apple Health, JSON do Google Fit/Health Connect ou um ZIP deles.'
+      });
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const imported = await onImport(files);
+      setResults(imported);
+      const added = imported.reduce((sum, result) => sum + result.added, 0);
+      const failed = imported.filter((result) => result.error && !result.unsupported).length;
+      toast[failed > 0 && failed === imported.length ? 'error' : 'success'](`${added} registros importados`, {
+        description: failed > 0 ? `${failed} arquivo(s) com erro` : undefined
+      });
+    } catch (error) {
+      toast.error('Falha ao importar', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setIsImporting(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const read = results.filter((result) => !result.unsupported);
+  const unsupported = results.filter((result) => result.unsupported);
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (!isImporting) handleFiles(event.dataTransfer.files);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(event) => (event.key === 'Enter' || event.key === ' ') && inputRef.current?.click()}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          'flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-center cursor-pointer transition-colors',
+          isDragging ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+        )}
+      >
+        <FileArrowUp className="w-10 h-10 text-primary" weight="duotone" />
+        <p className="font-medium">
+          {isImporting ? 'Importando...' : 'Arraste aqui as exportações do Samsung Health, Apple Health, Google Fit ou Health Connect'}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Frequência cardíaca, passos, atividades, sono, VFC, estresse, SpO₂ e pressão arterial. Dados já importados
+          são ignorados.
+        </p>
+        <Button variant="outline" size="sm" disabled={isImporting} onClick={(event) => {
+          event.stopPropagation();
+          inputRef.current?.click();
+        }}>
+          Escolher arquivos
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.zip,.xml,.json,text/csv,application/zip,text/xml,application/json"
+          multiple
+          className="hidden"
+          onClick={(event) => event.stopPropagation()}
+          onChange={(event) => handleFiles(event.target.files)}
+        />
+      </div>
+
+      {results.length > 0 && (
+        <Card className="shadow-sm">
+          <CardContent className="pt-4 space-y-2">
+            {read.map((result, index) => (
+              <div key={`${index}-${result.fileName}`} className="flex items-start gap-2 text-sm">
+                {result.error ? (
+                  <WarningCircle className="w-4 h-4 mt-0.5 text-destructive shrink-0" weight="fill" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 shrink-0" weight="fill" />
+                )}
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium truncate">{result.fileName}</span>
+                    {result.kind && <Badge variant="outline">{HEALTH_FILE_KIND_LABELS[result.kind]}</Badge>}
+                  </div>
+                  {result.error ? (
+                    <p className="text-xs text-destructive">{result.error}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {result.rows} linhas · {result.added} novos · {result.duplicates} já importados
+                      {result.skipped > 0 && ` · ${result.skipped} inválidos`}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+            {unsupported.length > 0 && (
+              <p
+                className="text-xs text-muted-foreground"
+                title={unsupported.map((result) => result.fileName).join('\n')}
+              >
+                {unsupported.length} arquivo(s) sem suporte ignorados
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
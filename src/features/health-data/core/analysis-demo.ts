@@ -366,7 +366,7 @@ export class HealthAnalysisDemo {
    * Save report to file
    */
   private static async saveReport(report: any): Promise<void> {
-    const outputPath = '/root/CODEX/mood-pharma-tracker/public/data/health';
+    const outputPath = HealthDataProcessor.OUTPUT_PATH;
     
     // Save comprehensive JSON report
     await writeFile(
@@ -176,7 +176,7 @@ export class CompleteHealthAnalysis {
     const { writeFile } = await import('fs').then(m => m.promises);
     const { join } = await import('path');
     
-    const outputPath = '/root/CODEX/mood-pharma-tracker/public/data/health';
+    const outputPath = HealthDataProcessor.OUTPUT_PATH;
     
     // Save detailed summary
     await writeFile(
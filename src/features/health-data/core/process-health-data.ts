@@ -14,8 +14,13 @@ import {
 } from './types';
 
 export class HealthDataProcessor {
-  private static readonly DATA_PATH = '/root/CODEX/mood-pharma-tracker/HEALTH_DATA';
-  private static readonly OUTPUT_PATH = '/root/CODEX/mood-pharma-tracker/public/data/health';
+  /**
+   * Offline batch run over a folder of exports, relative to the working
+   * directory unless HEALTH_DATA_DIR / HEALTH_OUTPUT_DIR say otherwise. The app
+   * itself imports through POST /api/health/import instead.
+   */
+  private static readonly DATA_PATH = process.env.HEALTH_DATA_DIR ?? join(process.cwd(), 'HEALTH_DATA');
+  static readonly OUTPUT_PATH = process.env.HEALTH_OUTPUT_DIR ?? join(process.cwd(), 'public', 'data', 'health');
 
   /**
    * Process all Samsung Health CSV files in the HEALTH_DATA directory
@@ -330,7 +335,7 @@ if (process.argv[1]?.endsWith('process-health-data.ts')) {
   HealthDataProcessor.processAllHealthData()
     .then((data) => {
       console.log('\n🎉 Todos os dados de saúde foram processados!');
-      console.log(`📁 Arquivos salvos em: ${HealthDataProcessor['OUTPUT_PATH']}`);
+      console.log(`📁 Arquivos salvos em: ${HealthDataProcessor.OUTPUT_PATH}`);
       process.exit(0);
     })
     .catch((error) => {
@@ -10,7 +10,13 @@ export type HealthDataType =
   | 'spo2' 
   | 'nutrition';
 
-export type DataSource = 'samsung-health' | 'manual' | 'other';
+export type DataSource =
+  | 'samsung-health'
+  | 'apple-health'
+  | 'google-fit'
+  | 'health-connect'
+  | 'manual'
+  | 'other';
 
 // Base interface for all health data records
 export interface BaseHealthRecord {
@@ -78,8 +84,8 @@ export interface SleepRecord extends BaseHealthRecord {
 // HRV data
 export interface HRVRecord extends BaseHealthRecord {
   type: 'hrv';
-  rmssd: number; // Root Mean Square of Successive Differences
-  sdnn?: number; // Standard deviation of NN intervals
+  rmssd?: number; // Root Mean Square of Successive Differences
+  sdnn?: number; // Standard deviation of NN intervals (Apple Health only records this one)
   pnn50?: number; // Percentage of successive RR intervals > 50ms
   stressIndex?: number; // 0-100 scale
 }
@@ -98,6 +104,22 @@ export interface StressRecord extends BaseHealthRecord {
   stressType: 'mental' | 'physical' | 'environmental' | 'unknown';
 }
 
+// Blood oxygen saturation
+export interface SpO2Record extends BaseHealthRecord {
+  type: 'spo2';
+  spo2: number; // %
+  heartRate?: number; // BPM measured alongside
+}
+
+// Blood pressure
+export interface BloodPressureRecord extends BaseHealthRecord {
+  type: 'blood-pressure';
+  systolic: number; // mmHg
+  diastolic: number; // mmHg
+  pulse?: number; // BPM
+  mean?: number; // Mean arterial pressure, mmHg
+}
+
 export interface StressMetrics {
   averageStress: number;
   maxStress: number;
@@ -119,31 +141,6 @@ export interface HealthSession {
   createdAt: number;
 }
 
-// Samsung Health specific CSV formats
-export interface SamsungHeartRateCSV {
-  Data: string;
-  Hora: string;
-  'Frequência Cardíaca': string;
-  Origem: string;
-}
-
-export interface SamsungActivityCSV {
-  'Aplicação de origem': string;
-  'Tipo de atividade': string;
-  'Nome da atividade': string;
-  Data: string;
-  Hora: string;
-  'Tempo decorrido': string;
-  'Tempo ativo': string;
-  'Distância (km)': string;
-}
-
-export interface SamsungStepsCSV {
-  Data: string;
-  Hora: string;
-  Passos: string;
-}
-
 // Correlation analysis types
 export interface HealthCorrelation {
   id: string;
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { CsvReader, detectCsvDelimiter, parseCsv, parseCsvNumber, readCsv } from './csv-reader';
+
+async function collect(rows: AsyncIterable<string[]>): Promise<string[][]> {
+  const all: string[][] = [];
+  for await (const row of rows) all.push(row);
+  return all;
+}
+
+describe('parseCsv', () => {
+  it('reads quoted fields holding delimiters, doubled quotes and line breaks', () => {
+    const rows = parseCsv('name,note\n"Walk, evening","said ""hi""\nthen left"\n');
+    assert.deepStrictEqual(rows, [
+      ['name', 'note'],
+      ['Walk, evening', 'said "hi"\nthen left']
+    ]);
+  });
+
+  it('drops a BOM, accepts CRLF, LF and CR and skips blank lines', () => {
+    const rows = parseCsv('\uFEFFa,b\r\n1,2\r\n\r\n3,4\r5,6');
+    assert.deepStrictEqual(rows, [
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+      ['5', '6']
+    ]);
+  });
+
+  it('keeps empty and untrimmed fields', () => {
+    assert.deepStrictEqual(parseCsv('a,,"" , b\n'), [['a', '', ' ', ' b']]);
+  });
+
+  it('takes the delimiter from the first line unless given', () => {
+    assert.deepStrictEqual(parseCsv('Datum;Wert\n23.06.2026;72,5\n'), [
+      ['Datum', 'Wert'],
+      ['23.06.2026', '72,5']
+    ]);
+    assert.deepStrictEqual(parseCsv('a;b,c\n', { delimiter: ',' }), [['a;b', 'c']]);
+  });
+
+  it('closes an unterminated quoted field at the end of the text', () => {
+    assert.deepStrictEqual(parseCsv('a,"b\nc'), [['a', 'b\nc']]);
+  });
+});
+
+describe('detectCsvDelimiter', () => {
+  it('counts only delimiters outside quotes', () => {
+    assert.strictEqual(detectCsvDelimiter('a;b;c'), ';');
+    assert.strictEqual(detectCsvDelimiter('"a;b;c",d'), ',');
+    assert.strictEqual(detectCsvDelimiter('a\tb\tc'), '\t');
+    assert.strictEqual(detectCsvDelimiter('single'), ',');
+  });
+});
+
+describe('streaming', () => {
+  it('returns rows as chunks complete them, wherever the chunks split', () => {
+    const reader = new CsvReader();
+    assert.deepStrictEqual(reader.push('\uFEFFDa'), []);
+    assert.strictEqual(reader.delimiter, null);
+    assert.deepStrictEqual(reader.push('tum;Wert\r'), [['Datum', 'Wert']]);
+    assert.strictEqual(reader.delimiter, ';');
+    assert.deepStrictEqual(reader.push('\n1;"a"'), []);
+    assert.deepStrictEqual(reader.push('"b"\r\n2;c'), [['1', 'a"b']]);
+    assert.deepStrictEqual(reader.flush(), [['2', 'c']]);
+  });
+
+  it('reads the same rows one character at a time as in one piece', async () => {
+    const text = '\uFEFFa,b\r\n"x\r\ny","1,5"\r\n"say ""no""",\r\n';
+    const rows = await collect(readCsv(text.split('')));
+    assert.deepStrictEqual(rows, parseCsv(text));
+    assert.deepStrictEqual(rows[1], ['x\r\ny', '1,5']);
+  });
+});
+
+describe('parseCsvNumber', () => {
+  it('reads decimal points and decimal commas', () => {
+    assert.strictEqual(parseCsvNumber('86.5'), 86.5);
+    assert.strictEqual(parseCsvNumber('72,5', ','), 72.5);
+    assert.strictEqual(parseCsvNumber('72,5'), 72.5);
+    assert.strictEqual(parseCsvNumber(' -0,25 ', ','), -0.25);
+  });
+
+  it('reads thousands grouping', () => {
+    assert.strictEqual(parseCsvNumber('1.234', ','), 1234);
+    assert.strictEqual(parseCsvNumber('1,234'), 1234);
+    assert.strictEqual(parseCsvNumber('1.234,5', ','), 1234.5);
+    assert.strictEqual(parseCsvNumber('1,234.5'), 1234.5);
+    assert.strictEqual(parseCsvNumber('12 345', ','), 12345);
+  });
+
+  it('is NaN for empty or malformed fields', () => {
+    assert.ok(Number.isNaN(parseCsvNumber('')));
+    assert.ok(Number.isNaN(parseCsvNumber('abc')));
+    assert.ok(Number.isNaN(parseCsvNumber('1,2,3', ',')));
+    assert.ok(Number.isNaN(parseCsvNumber('12bpm')));
+  });
+});
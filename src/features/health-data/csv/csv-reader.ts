@@ -0,0 +1,220 @@
+/**
+ * RFC 4180 CSV reader shared by every health CSV parser.
+ *
+ * Text is fed in chunks (`push`/`flush`, or `readCsv` over a stream) and
+ * complete rows come out as soon as they end, so a file never has to be split
+ * into lines first: quoted fields may hold delimiters, doubled quotes and line
+ * breaks. A leading BOM is dropped, CRLF, LF and CR all end a row, blank lines
+ * are skipped, and the delimiter (comma, semicolon or tab) is taken from the
+ * first line unless given. Fields come out untrimmed.
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface CsvReaderOptions {
+  delimiter?: CsvDelimiter;
+}
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+/**
+ * Delimiter that splits `line` into the most fields (quoted text not counted)
+ */
+export function detectCsvDelimiter(line: string): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number>(DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1);
+    }
+  }
+
+  let best: CsvDelimiter = ',';
+  for (const delimiter of DELIMITERS) {
+    if (counts.get(delimiter)! > counts.get(best)!) best = delimiter;
+  }
+  return best;
+}
+
+export class CsvReader {
+  private delimiterValue: CsvDelimiter | null;
+  private head = ''; // Text held back until the first line is complete
+  private started = false;
+  private field = '';
+  private row: string[] = [];
+  private inQuotes = false;
+  private afterQuote = false; // The last character closed a quoted section
+  private afterCR = false;
+  private rows: string[][] = [];
+
+  constructor(options: CsvReaderOptions = {}) {
+    this.delimiterValue = options.delimiter ?? null;
+  }
+
+  /** Delimiter in use; null until the first line has been read */
+  get delimiter(): CsvDelimiter | null {
+    return this.delimiterValue;
+  }
+
+  /**
+   * Read the next chunk of text, returning the rows it completed
+   */
+  push(chunk: string): string[][] {
+    let text = chunk;
+    if (!this.started) {
+      if (!text) return [];
+      text = text.replace(/^\uFEFF/, '');
+      this.started = true;
+    }
+
+    if (this.delimiterValue === null) {
+      this.head += text;
+      const lineEnd = this.head.search(/[\r\n]/);
+      if (lineEnd === -1) return [];
+      this.delimiterValue = detectCsvDelimiter(this.head.slice(0, lineEnd));
+      text = this.head;
+      this.head = '';
+    }
+
+    this.consume(text);
+    return this.takeRows();
+  }
+
+  /**
+   * End of the text: return the rows still pending, including a last row
+   * without a line break or an unterminated quoted field
+   */
+  flush(): string[][] {
+    if (this.delimiterValue === null) {
+      this.delimiterValue = detectCsvDelimiter(this.head);
+      this.consume(this.head);
+      this.head = '';
+    }
+    if (this.inQuotes || this.field !== '' || this.row.length > 0 || this.afterQuote) {
+      this.endRow();
+    }
+    this.inQuotes = false;
+    this.afterQuote = false;
+    return this.takeRows();
+  }
+
+  private consume(text: string) {
+    const delimiter = this.delimiterValue;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.afterCR) {
+        this.afterCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.inQuotes = false;
+          this.afterQuote = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        if (this.afterQuote) {
+          // "" inside a quoted field is a literal quote
+          this.field += '"';
+          this.inQuotes = true;
+          this.afterQuote = false;
+        } else if (this.field === '') {
+          this.inQuotes = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      this.afterQuote = false;
+      if (char === delimiter) {
+        this.row.push(this.field);
+        this.field = '';
+      } else if (char === '\n' || char === '\r') {
+        this.afterCR = char === '\r';
+        this.endRow();
+      } else {
+        this.field += char;
+      }
+    }
+  }
+
+  private endRow() {
+    this.row.push(this.field);
+    if (this.row.length > 1 || this.row[0].trim() !== '') {
+      this.rows.push(this.row);
+    }
+    this.row = [];
+    this.field = '';
+  }
+
+  private takeRows(): string[][] {
+    const rows = this.rows;
+    this.rows = [];
+    return rows;
+  }
+}
+
+/**
+ * All rows of a CSV text
+ */
+export function parseCsv(content: string, options: CsvReaderOptions = {}): string[][] {
+  const reader = new CsvReader(options);
+  return [...reader.push(content), ...reader.flush()];
+}
+
+/**
+ * Rows of a CSV arriving in chunks, e.g. a decoded file stream
+ */
+export async function* readCsv(
+  chunks: AsyncIterable<string> | Iterable<string>,
+  options: CsvReaderOptions = {}
+): AsyncGenerator<string[]> {
+  const reader = new CsvReader(options);
+  for await (const chunk of chunks) {
+    yield* reader.push(chunk);
+  }
+  yield* reader.flush();
+}
+
+/**
+ * Number written with either decimal separator: when both appear the last one
+ * is the decimal point; a lone `decimalSeparator` is one; a lone other
+ * separator is read as thousands grouping only when it groups three digits
+ * ("1.234" with a decimal comma) and as a decimal point otherwise. NaN when
+ * the field is empty or not a number.
+ */
+export function parseCsvNumber(value: string, decimalSeparator: ',' | '.' = '.'): number {
+  const text = value.trim().replace(/[\s']/g, '');
+  if (!text) return NaN;
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  let decimal: ',' | '.' | null;
+  if (lastComma !== -1 && lastDot !== -1) {
+    decimal = lastComma > lastDot ? ',' : '.';
+  } else if (lastComma === -1 && lastDot === -1) {
+    decimal = null;
+  } else {
+    const separator = lastComma !== -1 ? ',' : '.';
+    const grouped = new RegExp(`^[-+]?\\d{1,3}(\\${separator}\\d{3})+$`).test(text);
+    decimal = separator !== decimalSeparator && grouped ? null : separator;
+  }
+
+  let normalized: string;
+  if (decimal === null) {
+    normalized = text.replace(/[.,]/g, '');
+  } else {
+    const digits = text.split(decimal === ',' ? '.' : ',').join('');
+    if (digits.indexOf(decimal) !== digits.lastIndexOf(decimal)) return NaN;
+    normalized = digits.replace(decimal, '.');
+  }
+  return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(normalized) ? Number(normalized) : NaN;
+}
@@ -0,0 +1,179 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { readFileSync } from 'node:fs';
+import {
+  matchSamsungCsvHeader,
+  parseSamsungCsvDateTime,
+  readSamsungCsv,
+  SAMSUNG_CSV_PROFILES,
+  type SamsungCsvLocale
+} from './samsung-csv-profiles';
+import { parseHealthFile } from '../services/health-file-parser';
+import { SamsungHealthParser } from '../../sleep/services/samsung-health-parser';
+import type { ActivityRecord, HeartRateRecord, SleepRecord } from '../core/types';
+
+function loadFixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+}
+
+function profile(locale: SamsungCsvLocale) {
+  return SAMSUNG_CSV_PROFILES.find((candidate) => candidate.locale === locale)!;
+}
+
+// Exports are written in the phone's local time
+const at = (month: number, day: number, hours: number, minutes: number, seconds = 0) =>
+  new Date(2026, month - 1, day, hours, minutes, seconds).getTime();
+
+describe('header matching', () => {
+  it('picks the locale and kind from the column names', () => {
+    const cases: Array<[string[], SamsungCsvLocale, string]> = [
+      [['Data', 'Hora', 'Frequência Cardíaca', 'Origem'], 'pt-BR', 'heart-rate'],
+      [['Date', 'Time', 'Steps'], 'en-US', 'steps'],
+      [['\uFEFFDatum', 'Uhrzeit', 'Dauer in Sekunden', 'Schlafphase'], 'de', 'sleep'],
+      [['Fecha', 'Hora', 'Frecuencia cardíaca', 'Origen'], 'es', 'heart-rate']
+    ];
+    for (const [header, locale, kind] of cases) {
+      const match = matchSamsungCsvHeader(header);
+      assert.strictEqual(match?.profile.locale, locale, header.join(','));
+      assert.strictEqual(match?.kind, kind, header.join(','));
+    }
+  });
+
+  it('does not match unrelated headers', () => {
+    assert.strictEqual(matchSamsungCsvHeader(['name', 'dose', 'unit']), null);
+  });
+});
+
+describe('date formats', () => {
+  it('reads each locale\'s dates, in the date column or split over date and time', () => {
+    assert.strictEqual(parseSamsungCsvDateTime(profile('pt-BR'), '2026.06.23 22:21:39', '22:21:39'), at(6, 23, 22, 21, 39));
+    assert.strictEqual(parseSamsungCsvDateTime(profile('pt-BR'), '23/06/2026', '22:21'), at(6, 23, 22, 21));
+    assert.strictEqual(parseSamsungCsvDateTime(profile('en-US'), '06/23/2026', '10:21:39 PM'), at(6, 23, 22, 21, 39));
+    assert.strictEqual(parseSamsungCsvDateTime(profile('en-US'), '06/23/2026', '12:05 AM'), at(6, 23, 0, 5));
+    assert.strictEqual(parseSamsungCsvDateTime(profile('de'), '23.06.2026', '08:00:00'), at(6, 23, 8, 0));
+    assert.strictEqual(parseSamsungCsvDateTime(profile('es'), '2026-06-23', '08:00'), at(6, 23, 8, 0));
+  });
+
+  it('rejects impossible dates', () => {
+    assert.ok(Number.isNaN(parseSamsungCsvDateTime(profile('de'), '31.06.2026', '08:00')));
+    assert.ok(Number.isNaN(parseSamsungCsvDateTime(profile('en-US'), '13/24/2026', '7:05 AM')));
+    assert.ok(Number.isNaN(parseSamsungCsvDateTime(profile('es'), '24/06/2026', '25:00')));
+  });
+});
+
+describe('pt-BR exports', () => {
+  it('reads heart rate with the date and time in the Data column', () => {
+    const { kind, rows, records } = parseHealthFile('pt-BR-heart-rate.csv', loadFixture('pt-BR-heart-rate.csv'));
+    assert.strictEqual(kind, 'heart-rate');
+    assert.strictEqual(rows, 3);
+    assert.deepStrictEqual(
+      (records as HeartRateRecord[]).map((record) => [record.timestamp, record.heartRate]),
+      [
+        [at(6, 23, 22, 21, 39), 86],
+        [at(6, 23, 22, 30, 29), 94]
+      ]
+    );
+  });
+
+  it('reads activities with quoted names and decimal-comma distances', () => {
+    const table = readSamsungCsv(loadFixture('pt-BR-activity.csv'))!;
+    assert.strictEqual(table.profile.locale, 'pt-BR');
+    assert.strictEqual(table.kind, 'activity');
+    assert.strictEqual(table.rows[0].activityName, 'Caminhada, fim de tarde');
+
+    const { records } = parseHealthFile('pt-BR-activity.csv', loadFixture('pt-BR-activity.csv'));
+    const activities = records as ActivityRecord[];
+    assert.deepStrictEqual(
+      activities.map((record) => [record.timestamp, record.activityType, record.distance]),
+      [
+        [at(6, 24, 18, 5), 'WALKING', 2.4],
+        [at(6, 25, 7, 30), 'CYCLING', 15.75]
+      ]
+    );
+  });
+});
+
+describe('en-US exports', () => {
+  it('reads heart rate with US dates, AM/PM times and CRLF line ends', () => {
+    const { kind, rows, records } = parseHealthFile('en-US-heart-rate.csv', loadFixture('en-US-heart-rate.csv'));
+    assert.strictEqual(kind, 'heart-rate');
+    assert.strictEqual(rows, 3);
+    assert.deepStrictEqual(
+      (records as HeartRateRecord[]).map((record) => [record.timestamp, record.heartRate]),
+      [
+        [at(6, 23, 22, 21, 39), 86.5],
+        [at(6, 24, 7, 5), 61]
+      ]
+    );
+  });
+
+  it('reads sleep stages into a session', () => {
+    const session = SamsungHealthParser.parseSleepCSV(loadFixture('en-US-sleep.csv'));
+    assert.strictEqual(session.date, '2026-06-24');
+    assert.deepStrictEqual(
+      session.records.map((record) => record.stage),
+      ['light', 'deep', 'rem', 'awake']
+    );
+    assert.strictEqual(session.startTime, at(6, 24, 0, 10));
+    assert.strictEqual(session.endTime, at(6, 24, 1, 0));
+  });
+});
+
+describe('de exports', () => {
+  it('reads semicolon-separated heart rate with decimal commas', () => {
+    const { kind, records } = parseHealthFile('de-heart-rate.csv', loadFixture('de-heart-rate.csv'));
+    assert.strictEqual(kind, 'heart-rate');
+    assert.deepStrictEqual(
+      (records as HeartRateRecord[]).map((record) => [record.timestamp, record.heartRate]),
+      [
+        [at(6, 23, 22, 21, 39), 72.5],
+        [at(6, 23, 22, 31), 68]
+      ]
+    );
+  });
+
+  it('reads steps with a BOM and thousands separators', () => {
+    const { kind, rows, records } = parseHealthFile('de-steps.csv', loadFixture('de-steps.csv'));
+    assert.strictEqual(kind, 'steps');
+    assert.strictEqual(rows, 3);
+    assert.deepStrictEqual(
+      (records as ActivityRecord[]).map((record) => [record.timestamp, record.steps]),
+      [
+        [at(6, 23, 8, 0), 1234],
+        [at(6, 23, 8, 10), 856]
+      ]
+    );
+  });
+});
+
+describe('es exports', () => {
+  it('reads sleep with localized stage names, leaving unknown stages out', () => {
+    const { kind, rows, records } = parseHealthFile('es-sleep.csv', loadFixture('es-sleep.csv'));
+    assert.strictEqual(kind, 'sleep');
+    assert.strictEqual(rows, 5);
+    assert.deepStrictEqual(
+      (records as SleepRecord[]).map((record) => [record.timestamp, record.stage, record.duration]),
+      [
+        [at(6, 24, 0, 10), 'light', 1200],
+        [at(6, 24, 0, 30), 'deep', 900],
+        [at(6, 24, 0, 45), 'rem', 600],
+        [at(6, 24, 0, 55), 'awake', 300]
+      ]
+    );
+  });
+
+  it('reads an activity whose quoted name spans lines', () => {
+    const table = readSamsungCsv(loadFixture('es-activity.csv'))!;
+    assert.strictEqual(table.profile.locale, 'es');
+    assert.strictEqual(table.rows.length, 1);
+    assert.strictEqual(table.rows[0].activityName, 'Carrera "larga"\r\npor el parque');
+
+    const { kind, records } = parseHealthFile('es-activity.csv', loadFixture('es-activity.csv'));
+    assert.strictEqual(kind, 'activity');
+    const [run] = records as ActivityRecord[];
+    assert.strictEqual(run.timestamp, at(6, 25, 19, 0));
+    assert.strictEqual(run.activityType, 'RUNNING');
+    assert.strictEqual(run.distance, 7.25);
+    assert.strictEqual(run.duration, 2700);
+  });
+});
@@ -0,0 +1,390 @@
+import type { ActivityRecord, SleepRecord } from '../core/types';
+import type { MetricCsvKind } from '../services/health-file-parser';
+import { parseCsv, parseCsvNumber, type CsvDelimiter } from './csv-reader';
+
+/**
+ * Header-mapping profiles for the per-metric CSVs of the Samsung Health app
+ * (heart rate, steps, activity and sleep), whose column names, date and time
+ * formats, decimal separator and sleep stage / activity names follow the
+ * phone's language.
+ *
+ * A file's header is matched against every profile and the one naming the
+ * most columns wins; the columns it names decide the kind of file. Files
+ * whose header is not recognized fall back to the kind named by the file
+ * name and to the column order of the app's export.
+ */
+
+export type SamsungCsvField =
+  | 'date'
+  | 'time'
+  | 'source'
+  | 'heartRate'
+  | 'steps'
+  | 'sleepDuration' // seconds
+  | 'sleepStage'
+  | 'sourceApp'
+  | 'activityType'
+  | 'activityName'
+  | 'elapsedTime' // seconds
+  | 'activeTime' // seconds
+  | 'distanceKm';
+
+/** One data row, by field; values are trimmed */
+export type SamsungCsvRow = Partial<Record<SamsungCsvField, string>>;
+
+export type SamsungCsvLocale = 'pt-BR' | 'en-US' | 'de' | 'es';
+
+export interface SamsungCsvProfile {
+  locale: SamsungCsvLocale;
+  decimalSeparator: ',' | '.';
+  /** Date patterns (yyyy, MM, dd) tried in order; the date column may also carry the time */
+  dateFormats: string[];
+  /** Time patterns (HH or h, mm, ss, a for AM/PM) */
+  timeFormats: string[];
+  /** Column names of each field, lower case */
+  headers: Record<SamsungCsvField, string[]>;
+  /** Words in file names telling the kind of file, lower case */
+  fileNames: Record<MetricCsvKind, string[]>;
+  sleepStages: Record<string, SleepRecord['stage']>;
+  activityTypes: Record<string, ActivityRecord['activityType']>;
+}
+
+export interface SamsungCsvTable {
+  kind: MetricCsvKind;
+  profile: SamsungCsvProfile;
+  rows: SamsungCsvRow[];
+}
+
+interface SamsungCsvLayout {
+  /** Columns in the order of the app's export */
+  columns: SamsungCsvField[];
+  /** Fields whose column marks a file of this kind */
+  identifiedBy: SamsungCsvField[];
+}
+
+/** Kinds in the order they are checked, since an activity file also has steps-like columns */
+const KIND_ORDER: MetricCsvKind[] = ['sleep', 'heart-rate', 'steps', 'activity'];
+
+export const SAMSUNG_CSV_LAYOUTS: Record<MetricCsvKind, SamsungCsvLayout> = {
+  'heart-rate': { columns: ['date', 'time', 'heartRate', 'source'], identifiedBy: ['heartRate'] },
+  steps: { columns: ['date', 'time', 'steps'], identifiedBy: ['steps'] },
+  activity: {
+    columns: ['sourceApp', 'activityType', 'activityName', 'date', 'time', 'elapsedTime', 'activeTime', 'distanceKm'],
+    identifiedBy: ['elapsedTime', 'activityType']
+  },
+  sleep: { columns: ['date', 'time', 'sleepDuration', 'sleepStage'], identifiedBy: ['sleepStage', 'sleepDuration'] }
+};
+
+/** Stage and activity names the app writes untranslated in every language */
+const COMMON_SLEEP_STAGES: Record<string, SleepRecord['stage']> = {
+  light: 'light',
+  deep: 'deep',
+  rem: 'rem',
+  awake: 'awake'
+};
+
+const COMMON_ACTIVITY_TYPES: Record<string, ActivityRecord['activityType']> = {
+  walking: 'WALKING',
+  running: 'RUNNING',
+  cycling: 'CYCLING',
+  generic: 'GENERIC'
+};
+
+export const SAMSUNG_CSV_PROFILES: SamsungCsvProfile[] = [
+  {
+    locale: 'pt-BR',
+    decimalSeparator: ',',
+    dateFormats: ['yyyy.MM.dd', 'dd/MM/yyyy', 'yyyy-MM-dd'],
+    timeFormats: ['HH:mm:ss', 'HH:mm'],
+    headers: {
+      date: ['data'],
+      time: ['hora'],
+      source: ['origem'],
+      heartRate: ['frequência cardíaca'],
+      steps: ['passos'],
+      sleepDuration: ['duração em segundos'],
+      sleepStage: ['fase do sono'],
+      sourceApp: ['aplicação de origem'],
+      activityType: ['tipo de atividade'],
+      activityName: ['nome da atividade'],
+      elapsedTime: ['tempo decorrido'],
+      activeTime: ['tempo ativo'],
+      distanceKm: ['distância (km)']
+    },
+    fileNames: {
+      sleep: ['dormir', 'sono'],
+      'heart-rate': ['frequência cardíaca', 'cardíaca'],
+      steps: ['passos'],
+      activity: ['atividade', 'exercício']
+    },
+    sleepStages: { leve: 'light', 'sono leve': 'light', profundo: 'deep', 'sono profundo': 'deep', acordado: 'awake' },
+    activityTypes: { caminhada: 'WALKING', corrida: 'RUNNING', ciclismo: 'CYCLING', 'genérico': 'GENERIC' }
+  },
+  {
+    locale: 'en-US',
+    decimalSeparator: '.',
+    dateFormats: ['yyyy.MM.dd', 'MM/dd/yyyy', 'yyyy-MM-dd'],
+    timeFormats: ['HH:mm:ss', 'HH:mm', 'h:mm:ss a', 'h:mm a'],
+    headers: {
+      date: ['date'],
+      time: ['time'],
+      source: ['source'],
+      heartRate: ['heart rate'],
+      steps: ['steps'],
+      sleepDuration: ['duration in seconds', 'duration (s)'],
+      sleepStage: ['sleep stage'],
+      sourceApp: ['source app'],
+      activityType: ['activity type'],
+      activityName: ['activity name'],
+      elapsedTime: ['elapsed time'],
+      activeTime: ['active time'],
+      distanceKm: ['distance (km)']
+    },
+    fileNames: {
+      sleep: ['sleep'],
+      'heart-rate': ['heart rate', 'heart'],
+      steps: ['steps'],
+      activity: ['activity', 'exercise']
+    },
+    sleepStages: {},
+    activityTypes: {}
+  },
+  {
+    locale: 'de',
+    decimalSeparator: ',',
+    dateFormats: ['yyyy.MM.dd', 'dd.MM.yyyy', 'yyyy-MM-dd'],
+    timeFormats: ['HH:mm:ss', 'HH:mm'],
+    headers: {
+      date: ['datum'],
+      time: ['uhrzeit', 'zeit'],
+      source: ['quelle'],
+      heartRate: ['herzfrequenz'],
+      steps: ['schritte'],
+      sleepDuration: ['dauer in sekunden'],
+      sleepStage: ['schlafphase'],
+      sourceApp: ['quell-app'],
+      activityType: ['aktivitätstyp'],
+      activityName: ['aktivitätsname'],
+      elapsedTime: ['verstrichene zeit'],
+      activeTime: ['aktive zeit'],
+      distanceKm: ['distanz (km)', 'entfernung (km)']
+    },
+    fileNames: {
+      sleep: ['schlaf'],
+      'heart-rate': ['herzfrequenz'],
+      steps: ['schritte'],
+      activity: ['aktivität', 'training']
+    },
+    sleepStages: { leicht: 'light', leichtschlaf: 'light', tief: 'deep', tiefschlaf: 'deep', wach: 'awake' },
+    activityTypes: { gehen: 'WALKING', laufen: 'RUNNING', radfahren: 'CYCLING', allgemein: 'GENERIC' }
+  },
+  {
+    locale: 'es',
+    decimalSeparator: ',',
+    dateFormats: ['yyyy.MM.dd', 'dd/MM/yyyy', 'yyyy-MM-dd'],
+    timeFormats: ['HH:mm:ss', 'HH:mm'],
+    headers: {
+      date: ['fecha'],
+      time: ['hora'],
+      source: ['origen'],
+      heartRate: ['frecuencia cardíaca'],
+      steps: ['pasos'],
+      sleepDuration: ['duración en segundos'],
+      sleepStage: ['fase del sueño'],
+      sourceApp: ['aplicación de origen'],
+      activityType: ['tipo de actividad'],
+      activityName: ['nombre de la actividad'],
+      elapsedTime: ['tiempo transcurrido'],
+      activeTime: ['tiempo activo'],
+      distanceKm: ['distancia (km)']
+    },
+    fileNames: {
+      sleep: ['sueño'],
+      'heart-rate': ['frecuencia cardíaca'],
+      steps: ['pasos'],
+      activity: ['actividad', 'ejercicio']
+    },
+    sleepStages: { ligero: 'light', 'sueño ligero': 'light', profundo: 'deep', 'sueño profundo': 'deep', despierto: 'awake' },
+    activityTypes: { caminar: 'WALKING', caminata: 'WALKING', correr: 'RUNNING', ciclismo: 'CYCLING', 'genérico': 'GENERIC' }
+  }
+];
+
+function normalizeName(value: string): string {
+  return value.replace(/^\uFEFF/, '').normalize('NFC').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Profile and kind named by a header row, with the column of each field it
+ * has; null when no profile recognizes the kind of file
+ */
+export function matchSamsungCsvHeader(
+  header: string[]
+): { profile: SamsungCsvProfile; kind: MetricCsvKind; columns: Partial<Record<SamsungCsvField, number>> } | null {
+  const names = header.map(normalizeName);
+  let best: { profile: SamsungCsvProfile; columns: Partial<Record<SamsungCsvField, number>>; count: number } | null = null;
+
+  for (const profile of SAMSUNG_CSV_PROFILES) {
+    const columns: Partial<Record<SamsungCsvField, number>> = {};
+    let count = 0;
+    for (const [field, fieldNames] of Object.entries(profile.headers) as Array<[SamsungCsvField, string[]]>) {
+      const index = names.findIndex((name) => fieldNames.includes(name));
+      if (index !== -1) {
+        columns[field] = index;
+        count++;
+      }
+    }
+    if (count > 0 && (!best || count > best.count)) {
+      best = { profile, columns, count };
+    }
+  }
+
+  if (!best) return null;
+  const { columns } = best;
+  const kind = KIND_ORDER.find((candidate) =>
+    SAMSUNG_CSV_LAYOUTS[candidate].identifiedBy.some((field) => columns[field] !== undefined)
+  );
+  return kind ? { profile: best.profile, kind, columns } : null;
+}
+
+/**
+ * Kind (and language) of a file told by its name, e.g. "Frequência Cardíaca
+ * 2025.06.23 Samsung Health.csv"
+ */
+export function detectSamsungCsvKindFromName(
+  fileName: string
+): { profile: SamsungCsvProfile; kind: MetricCsvKind } | null {
+  const name = normalizeName(fileName.split('/').pop() ?? fileName);
+  for (const kind of KIND_ORDER) {
+    for (const profile of SAMSUNG_CSV_PROFILES) {
+      if (profile.fileNames[kind].some((word) => name.includes(word))) {
+        return { profile, kind };
+      }
+    }
+  }
+  return null;
+}
+
+export interface ReadSamsungCsvOptions {
+  /** Tells the kind of file when the header does not */
+  fileName?: string;
+  /** Read the file as this kind instead of detecting it */
+  kind?: MetricCsvKind;
+  delimiter?: CsvDelimiter;
+  /** false for files without a header row, read in the export's column order */
+  header?: boolean;
+}
+
+/**
+ * Rows of a per-metric CSV mapped to fields; null when the kind of file
+ * cannot be told
+ */
+export function readSamsungCsv(content: string, options: ReadSamsungCsvOptions = {}): SamsungCsvTable | null {
+  const { fileName = '', kind, delimiter, header: hasHeader = true } = options;
+  const cells = parseCsv(content, { delimiter });
+  const data = hasHeader ? cells.slice(1) : cells;
+  const match = hasHeader ? matchSamsungCsvHeader(cells[0] ?? []) : null;
+  const byName = match ? null : detectSamsungCsvKindFromName(fileName);
+  const tableKind = kind ?? match?.kind ?? byName?.kind;
+  if (!tableKind) return null;
+
+  const layout = SAMSUNG_CSV_LAYOUTS[tableKind];
+  let columns = match?.columns ?? {};
+  if (!layout.columns.some((field) => columns[field] !== undefined)) {
+    columns = Object.fromEntries(layout.columns.map((field, index) => [field, index]));
+  }
+
+  const rows = data.map((values) => {
+    const row: SamsungCsvRow = {};
+    for (const [field, index] of Object.entries(columns) as Array<[SamsungCsvField, number]>) {
+      if (values[index] !== undefined) row[field] = values[index].trim();
+    }
+    return row;
+  });
+
+  return { kind: tableKind, profile: match?.profile ?? byName?.profile ?? SAMSUNG_CSV_PROFILES[0], rows };
+}
+
+const FORMAT_TOKENS: Record<string, string> = {
+  yyyy: '(?<year>\\d{4})',
+  MM: '(?<month>\\d{1,2})',
+  dd: '(?<day>\\d{1,2})',
+  HH: '(?<hour>\\d{1,2})',
+  h: '(?<hour>\\d{1,2})',
+  mm: '(?<minute>\\d{2})',
+  ss: '(?<second>\\d{2})',
+  a: '(?<meridiem>[ap])\\.?\\s?m\\.?'
+};
+
+const compiledFormats = new Map<string, RegExp>();
+
+function compileFormat(format: string): RegExp {
+  let pattern = compiledFormats.get(format);
+  if (!pattern) {
+    const source = format
+      .split(/(yyyy|MM|dd|HH|h|mm|ss|a)/)
+      .map((part) => FORMAT_TOKENS[part] ?? part.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'))
+      .join('');
+    pattern = new RegExp(`^${source}$`, 'i');
+    compiledFormats.set(format, pattern);
+  }
+  return pattern;
+}
+
+function localTimestamp(parts: Record<string, string | undefined>): number {
+  const year = Number(parts.year);
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+  let hour = Number(parts.hour ?? 0);
+  const minute = Number(parts.minute ?? 0);
+  const second = Number(parts.second ?? 0);
+  if (parts.meridiem) {
+    if (hour < 1 || hour > 12) return NaN;
+    hour = (hour % 12) + (parts.meridiem.toLowerCase() === 'p' ? 12 : 0);
+  }
+  if (month < 1 || month > 12 || hour > 23 || minute > 59 || second > 59) return NaN;
+
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  // Rejects days past the end of the month, which Date would roll over
+  return date.getDate() === day ? date.getTime() : NaN;
+}
+
+/**
+ * Local time of a row from its date and time columns in the profile's
+ * formats; NaN when they match none
+ */
+export function parseSamsungCsvDateTime(profile: SamsungCsvProfile, date = '', time = ''): number {
+  const dateValue = date.trim();
+  const timeValue = time.trim();
+
+  for (const dateFormat of profile.dateFormats) {
+    for (const timeFormat of profile.timeFormats) {
+      const combined = compileFormat(`${dateFormat} ${timeFormat}`).exec(dateValue);
+      if (combined) return localTimestamp(combined.groups ?? {});
+    }
+
+    const dateMatch = compileFormat(dateFormat).exec(dateValue);
+    if (!dateMatch) continue;
+    if (!timeValue) return localTimestamp(dateMatch.groups ?? {});
+    for (const timeFormat of profile.timeFormats) {
+      const timeMatch = compileFormat(timeFormat).exec(timeValue);
+      if (timeMatch) return localTimestamp({ ...dateMatch.groups, ...timeMatch.groups });
+    }
+    return NaN;
+  }
+  return NaN;
+}
+
+/** Numeric field in the profile's decimal separator; NaN when empty or not a number */
+export function parseSamsungCsvNumber(profile: SamsungCsvProfile, value = ''): number {
+  return parseCsvNumber(value, profile.decimalSeparator);
+}
+
+export function samsungSleepStage(profile: SamsungCsvProfile, value = ''): SleepRecord['stage'] | null {
+  const name = normalizeName(value);
+  return profile.sleepStages[name] ?? COMMON_SLEEP_STAGES[name] ?? null;
+}
+
+export function samsungActivityType(profile: SamsungCsvProfile, value = ''): ActivityRecord['activityType'] {
+  const name = normalizeName(value);
+  return profile.activityTypes[name] ?? COMMON_ACTIVITY_TYPES[name] ?? 'OTHER';
+}
@@ -0,0 +1,146 @@
+import { createHealthRecordBase } from '../core/base-parser';
+import type { ActivityRecord, HeartRateRecord, SleepRecord } from '../core/types';
+import type { ParsedHealthExport, ParsedHealthRecord } from '../services/health-file-parser';
+
+/**
+ * Google Fit data from Google Takeout (Takeout/Fit).
+ *
+ * "All Data" has one JSON file per data source with a "Data Points" list, of
+ * which heart rate, step count and sleep segment points are read; "All
+ * Sessions" has one JSON file per workout session.
+ */
+
+interface FitPoint {
+  dataTypeName?: string;
+  startTimeNanos?: string | number;
+  endTimeNanos?: string | number;
+  fitValue?: Array<{ value?: { fpVal?: number; intVal?: number } }>;
+}
+
+interface FitSession {
+  fitnessActivity?: string;
+  startTime?: string;
+  endTime?: string;
+  duration?: string; // "1800.000s"
+  aggregate?: Array<{ metricName?: string; intValue?: number; floatValue?: number }>;
+}
+
+/** com.google.sleep.segment values; 3 (out of bed) is not sleep */
+const SLEEP_STAGES: Record<number, SleepRecord['stage']> = {
+  1: 'awake',
+  2: 'light', // Asleep, without a stage
+  4: 'light',
+  5: 'deep',
+  6: 'rem'
+};
+
+const NANOS_PER_MS = 1_000_000;
+
+function nanosToMs(value: string | number | undefined): number {
+  return value === undefined ? NaN : Math.round(Number(value) / NANOS_PER_MS);
+}
+
+function activityType(fitnessActivity: string): ActivityRecord['activityType'] {
+  if (fitnessActivity.startsWith('walking')) return 'WALKING';
+  if (fitnessActivity.startsWith('running')) return 'RUNNING';
+  if (fitnessActivity.startsWith('biking')) return 'CYCLING';
+  return 'OTHER';
+}
+
+export function isGoogleFitJson(json: unknown): boolean {
+  return typeof json === 'object' && json !== null && ('Data Points' in json || 'fitnessActivity' in json);
+}
+
+export class GoogleFitParser {
+  private readonly source = 'google-fit' as const;
+
+  parse(json: unknown): ParsedHealthExport {
+    const result: ParsedHealthExport = { rows: {}, records: [] };
+    if (!isGoogleFitJson(json)) return result;
+
+    if ('fitnessActivity' in (json as object)) {
+      const session = json as FitSession;
+      // Sleep comes from the segment points, not from the session
+      if (session.fitnessActivity === 'sleep') return result;
+      result.rows.activity = 1;
+      const record = this.parseSession(session);
+      if (record) result.records.push(record);
+      return result;
+    }
+
+    const points = (json as { 'Data Points'?: FitPoint[] })['Data Points'];
+    for (const point of Array.isArray(points) ? points : []) {
+      const parsed = this.parsePoint(point, result.rows);
+      if (parsed) result.records.push(parsed);
+    }
+    return result;
+  }
+
+  private parsePoint(point: FitPoint, rows: ParsedHealthExport['rows']): ParsedHealthRecord | null {
+    const timestamp = nanosToMs(point.startTimeNanos);
+    const end = nanosToMs(point.endTimeNanos);
+    const value = point.fitValue?.[0]?.value;
+    const duration = Number.isFinite(end) && end > timestamp ? Math.round((end - timestamp) / 1000) : 0;
+
+    switch (point.dataTypeName) {
+      case 'com.google.heart_rate.bpm': {
+        rows['heart-rate'] = (rows['heart-rate'] ?? 0) + 1;
+        const heartRate = value?.fpVal;
+        if (!Number.isFinite(timestamp) || !heartRate || heartRate <= 0 || heartRate > 300) return null;
+        const record: HeartRateRecord = {
+          ...createHealthRecordBase('heart-rate', this.source, timestamp),
+          heartRate: Math.round(heartRate)
+        };
+        return { kind: 'heart-rate', record };
+      }
+      case 'com.google.step_count.delta': {
+        rows.steps = (rows.steps ?? 0) + 1;
+        const steps = value?.intVal;
+        if (!Number.isFinite(timestamp) || steps === undefined || steps < 0) return null;
+        const record: ActivityRecord = {
+          ...createHealthRecordBase('activity', this.source, timestamp),
+          activityType: 'WALKING',
+          duration,
+          activeDuration: duration,
+          steps
+        };
+        return { kind: 'steps', record };
+      }
+      case 'com.google.sleep.segment': {
+        rows.sleep = (rows.sleep ?? 0) + 1;
+        const stage = SLEEP_STAGES[value?.intVal ?? 0];
+        if (!Number.isFinite(timestamp) || !stage || duration <= 0) return null;
+        const record: SleepRecord = { ...createHealthRecordBase('sleep', this.source, timestamp), stage, duration };
+        return { kind: 'sleep', record };
+      }
+      default:
+        return null;
+    }
+  }
+
+  private parseSession(session: FitSession): ParsedHealthRecord | null {
+    const timestamp = Date.parse(session.startTime ?? '');
+    const end = Date.parse(session.endTime ?? '');
+    const duration = session.duration
+      ? Math.round(parseFloat(session.duration))
+      : Math.round((end - timestamp) / 1000);
+    if (!Number.isFinite(timestamp) || !(duration > 0)) return null;
+
+    const metric = (name: string) => {
+      const aggregate = session.aggregate?.find((entry) => entry.metricName === name);
+      return aggregate?.intValue ?? aggregate?.floatValue;
+    };
+    const distance = metric('com.google.distance.delta');
+
+    const record: ActivityRecord = {
+      ...createHealthRecordBase('activity', this.source, timestamp),
+      activityType: activityType(session.fitnessActivity ?? ''),
+      duration,
+      activeDuration: duration,
+      steps: metric('com.google.step_count.delta'),
+      distance: distance !== undefined ? distance / 1000 : undefined,
+      calories: metric('com.google.calories.expended')
+    };
+    return { kind: 'activity', record };
+  }
+}
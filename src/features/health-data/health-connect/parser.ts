@@ -0,0 +1,183 @@
+import { createHealthRecordBase } from '../core/base-parser';
+import type { ActivityRecord, HeartRateRecord, HRVRecord, SleepRecord } from '../core/types';
+import type { HealthFileKind, ParsedHealthExport, ParsedHealthRecord } from '../services/health-file-parser';
+
+/**
+ * Health Connect records exported as JSON by export apps, shaped like the
+ * Jetpack record classes: either an object of arrays keyed by record type
+ * ({ "HeartRateRecord": [...], "StepsRecord": [...] }) or an array of records
+ * that each carry a `recordType`. Times are ISO strings or epoch milliseconds.
+ * The SQLite backup Health Connect writes itself is not read.
+ */
+
+type HealthConnectRecord = Record<string, unknown>;
+
+/** Record types read and the kind each is filed under */
+const RECORD_KINDS: Record<string, HealthFileKind> = {
+  HeartRateRecord: 'heart-rate',
+  StepsRecord: 'steps',
+  SleepSessionRecord: 'sleep',
+  HeartRateVariabilityRmssdRecord: 'hrv',
+  ExerciseSessionRecord: 'activity'
+};
+
+/** SleepSessionRecord.STAGE_TYPE_* values; 0 (unknown) and 3 (out of bed) are left out */
+const SLEEP_STAGES: Record<string, SleepRecord['stage']> = {
+  '1': 'awake',
+  '2': 'light', // Sleeping, without a stage
+  '4': 'light',
+  '5': 'deep',
+  '6': 'rem',
+  '7': 'awake', // Awake in bed
+  awake: 'awake',
+  sleeping: 'light',
+  light: 'light',
+  deep: 'deep',
+  rem: 'rem',
+  awake_in_bed: 'awake'
+};
+
+/** ExerciseSessionRecord.EXERCISE_TYPE_* values we tell apart */
+const EXERCISE_TYPES: Record<string, ActivityRecord['activityType']> = {
+  '79': 'WALKING',
+  '56': 'RUNNING',
+  '8': 'CYCLING',
+  walking: 'WALKING',
+  running: 'RUNNING',
+  biking: 'CYCLING'
+};
+
+function toTimestamp(value: unknown): number {
+  if (typeof value === 'number') return value;
+  return typeof value === 'string' ? Date.parse(value) : NaN;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/** Lower-cased enum name without its prefix ("STAGE_TYPE_DEEP" -> "deep") */
+function enumKey(value: unknown, prefix: string): string {
+  return String(value ?? '').toLowerCase().replace(prefix, '');
+}
+
+function secondsBetween(start: number, end: unknown): number {
+  const endTime = toTimestamp(end);
+  return Number.isFinite(endTime) && endTime > start ? Math.round((endTime - start) / 1000) : 0;
+}
+
+/**
+ * Records of the export grouped by record type
+ */
+function recordsByType(json: unknown): Record<string, HealthConnectRecord[]> {
+  if (Array.isArray(json)) {
+    const grouped: Record<string, HealthConnectRecord[]> = {};
+    for (const record of json) {
+      const type = (record as HealthConnectRecord)?.recordType;
+      if (typeof type === 'string') (grouped[type] ??= []).push(record);
+    }
+    return grouped;
+  }
+  if (typeof json !== 'object' || json === null) return {};
+  return Object.fromEntries(
+    Object.entries(json).filter(([type, records]) => type.endsWith('Record') && Array.isArray(records))
+  ) as Record<string, HealthConnectRecord[]>;
+}
+
+export function isHealthConnectJson(json: unknown): boolean {
+  return Object.keys(recordsByType(json)).some((type) => type in RECORD_KINDS);
+}
+
+export class HealthConnectParser {
+  private readonly source = 'health-connect' as const;
+
+  parse(json: unknown): ParsedHealthExport {
+    const result: ParsedHealthExport = { rows: {}, records: [] };
+
+    for (const [type, records] of Object.entries(recordsByType(json))) {
+      const kind = RECORD_KINDS[type];
+      if (!kind) continue;
+      for (const record of records) {
+        const parsed = this.parseRecord(kind, record);
+        // A heart rate or sleep record holds many samples/stages, each a row
+        result.rows[kind] = (result.rows[kind] ?? 0) + Math.max(1, parsed.length);
+        result.records.push(...parsed);
+      }
+    }
+    return result;
+  }
+
+  private parseRecord(kind: HealthFileKind, record: HealthConnectRecord): ParsedHealthRecord[] {
+    switch (kind) {
+      case 'heart-rate':
+        return this.parseHeartRate(record);
+      case 'sleep':
+        return this.parseSleep(record);
+      default: {
+        const parsed =
+          kind === 'steps' ? this.parseSteps(record) : kind === 'hrv' ? this.parseHRV(record) : this.parseExercise(record);
+        return parsed ? [parsed] : [];
+      }
+    }
+  }
+
+  private parseHeartRate(record: HealthConnectRecord): ParsedHealthRecord[] {
+    const samples = Array.isArray(record.samples) ? (record.samples as HealthConnectRecord[]) : [];
+    return samples.flatMap((sample) => {
+      const timestamp = toTimestamp(sample.time);
+      const heartRate = toNumber(sample.beatsPerMinute);
+      if (!Number.isFinite(timestamp) || !heartRate || heartRate <= 0 || heartRate > 300) return [];
+      const parsed: HeartRateRecord = { ...createHealthRecordBase('heart-rate', this.source, timestamp), heartRate };
+      return [{ kind: 'heart-rate' as const, record: parsed }];
+    });
+  }
+
+  private parseSleep(record: HealthConnectRecord): ParsedHealthRecord[] {
+    const stages = Array.isArray(record.stages) ? (record.stages as HealthConnectRecord[]) : [];
+    return stages.flatMap((entry) => {
+      const timestamp = toTimestamp(entry.startTime);
+      const stage = SLEEP_STAGES[enumKey(entry.stage, 'stage_type_')];
+      const duration = secondsBetween(timestamp, entry.endTime);
+      if (!Number.isFinite(timestamp) || !stage || duration <= 0) return [];
+      const parsed: SleepRecord = { ...createHealthRecordBase('sleep', this.source, timestamp), stage, duration };
+      return [{ kind: 'sleep' as const, record: parsed }];
+    });
+  }
+
+  private parseSteps(record: HealthConnectRecord): ParsedHealthRecord | null {
+    const timestamp = toTimestamp(record.startTime);
+    const steps = toNumber(record.count);
+    if (!Number.isFinite(timestamp) || steps === undefined || steps < 0) return null;
+    const duration = secondsBetween(timestamp, record.endTime);
+    const parsed: ActivityRecord = {
+      ...createHealthRecordBase('activity', this.source, timestamp),
+      activityType: 'WALKING',
+      duration,
+      activeDuration: duration,
+      steps
+    };
+    return { kind: 'steps', record: parsed };
+  }
+
+  private parseHRV(record: HealthConnectRecord): ParsedHealthRecord | null {
+    const timestamp = toTimestamp(record.time);
+    const rmssd = toNumber(record.heartRateVariabilityMillis);
+    if (!Number.isFinite(timestamp) || !rmssd || rmssd <= 0) return null;
+    const parsed: HRVRecord = { ...createHealthRecordBase('hrv', this.source, timestamp), rmssd };
+    return { kind: 'hrv', record: parsed };
+  }
+
+  private parseExercise(record: HealthConnectRecord): ParsedHealthRecord | null {
+    const timestamp = toTimestamp(record.startTime);
+    const duration = secondsBetween(timestamp, record.endTime);
+    if (!Number.isFinite(timestamp) || duration <= 0) return null;
+    const parsed: ActivityRecord = {
+      ...createHealthRecordBase('activity', this.source, timestamp),
+      activityType: EXERCISE_TYPES[enumKey(record.exerciseType, 'exercise_type_')] ?? 'OTHER',
+      duration,
+      activeDuration: duration
+    };
+    return { kind: 'activity', record: parsed };
+  }
+}
@@ -1,5 +1,13 @@
 import { BaseHealthParser } from '../core/base-parser';
-import { HeartRateRecord, SamsungHeartRateCSV } from '../core/types';
+import { HeartRateRecord } from '../core/types';
+import {
+  parseSamsungCsvDateTime,
+  parseSamsungCsvNumber,
+  readSamsungCsv,
+  type SamsungCsvProfile,
+  type SamsungCsvRow,
+  type SamsungCsvTable
+} from '../csv/samsung-csv-profiles';
 
 export class HeartRateParser extends BaseHealthParser<HeartRateRecord> {
   constructor() {
@@ -7,69 +15,49 @@ export class HeartRateParser extends BaseHealthParser<HeartRateRecord> {
   }
 
   parseCSV(csvContent: string): HeartRateRecord[] {
-    const lines = csvContent.trim().split('\n');
-    if (lines.length < 2) {
+    const table = readSamsungCsv(csvContent, { kind: 'heart-rate' });
+    if (!table || table.rows.length === 0) {
       console.warn('CSV de frequência cardíaca vazio ou inválido');
       return [];
     }
+    return this.parseTable(table);
+  }
 
-    const headerLine = lines[0];
-    const delimiter = this.detectDelimiter(headerLine);
-    const headers = this.splitCsvLine(headerLine, delimiter);
-
-    // Validate expected headers
-    const expectedHeaders = ['data', 'hora', 'frequência cardíaca', 'origem'];
-    if (!this.validateHeaders(headers, expectedHeaders)) {
-      console.warn('Headers do CSV de frequência cardíaca não reconhecidos:', headers);
-    }
-
+  /**
+   * Records of a heart rate CSV already read with readSamsungCsv
+   */
+  parseTable(table: SamsungCsvTable): HeartRateRecord[] {
     const records: HeartRateRecord[] = [];
     let errorCount = 0;
 
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
+    table.rows.forEach((row, index) => {
       try {
-        const values = this.splitCsvLine(line, delimiter);
-        const record = this.parseLine(values);
+        const record = this.parseRow(row, table.profile);
         if (record) {
           records.push(record);
         }
       } catch (error) {
-        console.warn(`Erro na linha ${i + 1} do CSV de FC:`, error);
+        console.warn(`Erro na linha ${index + 2} do CSV de FC:`, error);
         errorCount++;
       }
-    }
+    });
 
-    this.logParsingStats('Frequência Cardíaca', lines.length - 1, records.length, errorCount);
+    this.logParsingStats('Frequência Cardíaca', table.rows.length + 1, records.length, errorCount);
     return records;
   }
 
-  private parseLine(values: string[]): HeartRateRecord | null {
-    if (values.length < 3) {
-      console.warn('Linha de FC incompleta:', values);
-      return null;
-    }
-
-    const rawData: SamsungHeartRateCSV = {
-      Data: this.cleanCsvValue(values[0]),
-      Hora: this.cleanCsvValue(values[1]),
-      'Frequência Cardíaca': this.cleanCsvValue(values[2]),
-      Origem: values[3] ? this.cleanCsvValue(values[3]) : ''
-    };
-
+  private parseRow(row: SamsungCsvRow, profile: SamsungCsvProfile): HeartRateRecord | null {
     // Parse timestamp
-    const timestamp = this.parseDateTime(rawData.Data, rawData.Hora);
+    const timestamp = parseSamsungCsvDateTime(profile, row.date, row.time);
     if (!this.isValidTimestamp(timestamp)) {
-      console.warn('Timestamp inválido para FC:', rawData.Data, rawData.Hora);
+      console.warn('Timestamp inválido para FC:', row.date, row.time);
       return null;
     }
 
     // Parse heart rate
-    const heartRate = this.parseNumber(rawData['Frequência Cardíaca']);
-    if (heartRate <= 0 || heartRate > 300) {
-      console.warn('Frequência cardíaca inválida:', heartRate);
+    const heartRate = parseSamsungCsvNumber(profile, row.heartRate);
+    if (!(heartRate > 0 && heartRate <= 300)) {
+      console.warn('Frequência cardíaca inválida:', row.heartRate);
       return null;
     }
 
@@ -81,7 +69,7 @@ export class HeartRateParser extends BaseHealthParser<HeartRateRecord> {
       type: 'heart-rate',
       heartRate,
       context,
-      source_device: rawData.Origem || undefined
+      source_device: row.source || undefined
     };
   }
 
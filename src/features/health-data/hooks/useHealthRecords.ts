@@ -0,0 +1,36 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { HealthDataService, healthDb } from '../core/health-database';
+import { importHealthFiles } from '../services/health-import';
+
+const HEALTH_RECORDS_KEY = ['healthRecords'];
+
+/**
+ * Health records imported on this device (MoodPharmaHealthDB), oldest first
+ */
+export function useHealthRecords() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: HEALTH_RECORDS_KEY,
+    queryFn: () => healthDb.healthRecords.orderBy('timestamp').toArray()
+  });
+
+  const importFiles = useCallback(async (files: File[]) => {
+    const results = await importHealthFiles(files);
+    await queryClient.invalidateQueries({ queryKey: HEALTH_RECORDS_KEY });
+    return results;
+  }, [queryClient]);
+
+  const clearRecords = useCallback(async () => {
+    await HealthDataService.clearAllHealthData();
+    await queryClient.invalidateQueries({ queryKey: HEALTH_RECORDS_KEY });
+  }, [queryClient]);
+
+  return {
+    records: query.data ?? [],
+    isLoading: query.isLoading,
+    importFiles,
+    clearRecords
+  };
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import type { HeartRateRecord } from '../core/types';
+import { fetchHealthRecords, uploadHealthFile } from '../services/health-api';
 
 interface CorrelationStats {
   analysisDate: string;
@@ -40,6 +41,9 @@ interface CorrelationStats {
   }>;
 }
 
+/** Pontos de FC pedidos ao servidor; períodos longos vêm em médias */
+const MAX_HEART_RATE_POINTS = 5000;
+
 /**
  * Hook para carregar e processar dados de frequência cardíaca
  */
@@ -51,13 +55,7 @@ export function useHeartRateData() {
     queryKey: ['heartRateCorrelations'],
     queryFn: async (): Promise<CorrelationStats | null> => {
       try {
-        // Primeiro tenta carregar do arquivo JSON
-        const response = await fetch('/data/health/heart-rate-correlations-analysis.json');
-        if (response.ok) {
-          return await response.json();
-        }
-        
-        // Fallback para localStorage
+        // Estatísticas calculadas na página de importação
         const stored = localStorage.getItem('heartRateCorrelationStats');
         if (stored) {
           return JSON.parse(stored);
@@ -77,91 +75,30 @@ export function useHeartRateData() {
   const heartRateQuery = useQuery({
     queryKey: ['heartRateData'],
     queryFn: async (): Promise<HeartRateRecord[]> => {
-      try {
-        // Primeiro tenta carregar do localStorage (dados da página de importação)
-        const storedHRData = localStorage.getItem('heartRateData');
-        if (storedHRData) {
-          const data = JSON.parse(storedHRData);
-          if (Array.isArray(data) && data.length > 0) {
-            console.log('💓 Loaded HR data from localStorage:', data.length, 'records');
-            return data;
-          }
-        }
-        
-        // Tenta carregar dados resumidos do servidor
-        const summaryResponse = await fetch('/data/health/heart-rate-summary.json');
-        if (summaryResponse.ok) {
-          const summary = await summaryResponse.json();
-          if (summary.recentData && Array.isArray(summary.recentData)) {
-            console.log('💓 Loaded HR data from summary:', summary.recentData.length, 'records');
-            return summary.recentData;
-          }
-        }
-        
-        // Tenta carregar dados processados completos
-        const response = await fetch('/data/health/processed-heart-rate-data.json');
-        if (response.ok) {
-          const data = await response.json();
-          if (data.records && Array.isArray(data.records)) {
-            // Mapeia os dados para o formato esperado
-            return data.records.map((record: any) => ({
-              id: record.id || `hr_${record.timestamp}_${Math.random().toString(36).substr(2, 9)}`,
-              timestamp: record.timestamp,
-              heartRate: record.heartRate,
-              context: record.context,
-              source: 'samsung-health'
-            }));
-          }
-        }
-        
-        // Fallback: tenta carregar dados do localStorage antigo
-        const cached = localStorage.getItem('processedHeartRateData');
-        if (cached) {
-          const data = JSON.parse(cached);
-          // Verifica se os dados são recentes (menos de 1 hora)
-          if (data.timestamp && Date.now() - data.timestamp < 3600000) {
-            return data.records;
-          }
-        }
-
-        // Se não houver dados, retorna array vazio
-        return [];
-      } catch (error) {
-        console.error('Erro ao carregar dados de FC:', error);
-        return [];
-      }
+      // Registros importados no servidor (POST /api/health/import)
+      return fetchHealthRecords<HeartRateRecord>({ type: 'heart-rate', maxPoints: MAX_HEART_RATE_POINTS });
     },
     staleTime: 5 * 60 * 1000,
     gcTime: 10 * 60 * 1000,
   });
 
   /**
-   * Processa arquivos CSV de frequência cardíaca
+   * Envia arquivos CSV (ou ZIP) de frequência cardíaca para o servidor
    */
   const processCSVFiles = async (files: File[]): Promise<HeartRateRecord[]> => {
     setIsProcessing(true);
-    const allRecords: HeartRateRecord[] = [];
 
     try {
       for (const file of files) {
-        const content = await file.text();
-        const records = parseHeartRateCSV(content, file.name);
-        allRecords.push(...records);
+        const results = await uploadHealthFile(file);
+        const failed = results.find((result) => result.error);
+        if (failed) {
+          throw new Error(`${failed.fileName}: ${failed.error}`);
+        }
       }
 
-      // Ordena por timestamp
-      allRecords.sort((a, b) => a.timestamp - b.timestamp);
-
-      // Salva no localStorage
-      localStorage.setItem('processedHeartRateData', JSON.stringify({
-        timestamp: Date.now(),
-        records: allRecords
-      }));
-
-      // Invalida e recarrega a query
-      await heartRateQuery.refetch();
-
-      return allRecords;
+      const { data } = await heartRateQuery.refetch();
+      return data ?? [];
     } catch (error) {
       console.error('Erro ao processar arquivos CSV:', error);
       throw error;
@@ -170,73 +107,6 @@ export function useHeartRateData() {
     }
   };
 
-  /**
-   * Parse de CSV do Samsung Health
-   */
-  const parseHeartRateCSV = (csvContent: string, fileName: string): HeartRateRecord[] => {
-    const lines = csvContent.trim().split('\n');
-    const records: HeartRateRecord[] = [];
-    
-    // Extrai data do nome do arquivo se possível
-    const dateMatch = fileName.match(/(\d{4})\.(\d{2})\.(\d{2})/);
-    const fileDate = dateMatch 
-      ? new Date(parseInt(dateMatch[1]), parseInt(dateMatch[2]) - 1, parseInt(dateMatch[3]))
-      : null;
-
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-      
-      // Samsung Health CSV format: "2025.06.24 00:00:29","","82","",""
-      const parts = line.split(',').map(p => p.replace(/"/g, '').trim());
-      
-      if (parts.length >= 3) {
-        const dateTimeStr = parts[0];
-        const hrStr = parts[2];
-        
-        if (!dateTimeStr || !hrStr) continue;
-        
-        // Parse timestamp
-        const [datePart, timePart] = dateTimeStr.split(' ');
-        if (!datePart || !timePart) continue;
-        
-        const [year, month, day] = datePart.split('.').map(Number);
-        const [hour, minute, second] = timePart.split(':').map(Number);
-        
-        if (isNaN(year) || isNaN(month) || isNaN(day)) continue;
-        
-        const date = new Date(year, month - 1, day, hour || 0, minute || 0, second || 0);
-        const heartRate = parseInt(hrStr);
-        
-        if (heartRate > 0 && heartRate < 300) {
-          // Determina contexto baseado na FC e horário
-          let context: HeartRateRecord['context'] = 'resting';
-          
-          if ((hour >= 22 || hour <= 6) && heartRate < 70) {
-            context = 'sleep';
-          } else if (heartRate > 120) {
-            context = 'exercise';
-          } else if (heartRate > 100 || heartRate < 50) {
-            context = 'stress';
-          }
-          
-          records.push({
-            id: `hr_${date.getTime()}_${Math.random().toString(36).substr(2, 9)}`,
-            timestamp: date.getTime(),
-            heartRate,
-            context,
-            source: 'samsung-health',
-            type: 'heart-rate',
-            createdAt: Date.now(),
-            updatedAt: Date.now()
-          });
-        }
-      }
-    }
-    
-    return records;
-  };
-
   /**
    * Calcula estatísticas de correlação
    */
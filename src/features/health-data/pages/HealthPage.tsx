@@ -0,0 +1,5 @@
+import HealthDataView from '@/features/health-data/components/HealthDataView';
+
+export default function HealthPage() {
+  return <HealthDataView />;
+}
@@ -0,0 +1,280 @@
+import { BaseHealthParser } from '../core/base-parser';
+import { parseCsv } from '../csv/csv-reader';
+import type {
+  ActivityRecord,
+  BaseHealthRecord,
+  BloodPressureRecord,
+  HeartRateRecord,
+  HRVRecord,
+  SleepRecord,
+  SpO2Record,
+  StressRecord
+} from '../core/types';
+import type { HealthFileKind } from '../services/health-file-parser';
+
+/**
+ * Parsers for the CSVs of the Samsung Health "Download personal data" ZIP.
+ *
+ * Each file is named after its data type
+ * (com.samsung.shealth.tracker.heart_rate.20241019123456.csv) and starts with
+ * a metadata line (`<data type>,<version>,<n>`) before the header. Some files
+ * prefix the columns with the data type (com.samsung.health.heart_rate.start_time)
+ * and others do not, so columns are matched by their last segment. Times are
+ * UTC and the export holds the whole history, so records are accepted back
+ * to 2000.
+ */
+
+type SamsungExportRow = Record<string, string>;
+
+const EARLIEST_RECORD = Date.UTC(2000, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Data type named by the metadata line, or by the file name when the line is
+ * missing; null for files that are not part of a Samsung Health export
+ */
+export function samsungExportDataType(fileName: string, firstLine: string): string | null {
+  const [first, version] = firstLine.replace(/^\uFEFF/, '').split(',');
+  if (first?.startsWith('com.samsung.') && /^\d+$/.test(version?.trim() ?? '')) {
+    return first.trim();
+  }
+  const match = /(com\.samsung\.[\w.]+?)(?:\.\d{14})?\.csv$/i.exec(fileName.split('/').pop() ?? '');
+  return match ? match[1] : null;
+}
+
+export abstract class SamsungExportParser<T extends BaseHealthRecord> extends BaseHealthParser<T> {
+  /** Data rows read by the last parseCSV call, valid or not */
+  rowCount = 0;
+
+  parseCSV(csvContent: string): T[] {
+    const rows = parseCsv(csvContent, { delimiter: ',' });
+    const headerIndex = samsungExportDataType('', rows[0]?.join(',') ?? '') ? 1 : 0;
+    this.rowCount = Math.max(0, rows.length - headerIndex - 1);
+    if (this.rowCount === 0) {
+      console.warn(`CSV do Samsung Health (${this.dataType}) vazio ou inválido`);
+      return [];
+    }
+
+    const headers = rows[headerIndex].map((header) => header.trim().split('.').pop() ?? header);
+    const records: T[] = [];
+    let errorCount = 0;
+
+    for (let i = headerIndex + 1; i < rows.length; i++) {
+      try {
+        const row: SamsungExportRow = {};
+        headers.forEach((header, index) => {
+          row[header] = rows[i][index]?.trim() ?? '';
+        });
+
+        const timestamp = this.parseUtcDateTime(row.start_time ?? '');
+        if (!this.isValidTimestamp(timestamp)) continue;
+        const record = this.parseRow(row, timestamp);
+        if (record) {
+          records.push(record);
+        }
+      } catch (error) {
+        console.warn(`Erro na linha ${i + 1} do CSV ${this.dataType}:`, error);
+        errorCount++;
+      }
+    }
+
+    this.logParsingStats(`Samsung Health ${this.dataType}`, this.rowCount + 1, records.length, errorCount);
+    return records;
+  }
+
+  protected abstract parseRow(row: SamsungExportRow, timestamp: number): T | null;
+
+  /**
+   * Parse the export's UTC times (yyyy-MM-dd HH:mm:ss.SSS)
+   */
+  protected parseUtcDateTime(value: string): number {
+    const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?/.exec(value.trim());
+    if (!match) return NaN;
+    const [, year, month, day, hours, minutes, seconds = '0', millis = '0'] = match;
+    return Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds, +millis.padEnd(3, '0'));
+  }
+
+  protected isValidTimestamp(timestamp: number): boolean {
+    return Number.isFinite(timestamp) && timestamp >= EARLIEST_RECORD && timestamp <= Date.now() + DAY_MS;
+  }
+
+  /**
+   * Numeric column, undefined when empty or not a number
+   */
+  protected numberField(row: SamsungExportRow, column: string): number | undefined {
+    const value = row[column];
+    if (!value) return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+
+  /**
+   * Seconds between start_time and end_time, or `fallback` without an end
+   */
+  protected durationSeconds(row: SamsungExportRow, timestamp: number, fallback: number): number {
+    const end = this.parseUtcDateTime(row.end_time ?? '');
+    return Number.isFinite(end) && end > timestamp ? Math.round((end - timestamp) / 1000) : fallback;
+  }
+}
+
+export class SamsungHeartRateParser extends SamsungExportParser<HeartRateRecord> {
+  constructor() {
+    super('heart-rate');
+  }
+
+  protected parseRow(row: SamsungExportRow, timestamp: number): HeartRateRecord | null {
+    const heartRate = this.numberField(row, 'heart_rate');
+    if (heartRate === undefined || heartRate <= 0 || heartRate > 300) return null;
+    return { ...this.createBaseRecord(timestamp), type: 'heart-rate', heartRate };
+  }
+}
+
+export class SamsungStepCountParser extends SamsungExportParser<ActivityRecord> {
+  constructor() {
+    super('activity');
+  }
+
+  protected parseRow(row: SamsungExportRow, timestamp: number): ActivityRecord | null {
+    const steps = this.numberField(row, 'count');
+    if (steps === undefined || steps < 0) return null;
+    const duration = this.durationSeconds(row, timestamp, 60);
+    const distance = this.numberField(row, 'distance');
+    return {
+      ...this.createBaseRecord(timestamp),
+      type: 'activity',
+      activityType: 'WALKING',
+      duration,
+      activeDuration: duration,
+      steps,
+      distance: distance !== undefined ? distance / 1000 : undefined,
+      calories: this.numberField(row, 'calorie')
+    };
+  }
+}
+
+/** Samsung exercise_type codes of the activity types we tell apart */
+const EXERCISE_TYPES: Record<string, ActivityRecord['activityType']> = {
+  '0': 'GENERIC',
+  '1001': 'WALKING',
+  '1002': 'RUNNING',
+  '11007': 'CYCLING'
+};
+
+export class SamsungExerciseParser extends SamsungExportParser<ActivityRecord> {
+  constructor() {
+    super('activity');
+  }
+
+  protected parseRow(row: SamsungExportRow, timestamp: number): ActivityRecord | null {
+    const durationMs = this.numberField(row, 'duration');
+    const duration = durationMs !== undefined ? Math.round(durationMs / 1000) : this.durationSeconds(row, timestamp, 0);
+    if (duration <= 0) return null;
+    const distance = this.numberField(row, 'distance');
+    return {
+      ...this.createBaseRecord(timestamp),
+      type: 'activity',
+      activityType: EXERCISE_TYPES[row.exercise_type] ?? 'OTHER',
+      duration,
+      activeDuration: duration,
+      steps: this.numberField(row, 'count'),
+      distance: distance !== undefined ? distance / 1000 : undefined,
+      calories: this.numberField(row, 'calorie'),
+      avgHeartRate: this.numberField(row, 'mean_heart_rate'),
+      maxHeartRate: this.numberField(row, 'max_heart_rate')
+    };
+  }
+}
+
+const SLEEP_STAGES: Record<string, SleepRecord['stage']> = {
+  '40001': 'awake',
+  '40002': 'light',
+  '40003': 'deep',
+  '40004': 'rem'
+};
+
+export class SamsungSleepStageParser extends SamsungExportParser<SleepRecord> {
+  constructor() {
+    super('sleep');
+  }
+
+  protected parseRow(row: SamsungExportRow, timestamp: number): SleepRecord | null {
+    const stage = SLEEP_STAGES[row.stage];
+    const duration = this.durationSeconds(row, timestamp, 0);
+    if (!stage || duration <= 0) return null;
+    return { ...this.createBaseRecord(timestamp), type: 'sleep', stage, duration };
+  }
+}
+
+export class SamsungHRVParser extends SamsungExportParser<HRVRecord> {
+  constructor() {
+    super('hrv');
+  }
+
+  protected parseRow(row: SamsungExportRow, timestamp: number): HRVRecord | null {
+    const rmssd = this.numberField(row, 'rmssd');
+    if (rmssd === undefined || rmssd <= 0) return null;
+    return { ...this.createBaseRecord(timestamp), type: 'hrv', rmssd, sdnn: this.numberField(row, 'sdnn') };
+  }
+}
+
+export class SamsungStressParser extends SamsungExportParser<StressRecord> {
+  constructor() {
+    super('stress');
+  }
+
+  protected parseRow(row: SamsungExportRow, timestamp: number): StressRecord | null {
+    const stressLevel = this.numberField(row, 'score');
+    if (stressLevel === undefined || stressLevel < 0 || stressLevel > 100) return null;
+    return { ...this.createBaseRecord(timestamp), type: 'stress', stressLevel, stressType: 'unknown' };
+  }
+}
+
+export class SamsungSpO2Parser extends SamsungExportParser<SpO2Record> {
+  constructor() {
+    super('spo2');
+  }
+
+  protected parseRow(row: SamsungExportRow, timestamp: number): SpO2Record | null {
+    const spo2 = this.numberField(row, 'spo2');
+    if (spo2 === undefined || spo2 <= 0 || spo2 > 100) return null;
+    return { ...this.createBaseRecord(timestamp), type: 'spo2', spo2, heartRate: this.numberField(row, 'heart_rate') };
+  }
+}
+
+export class SamsungBloodPressureParser extends SamsungExportParser<BloodPressureRecord> {
+  constructor() {
+    super('blood-pressure');
+  }
+
+  protected parseRow(row: SamsungExportRow, timestamp: number): BloodPressureRecord | null {
+    const systolic = this.numberField(row, 'systolic');
+    const diastolic = this.numberField(row, 'diastolic');
+    if (!systolic || !diastolic || systolic <= diastolic) return null;
+    return {
+      ...this.createBaseRecord(timestamp),
+      type: 'blood-pressure',
+      systolic,
+      diastolic,
+      pulse: this.numberField(row, 'pulse'),
+      mean: this.numberField(row, 'mean')
+    };
+  }
+}
+
+/**
+ * Export files we can read, by data type; every other file of the export is
+ * reported as not supported
+ */
+export const SAMSUNG_EXPORT_FILES: Record<
+  string,
+  { kind: HealthFileKind; createParser: () => SamsungExportParser<BaseHealthRecord> }
+> = {
+  'com.samsung.shealth.tracker.heart_rate': { kind: 'heart-rate', createParser: () => new SamsungHeartRateParser() },
+  'com.samsung.shealth.tracker.pedometer_step_count': { kind: 'steps', createParser: () => new SamsungStepCountParser() },
+  'com.samsung.shealth.exercise': { kind: 'activity', createParser: () => new SamsungExerciseParser() },
+  'com.samsung.shealth.sleep_stage': { kind: 'sleep', createParser: () => new SamsungSleepStageParser() },
+  'com.samsung.health.hrv': { kind: 'hrv', createParser: () => new SamsungHRVParser() },
+  'com.samsung.shealth.stress': { kind: 'stress', createParser: () => new SamsungStressParser() },
+  'com.samsung.shealth.tracker.oxygen_saturation': { kind: 'spo2', createParser: () => new SamsungSpO2Parser() },
+  'com.samsung.shealth.blood_pressure': { kind: 'blood-pressure', createParser: () => new SamsungBloodPressureParser() }
+};
@@ -0,0 +1,51 @@
+import { apiFetch } from '@/core/services/auth-client';
+import { profileApiBase } from '@/core/services/active-profile';
+import type { BaseHealthRecord } from '../core/types';
+import type { HealthFileKind, HealthFileResult } from './health-file-parser';
+
+/**
+ * Health data stored on the server for the active profile
+ * (api/health-routes.js)
+ */
+
+export interface HealthRecordsQuery {
+  type: HealthFileKind;
+  from?: number;
+  to?: number;
+  maxPoints?: number; // Longer ranges come back averaged/summed in time buckets
+}
+
+async function parseHealthResponse<T>(response: Response): Promise<T> {
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload?.success) {
+    throw new Error(payload?.error ?? `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return payload.data;
+}
+
+/**
+ * Upload a health export file (or a ZIP of them); one result per file and kind
+ */
+export async function uploadHealthFile(file: File): Promise<HealthFileResult[]> {
+  const response = await apiFetch(`${profileApiBase()}/health/import?name=${encodeURIComponent(file.name)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': file.type || 'application/octet-stream' },
+    body: file
+  });
+  return parseHealthResponse(response);
+}
+
+export async function fetchHealthRecords<T extends BaseHealthRecord = BaseHealthRecord>(
+  query: HealthRecordsQuery
+): Promise<T[]> {
+  const params = new URLSearchParams({ type: query.type });
+  if (query.from !== undefined) params.set('from', String(query.from));
+  if (query.to !== undefined) params.set('to', String(query.to));
+  if (query.maxPoints !== undefined) params.set('maxPoints', String(query.maxPoints));
+
+  const response = await apiFetch(`${profileApiBase()}/health/records?${params}`, {
+    cache: 'no-store',
+    headers: { Accept: 'application/json' }
+  });
+  return parseHealthResponse(response);
+}
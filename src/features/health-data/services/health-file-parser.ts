@@ -0,0 +1,185 @@
+import { HeartRateParser } from '../heart-rate/parser';
+import { ActivityParser } from '../activity/parser';
+import { SamsungHealthParser } from '../../sleep/services/samsung-health-parser';
+import { SAMSUNG_EXPORT_FILES, samsungExportDataType } from '../samsung-export/parser';
+import { readSamsungCsv, type SamsungCsvTable } from '../csv/samsung-csv-profiles';
+import type { ActivityRecord, BaseHealthRecord, SleepRecord } from '../core/types';
+
+/**
+ * Parsing of Samsung Health CSV exports into health records, shared by the
+ * in-browser import (health-import.ts) and the server (api/health-routes.js),
+ * so it must not touch the browser database.
+ *
+ * The kind of each file is detected from its header, in any of the languages
+ * of csv/samsung-csv-profiles.ts (falling back to the file name), and parsed
+ * with the matching parser. Record ids are derived from the kind and the
+ * measurement time, so importing an overlapping export again only adds the
+ * records not stored yet. Files of the full Samsung Health
+ * export (com.samsung.shealth.*) go to the parsers in samsung-export/; the
+ * Apple Health, Google Fit and Health Connect exports are read by
+ * health-sources.ts.
+ */
+
+/** Kinds of the per-metric CSVs (Frequência Cardíaca, Passos, ...) */
+export type MetricCsvKind = 'heart-rate' | 'steps' | 'activity' | 'sleep';
+
+export type HealthFileKind = MetricCsvKind | 'hrv' | 'stress' | 'spo2' | 'blood-pressure';
+
+export const HEALTH_FILE_KIND_LABELS: Record<HealthFileKind, string> = {
+  'heart-rate': 'Frequência cardíaca',
+  steps: 'Passos',
+  activity: 'Atividade',
+  sleep: 'Sono',
+  hrv: 'Variabilidade da FC',
+  stress: 'Estresse',
+  spo2: 'Oxigenação (SpO₂)',
+  'blood-pressure': 'Pressão arterial'
+};
+
+export interface HealthFileResult {
+  fileName: string;
+  kind: HealthFileKind | null;
+  rows: number; // Data rows in the file
+  parsed: number; // Valid records
+  added: number;
+  duplicates: number; // Already stored, or repeated in this import
+  skipped: number; // Rows that were not valid records
+  error?: string;
+  unsupported?: boolean; // Not a kind of file we read (reported, not a failure)
+}
+
+/** A record of an export that holds several kinds, with the kind it is filed under */
+export interface ParsedHealthRecord {
+  kind: HealthFileKind;
+  record: BaseHealthRecord;
+}
+
+/** Records of such an export, with the entries of each kind it had, valid or not */
+export interface ParsedHealthExport {
+  rows: Partial<Record<HealthFileKind, number>>;
+  records: ParsedHealthRecord[];
+}
+
+/**
+ * Raised for files with no parser, e.g. the many other CSVs of a full export
+ */
+export class UnsupportedHealthFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedHealthFileError';
+  }
+}
+
+const RECORD_KINDS = new Set<string>(['heart-rate', 'activity', 'sleep', 'hrv', 'stress', 'spo2', 'blood-pressure']);
+
+/**
+ * Stable id of a measurement, the same across imports of the same data
+ */
+export function healthRecordKey(kind: HealthFileKind, record: BaseHealthRecord): string {
+  switch (kind) {
+    case 'activity':
+      return `activity-${(record as ActivityRecord).activityType}-${record.timestamp}`;
+    default:
+      return `${kind}-${record.timestamp}`;
+  }
+}
+
+/**
+ * Kind of file a stored record came from (steps and workouts are both
+ * activity records)
+ */
+export function healthRecordKind(record: BaseHealthRecord): HealthFileKind | null {
+  if (record.id.startsWith('steps-')) return 'steps';
+  return RECORD_KINDS.has(record.type) ? (record.type as HealthFileKind) : null;
+}
+
+function parseSleepRecords(table: SamsungCsvTable): SleepRecord[] {
+  const now = Date.now();
+  return SamsungHealthParser.parseSleepTable(table).records.map((record) => ({
+    id: `sleep-${record.timestamp}`,
+    timestamp: record.timestamp,
+    source: 'samsung-health',
+    type: 'sleep',
+    stage: record.stage,
+    duration: record.duration,
+    createdAt: now,
+    updatedAt: now
+  }));
+}
+
+/**
+ * Records of one CSV file, with ids from `healthRecordKey`
+ */
+export function parseHealthFile(
+  fileName: string,
+  content: string
+): { kind: HealthFileKind; rows: number; records: BaseHealthRecord[] } {
+  const exportType = samsungExportDataType(fileName, content.slice(0, content.search(/[\r\n]|$/)));
+  if (exportType) {
+    const file = SAMSUNG_EXPORT_FILES[exportType];
+    if (!file) {
+      throw new UnsupportedHealthFileError(`Dados do Samsung Health não suportados (${exportType})`);
+    }
+    const parser = file.createParser();
+    const records = parser.parseCSV(content);
+    return {
+      kind: file.kind,
+      rows: parser.rowCount,
+      records: records.map((record) => ({ ...record, id: healthRecordKey(file.kind, record) }))
+    };
+  }
+
+  const table = readSamsungCsv(content, { fileName });
+  if (!table) {
+    throw new UnsupportedHealthFileError('Formato não reconhecido (esperado frequência cardíaca, passos, atividade ou sono)');
+  }
+
+  const { kind } = table;
+  let records: BaseHealthRecord[];
+  switch (kind) {
+    case 'heart-rate':
+      records = new HeartRateParser().parseTable(table);
+      break;
+    case 'steps':
+    case 'activity':
+      records = new ActivityParser().parseTable(table);
+      break;
+    case 'sleep':
+      records = parseSleepRecords(table);
+      break;
+  }
+
+  return {
+    kind,
+    rows: table.rows.length,
+    records: records.map((record) => ({ ...record, id: healthRecordKey(kind, record) }))
+  };
+}
+
+export function emptyHealthFileResult(fileName: string): HealthFileResult {
+  return { fileName, kind: null, rows: 0, parsed: 0, added: 0, duplicates: 0, skipped: 0 };
+}
+
+/**
+ * Parse one file for an import: its records plus the result counts, with
+ * `added`/`duplicates` left for the caller to fill in once they are stored.
+ * Parse errors end up in the result instead of being thrown.
+ */
+export function parseHealthFileForImport(
+  fileName: string,
+  content: string
+): { result: HealthFileResult; records: BaseHealthRecord[] } {
+  const result = emptyHealthFileResult(fileName);
+  try {
+    const { kind, rows, records } = parseHealthFile(fileName, content);
+    result.kind = kind;
+    result.rows = rows;
+    result.parsed = records.length;
+    result.skipped = Math.max(0, rows - records.length);
+    return { result, records };
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    result.unsupported = error instanceof UnsupportedHealthFileError;
+    return { result, records: [] };
+  }
+}
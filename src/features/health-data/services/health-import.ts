@@ -0,0 +1,28 @@
+import { healthDb } from '../core/health-database';
+import type { HealthFileResult } from './health-file-parser';
+import { importHealthSources } from './health-sources';
+import type { BaseHealthRecord } from '../core/types';
+
+/**
+ * Import of health exports (Samsung Health CSVs, Apple Health, Google Fit,
+ * Health Connect, or ZIPs of them) into MoodPharmaHealthDB; parsing lives in
+ * health-sources.ts
+ */
+
+/**
+ * Parse `files` and store the records not imported before
+ */
+export async function importHealthFiles(files: File[]): Promise<HealthFileResult[]> {
+  const seen = new Set<string>();
+
+  return importHealthSources(files, async (records: BaseHealthRecord[]) => {
+    const stored = await healthDb.healthRecords.bulkGet(records.map((record) => record.id));
+    const fresh = records.filter((record, index) => {
+      if (stored[index] || seen.has(record.id)) return false;
+      seen.add(record.id);
+      return true;
+    });
+    await healthDb.healthRecords.bulkAdd(fresh);
+    return fresh.length;
+  });
+}
@@ -0,0 +1,175 @@
+import { AppleHealthParser } from '../apple-health/parser';
+import { GoogleFitParser, isGoogleFitJson } from '../google-fit/parser';
+import { HealthConnectParser, isHealthConnectJson } from '../health-connect/parser';
+import { listZipEntries } from './zip-reader';
+import {
+  emptyHealthFileResult,
+  healthRecordKey,
+  parseHealthFileForImport,
+  type HealthFileKind,
+  type HealthFileResult,
+  type ParsedHealthExport,
+  type ParsedHealthRecord
+} from './health-file-parser';
+import type { BaseHealthRecord } from '../core/types';
+
+/**
+ * Import of every health export we read, shared by the browser (with
+ * MoodPharmaHealthDB as the store) and the server (with health-store.js):
+ *
+ * - .csv: Samsung Health CSVs (health-file-parser.ts)
+ * - .xml: Apple Health export.xml, streamed
+ * - .json: Google Takeout Fit files and Health Connect JSON exports
+ * - .zip: any of the above, e.g. the full Samsung export, Apple's export.zip
+ *   or a Takeout archive; other files in it are left out
+ *
+ * Files holding several kinds get one result per kind found.
+ */
+
+/** A file to import; File and the entries of listZipEntries both fit */
+export interface HealthSourceFile {
+  name: string;
+  stream(): ReadableStream<Uint8Array>;
+  text(): Promise<string>;
+}
+
+/** Stores records not stored before, resolving to how many were added */
+export type HealthRecordSink = (records: BaseHealthRecord[]) => Promise<number>;
+
+const ARCHIVE_FILE_PATTERN = /\.(csv|json|xml)$/i;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function* decodeChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let done = false;
+  try {
+    while (!done) {
+      const chunk = await reader.read();
+      done = chunk.done;
+      yield decoder.decode(chunk.value, { stream: !done });
+    }
+  } finally {
+    if (!done) await reader.cancel();
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Results of a file holding several kinds, filled in as its records are stored
+ */
+function createExportResults(fileName: string, store: HealthRecordSink) {
+  const results = new Map<HealthFileKind, HealthFileResult>();
+  const resultFor = (kind: HealthFileKind) => {
+    let result = results.get(kind);
+    if (!result) {
+      result = { ...emptyHealthFileResult(fileName), kind };
+      results.set(kind, result);
+    }
+    return result;
+  };
+
+  return {
+    async store(parsed: ParsedHealthRecord[]) {
+      const byKind = new Map<HealthFileKind, BaseHealthRecord[]>();
+      for (const { kind, record } of parsed) {
+        if (!byKind.has(kind)) byKind.set(kind, []);
+        byKind.get(kind)!.push({ ...record, id: healthRecordKey(kind, record) });
+      }
+      for (const [kind, records] of byKind) {
+        const result = resultFor(kind);
+        const added = await store(records);
+        result.parsed += records.length;
+        result.added += added;
+        result.duplicates += records.length - added;
+      }
+    },
+
+    finish(rows: ParsedHealthExport['rows']): HealthFileResult[] {
+      for (const [kind, count] of Object.entries(rows) as Array<[HealthFileKind, number]>) {
+        const result = resultFor(kind);
+        result.rows = count;
+        result.skipped = Math.max(0, count - result.parsed);
+      }
+      if (results.size === 0) {
+        return [{ ...emptyHealthFileResult(fileName), error: 'Nenhum dado de saúde reconhecido', unsupported: true }];
+      }
+      return [...results.values()];
+    }
+  };
+}
+
+async function importCsv(file: HealthSourceFile, store: HealthRecordSink): Promise<HealthFileResult[]> {
+  const { result, records } = parseHealthFileForImport(file.name, await file.text());
+  if (!result.error) {
+    result.added = await store(records);
+    result.duplicates = records.length - result.added;
+  }
+  return [result];
+}
+
+async function importAppleHealthXml(file: HealthSourceFile, store: HealthRecordSink): Promise<HealthFileResult[]> {
+  const results = createExportResults(file.name, store);
+  const parser = new AppleHealthParser();
+  await parser.parse(decodeChunks(file.stream()), (records) => results.store(records));
+  return results.finish(parser.rows);
+}
+
+async function importJson(file: HealthSourceFile, store: HealthRecordSink): Promise<HealthFileResult[]> {
+  const json: unknown = JSON.parse(await file.text());
+  let parsed: ParsedHealthExport;
+  if (isGoogleFitJson(json)) {
+    parsed = new GoogleFitParser().parse(json);
+  } else if (isHealthConnectJson(json)) {
+    parsed = new HealthConnectParser().parse(json);
+  } else {
+    return [
+      {
+        ...emptyHealthFileResult(file.name),
+        error: 'Formato JSON não reconhecido (esperado Google Fit ou Health Connect)',
+        unsupported: true
+      }
+    ];
+  }
+
+  const results = createExportResults(file.name, store);
+  await results.store(parsed.records);
+  return results.finish(parsed.rows);
+}
+
+async function importFile(file: HealthSourceFile, store: HealthRecordSink): Promise<HealthFileResult[]> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.zip')) {
+    if (!(file instanceof Blob)) {
+      throw new Error('ZIP dentro de ZIP não é suportado');
+    }
+    const entries = (await listZipEntries(file)).filter((entry) => ARCHIVE_FILE_PATTERN.test(entry.name));
+    return importHealthSources(entries, store);
+  }
+  if (name.endsWith('.xml')) return importAppleHealthXml(file, store);
+  if (name.endsWith('.json')) return importJson(file, store);
+  return importCsv(file, store);
+}
+
+/**
+ * Parse `files` and hand their records to `store`, one result per file and
+ * kind; a file that fails is reported in its result and the others still go
+ * in
+ */
+export async function importHealthSources(
+  files: HealthSourceFile[],
+  store: HealthRecordSink
+): Promise<HealthFileResult[]> {
+  const results: HealthFileResult[] = [];
+  for (const file of files) {
+    try {
+      results.push(...(await importFile(file, store)));
+    } catch (error) {
+      results.push({ ...emptyHealthFileResult(file.name), error: errorMessage(error) });
+    }
+  }
+  return results;
+}
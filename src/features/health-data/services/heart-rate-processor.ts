@@ -1,6 +1,14 @@
 import { format, parseISO, isValid } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import type { HeartRateRecord as BaseHeartRateRecord } from '../core/types';
+import { parseCsv } from '../csv/csv-reader';
+import {
+  parseSamsungCsvDateTime,
+  parseSamsungCsvNumber,
+  readSamsungCsv,
+  type SamsungCsvProfile,
+  type SamsungCsvRow
+} from '../csv/samsung-csv-profiles';
 
 export interface HeartRateRecord extends BaseHeartRateRecord {
   date: Date;
@@ -83,29 +91,30 @@ export class HeartRateProcessor {
    */
   private async processFile(file: File): Promise<void> {
     const content = await file.text();
-    const lines = content.trim().split('\n');
-    
-    if (lines.length < 2) {
+
+    // Detecta formato do CSV baseado no header (em qualquer idioma do Samsung Health)
+    const table = readSamsungCsv(content);
+    const isSamsungHealth = table?.kind === 'heart-rate';
+    const genericRows = isSamsungHealth ? [] : parseCsv(content).slice(1);
+    const rowCount = isSamsungHealth ? table.rows.length : genericRows.length;
+
+    if (rowCount === 0) {
       this.errors.push(`${file.name}: arquivo vazio ou inválido`);
       return;
     }
 
-    // Detecta formato do CSV baseado no header
-    const header = lines[0].toLowerCase();
-    const isSamsungHealth = header.includes('data') && header.includes('frequência');
-    
-    for (let i = 1; i < lines.length; i++) {
+    for (let i = 0; i < rowCount; i++) {
       try {
         const record = isSamsungHealth 
-          ? this.parseSamsungHealthLine(lines[i], file.name)
-          : this.parseGenericLine(lines[i], file.name);
+          ? this.parseSamsungHealthRow(table.rows[i], table.profile, file.name)
+          : this.parseGenericRow(genericRows[i].map(p => p.trim()), file.name);
         
         if (record) {
           this.records.push(record);
         }
       } catch (error) {
         // Log erro mas continua processando
-        console.warn(`Erro na linha ${i} de ${file.name}:`, error);
+        console.warn(`Erro na linha ${i + 1} de ${file.name}:`, error);
       }
     }
   }
@@ -114,32 +123,22 @@ export class HeartRateProcessor {
    * Parse linha do formato Samsung Health
    * Format: "2025.08.24 21:12:00","21:12:00","71",""
    */
-  private parseSamsungHealthLine(line: string, fileName: string): HeartRateRecord | null {
-    const parts = line.split(',').map(p => p.replace(/"/g, '').trim());
-    
-    if (parts.length < 3) return null;
-
-    const dateTimeStr = parts[0];
-    const hrStr = parts[2];
-    
-    if (!dateTimeStr || !hrStr) return null;
+  private parseSamsungHealthRow(
+    row: SamsungCsvRow,
+    profile: SamsungCsvProfile,
+    fileName: string
+  ): HeartRateRecord | null {
+    if (!row.date || !row.heartRate) return null;
 
     // Parse da data e hora
-    const [datePart, timePart] = dateTimeStr.split(' ');
-    if (!datePart || !timePart) return null;
-
-    const [year, month, day] = datePart.split('.').map(Number);
-    const [hour, minute, second] = timePart.split(':').map(Number);
-    
-    if (isNaN(year) || isNaN(month) || isNaN(day)) return null;
-
-    const date = new Date(year, month - 1, day, hour || 0, minute || 0, second || 0);
-    const heartRate = parseInt(hrStr);
+    const timestamp = parseSamsungCsvDateTime(profile, row.date, row.time);
+    const date = new Date(timestamp);
+    const hour = date.getHours();
+    const heartRate = Math.round(parseSamsungCsvNumber(profile, row.heartRate));
 
     // Validação de valores
     if (!isValid(date) || heartRate < 30 || heartRate > 250) return null;
 
-    const timestamp = date.getTime();
     const isNight = hour >= 22 || hour <= 6;
     const dayOfWeek = date.getDay();
     const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
@@ -184,9 +183,7 @@ export class HeartRateProcessor {
   /**
    * Parse linha de formato genérico
    */
-  private parseGenericLine(line: string, fileName: string): HeartRateRecord | null {
-    const parts = line.split(',').map(p => p.trim());
-    
+  private parseGenericRow(parts: string[], fileName: string): HeartRateRecord | null {
     if (parts.length < 2) return null;
 
     // Tenta diferentes formatos de data/hora
@@ -0,0 +1,95 @@
+/**
+ * Minimal reader for the ZIP archives health apps export, used by the browser
+ * import and by the server (api/health-routes.js). It reads the central
+ * directory from the end of the archive and streams each file through
+ * DecompressionStream (available in browsers and Node alike), so a large
+ * entry such as Apple Health's export.xml never has to be held in memory.
+ * Only stored and deflated entries are supported (no encryption, no ZIP64).
+ */
+
+export interface ZipEntry {
+  name: string;
+  stream(): ReadableStream<Uint8Array>;
+  text(): Promise<string>;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+export function isZipArchive(data: Uint8Array): boolean {
+  return data.length >= 4 && new DataView(data.buffer, data.byteOffset, 4).getUint32(0, true) === LOCAL_HEADER_SIGNATURE;
+}
+
+async function readBytes(archive: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await archive.slice(start, end).arrayBuffer());
+}
+
+async function findEndOfCentralDirectory(archive: Blob): Promise<DataView> {
+  // The record is 22 bytes plus a comment of at most 64 KiB
+  const tailStart = Math.max(0, archive.size - 22 - 0xffff);
+  const tail = await readBytes(archive, tailStart, archive.size);
+  for (let offset = tail.byteLength - 22; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return new DataView(tail.buffer, offset, 22);
+    }
+  }
+  throw new Error('Invalid ZIP archive: end of central directory not found');
+}
+
+/**
+ * Files of a ZIP archive (directories are skipped); nothing is inflated until
+ * an entry is read
+ */
+export async function listZipEntries(archive: Blob): Promise<ZipEntry[]> {
+  const end = await findEndOfCentralDirectory(archive);
+  const count = end.getUint16(10, true);
+  const directoryStart = end.getUint32(16, true);
+  const directory = await readBytes(archive, directoryStart, directoryStart + end.getUint32(12, true));
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Invalid ZIP archive: corrupt central directory');
+    }
+    const flags = directory.getUint16(offset + 8, true);
+    const method = directory.getUint16(offset + 10, true);
+    const compressedSize = directory.getUint32(offset + 20, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const localOffset = directory.getUint32(offset + 42, true);
+    const name = new TextDecoder(flags & 0x800 ? 'utf-8' : 'latin1').decode(
+      new Uint8Array(directory.buffer, offset + 46, nameLength)
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) {
+      throw new Error(`Encrypted ZIP entries are not supported: ${name}`);
+    }
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error(`ZIP64 entries are not supported: ${name}`);
+    }
+    if (method !== STORED && method !== DEFLATED) {
+      throw new Error(`Unsupported ZIP compression method ${method}: ${name}`);
+    }
+
+    // The local header repeats the name and has its own extra field length
+    const local = await readBytes(archive, localOffset, localOffset + 30);
+    if (local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid ZIP archive: corrupt entry ${name}`);
+    }
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    const data = archive.slice(dataStart, dataStart + compressedSize);
+    const stream = () =>
+      method === DEFLATED ? data.stream().pipeThrough(new DecompressionStream('deflate-raw')) : data.stream();
+
+    entries.push({ name, stream, text: () => new Response(stream()).text() });
+  }
+
+  return entries;
+}
@@ -1,9 +1,16 @@
 import type { HeartRateRecord } from '../core/types';
+import { parseCsv, type CsvDelimiter } from '../csv/csv-reader';
+import {
+  parseSamsungCsvDateTime,
+  parseSamsungCsvNumber,
+  readSamsungCsv,
+  type SamsungCsvProfile,
+  type SamsungCsvRow
+} from '../csv/samsung-csv-profiles';
 
 export interface CSVParseOptions {
   skipHeader?: boolean;
-  delimiter?: string;
-  trimFields?: boolean;
+  delimiter?: CsvDelimiter; // Detected from the first line when not given
 }
 
 export interface HeartRateCSVParseOptions extends CSVParseOptions {
@@ -33,37 +40,21 @@ export function parseSamsungHealthHeartRateCSV(
 ): HeartRateRecord[] {
   const {
     skipHeader = true,
-    delimiter = ',',
-    trimFields = true,
+    delimiter,
     fileName = '',
     validateHR = DEFAULT_HR_VALIDATION,
     inferContext = true
   } = options;
 
-  const lines = csvContent.trim().split('\n');
+  const { rows, profile } = readSamsungCsv(csvContent, { fileName, kind: 'heart-rate', delimiter, header: skipHeader })!;
   const records: HeartRateRecord[] = [];
-  const startLine = skipHeader ? 1 : 0;
 
-  const fileDate = extractDateFromFileName(fileName);
-
-  for (let i = startLine; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const parts = line.split(delimiter).map(p => 
-      trimFields ? p.replace(/"/g, '').trim() : p.replace(/"/g, '')
-    );
-
-    if (parts.length < 3) continue;
-
-    const dateTimeStr = parts[0];
-    const hrStr = parts[2];
-
-    if (!dateTimeStr || !hrStr) continue;
+  for (const row of rows) {
+    if (!row.date || !row.heartRate) continue;
 
     const parsedRecord = parseHeartRateEntry(
-      dateTimeStr, 
-      hrStr, 
+      row,
+      profile,
       validateHR, 
       inferContext
     );
@@ -77,34 +68,22 @@ export function parseSamsungHealthHeartRateCSV(
 }
 
 function parseHeartRateEntry(
-  dateTimeStr: string,
-  hrStr: string,
+  row: SamsungCsvRow,
+  profile: SamsungCsvProfile,
   validateHR: (hr: number) => boolean,
   inferContext: boolean
 ): HeartRateRecord | null {
-  const [datePart, timePart] = dateTimeStr.split(' ');
-  if (!datePart || !timePart) return null;
-
-  const [year, month, day] = datePart.split('.').map(Number);
-  const [hour, minute, second] = timePart.split(':').map(Number);
-
-  if (isNaN(year) || isNaN(month) || isNaN(day) || 
-      year < 2000 || year > 2100 ||
-      month < 1 || month > 12 ||
-      day < 1 || day > 31) {
-    return null;
-  }
+  const timestamp = parseSamsungCsvDateTime(profile, row.date, row.time);
+  if (!Number.isFinite(timestamp)) return null;
 
-  const date = new Date(year, month - 1, day, hour || 0, minute || 0, second || 0);
-  
-  if (isNaN(date.getTime())) return null;
+  const date = new Date(timestamp);
+  if (date.getFullYear() < 2000 || date.getFullYear() > 2100) return null;
 
-  const heartRate = parseInt(hrStr);
+  const heartRate = Math.round(parseSamsungCsvNumber(profile, row.heartRate));
   
   if (isNaN(heartRate) || !validateHR(heartRate)) return null;
 
-  const timestamp = date.getTime();
-  const context = inferContext ? inferHeartRateContext(heartRate, hour || 0) : undefined;
+  const context = inferContext ? inferHeartRateContext(heartRate, date.getHours()) : undefined;
 
   return {
     id: `hr_${timestamp}_${Math.random().toString(36).substr(2, 9)}`,
@@ -118,31 +97,13 @@ function parseHeartRateEntry(
   };
 }
 
-function extractDateFromFileName(fileName: string): Date | null {
-  const dateMatch = fileName.match(/(\d{4})\.(\d{2})\.(\d{2})/);
-  if (!dateMatch) return null;
-  
-  const year = parseInt(dateMatch[1]);
-  const month = parseInt(dateMatch[2]);
-  const day = parseInt(dateMatch[3]);
-  
-  if (year < 2000 || year > 2100 || month < 1 || month > 12 || day < 1 || day > 31) {
-    return null;
-  }
-  
-  return new Date(year, month - 1, day);
-}
-
 export function parseCSVLine(
   line: string, 
-  delimiter: string = ',', 
+  delimiter: CsvDelimiter = ',', 
   trimFields: boolean = true
 ): string[] {
-  const parts = line.split(delimiter);
-  return parts.map(p => {
-    let field = p.replace(/^"|"$/g, '');
-    return trimFields ? field.trim() : field;
-  });
+  const fields = parseCsv(line, { delimiter })[0] ?? [];
+  return trimFields ? fields.map(field => field.trim()) : fields;
 }
 
 export function validateCSVStructure(
@@ -150,16 +111,15 @@ export function validateCSVStructure(
   expectedColumns: number,
   options: CSVParseOptions = {}
 ): { valid: boolean; error?: string } {
-  const { skipHeader = true, delimiter = ',' } = options;
+  const { skipHeader = true, delimiter } = options;
   
-  const lines = csvContent.trim().split('\n');
+  const rows = parseCsv(csvContent, { delimiter });
   
-  if (lines.length < (skipHeader ? 2 : 1)) {
+  if (rows.length < (skipHeader ? 2 : 1)) {
     return { valid: false, error: 'CSV tem linhas insuficientes' };
   }
 
-  const headerLine = lines[0];
-  const headerParts = parseCSVLine(headerLine, delimiter);
+  const headerParts = rows[0];
   
   if (headerParts.length < expectedColumns) {
     return { 
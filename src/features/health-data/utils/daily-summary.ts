@@ -0,0 +1,65 @@
+import { format } from 'date-fns';
+import type { ActivityRecord, BaseHealthRecord, HeartRateRecord, SleepRecord } from '../core/types';
+import { healthRecordKind } from '../services/health-file-parser';
+
+/** Sleep is attributed to the night it started: stages before noon belong to the previous evening */
+const NIGHT_SHIFT_MS = 12 * 60 * 60 * 1000;
+
+export interface DailyHealthSummary {
+  date: string; // yyyy-MM-dd, local
+  heartRateAvg?: number;
+  heartRateMin?: number;
+  heartRateMax?: number;
+  heartRateSamples: number;
+  steps?: number;
+  activeMinutes?: number;
+  sleepHours?: number; // Light + deep + REM of the night starting on `date`
+}
+
+/**
+ * One row per local day with heart rate, steps, workout and sleep totals,
+ * oldest first
+ */
+export function summarizeHealthByDay(records: BaseHealthRecord[]): DailyHealthSummary[] {
+  const days = new Map<string, DailyHealthSummary & { heartRateSum: number }>();
+  const dayOf = (date: string) => {
+    let day = days.get(date);
+    if (!day) {
+      day = { date, heartRateSamples: 0, heartRateSum: 0 };
+      days.set(date, day);
+    }
+    return day;
+  };
+
+  for (const record of records) {
+    const kind = healthRecordKind(record);
+    if (kind === 'heart-rate') {
+      const { heartRate } = record as HeartRateRecord;
+      const day = dayOf(format(record.timestamp, 'yyyy-MM-dd'));
+      day.heartRateSamples += 1;
+      day.heartRateSum += heartRate;
+      day.heartRateMin = Math.min(day.heartRateMin ?? heartRate, heartRate);
+      day.heartRateMax = Math.max(day.heartRateMax ?? heartRate, heartRate);
+    } else if (kind === 'steps') {
+      const day = dayOf(format(record.timestamp, 'yyyy-MM-dd'));
+      day.steps = (day.steps ?? 0) + ((record as ActivityRecord).steps ?? 0);
+    } else if (kind === 'activity') {
+      const day = dayOf(format(record.timestamp, 'yyyy-MM-dd'));
+      day.activeMinutes = (day.activeMinutes ?? 0) + (record as ActivityRecord).activeDuration / 60;
+    } else if (kind === 'sleep') {
+      const { stage, duration } = record as SleepRecord;
+      if (stage === 'awake') continue;
+      const day = dayOf(format(record.timestamp - NIGHT_SHIFT_MS, 'yyyy-MM-dd'));
+      day.sleepHours = (day.sleepHours ?? 0) + duration / 3600;
+    }
+  }
+
+  return Array.from(days.values())
+    .map(({ heartRateSum, ...day }) => ({
+      ...day,
+      heartRateAvg: day.heartRateSamples > 0 ? Math.round(heartRateSum / day.heartRateSamples) : undefined,
+      activeMinutes: day.activeMinutes !== undefined ? Math.round(day.activeMinutes) : undefined,
+      sleepHours: day.sleepHours !== undefined ? Math.round(day.sleepHours * 10) / 10 : undefined
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,327 @@
+/**
+ * Dose Schedules View
+ *
+ * Titration and taper schedules for one medication: build one from a template
+ * or step by step, and follow how the logged doses match the dose each step
+ * expects (see dose-schedules.ts).
+ */
+
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { Plus, Stairs, Trash } from '@phosphor-icons/react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/ui/dialog';
+import { Card, CardContent } from '@/shared/ui/card';
+import { Button } from '@/shared/ui/button';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { Badge } from '@/shared/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+import type { DoseSchedule, DoseScheduleKind, Medication } from '@/shared/types';
+import { cn, safeFormat } from '@/shared/utils';
+import { fieldErrorMap, validateDraft } from '@/core/services/entity-schemas';
+import { useDoseSchedules } from '@/hooks/use-dose-schedules';
+import { useDoses } from '@/hooks/use-doses';
+import {
+  SCHEDULE_TEMPLATES,
+  calculateScheduleAdherence,
+  getStepAt,
+  getStepDates,
+  type ScheduleDayStatus
+} from '@/features/analytics/utils/dose-schedules';
+
+const KIND_LABELS: Record<DoseScheduleKind, string> = {
+  titration: 'Titulação',
+  taper: 'Redução'
+};
+
+const STATUS_LABELS: Record<ScheduleDayStatus, string> = {
+  ok: 'no esquema',
+  missed: 'sem dose',
+  under: 'abaixo',
+  over: 'acima'
+};
+
+const CUSTOM_TEMPLATE = 'custom';
+
+interface StepField {
+  dose: string;
+  days: string;
+}
+
+interface DoseSchedulesViewProps {
+  medication: Medication;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function FieldMessage({ message }: { message?: string }) {
+  return message ? <p className="text-xs text-destructive">{message}</p> : null;
+}
+
+function ScheduleCard({ schedule, onDelete }: { schedule: DoseSchedule; onDelete: () => void }) {
+  const { doses } = useDoses(schedule.medicationId);
+  const steps = useMemo(() => getStepDates(schedule), [schedule]);
+  const adherence = useMemo(() => calculateScheduleAdherence(schedule, doses), [schedule, doses]);
+  const current = getStepAt(schedule, Date.now());
+  const deviations = adherence.days.filter((day) => day.status !== 'ok').slice(-7).reverse();
+  const end = steps[steps.length - 1].end;
+
+  return (
+    <Card className="shadow-sm">
+      <CardContent className="pt-4 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <div className="flex items-center gap-2">
+              <span className="font-semibold">{schedule.name || KIND_LABELS[schedule.kind]}</span>
+              <Badge variant="outline">{KIND_LABELS[schedule.kind]}</Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {safeFormat(steps[0].start, 'dd/MM/yyyy')} – {safeFormat(end - 1, 'dd/MM/yyyy')}
+              {current ? ` · etapa ${current.index + 1} de ${steps.length}` : Date.now() >= end ? ' · concluído' : ' · não iniciado'}
+            </p>
+          </div>
+          <Button variant="destructive" size="sm" onClick={onDelete}>
+            <Trash className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground">
+              <th className="font-medium py-1">Etapa</th>
+              <th className="font-medium py-1">Período</th>
+              <th className="font-medium py-1 text-right">mg/dia</th>
+            </tr>
+          </thead>
+          <tbody>
+            {steps.map((step) => (
+              <tr key={step.index} className={cn(current?.index === step.index && 'font-semibold text-primary')}>
+                <td className="py-0.5">{step.index + 1}</td>
+                <td className="py-0.5">
+                  {safeFormat(step.start, 'dd/MM')} – {safeFormat(step.end - 1, 'dd/MM')} ({step.days} d)
+                </td>
+                <td className="py-0.5 text-right">{step.dose}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {adherence.rate !== null && (
+          <div className="space-y-1 text-xs">
+            <p>
+              Adesão ao esquema: <span className="font-semibold">{Math.round(adherence.rate * 100)}%</span>{' '}
+              <span className="text-muted-foreground">
+                ({adherence.onScheduleDays} de {adherence.days.length} dias com a dose prevista)
+              </span>
+            </p>
+            {deviations.length > 0 && (
+              <ul className="text-muted-foreground space-y-0.5">
+                {deviations.map((day) => (
+                  <li key={day.date}>
+                    {safeFormat(day.date, 'dd/MM')}: {day.taken} mg registrados, {day.expected} mg previstos ·{' '}
+                    <span className={cn(day.status === 'over' ? 'text-destructive' : 'text-amber-600')}>
+                      {STATUS_LABELS[day.status]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DoseSchedulesView({ medication, open, onOpenChange }: DoseSchedulesViewProps) {
+  const { doseSchedules, createDoseSchedule, deleteDoseSchedule } = useDoseSchedules(medication.id);
+
+  const [templateId, setTemplateId] = useState<string>(CUSTOM_TEMPLATE);
+  const [templateDose, setTemplateDose] = useState(() => medication.defaultDose?.toString() ?? '');
+  const [kind, setKind] = useState<DoseScheduleKind>('titration');
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState(() => safeFormat(Date.now(), 'yyyy-MM-dd', ''));
+  const [steps, setSteps] = useState<StepField[]>([{ dose: '', days: '14' }]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const applyTemplate = (id: string, dose: string) => {
+    setTemplateId(id);
+    setTemplateDose(dose);
+    const template = SCHEDULE_TEMPLATES.find((item) => item.id === id);
+    const amount = parseFloat(dose.replace(',', '.'));
+    if (!template || !(amount > 0)) return;
+
+    setKind(template.kind);
+    setName(template.label);
+    setSteps(template.buildSteps(amount).map((step) => ({ dose: step.dose.toString(), days: step.days.toString() })));
+  };
+
+  const updateStep = (index: number, field: keyof StepField, value: string) => {
+    setSteps((current) => current.map((step, i) => (i === index ? { ...step, [field]: value } : step)));
+  };
+
+  const handleSave = async () => {
+    const draft = {
+      medicationId: medication.id,
+      kind,
+      name: name.trim() || undefined,
+      startDate,
+      steps: steps.map((step) => ({
+        dose: parseFloat(step.dose.replace(',', '.')),
+        days: parseInt(step.days, 10)
+      }))
+    };
+    const validation = validateDraft('doseSchedules', draft);
+    if (!validation.valid) {
+      setErrors(fieldErrorMap(validation.errors));
+      return;
+    }
+    setErrors({});
+
+    await createDoseSchedule(draft);
+    toast.success('Esquema salvo');
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirm('Excluir este esquema?')) {
+      await deleteDoseSchedule(id);
+    }
+  };
+
+  const selectedTemplate = SCHEDULE_TEMPLATES.find((item) => item.id === templateId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Stairs className="w-5 h-5 text-primary" weight="duotone" />
+            {medication.name} - Titulação e redução
+          </DialogTitle>
+          <DialogDescription>
+            Esquemas em etapas com a dose diária de cada período. As doses registradas são comparadas com a dose
+            prevista para o dia, e desvios aparecem nos alertas da análise de impacto.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* New schedule */}
+        <div className="p-3 rounded-lg bg-primary/5 border border-primary/20 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="schedule-template" className="text-xs">Modelo</Label>
+              <Select value={templateId} onValueChange={(value) => applyTemplate(value, templateDose)}>
+                <SelectTrigger id="schedule-template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CUSTOM_TEMPLATE}>Personalizado</SelectItem>
+                  {SCHEDULE_TEMPLATES.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>{template.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-template-dose" className="text-xs">
+                {selectedTemplate?.kind === 'taper' ? 'Dose atual (mg/dia)' : 'Dose alvo (mg/dia)'}
+              </Label>
+              <Input
+                id="schedule-template-dose"
+                inputMode="decimal"
+                value={templateDose}
+                onChange={(e) => applyTemplate(templateId, e.target.value)}
+                disabled={!selectedTemplate}
+              />
+            </div>
+          </div>
+          {selectedTemplate && <p className="text-xs text-muted-foreground">{selectedTemplate.description}</p>}
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="schedule-kind" className="text-xs">Tipo</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as DoseScheduleKind)}>
+                <SelectTrigger id="schedule-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(KIND_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-start" className="text-xs">Início</Label>
+              <Input id="schedule-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              <FieldMessage message={errors.startDate} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-name" className="text-xs">Nome</Label>
+              <Input id="schedule-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="opcional" />
+              <FieldMessage message={errors.name} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Etapas</Label>
+            {steps.map((step, index) => (
+              <div key={index} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground w-5">{index + 1}.</span>
+                  <Input
+                    aria-label={`Dose da etapa ${index + 1}`}
+                    inputMode="decimal"
+                    value={step.dose}
+                    onChange={(e) => updateStep(index, 'dose', e.target.value)}
+                    placeholder="mg/dia"
+                  />
+                  <Input
+                    aria-label={`Duração da etapa ${index + 1}`}
+                    inputMode="numeric"
+                    value={step.days}
+                    onChange={(e) => updateStep(index, 'days', e.target.value)}
+                    placeholder="dias"
+                  />
+                  <span className="text-xs text-muted-foreground">dias</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setSteps((current) => current.filter((_, i) => i !== index))}
+                    disabled={steps.length === 1}
+                  >
+                    <Trash className="w-4 h-4" />
+                  </Button>
+                </div>
+                <FieldMessage message={errors[`steps.${index}.dose`] ?? errors[`steps.${index}.days`]} />
+              </div>
+            ))}
+            <FieldMessage message={errors.steps} />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSteps((current) => [...current, { dose: '', days: current[current.length - 1]?.days ?? '14' }])}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Adicionar etapa
+            </Button>
+          </div>
+
+          <Button size="sm" onClick={handleSave}>
+            Salvar esquema
+          </Button>
+        </div>
+
+        {/* Saved schedules */}
+        {doseSchedules.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground text-sm">Nenhum esquema cadastrado</div>
+        ) : (
+          <div className="space-y-2">
+            {doseSchedules.map((schedule) => (
+              <ScheduleCard key={schedule.id} schedule={schedule} onDelete={() => handleDelete(schedule.id)} />
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
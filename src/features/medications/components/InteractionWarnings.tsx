@@ -0,0 +1,96 @@
+/**
+ * Interaction Warnings
+ *
+ * Lists the drug-drug interactions among the registered medications (see
+ * drug-interactions.ts) with the victim's current effective half-life, so a
+ * dose change or a new prescription shows its effect on the other drugs.
+ */
+
+import { useMemo } from 'react';
+import { Warning } from '@phosphor-icons/react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/ui/card';
+import { Badge } from '@/shared/ui/badge';
+import type { Medication, MedicationDose } from '@/shared/types';
+import { usePatientProfile } from '@/hooks/use-physiology-records';
+import {
+  findInteractions,
+  getAdjustedHalfLife,
+  type InteractionSeverity
+} from '@/features/analytics/utils/drug-interactions';
+
+const SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  major: 'Grave',
+  moderate: 'Moderada',
+  minor: 'Leve'
+};
+
+const SEVERITY_VARIANTS: Record<InteractionSeverity, 'destructive' | 'default' | 'secondary'> = {
+  major: 'destructive',
+  moderate: 'default',
+  minor: 'secondary'
+};
+
+const SEVERITY_ORDER: InteractionSeverity[] = ['major', 'moderate', 'minor'];
+
+interface InteractionWarningsProps {
+  medications: Medication[];
+  doses: MedicationDose[];
+}
+
+export default function InteractionWarnings({ medications, doses }: InteractionWarningsProps) {
+  const patient = usePatientProfile();
+
+  const warnings = useMemo(() => {
+    const now = Date.now();
+    return findInteractions(medications)
+      .sort((a, b) => SEVERITY_ORDER.indexOf(a.rule.severity) - SEVERITY_ORDER.indexOf(b.rule.severity))
+      .map((interaction) => ({
+        ...interaction,
+        // Combined effect of every rule acting on the victim right now
+        adjustedHalfLife: getAdjustedHalfLife(interaction.victim, doses, medications, now, patient)
+      }));
+  }, [medications, doses, patient]);
+
+  if (warnings.length === 0) return null;
+
+  return (
+    <Card className="border-amber-500/40">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Warning className="w-5 h-5 text-amber-500" weight="duotone" />
+          Interações medicamentosas
+        </CardTitle>
+        <CardDescription>
+          Efeito estimado sobre a depuração, a partir das concentrações simuladas de cada medicamento.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {warnings.map(({ rule, perpetrator, victim, adjustedHalfLife }) => {
+          const change = adjustedHalfLife / victim.halfLife - 1;
+          return (
+            <div key={`${rule.id}:${perpetrator.id}:${victim.id}`} className="space-y-1 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={SEVERITY_VARIANTS[rule.severity]}>{SEVERITY_LABELS[rule.severity]}</Badge>
+                <span className="font-medium">
+                  {perpetrator.id === victim.id ? `${victim.name} (autoindução)` : `${perpetrator.name} → ${victim.name}`}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {rule.mechanism === 'induction' ? 'Indução' : 'Inibição'} {rule.pathway}
+                </span>
+              </div>
+              <p className="text-muted-foreground">{rule.description}</p>
+              {rule.recommendation && <p className="text-xs">{rule.recommendation}</p>}
+              {Math.abs(change) >= 0.02 && (
+                <p className="text-xs text-muted-foreground">
+                  Meia-vida efetiva agora: {victim.halfLife.toFixed(1)}h → {adjustedHalfLife.toFixed(1)}h (
+                  {change > 0 ? '+' : ''}
+                  {(change * 100).toFixed(0)}%)
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
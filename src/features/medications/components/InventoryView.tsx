@@ -0,0 +1,375 @@
+/**
+ * Inventory View
+ *
+ * Supply of one medication: pack size and strength, recounts, refills and the
+ * prescriptions they are filled from, with the run-out forecast from the
+ * recent dosing rate (see inventory.ts).
+ */
+
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { v4 as uuidv4 } from 'uuid';
+import { Package, Plus, Trash } from '@phosphor-icons/react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/ui/dialog';
+import { Card, CardContent } from '@/shared/ui/card';
+import { Button } from '@/shared/ui/button';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { Badge } from '@/shared/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+import type { InventoryRefill, Medication, MedicationInventory, Prescription } from '@/shared/types';
+import { cn, safeFormat } from '@/shared/utils';
+import { fieldErrorMap, validateRecord } from '@/core/services/entity-schemas';
+import { useMedications } from '@/hooks/use-medications';
+import { useDoses } from '@/hooks/use-doses';
+import { parseLocalDate } from '@/features/analytics/utils/dose-schedules';
+import {
+  DEFAULT_LOW_SUPPLY_DAYS,
+  DEFAULT_UNIT_LABEL,
+  forecastSupply,
+  formatUnitCount
+} from '@/features/analytics/utils/inventory';
+
+const LOOSE_REFILL = 'loose';
+
+interface InventoryViewProps {
+  medication: Medication;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function FieldMessage({ message }: { message?: string }) {
+  return message ? <p className="text-xs text-destructive">{message}</p> : null;
+}
+
+const parseNumber = (value: string) => parseFloat(value.replace(',', '.'));
+
+/** Units from a count of full packs plus loose units */
+function countUnits(packs: string, loose: string, unitsPerPack: number): number {
+  return (parseNumber(packs) || 0) * unitsPerPack + (parseNumber(loose) || 0);
+}
+
+export default function InventoryView({ medication, open, onOpenChange }: InventoryViewProps) {
+  const { updateMedication } = useMedications();
+  const { doses } = useDoses(medication.id);
+  const inventory = medication.inventory ?? null;
+  const forecast = useMemo(() => forecastSupply(medication, doses), [medication, doses]);
+
+  const [unitsPerPack, setUnitsPerPack] = useState(() => inventory?.unitsPerPack.toString() ?? '30');
+  const [strengthPerUnit, setStrengthPerUnit] = useState(
+    () => inventory?.strengthPerUnit.toString() ?? medication.defaultDose?.toString() ?? ''
+  );
+  const [unitLabel, setUnitLabel] = useState(() => inventory?.unitLabel ?? 'comprimido');
+  const [lowSupplyDays, setLowSupplyDays] = useState(
+    () => (inventory?.lowSupplyDays ?? DEFAULT_LOW_SUPPLY_DAYS).toString()
+  );
+  const [countPacks, setCountPacks] = useState('');
+  const [countLoose, setCountLoose] = useState('');
+  const [refillPacks, setRefillPacks] = useState('1');
+  const [refillSource, setRefillSource] = useState(LOOSE_REFILL);
+  const [prescriber, setPrescriber] = useState('');
+  const [prescriptionDate, setPrescriptionDate] = useState(() => safeFormat(Date.now(), 'yyyy-MM-dd', ''));
+  const [prescriptionQuantity, setPrescriptionQuantity] = useState('');
+  const [renewals, setRenewals] = useState('0');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const saveInventory = async (next: MedicationInventory | null) => {
+    const validation = validateRecord('medications', { ...medication, inventory: next });
+    if (!validation.valid) {
+      setErrors(fieldErrorMap(validation.errors));
+      return false;
+    }
+    setErrors({});
+
+    try {
+      await updateMedication(medication.id, { inventory: next });
+      return true;
+    } catch (error) {
+      toast.error('Não foi possível salvar o estoque', {
+        description: error instanceof Error ? error.message : undefined
+      });
+      return false;
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    const perPack = parseNumber(unitsPerPack);
+    const next: MedicationInventory = {
+      ...(inventory ?? { unitsCounted: countUnits(countPacks, countLoose, perPack), countedAt: Date.now() }),
+      unitsPerPack: perPack,
+      strengthPerUnit: parseNumber(strengthPerUnit),
+      unitLabel: unitLabel.trim() || undefined,
+      lowSupplyDays: parseInt(lowSupplyDays, 10)
+    };
+    if (await saveInventory(next)) {
+      if (!inventory) {
+        setCountPacks('');
+        setCountLoose('');
+      }
+      toast.success(inventory ? 'Estoque atualizado' : 'Controle de estoque ativado');
+    }
+  };
+
+  const handleRecount = async () => {
+    if (!inventory || (countPacks === '' && countLoose === '')) return;
+    const unitsCounted = countUnits(countPacks, countLoose, inventory.unitsPerPack);
+    if (await saveInventory({ ...inventory, unitsCounted, countedAt: Date.now() })) {
+      setCountPacks('');
+      setCountLoose('');
+      toast.success('Contagem salva', { description: formatUnitCount(inventory, unitsCounted) });
+    }
+  };
+
+  const handleRefill = async () => {
+    if (!inventory) return;
+    const prescription = inventory.prescriptions?.find((item) => item.id === refillSource);
+    const refills = inventory.refills ?? [];
+    let prescriptions = inventory.prescriptions;
+
+    if (prescription) {
+      // The first fill comes with the prescription; later ones use up a renewal
+      const isRenewal = refills.some((refill) => refill.prescriptionId === prescription.id);
+      if (isRenewal && prescription.renewalsLeft <= 0) {
+        toast.error('Receita sem renovações', { description: 'Cadastre a nova receita para registrar a reposição.' });
+        return;
+      }
+      if (isRenewal) {
+        prescriptions = prescriptions?.map((item) =>
+          item.id === prescription.id ? { ...item, renewalsLeft: item.renewalsLeft - 1 } : item
+        );
+      }
+    }
+
+    const refill: InventoryRefill = {
+      id: uuidv4(),
+      timestamp: Date.now(),
+      units: prescription ? prescription.quantity : countUnits(refillPacks, '', inventory.unitsPerPack),
+      prescriptionId: prescription?.id
+    };
+    if (await saveInventory({ ...inventory, refills: [...refills, refill], prescriptions })) {
+      toast.success('Reposição registrada', { description: `+${formatUnitCount(inventory, refill.units)}` });
+    }
+  };
+
+  const handleAddPrescription = async () => {
+    if (!inventory) return;
+    const prescription: Prescription = {
+      id: uuidv4(),
+      prescriber: prescriber.trim() || undefined,
+      date: prescriptionDate,
+      quantity: parseNumber(prescriptionQuantity),
+      renewalsLeft: parseInt(renewals, 10)
+    };
+    const prescriptions = [...(inventory.prescriptions ?? []), prescription];
+    if (await saveInventory({ ...inventory, prescriptions })) {
+      setPrescriber('');
+      setPrescriptionQuantity('');
+      setRenewals('0');
+      toast.success('Receita salva');
+    }
+  };
+
+  const handleDeletePrescription = async (id: string) => {
+    if (!inventory || !confirm('Excluir esta receita?')) return;
+    await saveInventory({ ...inventory, prescriptions: inventory.prescriptions?.filter((item) => item.id !== id) });
+    if (refillSource === id) setRefillSource(LOOSE_REFILL);
+  };
+
+  const handleStopTracking = async () => {
+    if (confirm('Parar de controlar o estoque? Contagens, reposições e receitas serão apagadas.')) {
+      await saveInventory(null);
+    }
+  };
+
+  const recentRefills = [...(inventory?.refills ?? [])].sort((a, b) => b.timestamp - a.timestamp).slice(0, 5);
+  const prescriptionError = Object.entries(errors).find(([key]) => key.startsWith('inventory.prescriptions'))?.[1];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Package className="w-5 h-5 text-primary" weight="duotone" />
+            {medication.name} - Estoque
+          </DialogTitle>
+          <DialogDescription>
+            Cada dose registrada desconta do estoque (dose ÷ concentração por unidade). A previsão de término usa o
+            consumo das últimas duas semanas, e estoque baixo aparece nos alertas da análise de impacto.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Forecast */}
+        {inventory && forecast && (
+          <Card className={cn('shadow-sm', forecast.lowSupply && 'border-destructive/50')}>
+            <CardContent className="pt-4 space-y-1 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-lg font-semibold">{formatUnitCount(inventory, forecast.unitsOnHand)}</span>
+                {forecast.lowSupply && <Badge variant="destructive">Estoque baixo</Badge>}
+              </div>
+              <p className="text-muted-foreground">
+                ≈ {forecast.packsOnHand.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} caixa(s) de{' '}
+                {inventory.unitsPerPack} · contado em {safeFormat(inventory.countedAt, 'dd/MM/yyyy HH:mm')}
+              </p>
+              {forecast.runOutAt !== null && forecast.daysLeft !== null ? (
+                <p>
+                  Acaba por volta de <span className="font-semibold">{safeFormat(forecast.runOutAt, 'dd/MM/yyyy')}</span>{' '}
+                  <span className="text-muted-foreground">
+                    ({Math.floor(forecast.daysLeft)} dias, {formatUnitCount(inventory, forecast.dailyUnits)}/dia
+                    {forecast.usageSource === 'scheduled' ? ' pela dose agendada' : ' registrados'})
+                  </span>
+                </p>
+              ) : (
+                <p className="text-muted-foreground">Sem doses recentes para prever o término.</p>
+              )}
+              {(inventory.prescriptions?.length ?? 0) > 0 && (
+                <p className="text-muted-foreground">Renovações restantes: {forecast.renewalsLeft}</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Settings */}
+        <div className="p-3 rounded-lg bg-primary/5 border border-primary/20 space-y-3">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="inventory-per-pack" className="text-xs">Unidades por caixa</Label>
+              <Input id="inventory-per-pack" inputMode="numeric" value={unitsPerPack} onChange={(e) => setUnitsPerPack(e.target.value)} />
+              <FieldMessage message={errors['inventory.unitsPerPack']} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="inventory-strength" className="text-xs">mg por unidade</Label>
+              <Input id="inventory-strength" inputMode="decimal" value={strengthPerUnit} onChange={(e) => setStrengthPerUnit(e.target.value)} />
+              <FieldMessage message={errors['inventory.strengthPerUnit']} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="inventory-unit" className="text-xs">Unidade</Label>
+              <Input id="inventory-unit" value={unitLabel} onChange={(e) => setUnitLabel(e.target.value)} placeholder={DEFAULT_UNIT_LABEL} />
+              <FieldMessage message={errors['inventory.unitLabel']} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="inventory-low" className="text-xs">Alerta abaixo de (dias)</Label>
+              <Input id="inventory-low" inputMode="numeric" value={lowSupplyDays} onChange={(e) => setLowSupplyDays(e.target.value)} />
+              <FieldMessage message={errors['inventory.lowSupplyDays']} />
+            </div>
+          </div>
+
+          {!inventory && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="inventory-initial-packs" className="text-xs">Caixas fechadas</Label>
+                <Input id="inventory-initial-packs" inputMode="numeric" value={countPacks} onChange={(e) => setCountPacks(e.target.value)} placeholder="0" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="inventory-initial-loose" className="text-xs">Unidades avulsas</Label>
+                <Input id="inventory-initial-loose" inputMode="decimal" value={countLoose} onChange={(e) => setCountLoose(e.target.value)} placeholder="0" />
+              </div>
+              <FieldMessage message={errors['inventory.unitsCounted']} />
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" onClick={handleSaveSettings}>
+              {inventory ? 'Salvar' : 'Controlar estoque'}
+            </Button>
+            {inventory && (
+              <Button variant="outline" size="sm" onClick={handleStopTracking}>
+                Parar de controlar
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {inventory && (
+          <>
+            {/* Recount */}
+            <div className="space-y-2">
+              <Label className="text-sm">Recontar</Label>
+              <div className="flex items-center gap-2">
+                <Input aria-label="Caixas fechadas" inputMode="numeric" value={countPacks} onChange={(e) => setCountPacks(e.target.value)} placeholder="caixas" />
+                <Input aria-label="Unidades avulsas" inputMode="decimal" value={countLoose} onChange={(e) => setCountLoose(e.target.value)} placeholder="avulsas" />
+                <Button variant="outline" size="sm" onClick={handleRecount}>
+                  Salvar contagem
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                A contagem substitui o estoque calculado; doses registradas depois dela voltam a descontar.
+              </p>
+            </div>
+
+            {/* Refill */}
+            <div className="space-y-2">
+              <Label className="text-sm">Reposição</Label>
+              <div className="flex items-center gap-2">
+                <Select value={refillSource} onValueChange={setRefillSource}>
+                  <SelectTrigger aria-label="Origem da reposição">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={LOOSE_REFILL}>Caixas compradas</SelectItem>
+                    {(inventory.prescriptions ?? []).map((prescription) => (
+                      <SelectItem key={prescription.id} value={prescription.id}>
+                        Receita de {safeFormat(parseLocalDate(prescription.date), 'dd/MM/yyyy')} ({prescription.quantity})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {refillSource === LOOSE_REFILL && (
+                  <Input aria-label="Caixas" inputMode="numeric" value={refillPacks} onChange={(e) => setRefillPacks(e.target.value)} className="w-24" />
+                )}
+                <Button variant="outline" size="sm" onClick={handleRefill}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Adicionar
+                </Button>
+              </div>
+              <FieldMessage message={Object.entries(errors).find(([key]) => key.startsWith('inventory.refills'))?.[1]} />
+              {recentRefills.length > 0 && (
+                <ul className="text-xs text-muted-foreground space-y-0.5">
+                  {recentRefills.map((refill) => (
+                    <li key={refill.id} className={cn(refill.timestamp <= inventory.countedAt && 'line-through')}>
+                      {safeFormat(refill.timestamp, 'dd/MM/yyyy')}: +{formatUnitCount(inventory, refill.units)}
+                      {refill.prescriptionId && ' (receita)'}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Prescriptions */}
+            <div className="space-y-2">
+              <Label className="text-sm">Receitas</Label>
+              {(inventory.prescriptions ?? []).length === 0 && (
+                <p className="text-xs text-muted-foreground">Nenhuma receita cadastrada</p>
+              )}
+              {(inventory.prescriptions ?? []).map((prescription) => (
+                <div key={prescription.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    {safeFormat(parseLocalDate(prescription.date), 'dd/MM/yyyy')}
+                    {prescription.prescriber && ` · ${prescription.prescriber}`} ·{' '}
+                    {formatUnitCount(inventory, prescription.quantity)} ·{' '}
+                    <span className={cn(prescription.renewalsLeft === 0 && 'text-amber-600')}>
+                      {prescription.renewalsLeft} renovação(ões)
+                    </span>
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => handleDeletePrescription(prescription.id)}>
+                    <Trash className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                <Input aria-label="Prescritor" value={prescriber} onChange={(e) => setPrescriber(e.target.value)} placeholder="Prescritor" />
+                <Input aria-label="Data da receita" type="date" value={prescriptionDate} onChange={(e) => setPrescriptionDate(e.target.value)} />
+                <Input aria-label="Quantidade" inputMode="numeric" value={prescriptionQuantity} onChange={(e) => setPrescriptionQuantity(e.target.value)} placeholder="Quantidade" />
+                <Input aria-label="Renovações" inputMode="numeric" value={renewals} onChange={(e) => setRenewals(e.target.value)} placeholder="Renovações" />
+              </div>
+              <FieldMessage message={prescriptionError} />
+              <Button variant="outline" size="sm" onClick={handleAddPrescription}>
+                <Plus className="w-4 h-4 mr-2" />
+                Adicionar receita
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
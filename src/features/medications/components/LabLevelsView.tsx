@@ -0,0 +1,295 @@
+/**
+ * Lab Levels View
+ *
+ * Therapeutic drug monitoring for one medication: record measured blood
+ * levels and individualise half-life and Vd from them (MAP fit, see
+ * pk-fitting.ts). The fitted values are shown next to the population ones and
+ * only replace them when the user applies the fit.
+ */
+
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { ArrowCounterClockwise, Check, Flask, Trash } from '@phosphor-icons/react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/ui/dialog';
+import { Card, CardContent } from '@/shared/ui/card';
+import { Button } from '@/shared/ui/button';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { Badge } from '@/shared/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+import type { LabLevelUnit, Medication } from '@/shared/types';
+import { safeFormat } from '@/shared/utils';
+import { parseLocalDateTime } from '@/shared/utils/date-helpers';
+import { fieldErrorMap, validateDraft } from '@/core/services/entity-schemas';
+import { useLabLevels } from '@/hooks/use-lab-levels';
+import { useDoses } from '@/hooks/use-doses';
+import { useMedications } from '@/hooks/use-medications';
+import { usePatientProfile } from '@/hooks/use-physiology-records';
+import { pkCache } from '@/features/analytics/utils/pharmacokinetics-cache';
+import { getBodyWeightAt } from '@/features/analytics/utils/patient-physiology';
+import {
+  LAB_LEVEL_UNIT_FACTORS,
+  applyPKFit,
+  fitPersonalPK,
+  revertPKFit
+} from '@/features/analytics/utils/pk-fitting';
+
+const UNITS = Object.keys(LAB_LEVEL_UNIT_FACTORS) as LabLevelUnit[];
+
+interface LabLevelsViewProps {
+  medication: Medication;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function FieldMessage({ message }: { message?: string }) {
+  return message ? <p className="text-xs text-destructive">{message}</p> : null;
+}
+
+function formatInterval(interval: [number, number] | null, digits: number): string {
+  return interval ? `${interval[0].toFixed(digits)}–${interval[1].toFixed(digits)}` : '—';
+}
+
+export default function LabLevelsView({ medication, open, onOpenChange }: LabLevelsViewProps) {
+  const { labLevels, createLabLevel, deleteLabLevel } = useLabLevels(medication.id);
+  const { doses } = useDoses(medication.id);
+  const { updateMedication } = useMedications();
+  const patient = usePatientProfile();
+
+  const [date, setDate] = useState(() => safeFormat(Date.now(), 'yyyy-MM-dd', ''));
+  const [time, setTime] = useState(() => safeFormat(Date.now(), 'HH:mm', ''));
+  const [concentration, setConcentration] = useState('');
+  const [unit, setUnit] = useState<LabLevelUnit>('ng/mL');
+  const [lab, setLab] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const fit = useMemo(
+    () => fitPersonalPK(medication, doses, labLevels, { patient }),
+    [medication, doses, labLevels, patient]
+  );
+
+  const handleAdd = async () => {
+    let timestamp: number;
+    try {
+      timestamp = parseLocalDateTime(date, time);
+    } catch (error) {
+      setErrors({ timestamp: error instanceof Error ? error.message : 'Data/hora inválida' });
+      return;
+    }
+
+    const draft = {
+      medicationId: medication.id,
+      timestamp,
+      concentration: parseFloat(concentration.replace(',', '.')),
+      unit,
+      lab: lab.trim() || undefined
+    };
+    const validation = validateDraft('labLevels', draft);
+    if (!validation.valid) {
+      setErrors(fieldErrorMap(validation.errors));
+      return;
+    }
+    setErrors({});
+
+    await createLabLevel(draft);
+    setConcentration('');
+    toast.success('Nível sérico registrado');
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirm('Excluir este resultado de exame?')) {
+      await deleteLabLevel(id);
+    }
+  };
+
+  const applyFit = async () => {
+    if (!fit) return;
+    await updateMedication(medication.id, applyPKFit(fit));
+    pkCache.invalidate(medication.id);
+    toast.success('Parâmetros individuais aplicados', {
+      description: 'Os gráficos de concentração passam a usar a meia-vida e o Vd ajustados.'
+    });
+  };
+
+  const revertFit = async () => {
+    await updateMedication(medication.id, revertPKFit(medication));
+    pkCache.invalidate(medication.id);
+    toast.success('Valores populacionais restaurados');
+  };
+
+  const isApplied = !!medication.pkFit;
+  const fitDiffersFromApplied =
+    fit &&
+    (!isApplied ||
+      Math.abs(fit.halfLife - medication.halfLife) / medication.halfLife > 0.01 ||
+      Math.abs(fit.volumeOfDistribution - medication.volumeOfDistribution) / medication.volumeOfDistribution > 0.01);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flask className="w-5 h-5 text-primary" weight="duotone" />
+            {medication.name} - Níveis séricos
+          </DialogTitle>
+          <DialogDescription>
+            Resultados de dosagem sanguínea. Com eles, a meia-vida e o volume de distribuição são ajustados à sua
+            farmacocinética a partir do histórico de doses.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* New level */}
+        <div className="p-3 rounded-lg bg-primary/5 border border-primary/20 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="level-date" className="text-xs">Data da coleta</Label>
+              <Input id="level-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="level-time" className="text-xs">Hora da coleta</Label>
+              <Input id="level-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+            </div>
+          </div>
+          <FieldMessage message={errors.timestamp} />
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="level-concentration" className="text-xs">Concentração</Label>
+              <Input
+                id="level-concentration"
+                inputMode="decimal"
+                value={concentration}
+                onChange={(e) => setConcentration(e.target.value)}
+                placeholder="ex: 85"
+              />
+              <FieldMessage message={errors.concentration} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="level-unit" className="text-xs">Unidade</Label>
+              <Select value={unit} onValueChange={(value) => setUnit(value as LabLevelUnit)}>
+                <SelectTrigger id="level-unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {UNITS.map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="level-lab" className="text-xs">Laboratório</Label>
+              <Input id="level-lab" value={lab} onChange={(e) => setLab(e.target.value)} placeholder="opcional" />
+              <FieldMessage message={errors.lab} />
+            </div>
+          </div>
+          <Button size="sm" onClick={handleAdd} disabled={!concentration}>
+            Registrar nível
+          </Button>
+        </div>
+
+        {/* Personal parameters */}
+        <Card>
+          <CardContent className="pt-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold">Parâmetros individuais</h3>
+              {isApplied && <Badge variant="secondary">Ajuste aplicado</Badge>}
+            </div>
+            {fit ? (
+              <>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-muted-foreground">
+                      <th className="font-medium py-1"></th>
+                      <th className="font-medium py-1 text-right">Populacional</th>
+                      <th className="font-medium py-1 text-right">Individual</th>
+                      <th className="font-medium py-1 text-right">IC 95%</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr>
+                      <td className="py-1">Meia-vida (h)</td>
+                      <td className="py-1 text-right">{fit.populationHalfLife.toFixed(1)}</td>
+                      <td className="py-1 text-right font-semibold">{fit.halfLife.toFixed(1)}</td>
+                      <td className="py-1 text-right text-muted-foreground">{formatInterval(fit.halfLifeInterval, 1)}</td>
+                    </tr>
+                    <tr>
+                      <td className="py-1">Vd (L/kg)</td>
+                      <td className="py-1 text-right">{fit.populationVolumeOfDistribution.toFixed(2)}</td>
+                      <td className="py-1 text-right font-semibold">{fit.volumeOfDistribution.toFixed(2)}</td>
+                      <td className="py-1 text-right text-muted-foreground">{formatInterval(fit.volumeInterval, 2)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+                <p className="text-xs text-muted-foreground">
+                  Estimativa bayesiana (MAP) a partir de {fit.levelCount} nível(is) e {doses.length} dose(s), peso{' '}
+                  {getBodyWeightAt(patient, Date.now()).toFixed(1)} kg. Com poucos níveis o resultado fica próximo dos valores populacionais.
+                </p>
+                <div className="flex gap-2">
+                  {fitDiffersFromApplied && (
+                    <Button size="sm" onClick={applyFit}>
+                      <Check className="w-4 h-4 mr-2" />
+                      {isApplied ? 'Atualizar ajuste' : 'Aplicar ao modelo'}
+                    </Button>
+                  )}
+                  {isApplied && (
+                    <Button size="sm" variant="outline" onClick={revertFit}>
+                      <ArrowCounterClockwise className="w-4 h-4 mr-2" />
+                      Usar valores populacionais
+                    </Button>
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  Registre ao menos um nível coletado depois de uma dose registrada para estimar os parâmetros.
+                </p>
+                {isApplied && (
+                  <Button size="sm" variant="outline" onClick={revertFit}>
+                    <ArrowCounterClockwise className="w-4 h-4 mr-2" />
+                    Usar valores populacionais
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* History */}
+        {labLevels.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground text-sm">Nenhum resultado registrado</div>
+        ) : (
+          <div className="space-y-2">
+            {labLevels.map((level) => {
+              const residual = fit?.residuals.find((item) => item.levelId === level.id);
+              return (
+                <Card key={level.id} className="shadow-sm">
+                  <CardContent className="pt-4 flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <div className="flex items-baseline gap-2">
+                        <span className="text-xl font-bold text-primary">{level.concentration}</span>
+                        <span className="text-sm">{level.unit}</span>
+                        <span className="text-sm text-muted-foreground">
+                          {safeFormat(level.timestamp, 'dd/MM/yyyy HH:mm')}
+                        </span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {level.lab && <span>{level.lab} · </span>}
+                        {residual
+                          ? `previsto: ${residual.populationPrediction.toFixed(1)} (pop.) / ${residual.individualPrediction.toFixed(1)} (ind.) ng/mL`
+                          : 'antes da primeira dose registrada; não usado no ajuste'}
+                      </div>
+                    </div>
+                    <Button variant="destructive" size="sm" onClick={() => handleDelete(level.id)}>
+                      <Trash className="w-4 h-4" />
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { useMedications } from '@/hooks/use-medications';
 import { useDoses } from '@/hooks/use-doses';
+import { useLabLevels } from '@/hooks/use-lab-levels';
+import { useDoseSchedules } from '@/hooks/use-dose-schedules';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/shared/ui/card';
 import { Button } from '@/shared/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/shared/ui/dialog';
@@ -9,10 +11,24 @@ import { Label } from '@/shared/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
 import { Textarea } from '@/shared/ui/textarea';
 import { Badge } from '@/shared/ui/badge';
-import { Plus, Pill, Pencil, Trash, ClockCounterClockwise, Lightning, Clock } from '@phosphor-icons/react';
-import type { Medication, MedicationCategory, MedicationDose } from '@/shared/types';
+import { Plus, Pill, Pencil, Trash, ClockCounterClockwise, Lightning, Clock, Flask, Stairs, Package } from '@phosphor-icons/react';
+import type {
+  EliminationProfile,
+  Formulation,
+  FormulationKind,
+  Medication,
+  MedicationCategory,
+  MedicationDose
+} from '@/shared/types';
 import MedicationDosesView from '@/features/doses/components/MedicationDosesView';
+import LabLevelsView from './LabLevelsView';
+import DoseSchedulesView from './DoseSchedulesView';
+import InventoryView from './InventoryView';
+import InteractionWarnings from './InteractionWarnings';
 import { getMedicationPresets } from '@/shared/constants/medication-presets';
+import { fieldErrorMap, validateDraft } from '@/core/services/entity-schemas';
+import { cn, safeFormat } from '@/shared/utils';
+import { forecastSupply, formatUnitCount, type SupplyForecast } from '@/features/analytics/utils/inventory';
 
 const MEDICATION_CATEGORIES: MedicationCategory[] = [
   'SSRI',
@@ -27,13 +43,40 @@ const MEDICATION_CATEGORIES: MedicationCategory[] = [
   'Other'
 ];
 
+const FORMULATION_LABELS: Record<FormulationKind, string> = {
+  IR: 'Liberação imediata',
+  ODT: 'Orodispersível (ODT)',
+  DR: 'Liberação retardada (DR)',
+  XR: 'Liberação prolongada (XR/ER)',
+  OROS: 'Osmótica bifásica (OROS)'
+};
+
+function FieldMessage({ message }: { message?: string }) {
+  return message ? <p className="text-xs text-destructive">{message}</p> : null;
+}
+
+function formulationFields(formulation?: Formulation) {
+  return {
+    formulationKind: formulation?.kind ?? ('IR' as FormulationKind),
+    lagTime: formulation?.lagTime?.toString() ?? '',
+    releaseDuration: formulation?.releaseDuration?.toString() ?? '',
+    immediateFraction: formulation?.immediateFraction?.toString() ?? ''
+  };
+}
+
 export default function MedicationsView() {
   const { medications, createMedication, updateMedication, deleteMedication } = useMedications();
   const { doses } = useDoses();
+  const { labLevels } = useLabLevels();
+  const { doseSchedules } = useDoseSchedules();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingMed, setEditingMed] = useState<Medication | null>(null);
   const [viewDosesMed, setViewDosesMed] = useState<Medication | null>(null);
   const [dosesDialogOpen, setDosesDialogOpen] = useState(false);
+  const [labLevelsMedId, setLabLevelsMedId] = useState<string | null>(null);
+  const [schedulesMedId, setSchedulesMedId] = useState<string | null>(null);
+  const [inventoryMedId, setInventoryMedId] = useState<string | null>(null);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
 
   const [formData, setFormData] = useState({
     name: '',
@@ -47,6 +90,11 @@ export default function MedicationsView() {
     therapeuticMin: '',
     therapeuticMax: '',
     therapeuticUnit: 'ng/mL',
+    formulationKind: 'IR' as FormulationKind,
+    lagTime: '',
+    releaseDuration: '',
+    immediateFraction: '',
+    renalFraction: '',
     notes: ''
   });
 
@@ -63,8 +111,14 @@ export default function MedicationsView() {
       therapeuticMin: '',
       therapeuticMax: '',
       therapeuticUnit: 'ng/mL',
+      formulationKind: 'IR',
+      lagTime: '',
+      releaseDuration: '',
+      immediateFraction: '',
+      renalFraction: '',
       notes: ''
     });
+    setFormErrors({});
     setEditingMed(null);
   };
 
@@ -84,6 +138,8 @@ export default function MedicationsView() {
         therapeuticMin: preset.therapeuticRange?.min?.toString() || '',
         therapeuticMax: preset.therapeuticRange?.max?.toString() || '',
         therapeuticUnit: preset.therapeuticRange?.unit || 'ng/mL',
+        ...formulationFields(preset.formulation),
+        renalFraction: preset.elimination?.renalFraction.toString() ?? '',
         notes: preset.notes || ''
       });
     }
@@ -108,11 +164,40 @@ export default function MedicationsView() {
       therapeuticMin: med.therapeuticRange?.min?.toString() || '',
       therapeuticMax: med.therapeuticRange?.max?.toString() || '',
       therapeuticUnit: med.therapeuticRange?.unit || 'ng/mL',
+      ...formulationFields(med.formulation),
+      renalFraction: med.elimination?.renalFraction.toString() ?? '',
       notes: med.notes || ''
     });
+    setFormErrors({});
     setDialogOpen(true);
   };
 
+  const buildFormulation = (): Formulation | undefined => {
+    const optionalNumber = (value: string) => (value === '' ? undefined : parseFloat(value));
+    const lagTime = optionalNumber(formData.lagTime);
+    if (formData.formulationKind === 'IR' && !lagTime) {
+      // Only stored to overwrite a previous modified-release setting
+      return editingMed?.formulation ? { kind: 'IR' } : undefined;
+    }
+    const hasRelease = formData.formulationKind === 'XR' || formData.formulationKind === 'OROS';
+    return {
+      kind: formData.formulationKind,
+      lagTime,
+      releaseDuration: hasRelease ? optionalNumber(formData.releaseDuration) : undefined,
+      immediateFraction: hasRelease ? optionalNumber(formData.immediateFraction) : undefined
+    };
+  };
+
+  const buildElimination = (): EliminationProfile | null | undefined => {
+    if (formData.renalFraction === '') {
+      return editingMed?.elimination ? null : undefined;
+    }
+    // Hepatic multipliers are not editable here; keep the stored or preset ones
+    const base =
+      editingMed?.elimination ?? getMedicationPresets().find(preset => preset.name === formData.name)?.elimination;
+    return { ...base, renalFraction: parseFloat(formData.renalFraction) };
+  };
+
   const handleSave = async () => {
     const therapeuticRange = formData.therapeuticMin && formData.therapeuticMax
       ? {
@@ -132,9 +217,24 @@ export default function MedicationsView() {
       absorptionRate: parseFloat(formData.absorptionRate),
       scheduledTime: formData.scheduledTime || undefined,
       therapeuticRange,
-      notes: formData.notes || undefined
+      formulation: buildFormulation(),
+      elimination: buildElimination(),
+      notes: formData.notes || undefined,
+      // Typing new half-life/Vd values replaces an applied lab-level fit
+      ...(editingMed?.pkFit &&
+      (parseFloat(formData.halfLife) !== editingMed.halfLife ||
+        parseFloat(formData.volumeOfDistribution) !== editingMed.volumeOfDistribution)
+        ? { pkFit: null }
+        : {})
     };
 
+    const validation = validateDraft('medications', medicationData);
+    if (!validation.valid) {
+      setFormErrors(fieldErrorMap(validation.errors));
+      return;
+    }
+    setFormErrors({});
+
     if (editingMed) {
       await updateMedication(editingMed.id, medicationData);
     } else {
@@ -160,6 +260,25 @@ export default function MedicationsView() {
     return doses.filter(d => d.medicationId === medicationId).length;
   };
 
+  const getLabLevelCount = (medicationId: string) => {
+    return labLevels.filter(level => level.medicationId === medicationId).length;
+  };
+
+  const getScheduleCount = (medicationId: string) => {
+    return doseSchedules.filter(schedule => schedule.medicationId === medicationId).length;
+  };
+
+  // Looked up on every render so the dialog sees the fit once it is applied
+  const labLevelsMed = medications.find(med => med.id === labLevelsMedId) ?? null;
+  const schedulesMed = medications.find(med => med.id === schedulesMedId) ?? null;
+  const inventoryMed = medications.find(med => med.id === inventoryMedId) ?? null;
+
+  const getInventoryLabel = (med: Medication, forecast: SupplyForecast | null) => {
+    if (!med.inventory || !forecast) return 'Estoque';
+    const runOut = forecast.runOutAt !== null ? ` · até ${safeFormat(forecast.runOutAt, 'dd/MM')}` : '';
+    return `Estoque (${formatUnitCount(med.inventory, forecast.unitsOnHand)}${runOut})`;
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -216,6 +335,7 @@ export default function MedicationsView() {
                     onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                     placeholder="e.g., Escitalopram"
                   />
+                  <FieldMessage message={formErrors.name} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="brandName">Brand Name</Label>
@@ -253,6 +373,7 @@ export default function MedicationsView() {
                     onChange={(e) => setFormData({ ...formData, halfLife: e.target.value })}
                     placeholder="e.g., 30"
                   />
+                  <FieldMessage message={formErrors.halfLife} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="volumeOfDistribution">Volume of Distribution (L/kg) *</Label>
@@ -264,6 +385,7 @@ export default function MedicationsView() {
                     onChange={(e) => setFormData({ ...formData, volumeOfDistribution: e.target.value })}
                     placeholder="e.g., 12"
                   />
+                  <FieldMessage message={formErrors.volumeOfDistribution} />
                 </div>
               </div>
 
@@ -280,6 +402,7 @@ export default function MedicationsView() {
                     onChange={(e) => setFormData({ ...formData, bioavailability: e.target.value })}
                     placeholder="e.g., 0.80"
                   />
+                  <FieldMessage message={formErrors.bioavailability} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="absorptionRate">Absorption Rate (1/h) *</Label>
@@ -291,7 +414,98 @@ export default function MedicationsView() {
                     onChange={(e) => setFormData({ ...formData, absorptionRate: e.target.value })}
                     placeholder="e.g., 0.75"
                   />
+                  <FieldMessage message={formErrors.absorptionRate} />
+                </div>
+              </div>
+
+              <div className="p-3 rounded-lg bg-muted/40 border space-y-3">
+                <div className="space-y-1">
+                  <Label htmlFor="formulationKind" className="text-sm font-medium">Formulação</Label>
+                  <Select
+                    value={formData.formulationKind}
+                    onValueChange={(value) => setFormData({ ...formData, formulationKind: value as FormulationKind })}
+                  >
+                    <SelectTrigger id="formulationKind">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FORMULATION_LABELS) as FormulationKind[]).map(kind => (
+                        <SelectItem key={kind} value={kind}>{FORMULATION_LABELS[kind]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
+                {formData.formulationKind !== 'IR' && formData.formulationKind !== 'ODT' && (
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="lagTime" className="text-xs">Latência (h)</Label>
+                      <Input
+                        id="lagTime"
+                        type="number"
+                        step="0.25"
+                        min="0"
+                        value={formData.lagTime}
+                        onChange={(e) => setFormData({ ...formData, lagTime: e.target.value })}
+                        placeholder="ex: 2"
+                      />
+                      <FieldMessage message={formErrors['formulation.lagTime']} />
+                    </div>
+                    {formData.formulationKind !== 'DR' && (
+                      <>
+                        <div className="space-y-1">
+                          <Label htmlFor="releaseDuration" className="text-xs">Liberação (h)</Label>
+                          <Input
+                            id="releaseDuration"
+                            type="number"
+                            step="0.5"
+                            min="0"
+                            value={formData.releaseDuration}
+                            onChange={(e) => setFormData({ ...formData, releaseDuration: e.target.value })}
+                            placeholder="ex: 8"
+                          />
+                          <FieldMessage message={formErrors['formulation.releaseDuration']} />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="immediateFraction" className="text-xs">Fração imediata (0-1)</Label>
+                          <Input
+                            id="immediateFraction"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max="1"
+                            value={formData.immediateFraction}
+                            onChange={(e) => setFormData({ ...formData, immediateFraction: e.target.value })}
+                            placeholder="ex: 0.22"
+                          />
+                          <FieldMessage message={formErrors['formulation.immediateFraction']} />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Latência: tempo até começar a absorção. Liberação: horas em que o restante da dose é liberado a
+                  velocidade constante. Fração imediata: parte liberada de uma vez (ex: 0.22 no Concerta).
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="renalFraction">Fração de eliminação renal (fe)</Label>
+                <Input
+                  id="renalFraction"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="1"
+                  value={formData.renalFraction}
+                  onChange={(e) => setFormData({ ...formData, renalFraction: e.target.value })}
+                  placeholder="ex: 0.1"
+                />
+                <FieldMessage message={formErrors['elimination.renalFraction']} />
+                <p className="text-xs text-muted-foreground">
+                  Parte excretada inalterada pelos rins. Quando preenchida, o clearance é ajustado à função renal,
+                  classe Child-Pugh e tabagismo registrados nos dados fisiológicos.
+                </p>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
@@ -355,6 +569,9 @@ export default function MedicationsView() {
                 <p className="text-xs text-muted-foreground mt-2">
                   Concentração sérica ideal para eficácia. Aparece como faixa verde no gráfico PK.
                 </p>
+                <FieldMessage
+                  message={formErrors['therapeuticRange.min'] ?? formErrors['therapeuticRange.max']}
+                />
               </div>
 
               <div className="space-y-2">
@@ -378,6 +595,8 @@ export default function MedicationsView() {
         </Dialog>
       </div>
 
+      <InteractionWarnings medications={medications} doses={doses} />
+
       {medications.length === 0 ? (
         <Card className="border-dashed">
           <CardHeader>
@@ -399,6 +618,7 @@ export default function MedicationsView() {
               Number.isFinite(med.volumeOfDistribution) && med.volumeOfDistribution > 0 &&
               Number.isFinite(med.bioavailability) && med.bioavailability > 0 &&
               Number.isFinite(med.absorptionRate) && med.absorptionRate > 0;
+            const supply = forecastSupply(med, doses);
 
             return (
               <Card key={med.id}>
@@ -417,6 +637,20 @@ export default function MedicationsView() {
                       {!hasPkParams && (
                         <Badge variant="destructive" className="text-xs">Incompleto</Badge>
                       )}
+                      {med.pkFit && (
+                        <Badge
+                          variant="secondary"
+                          className="text-xs"
+                          title={`Ajustado a ${med.pkFit.levelCount} nível(is) sérico(s); populacional: ${med.pkFit.populationHalfLife}h, ${med.pkFit.populationVolumeOfDistribution} L/kg`}
+                        >
+                          Individual
+                        </Badge>
+                      )}
+                      {med.formulation && med.formulation.kind !== 'IR' && (
+                        <Badge variant="outline" className="text-xs" title={FORMULATION_LABELS[med.formulation.kind]}>
+                          {med.formulation.kind}
+                        </Badge>
+                      )}
                       <Badge variant="outline">{med.category}</Badge>
                     </div>
                   </div>
@@ -425,11 +659,11 @@ export default function MedicationsView() {
                   <div className="space-y-2 text-sm">
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Half-life:</span>
-                      <span className="font-medium">{med.halfLife ? `${med.halfLife}h` : '—'}</span>
+                      <span className="font-medium">{med.halfLife ? `${+med.halfLife.toFixed(1)}h` : '—'}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Vd:</span>
-                      <span className="font-medium">{med.volumeOfDistribution ? `${med.volumeOfDistribution} L/kg` : '—'}</span>
+                      <span className="font-medium">{med.volumeOfDistribution ? `${+med.volumeOfDistribution.toFixed(2)} L/kg` : '—'}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Bioavailability:</span>
@@ -469,6 +703,33 @@ export default function MedicationsView() {
                     <ClockCounterClockwise className="w-4 h-4 mr-2" />
                     View Doses ({getDoseCount(med.id)})
                   </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => setLabLevelsMedId(med.id)}
+                  >
+                    <Flask className="w-4 h-4 mr-2" />
+                    Níveis séricos ({getLabLevelCount(med.id)})
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => setSchedulesMedId(med.id)}
+                  >
+                    <Stairs className="w-4 h-4 mr-2" />
+                    Titulação / redução ({getScheduleCount(med.id)})
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    className={cn('w-full', supply?.lowSupply && 'text-destructive')}
+                    onClick={() => setInventoryMedId(med.id)}
+                  >
+                    <Package className="w-4 h-4 mr-2" />
+                    {getInventoryLabel(med, supply)}
+                  </Button>
                   <div className="flex gap-2 w-full">
                     <Button variant="outline" size="sm" className="flex-1" onClick={() => openEditDialog(med)}>
                       <Pencil className="w-4 h-4 mr-2" />
@@ -492,6 +753,30 @@ export default function MedicationsView() {
           onOpenChange={setDosesDialogOpen}
         />
       )}
+
+      {labLevelsMed && (
+        <LabLevelsView
+          medication={labLevelsMed}
+          open={labLevelsMedId !== null}
+          onOpenChange={(open) => !open && setLabLevelsMedId(null)}
+        />
+      )}
+
+      {schedulesMed && (
+        <DoseSchedulesView
+          medication={schedulesMed}
+          open={schedulesMedId !== null}
+          onOpenChange={(open) => !open && setSchedulesMedId(null)}
+        />
+      )}
+
+      {inventoryMed && (
+        <InventoryView
+          medication={inventoryMed}
+          open={inventoryMedId !== null}
+          onOpenChange={(open) => !open && setInventoryMedId(null)}
+        />
+      )}
     </div>
   );
 }
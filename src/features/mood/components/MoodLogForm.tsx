@@ -22,6 +22,7 @@ import { Label } from '@/shared/ui/label';
 import { Slider } from '@/shared/ui/slider';
 import { Textarea } from '@/shared/ui/textarea';
 import { toast } from 'sonner';
+import { validateDraft } from '@/core/services/entity-schemas';
 import { cn } from '@/shared/utils';
 import { parseLocalDateTime } from '@/shared/utils/date-helpers';
 
@@ -105,13 +106,21 @@ export default function MoodLogForm({ onSubmit, onClose, compact = false }: Mood
   const handleSubmit = () => {
     try {
       const timestamp = parseLocalDateTime(date, time);
-      onSubmit({
+      const entry = {
         timestamp,
         moodScore,
         ...(showCognitive && { cognitiveScore, attentionShift }),
         ...(showEmotional && { anxietyLevel, energyLevel, focusLevel }),
         notes: notes.trim() || undefined
-      });
+      };
+
+      const validation = validateDraft('moodEntries', entry);
+      if (!validation.valid) {
+        toast.error('Registro inválido', { description: validation.error });
+        return;
+      }
+
+      onSubmit(entry);
     } catch (error) {
       toast.error('Data/hora inválida', {
         description: error instanceof Error ? error.message : 'Verifique os campos'
@@ -1,9 +1,15 @@
+import { format } from 'date-fns';
+import {
+  parseSamsungCsvDateTime,
+  parseSamsungCsvNumber,
+  readSamsungCsv,
+  samsungSleepStage,
+  type SamsungCsvTable
+} from '../../health-data/csv/samsung-csv-profiles';
 import { 
-  SamsungHealthSleepData, 
   SleepRecord, 
   SleepSession, 
-  SleepMetrics, 
-  SleepStage 
+  SleepMetrics
 } from '../types';
 
 export class SamsungHealthParser {
@@ -12,43 +18,42 @@ export class SamsungHealthParser {
    * Parse CSV content from Samsung Health sleep export
    */
   static parseSleepCSV(csvContent: string): SleepSession {
-    const lines = csvContent.trim().split('\n');
-    const headers = lines[0].split(',');
-    
+    return this.parseSleepTable(readSamsungCsv(csvContent, { kind: 'sleep' })!);
+  }
+
+  /**
+   * Sleep session of a sleep CSV already read with readSamsungCsv; rows
+   * without a valid time, duration or stage are left out
+   */
+  static parseSleepTable(table: SamsungCsvTable): SleepSession {
+    const { profile } = table;
+
     // Parse records
     const records: SleepRecord[] = [];
     let sessionDate = '';
     let sessionStart = 0;
     let sessionEnd = 0;
     
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',');
-      if (values.length < 4) continue;
-      
-      const rawData: SamsungHealthSleepData = {
-        Data: values[0],
-        Hora: values[1], 
-        'Duração em segundos': values[2],
-        'Fase do sono': values[3] as SleepStage
-      };
-      
+    table.rows.forEach((row, index) => {
       // Convert to structured data
-      const timestamp = this.parseDateTime(rawData.Data, rawData.Hora);
-      const duration = parseInt(rawData['Duração em segundos']);
+      const timestamp = parseSamsungCsvDateTime(profile, row.date, row.time);
+      const duration = Math.round(parseSamsungCsvNumber(profile, row.sleepDuration));
+      const stage = samsungSleepStage(profile, row.sleepStage);
+      if (!Number.isFinite(timestamp) || !Number.isFinite(duration) || !stage) return;
       
-      if (i === 1) {
-        sessionDate = rawData.Data;
+      if (records.length === 0) {
+        sessionDate = format(timestamp, 'yyyy-MM-dd');
         sessionStart = timestamp;
       }
       sessionEnd = timestamp + duration * 1000; // Convert to milliseconds
       
       records.push({
-        id: `sleep-${i}`,
+        id: `sleep-${index + 1}`,
         timestamp,
         duration,
-        stage: rawData['Fase do sono']
+        stage
       });
-    }
+    });
     
     // Calculate metrics
     const metrics = this.calculateMetrics(records);
@@ -59,8 +64,8 @@ export class SamsungHealthParser {
       Math.round(records.reduce((sum, r) => sum + r.duration, 0) / 60);
 
     return {
-      id: `sleep-session-${sessionDate.replace(/\./g, '-')}`,
-      date: sessionDate.replace(/\./g, '-'),
+      id: `sleep-session-${sessionDate}`,
+      date: sessionDate,
       startTime: sessionStart,
       endTime: sessionEnd,
       totalDuration: totalDurationMinutes,
@@ -70,22 +75,6 @@ export class SamsungHealthParser {
     };
   }
   
-  /**
-   * Parse Samsung Health datetime format (YYYY.MM.DD HH:mm:ss)
-   */
-  private static parseDateTime(dateStr: string, timeStr: string): number {
-    try {
-      const [year, month, day] = dateStr.split('.').map(Number);
-      const [hours, minutes, seconds = 0] = timeStr.split(':').map(Number);
-      
-      const date = new Date(year, month - 1, day, hours, minutes, seconds);
-      return date.getTime();
-    } catch (error) {
-      console.warn(`Erro ao parsear data/hora: ${dateStr} ${timeStr}`, error);
-      return Date.now(); // Fallback para timestamp atual
-    }
-  }
-  
   /**
    * Calculate comprehensive sleep metrics from records
    */
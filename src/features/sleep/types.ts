@@ -50,13 +50,6 @@ export interface SleepMetrics {
   sleepScore: number; // 0-100 based on multiple factors
 }
 
-export interface SamsungHealthSleepData {
-  Data: string;
-  Hora: string;
-  'Duração em segundos': string;
-  'Fase do sono': SleepStage;
-}
-
 export interface SleepAnalytics {
   weeklyAverage: Partial<SleepMetrics>;
   monthlyAverage: Partial<SleepMetrics>;
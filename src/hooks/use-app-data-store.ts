@@ -1,32 +1,99 @@
 import { useCallback } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
 import {
   fetchAppData,
   saveAppData,
   cloneSnapshot,
   normalizeSnapshot,
+  createEntity,
+  updateEntity,
+  deleteEntity,
+  applyEntityWrite,
+  performEntityWrite,
+  isTransientError,
+  AppDataConflictError,
+  EntityValidationError,
+  type AnyEntityRecord as AnyRecord,
   type AppDataSnapshot,
-  type AppDataUpdater
+  type AppDataUpdater,
+  type EntityCollection,
+  type EntityWrite
 } from '@/core/services/app-data-service';
+import { conflictKey, mergeSnapshots, type RecordConflict } from '@/core/services/snapshot-merge';
+import { validateRecord } from '@/core/services/entity-schemas';
+import {
+  applyPendingMutations,
+  countPendingMutations,
+  enqueueWrite,
+  listPendingMutations
+} from '@/core/services/offline-outbox';
+import { pkCache } from '@/features/analytics/utils/pharmacokinetics-cache';
+import { EncryptionLockedError } from '@/core/services/encryption-session';
+import { AuthRequiredError } from '@/core/services/auth-client';
 
 export const APP_DATA_QUERY_KEY = ['app-data'];
+export const APP_DATA_CONFLICTS_QUERY_KEY = ['app-data-conflicts'];
+export const OUTBOX_QUERY_KEY = ['offline-outbox'];
+
+const MAX_MERGE_ATTEMPTS = 3;
+
+/**
+ * Server snapshot with any writes still waiting in the offline outbox replayed on top
+ */
+async function fetchAppDataWithPending(): Promise<AppDataSnapshot> {
+  const snapshot = await fetchAppData();
+  const pending = await listPendingMutations().catch(() => []);
+  return pending.length > 0 ? applyPendingMutations(snapshot, pending) : snapshot;
+}
 
 export function useAppDataSnapshot() {
   return useQuery({
     queryKey: APP_DATA_QUERY_KEY,
-    queryFn: fetchAppData,
+    queryFn: fetchAppDataWithPending,
     refetchOnMount: 'always',
     refetchOnWindowFocus: true,
     staleTime: 60_000,
-    retry: 2,
+    // Locked data or a missing login only clear once the user types the password
+    retry: (failureCount, error) =>
+      !(error instanceof EncryptionLockedError || error instanceof AuthRequiredError) && failureCount < 2,
     retryDelay: 1000
   });
 }
 
+export function addConflicts(queryClient: QueryClient, incoming: RecordConflict[]) {
+  if (incoming.length === 0) return;
+  queryClient.setQueryData<RecordConflict[]>(APP_DATA_CONFLICTS_QUERY_KEY, (existing = []) => {
+    const byKey = new Map(existing.map((conflict) => [conflict.key, conflict]));
+    for (const conflict of incoming) {
+      byKey.set(conflict.key, conflict);
+    }
+    return Array.from(byKey.values());
+  });
+}
+
+export function replaceRecord(
+  snapshot: AppDataSnapshot,
+  collection: EntityCollection,
+  id: string,
+  record: AnyRecord | null
+): AppDataSnapshot {
+  const records = snapshot[collection] as AnyRecord[];
+  const exists = records.some((item) => item.id === id);
+  let next: AnyRecord[];
+  if (!record) {
+    next = records.filter((item) => item.id !== id);
+  } else if (exists) {
+    next = records.map((item) => (item.id === id ? record : item));
+  } else {
+    next = [record, ...records];
+  }
+  return { ...snapshot, [collection]: next };
+}
+
 export function useAppDataMutator() {
   const queryClient = useQueryClient();
   const mutation = useMutation({
-    mutationFn: saveAppData,
+    mutationFn: (snapshot: AppDataSnapshot) => saveAppData(snapshot),
     onSuccess: (saved) => {
       queryClient.setQueryData(APP_DATA_QUERY_KEY, saved);
     }
@@ -45,10 +112,28 @@ export function useAppDataMutator() {
 
       queryClient.setQueryData(APP_DATA_QUERY_KEY, nextSnapshot);
 
+      let base = current;
+      let ours = nextSnapshot;
       try {
-        const saved = await mutation.mutateAsync(nextSnapshot);
-        queryClient.setQueryData(APP_DATA_QUERY_KEY, saved);
-        return saved;
+        for (let attempt = 1; ; attempt++) {
+          try {
+            const saved = await mutation.mutateAsync(ours);
+            queryClient.setQueryData(APP_DATA_QUERY_KEY, saved);
+            return saved;
+          } catch (error) {
+            if (!(error instanceof AppDataConflictError) || attempt >= MAX_MERGE_ATTEMPTS) {
+              throw error;
+            }
+            // Another device saved first: merge our edits onto its snapshot and retry
+            const theirs = error.current as AppDataSnapshot;
+            const { merged, conflicts } = mergeSnapshots(base, ours, theirs);
+            console.warn(`[AppData] Conflito de revisão (${theirs.revision}); mesclando ${conflicts.length} conflito(s)`);
+            addConflicts(queryClient, conflicts);
+            base = theirs;
+            ours = merged;
+            queryClient.setQueryData(APP_DATA_QUERY_KEY, merged);
+          }
+        }
       } catch (error) {
         console.error('[AppData] Falha ao salvar no backend; revertendo snapshot otimista', error);
         queryClient.setQueryData(APP_DATA_QUERY_KEY, current);
@@ -63,3 +148,166 @@ export function useAppDataMutator() {
     isSaving: mutation.isPending
   };
 }
+
+export type EntityWriteStatus = 'saved' | 'queued' | 'conflict';
+
+/**
+ * Applies a single-record write optimistically to the cached snapshot and
+ * persists it through the per-entity REST endpoints.
+ *
+ * - Offline (or with older writes still queued) the write goes to the
+ *   IndexedDB outbox and is replayed later, in order.
+ * - When the server reports the record was changed by another device, the
+ *   server copy is kept in the cache and the local edit is parked as a
+ *   conflict for the user to resolve.
+ * - Any other failure reverts the optimistic update and rethrows.
+ */
+export function useEntityMutator() {
+  const queryClient = useQueryClient();
+  const mutation = useMutation({
+    mutationFn: (write: EntityWrite) => performEntityWrite(write)
+  });
+
+  const queueWrite = useCallback(
+    async (write: EntityWrite) => {
+      await enqueueWrite(write);
+      queryClient.invalidateQueries({ queryKey: OUTBOX_QUERY_KEY });
+    },
+    [queryClient]
+  );
+
+  const mutateEntity = useCallback(
+    async (write: EntityWrite): Promise<EntityWriteStatus> => {
+      const current = queryClient.getQueryData<AppDataSnapshot>(APP_DATA_QUERY_KEY);
+      if (!current) {
+        throw new Error('App data snapshot is not loaded yet');
+      }
+
+      const nextSnapshot = normalizeSnapshot(applyEntityWrite(cloneSnapshot(current), write));
+
+      // Reject invalid records before they reach the cache, the server or the outbox
+      if (write.op !== 'delete') {
+        const record = (nextSnapshot[write.collection] as AnyRecord[]).find((item) => item.id === write.id);
+        const validation = validateRecord(write.collection, record);
+        if (!validation.valid) {
+          throw new EntityValidationError(validation.error, validation.errors);
+        }
+      }
+
+      queryClient.setQueryData(APP_DATA_QUERY_KEY, nextSnapshot);
+
+      try {
+        const hasBacklog = (await countPendingMutations().catch(() => 0)) > 0;
+        if (!navigator.onLine || hasBacklog) {
+          await queueWrite(write);
+          return 'queued';
+        }
+
+        try {
+          await mutation.mutateAsync(write);
+          return 'saved';
+        } catch (error) {
+          if (!isTransientError(error)) throw error;
+          console.warn('[AppData] Servidor inacessível; alteração guardada na fila offline', write);
+          await queueWrite(write);
+          return 'queued';
+        }
+      } catch (error) {
+        if (error instanceof AppDataConflictError) {
+          const ours = write.op === 'delete'
+            ? null
+            : (nextSnapshot[write.collection] as AnyRecord[]).find((item) => item.id === write.id) ?? null;
+          const theirs = (error.current as AnyRecord | undefined) ?? null;
+          console.warn(`[AppData] Registro ${write.collection}/${write.id} alterado em outro dispositivo`);
+          addConflicts(queryClient, [
+            { key: conflictKey(write.collection, write.id), collection: write.collection, id: write.id, ours, theirs }
+          ]);
+          queryClient.setQueryData<AppDataSnapshot>(APP_DATA_QUERY_KEY, (latest) =>
+            replaceRecord(latest ?? current, write.collection, write.id, theirs)
+          );
+          queryClient.invalidateQueries({ queryKey: APP_DATA_QUERY_KEY });
+          return 'conflict';
+        }
+
+        console.error('[AppData] Falha ao salvar registro no backend; revertendo snapshot otimista', error);
+        queryClient.setQueryData(APP_DATA_QUERY_KEY, current);
+        throw error;
+      }
+    },
+    [mutation, queryClient, queueWrite]
+  );
+
+  return {
+    mutateEntity,
+    isSaving: mutation.isPending
+  };
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith('HTTP 404');
+}
+
+/**
+ * Write the chosen side of a conflict without a version check; the record
+ * may or may not exist on the server depending on how the merge went.
+ */
+async function persistResolution(collection: EntityCollection, id: string, record: AnyRecord | null) {
+  try {
+    if (record) {
+      await updateEntity(collection, id, record);
+    } else {
+      await deleteEntity(collection, id);
+    }
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+    if (record) {
+      await createEntity(collection, record);
+    }
+  }
+}
+
+/**
+ * Pending sync conflicts and the actions to settle them.
+ * The chosen version is force-written to the server and the cache.
+ */
+export function useAppDataConflicts() {
+  const queryClient = useQueryClient();
+  const { data: conflicts = [] } = useQuery<RecordConflict[]>({
+    queryKey: APP_DATA_CONFLICTS_QUERY_KEY,
+    queryFn: () => queryClient.getQueryData<RecordConflict[]>(APP_DATA_CONFLICTS_QUERY_KEY) ?? [],
+    initialData: [],
+    staleTime: Infinity,
+    gcTime: Infinity
+  });
+
+  const resolveConflict = useCallback(
+    async (key: string, choice: 'ours' | 'theirs') => {
+      const conflict = conflicts.find((item) => item.key === key);
+      if (!conflict) return;
+
+      const { collection, id, ours, theirs } = conflict;
+      const chosen = choice === 'ours' ? ours : theirs;
+      const winner = chosen && choice === 'ours' ? ({ ...chosen, updatedAt: Date.now() } as AnyRecord) : chosen;
+      await persistResolution(collection, id, winner);
+
+      queryClient.setQueryData<AppDataSnapshot>(APP_DATA_QUERY_KEY, (latest) =>
+        latest ? replaceRecord(latest, collection, id, winner) : latest
+      );
+      queryClient.setQueryData<RecordConflict[]>(APP_DATA_CONFLICTS_QUERY_KEY, (existing = []) =>
+        existing.filter((item) => item.key !== key)
+      );
+
+      if (collection === 'doses') {
+        for (const record of [ours, theirs]) {
+          if (record && 'medicationId' in record) pkCache.invalidate(record.medicationId);
+        }
+      }
+    },
+    [conflicts, queryClient]
+  );
+
+  return {
+    conflicts,
+    resolveConflict
+  } as const;
+}
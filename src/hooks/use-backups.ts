@@ -0,0 +1,41 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchBackupDetail, fetchBackups, restoreBackup } from '@/core/services/app-data-service';
+import { pkCache } from '@/features/analytics/utils/pharmacokinetics-cache';
+import { APP_DATA_QUERY_KEY } from '@/hooks/use-app-data-store';
+
+export const BACKUPS_QUERY_KEY = ['backups'];
+
+export function useBackups() {
+  return useQuery({
+    queryKey: BACKUPS_QUERY_KEY,
+    queryFn: fetchBackups,
+    staleTime: 30_000
+  });
+}
+
+/**
+ * Summary and diff of one backup; idle while `id` is null
+ */
+export function useBackupDetail(id: string | null) {
+  return useQuery({
+    queryKey: ['backup-detail', id],
+    queryFn: () => fetchBackupDetail(id!),
+    enabled: id !== null
+  });
+}
+
+/**
+ * Restore a backup and put the restored snapshot on screen
+ */
+export function useRestoreBackup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: restoreBackup,
+    onSuccess: (snapshot) => {
+      queryClient.setQueryData(APP_DATA_QUERY_KEY, snapshot);
+      queryClient.invalidateQueries({ queryKey: BACKUPS_QUERY_KEY });
+      pkCache.invalidate();
+    }
+  });
+}
@@ -1,7 +1,8 @@
 import { useCallback, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import type { CognitiveTest } from '@/shared/types';
-import { useAppDataSnapshot, useAppDataMutator } from '@/hooks/use-app-data-store';
+import { recordVersion } from '@/core/services/app-data-service';
+import { useAppDataSnapshot, useEntityMutator } from '@/hooks/use-app-data-store';
 
 interface CognitiveTestCreateInput extends Omit<CognitiveTest, 'id' | 'createdAt'> {
   id?: string;
@@ -14,8 +15,8 @@ interface CognitiveTestUpdateInput extends Partial<Omit<CognitiveTest, 'id' | 'c
 
 export function useCognitiveTests() {
   const { data, isLoading, isFetching } = useAppDataSnapshot();
-  const { mutateAppData } = useAppDataMutator();
-  const sourceTests = data?.cognitiveTests ?? [];
+  const { mutateEntity } = useEntityMutator();
+  const sourceTests = useMemo(() => data?.cognitiveTests ?? [], [data?.cognitiveTests]);
 
   const cognitiveTests = useMemo(() => {
     return [...sourceTests].sort((a, b) => b.timestamp - a.timestamp);
@@ -30,37 +31,38 @@ export function useCognitiveTests() {
       totalScore: payload.totalScore,
       averageResponseTime: payload.averageResponseTime,
       accuracy: payload.accuracy,
-      createdAt: payload.createdAt ?? timestamp
+      createdAt: payload.createdAt ?? timestamp,
+      updatedAt: Date.now()
     };
 
-    await mutateAppData((snapshot) => ({
-      ...snapshot,
-      cognitiveTests: [record, ...snapshot.cognitiveTests]
-    }));
+    await mutateEntity({ op: 'create', collection: 'cognitiveTests', id: record.id, record });
     return record;
-  }, [mutateAppData]);
+  }, [mutateEntity]);
 
   const updateCognitiveTest = useCallback(async (id: string, updates: CognitiveTestUpdateInput) => {
-    if (!sourceTests.some((test) => test.id === id)) {
+    const existing = sourceTests.find((test) => test.id === id);
+    if (!existing) {
       return;
     }
 
-    await mutateAppData((snapshot) => ({
-      ...snapshot,
-      cognitiveTests: snapshot.cognitiveTests.map((test) => (test.id === id ? { ...test, ...updates } : test))
-    }));
-  }, [mutateAppData, sourceTests]);
+    const stamped = { ...updates, updatedAt: Date.now() };
+    await mutateEntity({
+      op: 'update',
+      collection: 'cognitiveTests',
+      id,
+      updates: stamped,
+      baseVersion: recordVersion(existing)
+    });
+  }, [mutateEntity, sourceTests]);
 
   const deleteCognitiveTest = useCallback(async (id: string) => {
-    if (!sourceTests.some((test) => test.id === id)) {
+    const existing = sourceTests.find((test) => test.id === id);
+    if (!existing) {
       return;
     }
 
-    await mutateAppData((snapshot) => ({
-      ...snapshot,
-      cognitiveTests: snapshot.cognitiveTests.filter((test) => test.id !== id)
-    }));
-  }, [mutateAppData, sourceTests]);
+    await mutateEntity({ op: 'delete', collection: 'cognitiveTests', id, baseVersion: recordVersion(existing) });
+  }, [mutateEntity, sourceTests]);
 
   return {
     cognitiveTests,
@@ -0,0 +1,75 @@
+import { useCallback, useMemo } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { DoseSchedule } from '@/shared/types';
+import { recordVersion } from '@/core/services/app-data-service';
+import { useAppDataSnapshot, useEntityMutator } from '@/hooks/use-app-data-store';
+
+interface DoseScheduleCreateInput extends Omit<DoseSchedule, 'id' | 'createdAt'> {
+  id?: string;
+  createdAt?: number;
+}
+
+interface DoseScheduleUpdateInput extends Partial<Omit<DoseSchedule, 'id' | 'createdAt'>> {
+  createdAt?: number;
+}
+
+/**
+ * Titration and taper schedules, latest start first; optionally of one medication
+ */
+export function useDoseSchedules(medicationId?: string) {
+  const { data, isLoading, isFetching } = useAppDataSnapshot();
+  const { mutateEntity } = useEntityMutator();
+  const allSchedules = useMemo(() => data?.doseSchedules ?? [], [data?.doseSchedules]);
+
+  const doseSchedules = useMemo(() => {
+    const filtered = medicationId
+      ? allSchedules.filter((schedule) => schedule.medicationId === medicationId)
+      : allSchedules;
+    return [...filtered].sort((a, b) => b.startDate.localeCompare(a.startDate));
+  }, [allSchedules, medicationId]);
+
+  const createDoseSchedule = useCallback(async (payload: DoseScheduleCreateInput) => {
+    const now = Date.now();
+    const record: DoseSchedule = {
+      ...payload,
+      id: payload.id ?? uuidv4(),
+      createdAt: payload.createdAt ?? now,
+      updatedAt: now
+    };
+
+    await mutateEntity({ op: 'create', collection: 'doseSchedules', id: record.id, record });
+    return record;
+  }, [mutateEntity]);
+
+  const updateDoseSchedule = useCallback(async (id: string, updates: DoseScheduleUpdateInput) => {
+    const existing = allSchedules.find((schedule) => schedule.id === id);
+    if (!existing) {
+      return;
+    }
+
+    await mutateEntity({
+      op: 'update',
+      collection: 'doseSchedules',
+      id,
+      updates: { ...updates, updatedAt: Date.now() },
+      baseVersion: recordVersion(existing)
+    });
+  }, [mutateEntity, allSchedules]);
+
+  const deleteDoseSchedule = useCallback(async (id: string) => {
+    const existing = allSchedules.find((schedule) => schedule.id === id);
+    if (!existing) {
+      return;
+    }
+
+    await mutateEntity({ op: 'delete', collection: 'doseSchedules', id, baseVersion: recordVersion(existing) });
+  }, [mutateEntity, allSchedules]);
+
+  return {
+    doseSchedules,
+    createDoseSchedule,
+    updateDoseSchedule,
+    deleteDoseSchedule,
+    isLoading: (!data && (isLoading || isFetching))
+  } as const;
+}
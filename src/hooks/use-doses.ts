@@ -3,7 +3,8 @@ import { useQueryClient } from '@tanstack/react-query';
 import { v4 as uuidv4 } from 'uuid';
 import type { MedicationDose } from '@/shared/types';
 import { pkCache } from '@/features/analytics/utils/pharmacokinetics-cache';
-import { useAppDataSnapshot, useAppDataMutator } from '@/hooks/use-app-data-store';
+import { recordVersion } from '@/core/services/app-data-service';
+import { useAppDataSnapshot, useEntityMutator } from '@/hooks/use-app-data-store';
 
 interface DoseCreateInput extends Omit<MedicationDose, 'id' | 'createdAt'> {
   id?: string;
@@ -17,8 +18,8 @@ interface DoseUpdateInput extends Partial<Omit<MedicationDose, 'id' | 'createdAt
 export function useDoses(medicationId?: string) {
   const queryClient = useQueryClient();
   const { data, isLoading, isFetching } = useAppDataSnapshot();
-  const { mutateAppData } = useAppDataMutator();
-  const allDoses = data?.doses ?? [];
+  const { mutateEntity } = useEntityMutator();
+  const allDoses = useMemo(() => data?.doses ?? [], [data?.doses]);
 
   const doses = useMemo(() => {
     const filtered = medicationId ? allDoses.filter((dose) => dose.medicationId === medicationId) : allDoses;
@@ -52,17 +53,15 @@ export function useDoses(medicationId?: string) {
       doseAmount: payload.doseAmount,
       route: payload.route,
       notes: payload.notes,
-      createdAt: payload.createdAt ?? Date.now()
+      createdAt: payload.createdAt ?? Date.now(),
+      updatedAt: Date.now()
     };
 
-    await mutateAppData((snapshot) => ({
-      ...snapshot,
-      doses: [record, ...snapshot.doses]
-    }));
+    await mutateEntity({ op: 'create', collection: 'doses', id: record.id, record });
     invalidateCache(payload.medicationId);
 
     return record;
-  }, [invalidateCache, mutateAppData]);
+  }, [invalidateCache, mutateEntity]);
 
   const updateDose = useCallback(async (id: string, updates: DoseUpdateInput) => {
     const currentDose = allDoses.find((dose) => dose.id === id);
@@ -70,12 +69,19 @@ export function useDoses(medicationId?: string) {
       return;
     }
 
-    await mutateAppData((snapshot) => ({
-      ...snapshot,
-      doses: snapshot.doses.map((dose) => (dose.id === id ? { ...dose, ...updates } : dose))
-    }));
+    const stamped = { ...updates, updatedAt: Date.now() };
+    await mutateEntity({
+      op: 'update',
+      collection: 'doses',
+      id,
+      updates: stamped,
+      baseVersion: recordVersion(currentDose)
+    });
     invalidateCache(currentDose.medicationId);
-  }, [allDoses, invalidateCache, mutateAppData]);
+    if (updates.medicationId && updates.medicationId !== currentDose.medicationId) {
+      invalidateCache(updates.medicationId);
+    }
+  }, [allDoses, invalidateCache, mutateEntity]);
 
   const deleteDose = useCallback(async (id: string) => {
     const currentDose = allDoses.find((dose) => dose.id === id);
@@ -83,12 +89,9 @@ export function useDoses(medicationId?: string) {
       return;
     }
 
-    await mutateAppData((snapshot) => ({
-      ...snapshot,
-      doses: snapshot.doses.filter((dose) => dose.id !== id)
-    }));
+    await mutateEntity({ op: 'delete', collection: 'doses', id, baseVersion: recordVersion(currentDose) });
     invalidateCache(currentDose.medicationId);
-  }, [allDoses, invalidateCache, mutateAppData]);
+  }, [allDoses, invalidateCache, mutateEntity]);
 
   return {
     doses,
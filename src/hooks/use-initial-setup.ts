@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
 import { useMedications } from './use-medications';
 import { generateMedicationSeeds } from '@/core/database/seeds/medications';
+import { isEncryptionLocked } from '@/core/services/encryption-session';
+import { getServerAuthState } from '@/core/services/auth-client';
 
 /**
  * Hook que gerencia o setup inicial do app
@@ -14,7 +16,8 @@ export function useInitialSetup() {
 
   useEffect(() => {
     async function initializeApp() {
-      if (isLoading) return;
+      // Locked or signed-out data reads as empty; don't seed over it
+      if (isLoading || isEncryptionLocked() || getServerAuthState() !== 'authenticated') return;
 
       if (medications && medications.length > 0) {
         setIsInitialized(true);
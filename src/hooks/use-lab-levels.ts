@@ -0,0 +1,73 @@
+import { useCallback, useMemo } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { LabLevel } from '@/shared/types';
+import { recordVersion } from '@/core/services/app-data-service';
+import { useAppDataSnapshot, useEntityMutator } from '@/hooks/use-app-data-store';
+
+interface LabLevelCreateInput extends Omit<LabLevel, 'id' | 'createdAt'> {
+  id?: string;
+  createdAt?: number;
+}
+
+interface LabLevelUpdateInput extends Partial<Omit<LabLevel, 'id' | 'createdAt'>> {
+  createdAt?: number;
+}
+
+/**
+ * Measured blood levels, newest first; optionally of one medication
+ */
+export function useLabLevels(medicationId?: string) {
+  const { data, isLoading, isFetching } = useAppDataSnapshot();
+  const { mutateEntity } = useEntityMutator();
+  const allLevels = useMemo(() => data?.labLevels ?? [], [data?.labLevels]);
+
+  const labLevels = useMemo(() => {
+    const filtered = medicationId ? allLevels.filter((level) => level.medicationId === medicationId) : allLevels;
+    return [...filtered].sort((a, b) => b.timestamp - a.timestamp);
+  }, [allLevels, medicationId]);
+
+  const createLabLevel = useCallback(async (payload: LabLevelCreateInput) => {
+    const now = Date.now();
+    const record: LabLevel = {
+      ...payload,
+      id: payload.id ?? uuidv4(),
+      createdAt: payload.createdAt ?? now,
+      updatedAt: now
+    };
+
+    await mutateEntity({ op: 'create', collection: 'labLevels', id: record.id, record });
+    return record;
+  }, [mutateEntity]);
+
+  const updateLabLevel = useCallback(async (id: string, updates: LabLevelUpdateInput) => {
+    const existing = allLevels.find((level) => level.id === id);
+    if (!existing) {
+      return;
+    }
+
+    await mutateEntity({
+      op: 'update',
+      collection: 'labLevels',
+      id,
+      updates: { ...updates, updatedAt: Date.now() },
+      baseVersion: recordVersion(existing)
+    });
+  }, [mutateEntity, allLevels]);
+
+  const deleteLabLevel = useCallback(async (id: string) => {
+    const existing = allLevels.find((level) => level.id === id);
+    if (!existing) {
+      return;
+    }
+
+    await mutateEntity({ op: 'delete', collection: 'labLevels', id, baseVersion: recordVersion(existing) });
+  }, [mutateEntity, allLevels]);
+
+  return {
+    labLevels,
+    createLabLevel,
+    updateLabLevel,
+    deleteLabLevel,
+    isLoading: (!data && (isLoading || isFetching))
+  } as const;
+}
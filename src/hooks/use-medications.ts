@@ -1,15 +1,16 @@
 import { useCallback, useMemo } from 'react';
 import type { Medication } from '@/shared/types';
 import { createMedicationRecord, mergeMedicationRecord, type MedicationDraft } from '@/core/database/medication-helpers';
-import { useAppDataSnapshot, useAppDataMutator } from '@/hooks/use-app-data-store';
+import { recordVersion } from '@/core/services/app-data-service';
+import { useAppDataSnapshot, useEntityMutator } from '@/hooks/use-app-data-store';
 
 type MedicationCreateInput = MedicationDraft & Required<Pick<Medication, 'name' | 'halfLife' | 'volumeOfDistribution' | 'bioavailability'>>;
 type MedicationUpdateInput = MedicationDraft;
 
 export function useMedications() {
   const { data, isLoading, isFetching } = useAppDataSnapshot();
-  const { mutateAppData } = useAppDataMutator();
-  const sourceMedications = data?.medications ?? [];
+  const { mutateEntity } = useEntityMutator();
+  const sourceMedications = useMemo(() => data?.medications ?? [], [data?.medications]);
 
   const medications = useMemo(() => {
     return [...sourceMedications].sort((a, b) => b.createdAt - a.createdAt);
@@ -17,12 +18,9 @@ export function useMedications() {
 
   const createMedication = useCallback(async (payload: MedicationCreateInput) => {
     const record = createMedicationRecord(payload);
-    await mutateAppData((snapshot) => ({
-      ...snapshot,
-      medications: [record, ...snapshot.medications]
-    }));
+    await mutateEntity({ op: 'create', collection: 'medications', id: record.id, record });
     return record;
-  }, [mutateAppData]);
+  }, [mutateEntity]);
 
   const updateMedication = useCallback(async (id: string, updates: MedicationUpdateInput) => {
     const existing = sourceMedications.find((med) => med.id === id);
@@ -30,23 +28,24 @@ export function useMedications() {
       return;
     }
 
-    await mutateAppData((snapshot) => ({
-      ...snapshot,
-      medications: snapshot.medications.map((med) => (med.id === id ? mergeMedicationRecord(med, updates) : med))
-    }));
-  }, [mutateAppData, sourceMedications]);
+    const merged = mergeMedicationRecord(existing, updates);
+    await mutateEntity({
+      op: 'update',
+      collection: 'medications',
+      id,
+      updates: merged,
+      baseVersion: recordVersion(existing)
+    });
+  }, [mutateEntity, sourceMedications]);
 
   const deleteMedication = useCallback(async (id: string) => {
-    if (!sourceMedications.some((med) => med.id === id)) {
+    const existing = sourceMedications.find((med) => med.id === id);
+    if (!existing) {
       return;
     }
 
-    await mutateAppData((snapshot) => ({
-      ...snapshot,
-      medications: snapshot.medications.filter((med) => med.id !== id),
-      doses: snapshot.doses.filter((dose) => dose.medicationId !== id)
-    }));
-  }, [mutateAppData, sourceMedications]);
+    await mutateEntity({ op: 'delete', collection: 'medications', id, baseVersion: recordVersion(existing) });
+  }, [mutateEntity, sourceMedications]);
 
   return {
     medications,
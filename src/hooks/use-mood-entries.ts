@@ -1,7 +1,8 @@
 import { useCallback, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import type { MoodEntry } from '@/shared/types';
-import { useAppDataSnapshot, useAppDataMutator } from '@/hooks/use-app-data-store';
+import { recordVersion } from '@/core/services/app-data-service';
+import { useAppDataSnapshot, useEntityMutator } from '@/hooks/use-app-data-store';
 
 interface MoodEntryCreateInput extends Omit<MoodEntry, 'id' | 'createdAt'> {
   id?: string;
@@ -14,8 +15,8 @@ interface MoodEntryUpdateInput extends Partial<Omit<MoodEntry, 'id' | 'createdAt
 
 export function useMoodEntries() {
   const { data, isLoading, isFetching } = useAppDataSnapshot();
-  const { mutateAppData } = useAppDataMutator();
-  const sourceMoodEntries = data?.moodEntries ?? [];
+  const { mutateEntity } = useEntityMutator();
+  const sourceMoodEntries = useMemo(() => data?.moodEntries ?? [], [data?.moodEntries]);
 
   const moodEntries = useMemo(() => {
     return [...sourceMoodEntries].sort((a, b) => b.timestamp - a.timestamp);
@@ -33,37 +34,38 @@ export function useMoodEntries() {
       cognitiveScore: payload.cognitiveScore,
       attentionShift: payload.attentionShift,
       notes: payload.notes,
-      createdAt: payload.createdAt ?? timestamp
+      createdAt: payload.createdAt ?? timestamp,
+      updatedAt: Date.now()
     };
 
-    await mutateAppData((snapshot) => ({
-      ...snapshot,
-      moodEntries: [record, ...snapshot.moodEntries]
-    }));
+    await mutateEntity({ op: 'create', collection: 'moodEntries', id: record.id, record });
     return record;
-  }, [mutateAppData]);
+  }, [mutateEntity]);
 
   const updateMoodEntry = useCallback(async (id: string, updates: MoodEntryUpdateInput) => {
-    if (!sourceMoodEntries.some((entry) => entry.id === id)) {
+    const existing = sourceMoodEntries.find((entry) => entry.id === id);
+    if (!existing) {
       return;
     }
 
-    await mutateAppData((snapshot) => ({
-      ...snapshot,
-      moodEntries: snapshot.moodEntries.map((entry) => (entry.id === id ? { ...entry, ...updates } : entry))
-    }));
-  }, [mutateAppData, sourceMoodEntries]);
+    const stamped = { ...updates, updatedAt: Date.now() };
+    await mutateEntity({
+      op: 'update',
+      collection: 'moodEntries',
+      id,
+      updates: stamped,
+      baseVersion: recordVersion(existing)
+    });
+  }, [mutateEntity, sourceMoodEntries]);
 
   const deleteMoodEntry = useCallback(async (id: string) => {
-    if (!sourceMoodEntries.some((entry) => entry.id === id)) {
+    const existing = sourceMoodEntries.find((entry) => entry.id === id);
+    if (!existing) {
       return;
     }
 
-    await mutateAppData((snapshot) => ({
-      ...snapshot,
-      moodEntries: snapshot.moodEntries.filter((entry) => entry.id !== id)
-    }));
-  }, [mutateAppData, sourceMoodEntries]);
+    await mutateEntity({ op: 'delete', collection: 'moodEntries', id, baseVersion: recordVersion(existing) });
+  }, [mutateEntity, sourceMoodEntries]);
 
   return {
     moodEntries,
@@ -0,0 +1,131 @@
+import { useCallback, useEffect } from 'react';
+import { useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { AnyEntityRecord, AppDataSnapshot } from '@/core/services/app-data-service';
+import { conflictKey } from '@/core/services/snapshot-merge';
+import {
+  discardFailedMutation,
+  listPendingMutations,
+  replayOutbox,
+  retryFailedMutations,
+  subscribeQueuedWrites
+} from '@/core/services/offline-outbox';
+import {
+  APP_DATA_QUERY_KEY,
+  OUTBOX_QUERY_KEY,
+  addConflicts
+} from '@/hooks/use-app-data-store';
+
+/**
+ * Replay the outbox and hand its outcome to the cache: conflicts to the
+ * conflict dialog, sent writes to a refetch, rejections to a toast
+ */
+async function syncOutbox(queryClient: QueryClient) {
+  try {
+    const result = await replayOutbox();
+
+    if (result.conflicts.length > 0) {
+      const snapshot = queryClient.getQueryData<AppDataSnapshot>(APP_DATA_QUERY_KEY);
+      addConflicts(
+        queryClient,
+        result.conflicts.map(({ write, theirs }) => {
+          const ours = write.op === 'delete' || !snapshot
+            ? null
+            : (snapshot[write.collection] as AnyEntityRecord[]).find((item) => item.id === write.id) ?? null;
+          return { key: conflictKey(write.collection, write.id), collection: write.collection, id: write.id, ours, theirs };
+        })
+      );
+    }
+
+    // Rejected writes drop out of the overlay, so the refetch shows what the server kept
+    if (result.sent > 0 || result.failed > 0 || result.conflicts.length > 0) {
+      queryClient.invalidateQueries({ queryKey: APP_DATA_QUERY_KEY });
+    }
+    if (result.sent > 0) {
+      toast.success(`${result.sent} alteração(ões) offline sincronizada(s)`);
+    }
+    if (result.failed > 0) {
+      toast.error(`${result.failed} alteração(ões) foram recusadas pelo servidor`, {
+        description: 'Toque no indicador de pendências para tentar de novo ou descartar.'
+      });
+    }
+  } catch (error) {
+    console.error('[Outbox] Falha ao sincronizar fila offline', error);
+  } finally {
+    queryClient.invalidateQueries({ queryKey: OUTBOX_QUERY_KEY });
+  }
+}
+
+/**
+ * Writes still waiting to reach the server (for the pending-changes badge),
+ * and the actions for the ones the server rejected
+ */
+export function usePendingChanges() {
+  const queryClient = useQueryClient();
+  const { data: pending = [] } = useQuery({
+    queryKey: OUTBOX_QUERY_KEY,
+    queryFn: listPendingMutations,
+    refetchInterval: 30_000
+  });
+
+  const retryFailed = useCallback(async () => {
+    await retryFailedMutations();
+    await syncOutbox(queryClient);
+  }, [queryClient]);
+
+  const discardFailed = useCallback(
+    async (seq: number) => {
+      await discardFailedMutation(seq);
+      queryClient.invalidateQueries({ queryKey: OUTBOX_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: APP_DATA_QUERY_KEY });
+    },
+    [queryClient]
+  );
+
+  return {
+    pending,
+    pendingCount: pending.length,
+    failed: pending.filter((mutation) => mutation.failed),
+    failedCount: pending.filter((mutation) => mutation.failed).length,
+    retryFailed,
+    discardFailed
+  } as const;
+}
+
+/**
+ * Replays the offline outbox when the app starts, when the browser comes back
+ * online, when the service worker fires a Background Sync and right after a
+ * write is queued while online. Mount once.
+ */
+export function useOutboxSync() {
+  const queryClient = useQueryClient();
+
+  const sync = useCallback(() => syncOutbox(queryClient), [queryClient]);
+
+  useEffect(() => {
+    sync();
+
+    const handleOnline = () => {
+      sync();
+    };
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'REPLAY_OUTBOX') {
+        sync();
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+    const unsubscribeQueued = subscribeQueuedWrites(() => {
+      sync();
+    });
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+      unsubscribeQueued();
+    };
+  }, [sync]);
+
+  return { sync };
+}
@@ -0,0 +1,87 @@
+import { useCallback, useMemo } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { PhysiologyRecord } from '@/shared/types';
+import { recordVersion } from '@/core/services/app-data-service';
+import { useAppDataSnapshot, useEntityMutator } from '@/hooks/use-app-data-store';
+import { useBodyWeight } from '@/hooks/use-profiles';
+import { buildPatientProfile, type PatientProfile } from '@/features/analytics/utils/patient-physiology';
+
+interface PhysiologyRecordCreateInput extends Omit<PhysiologyRecord, 'id' | 'createdAt'> {
+  id?: string;
+  createdAt?: number;
+}
+
+interface PhysiologyRecordUpdateInput extends Partial<Omit<PhysiologyRecord, 'id' | 'createdAt'>> {
+  createdAt?: number;
+}
+
+/**
+ * Dated physiological records of the active profile, newest first
+ */
+export function usePhysiologyRecords() {
+  const { data, isLoading, isFetching } = useAppDataSnapshot();
+  const { mutateEntity } = useEntityMutator();
+  const allRecords = useMemo(() => data?.physiologyRecords ?? [], [data?.physiologyRecords]);
+
+  const physiologyRecords = useMemo(
+    () => [...allRecords].sort((a, b) => b.timestamp - a.timestamp),
+    [allRecords]
+  );
+
+  const createPhysiologyRecord = useCallback(async (payload: PhysiologyRecordCreateInput) => {
+    const now = Date.now();
+    const record: PhysiologyRecord = {
+      ...payload,
+      id: payload.id ?? uuidv4(),
+      createdAt: payload.createdAt ?? now,
+      updatedAt: now
+    };
+
+    await mutateEntity({ op: 'create', collection: 'physiologyRecords', id: record.id, record });
+    return record;
+  }, [mutateEntity]);
+
+  const updatePhysiologyRecord = useCallback(async (id: string, updates: PhysiologyRecordUpdateInput) => {
+    const existing = allRecords.find((record) => record.id === id);
+    if (!existing) {
+      return;
+    }
+
+    await mutateEntity({
+      op: 'update',
+      collection: 'physiologyRecords',
+      id,
+      updates: { ...updates, updatedAt: Date.now() },
+      baseVersion: recordVersion(existing)
+    });
+  }, [mutateEntity, allRecords]);
+
+  const deletePhysiologyRecord = useCallback(async (id: string) => {
+    const existing = allRecords.find((record) => record.id === id);
+    if (!existing) {
+      return;
+    }
+
+    await mutateEntity({ op: 'delete', collection: 'physiologyRecords', id, baseVersion: recordVersion(existing) });
+  }, [mutateEntity, allRecords]);
+
+  return {
+    physiologyRecords,
+    createPhysiologyRecord,
+    updatePhysiologyRecord,
+    deletePhysiologyRecord,
+    isLoading: (!data && (isLoading || isFetching))
+  } as const;
+}
+
+/**
+ * Patient the PK model uses for the active profile: its physiology records,
+ * with the profile's body weight until a weight is recorded
+ */
+export function usePatientProfile(): PatientProfile {
+  const { data } = useAppDataSnapshot();
+  const defaultWeight = useBodyWeight();
+  const records = data?.physiologyRecords;
+
+  return useMemo(() => buildPatientProfile(records ?? [], defaultWeight), [records, defaultWeight]);
+}
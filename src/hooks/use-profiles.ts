@@ -0,0 +1,126 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Profile } from '@/shared/types';
+import {
+  createProfile,
+  deleteProfile,
+  fetchProfiles,
+  normalizeSnapshot,
+  saveAppData,
+  updateProfile,
+  type ProfileDraft
+} from '@/core/services/app-data-service';
+import {
+  DEFAULT_BODY_WEIGHT,
+  DEFAULT_PROFILE_ID,
+  getActiveProfileId,
+  setActiveProfileId,
+  subscribeActiveProfile
+} from '@/core/services/active-profile';
+import { isEncryptingWrites } from '@/core/services/encryption-session';
+import { pkCache } from '@/features/analytics/utils/pharmacokinetics-cache';
+import {
+  APP_DATA_CONFLICTS_QUERY_KEY,
+  APP_DATA_QUERY_KEY,
+  OUTBOX_QUERY_KEY
+} from '@/hooks/use-app-data-store';
+import { BACKUPS_QUERY_KEY } from '@/hooks/use-backups';
+
+export const PROFILES_QUERY_KEY = ['profiles'];
+
+/** Queries holding data of a single profile; dropped on every switch */
+const PROFILE_SCOPED_QUERY_KEYS = [APP_DATA_QUERY_KEY, APP_DATA_CONFLICTS_QUERY_KEY, OUTBOX_QUERY_KEY, BACKUPS_QUERY_KEY];
+
+export function useProfiles() {
+  const { data: profiles = [], isLoading } = useQuery({
+    queryKey: PROFILES_QUERY_KEY,
+    queryFn: fetchProfiles,
+    staleTime: 5 * 60 * 1000
+  });
+  return { profiles, isLoading } as const;
+}
+
+/**
+ * The profile whose data is on screen (null until the registry loads)
+ */
+export function useActiveProfile() {
+  const activeProfileId = useSyncExternalStore(subscribeActiveProfile, getActiveProfileId);
+  const { profiles, isLoading } = useProfiles();
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId) ?? null;
+  return { activeProfileId, activeProfile, profiles, isLoading } as const;
+}
+
+/**
+ * Body weight (kg) the PK model uses for the active profile
+ */
+export function useBodyWeight(): number {
+  const { activeProfile } = useActiveProfile();
+  return activeProfile?.bodyWeight ?? DEFAULT_BODY_WEIGHT;
+}
+
+/**
+ * Switch the data on screen to another profile
+ */
+export function useSwitchProfile() {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    (profileId: string) => {
+      if (profileId === getActiveProfileId()) return;
+      setActiveProfileId(profileId);
+      pkCache.invalidate();
+      PROFILE_SCOPED_QUERY_KEYS.forEach((queryKey) => queryClient.resetQueries({ queryKey }));
+      queryClient.removeQueries({ queryKey: ['concentration-curve'] });
+      queryClient.removeQueries({ queryKey: ['concentration-point'] });
+    },
+    [queryClient]
+  );
+}
+
+export function useProfileMutations() {
+  const queryClient = useQueryClient();
+  const switchProfile = useSwitchProfile();
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: PROFILES_QUERY_KEY });
+
+  const create = useMutation({
+    mutationFn: async (draft: ProfileDraft): Promise<Profile> => {
+      const profile = await createProfile(draft);
+      // Profiles share the session key: store the new (empty) snapshot
+      // encrypted from the start instead of leaving it in plaintext
+      if (isEncryptingWrites()) {
+        await saveAppData(normalizeSnapshot({ revision: 0 }), profile.id);
+      }
+      return profile;
+    },
+    onSuccess: (profile) => {
+      refresh();
+      switchProfile(profile.id);
+    }
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<ProfileDraft> }) => updateProfile(id, updates),
+    onSuccess: (profile) => {
+      queryClient.setQueryData<Profile[]>(PROFILES_QUERY_KEY, (current) =>
+        current?.map((item) => (item.id === profile.id ? profile : item))
+      );
+      pkCache.invalidate();
+    }
+  });
+
+  const remove = useMutation({
+    mutationFn: deleteProfile,
+    onSuccess: (_result, id) => {
+      if (id === getActiveProfileId()) switchProfile(DEFAULT_PROFILE_ID);
+      refresh();
+    }
+  });
+
+  return {
+    createProfile: create.mutateAsync,
+    updateProfile: update.mutateAsync,
+    deleteProfile: remove.mutateAsync,
+    isSaving: create.isPending || update.isPending || remove.isPending
+  } as const;
+}
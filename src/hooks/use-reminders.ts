@@ -0,0 +1,71 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  deliverReminders,
+  getReminderSettings,
+  planReminders,
+  subscribeReminderSettings,
+  type PlannedReminder
+} from '@/core/services/reminders';
+import { useMedications } from '@/hooks/use-medications';
+import { useDoses } from '@/hooks/use-doses';
+import { useMoodEntries } from '@/hooks/use-mood-entries';
+import { useDoseSchedules } from '@/hooks/use-dose-schedules';
+
+/** Plans are made for the next day and refreshed well before it runs out */
+const REPLAN_INTERVAL_MS = 30 * 60 * 1000;
+
+export function useReminderSettings() {
+  return useSyncExternalStore(subscribeReminderSettings, getReminderSettings);
+}
+
+/**
+ * Keeps the dose and mood check-in reminders of the active profile handed to
+ * the service worker, re-planning when the data or the settings change.
+ * Mount once.
+ */
+export function useReminderScheduler() {
+  const settings = useReminderSettings();
+  const { medications } = useMedications();
+  const { doses } = useDoses();
+  const { moodEntries } = useMoodEntries();
+  const { doseSchedules } = useDoseSchedules();
+  const [tick, setTick] = useState(() => Date.now());
+  const [snoozed, setSnoozed] = useState<PlannedReminder[]>([]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setTick(Date.now()), REPLAN_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Without Notification Triggers the worker hands snoozed reminders back
+  useEffect(() => {
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'REMINDER_SNOOZED') {
+        const reminder = event.data.reminder as PlannedReminder;
+        setSnoozed((current) => [...current.filter((item) => item.id !== reminder.id), { ...reminder, at: event.data.until }]);
+      }
+    };
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+    return () => navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+  }, []);
+
+  useEffect(() => {
+    const now = Date.now();
+    const planned = planReminders({ medications, doses, moodEntries, doseSchedules, settings, now });
+    const pending = settings.enabled ? snoozed.filter((reminder) => reminder.at > now) : [];
+
+    let cancel: (() => void) | null = null;
+    let disposed = false;
+    deliverReminders([...planned, ...pending], settings)
+      .then((cancelDelivery) => {
+        if (disposed) cancelDelivery();
+        else cancel = cancelDelivery;
+      })
+      .catch((error) => console.warn('[Reminders] Falha ao agendar lembretes:', error));
+
+    return () => {
+      disposed = true;
+      cancel?.();
+    };
+  }, [medications, doses, moodEntries, doseSchedules, settings, snoozed, tick]);
+}
@@ -218,7 +218,8 @@ function generateRealisticData() {
     cognitiveTests: []
   };
 
-  const outputDir = path.join(process.cwd(), 'public', 'data');
+  // The API's DATA_DIR (api/snapshot-store.js)
+  const outputDir = process.env.DATA_DIR ?? path.join(process.cwd(), 'data', 'app');
   if (!fs.existsSync(outputDir)) {
     fs.mkdirSync(outputDir, { recursive: true });
   }
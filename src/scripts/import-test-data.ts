@@ -37,7 +37,7 @@ async function importTestData() {
     console.log(`   Arquivo salvo em: ${result.filePath}\n`);
     
     // Também copiar para app-data.json
-    const appDataPath = path.join(process.cwd(), 'public/data/app-data.json');
+    const appDataPath = path.join(process.env.DATA_DIR ?? path.join(process.cwd(), 'data', 'app'), 'app-data.json');
     fs.writeFileSync(appDataPath, JSON.stringify(testData, null, 2));
     console.log('✅ Dados copiados para app-data.json\n');
     
@@ -205,10 +205,8 @@ function processAllHeartRateFiles() {
   console.log(`   Tamanho: ${(fs.statSync(summaryPath).size / 1024).toFixed(2)} KB`);
   
   console.log('\n💡 Próximos passos:');
-  console.log('   1. Acesse https://ultrassom.ai:8114/test-import.html');
-  console.log('   2. Os dados de FC serão carregados automaticamente');
-  console.log('   3. Vá para Analytics Dashboard para ver as correlações');
-  console.log('   4. Use o seletor de período (7 dias, 30 dias, tudo)');
+  console.log('   1. Vá para Analytics Dashboard para ver as correlações');
+  console.log('   2. Use o seletor de período (7 dias, 30 dias, tudo)');
   
   return outputData;
 }
@@ -0,0 +1,162 @@
+/**
+ * Backup List
+ *
+ * Server-side snapshot backups with one-click restore. Before restoring, the
+ * confirmation shows how many records would be added, removed or reverted.
+ * Backups encrypted with another key than the current data can't be restored.
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ClockCounterClockwise } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { Button } from '@/shared/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/shared/ui/alert-dialog';
+import type { EntityCollection, RecordCounts } from '@/core/services/app-data-service';
+import { useBackupDetail, useBackups, useRestoreBackup } from '@/hooks/use-backups';
+
+const COLLECTION_LABELS: Record<EntityCollection, string> = {
+  medications: 'Medicações',
+  doses: 'Doses',
+  moodEntries: 'Registros de humor',
+  cognitiveTests: 'Testes cognitivos',
+  labLevels: 'Níveis séricos',
+  physiologyRecords: 'Dados fisiológicos',
+  doseSchedules: 'Esquemas de titulação'
+};
+
+const COLLECTIONS = Object.keys(COLLECTION_LABELS) as EntityCollection[];
+
+function formatCounts(counts: RecordCounts): string {
+  return `${counts.medications} med · ${counts.doses} doses · ${counts.moodEntries} humor · ${counts.cognitiveTests} testes · ${counts.labLevels ?? 0} níveis · ${counts.physiologyRecords ?? 0} fisiológicos · ${counts.doseSchedules ?? 0} esquemas`;
+}
+
+function formatBackupDate(iso: string): string {
+  return format(new Date(iso), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+}
+
+export function BackupList() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: backups = [], isLoading, isError } = useBackups();
+  const { data: detail, isLoading: isDetailLoading } = useBackupDetail(selectedId);
+
+  const restore = useRestoreBackup();
+
+  const handleRestore = (id: string) =>
+    restore.mutate(id, {
+      onSuccess: () => {
+        toast.success('Backup restaurado', {
+          description: 'O estado anterior foi salvo como um novo backup.'
+        });
+        setSelectedId(null);
+      },
+      onError: (error) => {
+        console.error('[Backups] Restore error:', error);
+        toast.error('Erro ao restaurar backup. Tente novamente.');
+      }
+    });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Carregando backups...</p>;
+  }
+
+  if (isError) {
+    return <p className="text-xs text-muted-foreground">Não foi possível carregar a lista de backups.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-semibold">Backups no servidor</p>
+
+      {backups.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Nenhum backup disponível ainda.</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-border rounded-lg border border-border">
+          {backups.map((backup) => (
+            <li key={backup.id} className="flex items-center justify-between gap-3 px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{formatBackupDate(backup.createdAt)}</p>
+                <p className="text-xs text-muted-foreground truncate">{formatCounts(backup.counts)}</p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setSelectedId(backup.id)}>
+                <ClockCounterClockwise className="w-4 h-4 mr-1" />
+                Restaurar
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AlertDialog open={selectedId !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restaurar este backup?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os dados atuais serão substituídos. Um backup do estado atual é criado antes, então a operação pode
+              ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {isDetailLoading || !detail ? (
+            <p className="text-sm text-muted-foreground">Calculando diferenças...</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground">
+                  <th className="font-medium py-1"></th>
+                  <th className="font-medium py-1 text-right">Volta</th>
+                  <th className="font-medium py-1 text-right">Removidos</th>
+                  <th className="font-medium py-1 text-right">Revertidos</th>
+                </tr>
+              </thead>
+              <tbody>
+                {COLLECTIONS.map((collection) => {
+                  const diff = detail.diff[collection];
+                  return (
+                    <tr key={collection} className="border-t border-border">
+                      <td className="py-1">{COLLECTION_LABELS[collection]}</td>
+                      <td className="py-1 text-right text-success-700">+{diff.added.length}</td>
+                      <td className="py-1 text-right text-error-700">−{diff.removed.length}</td>
+                      <td className="py-1 text-right">{diff.changed.length}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {detail && !detail.sameKey && (
+            <p className="text-sm text-error-700">
+              Este backup foi criptografado com outra senha (de antes de uma troca de senha ou de ativar/desativar a
+              criptografia) e não pode ser restaurado com a sessão atual.
+            </p>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restore.isPending}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!detail || !detail.sameKey || restore.isPending}
+              onClick={(event) => {
+                event.preventDefault();
+                if (selectedId) handleRestore(selectedId);
+              }}
+            >
+              {restore.isPending ? 'Restaurando...' : 'Restaurar'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,18 +1,42 @@
 /**
- * Data Export Component
+ * Data Export/Import Component
  *
- * Allows users to export current local data to JSON file for backup.
+ * Allows users to export current local data to JSON file for backup, import a
+ * previously exported file (merge or replace, after a preview) and restore one
+ * of the snapshot backups kept by the server.
  * Data is automatically synced with server when doses/mood entries are added.
  */
 
-import { useState } from 'react';
+import { useRef, useState, type ChangeEvent } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/shared/ui/button';
 import { GlassCard, GlassCardHeader, GlassCardTitle, GlassCardDescription, GlassCardContent } from '@/shared/ui/glass-card';
-import { fetchAppData } from '@/core/services/app-data-service';
-import { Download } from 'lucide-react';
+import {
+  fetchAppData,
+  importAppData,
+  type AppDataSnapshot,
+  type ImportMode
+} from '@/core/services/app-data-service';
+import { previewImport, validateImportedSnapshot, type ImportPreview } from '@/core/services/snapshot-import';
+import { APP_DATA_QUERY_KEY } from '@/hooks/use-app-data-store';
+import { BACKUPS_QUERY_KEY } from '@/hooks/use-backups';
+import { pkCache } from '@/features/analytics/utils/pharmacokinetics-cache';
+import { Download, Upload } from 'lucide-react';
+import { BackupList } from './BackupList';
+import { ImportPreviewDialog } from './ImportPreviewDialog';
+
+interface PendingImport {
+  fileName: string;
+  snapshot: AppDataSnapshot;
+  preview: ImportPreview;
+}
 
 export function DataExportImport() {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
   /**
@@ -53,12 +77,75 @@ export function DataExportImport() {
     }
   };
 
+  /**
+   * Parse and validate the chosen file, then open the preview
+   */
+  const handleFileSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setMessage({ type: 'error', text: `${file.name} não é um arquivo JSON válido.` });
+      return;
+    }
+
+    const validation = validateImportedSnapshot(parsed);
+    if (!validation.valid) {
+      setMessage({ type: 'error', text: `Arquivo inválido: ${validation.error}` });
+      return;
+    }
+
+    try {
+      const current = await fetchAppData();
+      setPendingImport({
+        fileName: file.name,
+        snapshot: validation.snapshot,
+        preview: previewImport(current, validation.snapshot)
+      });
+    } catch (error) {
+      console.error('Import preview error:', error);
+      setMessage({ type: 'error', text: 'Erro ao carregar os dados atuais. Tente novamente.' });
+    }
+  };
+
+  /**
+   * Send the import to the server (which backs up the current data first)
+   */
+  const handleImport = async (mode: ImportMode) => {
+    if (!pendingImport) return;
+    setIsImporting(true);
+
+    try {
+      const saved = await importAppData(pendingImport.snapshot, mode);
+      queryClient.setQueryData(APP_DATA_QUERY_KEY, saved);
+      queryClient.invalidateQueries({ queryKey: BACKUPS_QUERY_KEY });
+      pkCache.invalidate();
+
+      setMessage({
+        type: 'success',
+        text: `Importação concluída (${mode === 'merge' ? 'mesclagem' : 'substituição'}): ${saved.medications.length} medicações, ${saved.doses.length} doses, ${saved.moodEntries.length} registros de humor. O estado anterior foi salvo como backup.`
+      });
+      setPendingImport(null);
+    } catch (error) {
+      console.error('Import error:', error);
+      setMessage({ type: 'error', text: 'Erro ao importar dados. Nenhuma alteração foi feita.' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   return (
     <GlassCard variant="elevated" className="w-full">
       <GlassCardHeader>
         <GlassCardTitle>Backup de Dados</GlassCardTitle>
         <GlassCardDescription>
-          Exporte seus dados para backup local
+          Exporte seus dados para backup local ou importe um backup anterior
         </GlassCardDescription>
       </GlassCardHeader>
 
@@ -84,6 +171,33 @@ export function DataExportImport() {
             {isExporting ? 'Exportando...' : 'Exportar Backup JSON'}
           </Button>
 
+          {/* Import button */}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            variant="outline"
+            className="w-full"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {isImporting ? 'Importando...' : 'Importar Backup JSON'}
+          </Button>
+
+          <ImportPreviewDialog
+            key={pendingImport?.fileName}
+            fileName={pendingImport?.fileName ?? null}
+            preview={pendingImport?.preview ?? null}
+            isImporting={isImporting}
+            onConfirm={handleImport}
+            onCancel={() => setPendingImport(null)}
+          />
+
           {/* Message feedback */}
           {message && (
             <div
@@ -97,6 +211,11 @@ export function DataExportImport() {
             </div>
           )}
 
+          {/* Server backups */}
+          <div className="pt-4 border-t border-neutral-6">
+            <BackupList />
+          </div>
+
           {/* Instructions */}
           <div className="text-xs text-neutral-10 space-y-2 pt-4 border-t border-neutral-6">
             <p className="font-semibold">Como funciona:</p>
@@ -104,6 +223,8 @@ export function DataExportImport() {
               <li><strong>Sincronização automática:</strong> Ao adicionar/editar doses ou humor, os dados são salvos no servidor automaticamente em segundo plano</li>
               <li><strong>Multi-dispositivo:</strong> Abra o app em qualquer dispositivo e seus dados estarão lá</li>
               <li><strong>Backup manual:</strong> Use o botão "Exportar" para criar uma cópia local de segurança em formato JSON</li>
+              <li><strong>Importação:</strong> Carregue um arquivo exportado para mesclar (por id) ou substituir os dados atuais; um backup é criado antes</li>
+              <li><strong>Backups no servidor:</strong> Cópias automáticas (horárias no último dia, diárias no último mês e semanais depois disso) que podem ser restauradas a qualquer momento</li>
             </ul>
           </div>
         </div>
@@ -0,0 +1,122 @@
+/**
+ * Import Preview Dialog
+ *
+ * Confirmation step for JSON imports: shows how many records in the file are
+ * new, updated or duplicates of the current data and lets the user pick
+ * between merging by id and replacing everything.
+ */
+
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/shared/ui/alert-dialog';
+import { RadioGroup, RadioGroupItem } from '@/shared/ui/radio-group';
+import { Label } from '@/shared/ui/label';
+import type { EntityCollection, ImportMode } from '@/core/services/app-data-service';
+import { countImportChanges, IMPORT_COLLECTIONS, type ImportPreview } from '@/core/services/snapshot-import';
+
+const COLLECTION_LABELS: Record<EntityCollection, string> = {
+  medications: 'Medicações',
+  doses: 'Doses',
+  moodEntries: 'Registros de humor',
+  cognitiveTests: 'Testes cognitivos',
+  labLevels: 'Níveis séricos',
+  physiologyRecords: 'Dados fisiológicos',
+  doseSchedules: 'Esquemas de titulação'
+};
+
+interface ImportPreviewDialogProps {
+  fileName: string | null;
+  preview: ImportPreview | null;
+  isImporting: boolean;
+  onConfirm: (mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+export function ImportPreviewDialog({ fileName, preview, isImporting, onConfirm, onCancel }: ImportPreviewDialogProps) {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const changes = preview ? countImportChanges(preview, mode) : 0;
+
+  return (
+    <AlertDialog open={preview !== null} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Importar {fileName ?? 'backup'}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Um backup do estado atual é criado no servidor antes da importação, então a operação pode ser desfeita.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {preview && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground">
+                <th className="font-medium py-1"></th>
+                <th className="font-medium py-1 text-right">Novos</th>
+                <th className="font-medium py-1 text-right">Atualizados</th>
+                <th className="font-medium py-1 text-right">Duplicados</th>
+                {mode === 'replace' && <th className="font-medium py-1 text-right">Removidos</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {IMPORT_COLLECTIONS.map((collection) => {
+                const entry = preview[collection];
+                return (
+                  <tr key={collection} className="border-t border-border">
+                    <td className="py-1">{COLLECTION_LABELS[collection]}</td>
+                    <td className="py-1 text-right text-success-700">+{entry.added.length}</td>
+                    <td className="py-1 text-right">{entry.updated.length}</td>
+                    <td className="py-1 text-right text-muted-foreground">{entry.duplicate.length}</td>
+                    {mode === 'replace' && (
+                      <td className="py-1 text-right text-error-700">−{entry.removed.length}</td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="gap-2">
+          <div className="flex items-start gap-2">
+            <RadioGroupItem value="merge" id="import-mode-merge" className="mt-0.5" />
+            <Label htmlFor="import-mode-merge" className="font-normal leading-snug">
+              <span>
+                <strong>Mesclar</strong> — adiciona os novos registros e atualiza os que têm o mesmo id, mantendo o
+                restante
+              </span>
+            </Label>
+          </div>
+          <div className="flex items-start gap-2">
+            <RadioGroupItem value="replace" id="import-mode-replace" className="mt-0.5" />
+            <Label htmlFor="import-mode-replace" className="font-normal leading-snug">
+              <span>
+                <strong>Substituir</strong> — os dados atuais passam a ser exatamente os do arquivo
+              </span>
+            </Label>
+          </div>
+        </RadioGroup>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isImporting}>Cancelar</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={isImporting || changes === 0}
+            onClick={(event) => {
+              event.preventDefault();
+              onConfirm(mode);
+            }}
+          >
+            {isImporting ? 'Importando...' : changes === 0 ? 'Nada a importar' : `Importar (${changes})`}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Pending Changes Dialog
+ *
+ * Lists the writes waiting in the offline outbox (see offline-outbox.ts). The
+ * ones the server rejected are never sent on their own: they can be tried
+ * again or discarded here.
+ */
+
+import { toast } from 'sonner';
+import { ArrowsClockwise, CloudSlash, Trash, WarningCircle } from '@phosphor-icons/react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/ui/dialog';
+import { Button } from '@/shared/ui/button';
+import type { EntityCollection, EntityWrite } from '@/core/services/app-data-service';
+import { usePendingChanges } from '@/hooks/use-offline-outbox';
+
+interface PendingChangesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const COLLECTION_LABELS: Record<EntityCollection, string> = {
+  medications: 'Medicação',
+  doses: 'Dose',
+  moodEntries: 'Registro de humor',
+  cognitiveTests: 'Teste cognitivo',
+  labLevels: 'Nível sérico',
+  physiologyRecords: 'Dados fisiológicos',
+  doseSchedules: 'Esquema de dose'
+};
+
+const OP_LABELS: Record<EntityWrite['op'], string> = {
+  create: 'novo',
+  update: 'alteração',
+  delete: 'exclusão'
+};
+
+function describeWrite(write: EntityWrite): string {
+  return `${COLLECTION_LABELS[write.collection]} (${OP_LABELS[write.op]})`;
+}
+
+export function PendingChangesDialog({ open, onOpenChange }: PendingChangesDialogProps) {
+  const { pending, failed, retryFailed, discardFailed } = usePendingChanges();
+  const waiting = pending.filter((mutation) => !mutation.failed);
+
+  const handleDiscard = async (seq: number) => {
+    try {
+      await discardFailed(seq);
+      toast.success('Alteração descartada');
+    } catch (error) {
+      console.error('[Outbox] Falha ao descartar alteração', error);
+      toast.error('Não foi possível descartar a alteração');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CloudSlash className="w-5 h-5 text-primary" weight="duotone" />
+            Alterações pendentes
+          </DialogTitle>
+          <DialogDescription>
+            Alterações feitas sem conexão são enviadas assim que o servidor responder.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {waiting.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {waiting.length} alteração(ões) aguardando envio.
+            </p>
+          )}
+
+          {failed.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="flex items-center gap-1 text-sm font-medium text-destructive">
+                  <WarningCircle className="w-4 h-4" weight="bold" />
+                  Recusadas pelo servidor (não foram salvas)
+                </p>
+                <Button size="sm" variant="outline" onClick={() => retryFailed()}>
+                  <ArrowsClockwise className="w-4 h-4 mr-1" />
+                  Tentar de novo
+                </Button>
+              </div>
+              <ul className="space-y-2">
+                {failed.map((mutation) => (
+                  <li
+                    key={mutation.seq}
+                    className="flex items-start justify-between gap-2 rounded-lg border border-destructive/30 p-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm">{describeWrite(mutation.write)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(mutation.createdAt).toLocaleString('pt-BR')}
+                        {mutation.lastError ? ` · ${mutation.lastError}` : ''}
+                      </p>
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Descartar alteração"
+                      onClick={() => handleDiscard(mutation.seq!)}
+                    >
+                      <Trash className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {pending.length === 0 && (
+            <p className="text-sm text-muted-foreground">Tudo sincronizado.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,320 @@
+/**
+ * Physiology Records Dialog
+ *
+ * Dated physiological data of the active profile (weight, height, renal and
+ * hepatic function, smoking). The PK model reads the value in force at each
+ * moment: weight scales Vd and, for medications with an elimination profile,
+ * CrCl, Child-Pugh class and smoking adjust clearance (patient-physiology.ts).
+ */
+
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { Heartbeat, Trash } from '@phosphor-icons/react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/ui/dialog';
+import { Card, CardContent } from '@/shared/ui/card';
+import { Button } from '@/shared/ui/button';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+import type { BiologicalSex, ChildPughClass, PhysiologyRecord, SmokingStatus } from '@/shared/types';
+import { safeFormat } from '@/shared/utils';
+import { parseLocalDateTime } from '@/shared/utils/date-helpers';
+import { fieldErrorMap, validateDraft } from '@/core/services/entity-schemas';
+import { usePatientProfile, usePhysiologyRecords } from '@/hooks/use-physiology-records';
+import { getPhysiologyAt } from '@/features/analytics/utils/patient-physiology';
+
+interface PhysiologyRecordsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const UNSET = 'unset';
+
+const SEX_LABELS: Record<BiologicalSex, string> = {
+  male: 'Masculino',
+  female: 'Feminino'
+};
+
+const CHILD_PUGH_LABELS: Record<ChildPughClass, string> = {
+  none: 'Sem insuficiência hepática',
+  A: 'Child-Pugh A',
+  B: 'Child-Pugh B',
+  C: 'Child-Pugh C'
+};
+
+const SMOKING_LABELS: Record<SmokingStatus, string> = {
+  never: 'Nunca fumou',
+  former: 'Ex-fumante',
+  current: 'Fumante'
+};
+
+const EMPTY_FORM = {
+  weight: '',
+  height: '',
+  birthDate: '',
+  sex: UNSET,
+  serumCreatinine: '',
+  creatinineClearance: '',
+  childPugh: UNSET,
+  smoking: UNSET
+};
+
+function FieldMessage({ message }: { message?: string }) {
+  return message ? <p className="text-xs text-destructive">{message}</p> : null;
+}
+
+function optionalNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : parseFloat(value.replace(',', '.'));
+}
+
+function optionalChoice<T extends string>(value: string): T | undefined {
+  return value === UNSET ? undefined : (value as T);
+}
+
+function describeRecord(record: PhysiologyRecord): string {
+  const parts: string[] = [];
+  if (record.weight !== undefined) parts.push(`${record.weight} kg`);
+  if (record.height !== undefined) parts.push(`${record.height} cm`);
+  if (record.birthDate) parts.push(`nasc. ${safeFormat(Date.parse(`${record.birthDate}T00:00:00`), 'dd/MM/yyyy')}`);
+  if (record.sex) parts.push(SEX_LABELS[record.sex]);
+  if (record.serumCreatinine !== undefined) parts.push(`creatinina ${record.serumCreatinine} mg/dL`);
+  if (record.creatinineClearance !== undefined) parts.push(`ClCr ${record.creatinineClearance} mL/min`);
+  if (record.childPugh) parts.push(CHILD_PUGH_LABELS[record.childPugh]);
+  if (record.smoking) parts.push(SMOKING_LABELS[record.smoking]);
+  return parts.join(' · ');
+}
+
+export function PhysiologyRecordsDialog({ open, onOpenChange }: PhysiologyRecordsDialogProps) {
+  const { physiologyRecords, createPhysiologyRecord, deletePhysiologyRecord } = usePhysiologyRecords();
+  const patient = usePatientProfile();
+
+  const [date, setDate] = useState(() => safeFormat(Date.now(), 'yyyy-MM-dd', ''));
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const current = useMemo(() => getPhysiologyAt(patient, Date.now()), [patient]);
+
+  const setField = (field: keyof typeof EMPTY_FORM) => (value: string) => setForm({ ...form, [field]: value });
+
+  const handleAdd = async () => {
+    let timestamp: number;
+    try {
+      timestamp = parseLocalDateTime(date, '12:00');
+    } catch (error) {
+      setErrors({ timestamp: error instanceof Error ? error.message : 'Data inválida' });
+      return;
+    }
+
+    const draft = {
+      timestamp,
+      weight: optionalNumber(form.weight),
+      height: optionalNumber(form.height),
+      birthDate: form.birthDate || undefined,
+      sex: optionalChoice<BiologicalSex>(form.sex),
+      serumCreatinine: optionalNumber(form.serumCreatinine),
+      creatinineClearance: optionalNumber(form.creatinineClearance),
+      childPugh: optionalChoice<ChildPughClass>(form.childPugh),
+      smoking: optionalChoice<SmokingStatus>(form.smoking)
+    };
+    const validation = validateDraft('physiologyRecords', draft);
+    if (!validation.valid) {
+      setErrors(fieldErrorMap(validation.errors));
+      return;
+    }
+    setErrors({});
+
+    await createPhysiologyRecord(draft);
+    setForm(EMPTY_FORM);
+    toast.success('Dados fisiológicos registrados');
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirm('Excluir este registro?')) {
+      await deletePhysiologyRecord(id);
+    }
+  };
+
+  const hasValue = Object.entries(form).some(([field, value]) =>
+    field === 'sex' || field === 'childPugh' || field === 'smoking' ? value !== UNSET : value.trim() !== ''
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Heartbeat className="w-5 h-5 text-primary" weight="duotone" />
+            Dados fisiológicos
+          </DialogTitle>
+          <DialogDescription>
+            Peso, função renal e hepática ao longo do tempo. Os cálculos de concentração usam os valores vigentes em
+            cada data; campos em branco mantêm o último valor registrado.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Values in force now */}
+        <Card>
+          <CardContent className="pt-4 grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+            <div>
+              <div className="text-xs text-muted-foreground">Peso</div>
+              <div className="font-semibold">{current.bodyWeight.toFixed(1)} kg</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Idade</div>
+              <div className="font-semibold">{current.age !== undefined ? `${Math.floor(current.age)} anos` : '—'}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">
+                ClCr{current.creatinineClearanceEstimated ? ' (Cockcroft-Gault)' : ''}
+              </div>
+              <div className="font-semibold">
+                {current.creatinineClearance !== undefined ? `${current.creatinineClearance.toFixed(0)} mL/min` : '—'}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Fígado</div>
+              <div className="font-semibold">{current.childPugh === 'none' ? 'Normal' : `Child-Pugh ${current.childPugh}`}</div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* New record */}
+        <div className="p-3 rounded-lg bg-primary/5 border border-primary/20 space-y-3">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="physiology-date" className="text-xs">Data</Label>
+              <Input id="physiology-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              <FieldMessage message={errors.timestamp} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="physiology-weight" className="text-xs">Peso (kg)</Label>
+              <Input
+                id="physiology-weight"
+                inputMode="decimal"
+                value={form.weight}
+                onChange={(e) => setField('weight')(e.target.value)}
+              />
+              <FieldMessage message={errors.weight} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="physiology-height" className="text-xs">Altura (cm)</Label>
+              <Input
+                id="physiology-height"
+                inputMode="decimal"
+                value={form.height}
+                onChange={(e) => setField('height')(e.target.value)}
+              />
+              <FieldMessage message={errors.height} />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="physiology-birth" className="text-xs">Nascimento</Label>
+              <Input
+                id="physiology-birth"
+                type="date"
+                value={form.birthDate}
+                onChange={(e) => setField('birthDate')(e.target.value)}
+              />
+              <FieldMessage message={errors.birthDate} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="physiology-sex" className="text-xs">Sexo biológico</Label>
+              <Select value={form.sex} onValueChange={setField('sex')}>
+                <SelectTrigger id="physiology-sex">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNSET}>—</SelectItem>
+                  {(Object.keys(SEX_LABELS) as BiologicalSex[]).map((sex) => (
+                    <SelectItem key={sex} value={sex}>{SEX_LABELS[sex]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="physiology-smoking" className="text-xs">Tabagismo</Label>
+              <Select value={form.smoking} onValueChange={setField('smoking')}>
+                <SelectTrigger id="physiology-smoking">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNSET}>—</SelectItem>
+                  {(Object.keys(SMOKING_LABELS) as SmokingStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>{SMOKING_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="physiology-creatinine" className="text-xs">Creatinina (mg/dL)</Label>
+              <Input
+                id="physiology-creatinine"
+                inputMode="decimal"
+                value={form.serumCreatinine}
+                onChange={(e) => setField('serumCreatinine')(e.target.value)}
+              />
+              <FieldMessage message={errors.serumCreatinine} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="physiology-crcl" className="text-xs">ClCr / TFGe (mL/min)</Label>
+              <Input
+                id="physiology-crcl"
+                inputMode="decimal"
+                value={form.creatinineClearance}
+                onChange={(e) => setField('creatinineClearance')(e.target.value)}
+                placeholder="opcional"
+              />
+              <FieldMessage message={errors.creatinineClearance} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="physiology-child-pugh" className="text-xs">Função hepática</Label>
+              <Select value={form.childPugh} onValueChange={setField('childPugh')}>
+                <SelectTrigger id="physiology-child-pugh">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNSET}>—</SelectItem>
+                  {(Object.keys(CHILD_PUGH_LABELS) as ChildPughClass[]).map((value) => (
+                    <SelectItem key={value} value={value}>{CHILD_PUGH_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Sem ClCr informado, ele é estimado por Cockcroft-Gault a partir da creatinina, idade, peso e sexo.
+          </p>
+          <Button size="sm" onClick={handleAdd} disabled={!hasValue}>
+            Registrar
+          </Button>
+        </div>
+
+        {/* History */}
+        {physiologyRecords.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground text-sm">
+            Nenhum registro; os cálculos usam o peso do perfil
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {physiologyRecords.map((record) => (
+              <Card key={record.id} className="shadow-sm">
+                <CardContent className="pt-4 flex items-center justify-between gap-3">
+                  <div className="space-y-0.5">
+                    <div className="text-sm font-medium">{safeFormat(record.timestamp, 'dd/MM/yyyy')}</div>
+                    <div className="text-xs text-muted-foreground">{describeRecord(record)}</div>
+                  </div>
+                  <Button variant="destructive" size="sm" onClick={() => handleDelete(record.id)}>
+                    <Trash className="w-4 h-4" />
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
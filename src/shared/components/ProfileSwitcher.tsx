@@ -0,0 +1,218 @@
+/**
+ * Profile Switcher
+ *
+ * Picks whose data the app shows (a clinician following several patients, a
+ * family member...) and edits the per-profile settings used by the PK model,
+ * including the dated physiology records, and this device's reminders.
+ * Each profile's data is stored separately on the server.
+ */
+
+import { useState, type FormEvent } from 'react';
+import { toast } from 'sonner';
+import { Bell, CaretUpDown, Check, Heartbeat, PencilSimple, Plus, UserCircle } from '@phosphor-icons/react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/shared/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/shared/ui/dialog';
+import { Button } from '@/shared/ui/button';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { cn } from '@/shared/utils';
+import type { Profile } from '@/shared/types';
+import { DEFAULT_BODY_WEIGHT, DEFAULT_PROFILE_ID } from '@/core/services/active-profile';
+import { useActiveProfile, useProfileMutations, useSwitchProfile } from '@/hooks/use-profiles';
+import { usePatientProfile } from '@/hooks/use-physiology-records';
+import { getBodyWeightAt } from '@/features/analytics/utils/patient-physiology';
+import { PhysiologyRecordsDialog } from './PhysiologyRecordsDialog';
+import { ReminderSettingsDialog } from './ReminderSettingsDialog';
+
+interface ProfileSwitcherProps {
+  /** Icon-only trigger (collapsed sidebar, mobile header) */
+  compact?: boolean;
+}
+
+type EditorState = { mode: 'create' } | { mode: 'edit'; profile: Profile } | null;
+
+export function ProfileSwitcher({ compact = false }: ProfileSwitcherProps) {
+  const { activeProfileId, activeProfile, profiles } = useActiveProfile();
+  const switchProfile = useSwitchProfile();
+  const patient = usePatientProfile();
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [physiologyOpen, setPhysiologyOpen] = useState(false);
+  const [remindersOpen, setRemindersOpen] = useState(false);
+
+  const label = activeProfile?.name ?? 'Perfil';
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className={cn(
+              'flex items-center gap-2 rounded-lg transition-colors hover:bg-accent',
+              'focus:outline-none focus:ring-2 focus:ring-primary/50',
+              compact ? 'p-2' : 'w-full px-3 py-2 text-left'
+            )}
+            aria-label={`Perfil ativo: ${label}`}
+            title={compact ? label : undefined}
+          >
+            <UserCircle className="w-6 h-6 flex-shrink-0 text-primary" weight="duotone" />
+            {!compact && (
+              <>
+                <span className="flex-1 min-w-0">
+                  <span className="block truncate text-sm font-medium text-foreground">{label}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {getBodyWeightAt(patient, Date.now()).toFixed(1)} kg
+                  </span>
+                </span>
+                <CaretUpDown className="w-4 h-4 text-muted-foreground" />
+              </>
+            )}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Perfis</DropdownMenuLabel>
+          {profiles.map((profile) => (
+            <DropdownMenuItem key={profile.id} onSelect={() => switchProfile(profile.id)}>
+              <Check className={cn('w-4 h-4', profile.id !== activeProfileId && 'invisible')} />
+              <span className="truncate">{profile.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          {activeProfile && (
+            <DropdownMenuItem onSelect={() => setEditor({ mode: 'edit', profile: activeProfile })}>
+              <PencilSimple className="w-4 h-4" />
+              Editar perfil atual
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => setPhysiologyOpen(true)}>
+            <Heartbeat className="w-4 h-4" />
+            Dados fisiológicos
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setRemindersOpen(true)}>
+            <Bell className="w-4 h-4" />
+            Lembretes
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setEditor({ mode: 'create' })}>
+            <Plus className="w-4 h-4" />
+            Novo perfil
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ProfileEditorDialog state={editor} onClose={() => setEditor(null)} />
+      <PhysiologyRecordsDialog open={physiologyOpen} onOpenChange={setPhysiologyOpen} />
+      <ReminderSettingsDialog open={remindersOpen} onOpenChange={setRemindersOpen} />
+    </>
+  );
+}
+
+interface ProfileEditorDialogProps {
+  state: EditorState;
+  onClose: () => void;
+}
+
+function ProfileEditorDialog({ state, onClose }: ProfileEditorDialogProps) {
+  return (
+    <Dialog open={state !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        {/* Remount per opening so the fields start from the edited profile */}
+        {state && <ProfileEditorForm key={state.mode === 'edit' ? state.profile.id : 'new'} state={state} onClose={onClose} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ProfileEditorForm({ state, onClose }: { state: NonNullable<EditorState>; onClose: () => void }) {
+  const { createProfile, updateProfile, deleteProfile, isSaving } = useProfileMutations();
+  const editing = state.mode === 'edit' ? state.profile : null;
+  const [name, setName] = useState(editing?.name ?? '');
+  const [bodyWeight, setBodyWeight] = useState(String(editing?.bodyWeight ?? DEFAULT_BODY_WEIGHT));
+
+  const weight = Number(bodyWeight.replace(',', '.'));
+  const isValid = name.trim().length > 0 && Number.isFinite(weight) && weight > 0 && weight <= 400;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!isValid) return;
+    try {
+      const draft = { name: name.trim(), bodyWeight: weight };
+      if (editing) {
+        await updateProfile({ id: editing.id, updates: draft });
+        toast.success('Perfil atualizado');
+      } else {
+        await createProfile(draft);
+        toast.success(`Perfil "${draft.name}" criado`);
+      }
+      onClose();
+    } catch (error) {
+      toast.error('Não foi possível salvar o perfil', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editing) return;
+    if (!window.confirm(`Excluir "${editing.name}" e todos os seus dados? Esta ação não pode ser desfeita.`)) return;
+    try {
+      await deleteProfile(editing.id);
+      toast.success('Perfil excluído');
+      onClose();
+    } catch (error) {
+      toast.error('Não foi possível excluir o perfil', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <DialogHeader>
+        <DialogTitle>{editing ? 'Editar perfil' : 'Novo perfil'}</DialogTitle>
+        <DialogDescription>
+          Cada perfil tem medicações, doses e registros próprios. O peso corporal é usado nos cálculos de concentração enquanto não houver peso nos dados fisiológicos.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-2">
+        <Label htmlFor="profile-name">Nome</Label>
+        <Input id="profile-name" value={name} maxLength={80} onChange={(event) => setName(event.target.value)} autoFocus />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="profile-weight">Peso corporal (kg)</Label>
+        <Input
+          id="profile-weight"
+          inputMode="decimal"
+          value={bodyWeight}
+          onChange={(event) => setBodyWeight(event.target.value)}
+        />
+      </div>
+
+      <DialogFooter className="gap-2 sm:justify-between">
+        {editing && editing.id !== DEFAULT_PROFILE_ID ? (
+          <Button type="button" variant="destructive" onClick={handleDelete} disabled={isSaving}>
+            Excluir
+          </Button>
+        ) : (
+          <span />
+        )}
+        <Button type="submit" disabled={!isValid || isSaving}>
+          {editing ? 'Salvar' : 'Criar perfil'}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * Reminder Settings Dialog
+ *
+ * Turns dose and mood check-in notifications on for this device and sets the
+ * check-in times, quiet hours and snooze length (see reminders.ts). Dose times
+ * come from each medication's schedule.
+ */
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Bell, Plus, Trash } from '@phosphor-icons/react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/ui/dialog';
+import { Button } from '@/shared/ui/button';
+import { Input } from '@/shared/ui/input';
+import { Label } from '@/shared/ui/label';
+import { Switch } from '@/shared/ui/switch';
+import {
+  backgroundRemindersSupported,
+  notificationsSupported,
+  requestReminderPermission,
+  saveReminderSettings,
+  type ReminderSettings
+} from '@/core/services/reminders';
+import { useReminderSettings } from '@/hooks/use-reminders';
+
+interface ReminderSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReminderSettingsDialog({ open, onOpenChange }: ReminderSettingsDialogProps) {
+  const settings = useReminderSettings();
+  const [newCheckIn, setNewCheckIn] = useState('12:00');
+
+  const update = (changes: Partial<ReminderSettings>) => saveReminderSettings({ ...settings, ...changes });
+
+  const toggleEnabled = async (enabled: boolean) => {
+    if (enabled && !(await requestReminderPermission())) {
+      toast.error('Notificações bloqueadas', {
+        description: 'Permita notificações para este site nas configurações do navegador.'
+      });
+      return;
+    }
+    update({ enabled });
+  };
+
+  const addCheckIn = () => {
+    if (!newCheckIn || settings.moodCheckIns.includes(newCheckIn)) return;
+    update({ moodCheckIns: [...settings.moodCheckIns, newCheckIn].sort() });
+  };
+
+  const supported = notificationsSupported();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bell className="w-5 h-5 text-primary" weight="duotone" />
+            Lembretes
+          </DialogTitle>
+          <DialogDescription>
+            Notificações locais nos horários das medicações e dos registros de humor. Pela notificação é possível
+            registrar a dose ou adiar o lembrete.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!supported ? (
+          <p className="text-sm text-muted-foreground">Este navegador não oferece notificações.</p>
+        ) : (
+          <div className="space-y-5">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="reminders-enabled">Ativar lembretes neste dispositivo</Label>
+              <Switch id="reminders-enabled" checked={settings.enabled} onCheckedChange={toggleEnabled} />
+            </div>
+            {settings.enabled && !backgroundRemindersSupported() && (
+              <p className="text-xs text-muted-foreground">
+                Neste navegador os lembretes só disparam com o app aberto (mesmo em segundo plano).
+              </p>
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="reminders-doses">Doses nos horários agendados</Label>
+              <Switch
+                id="reminders-doses"
+                checked={settings.doses}
+                onCheckedChange={(doses) => update({ doses })}
+                disabled={!settings.enabled}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm">Registro de humor</Label>
+              {settings.moodCheckIns.length === 0 && (
+                <p className="text-xs text-muted-foreground">Nenhum horário</p>
+              )}
+              {settings.moodCheckIns.map((time) => (
+                <div key={time} className="flex items-center justify-between text-sm">
+                  <span>{time}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update({ moodCheckIns: settings.moodCheckIns.filter((item) => item !== time) })}
+                  >
+                    <Trash className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Input
+                  type="time"
+                  aria-label="Novo horário de registro de humor"
+                  value={newCheckIn}
+                  onChange={(e) => setNewCheckIn(e.target.value)}
+                />
+                <Button variant="outline" size="sm" onClick={addCheckIn}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Adicionar
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="reminders-quiet">Horário de silêncio</Label>
+                <Switch
+                  id="reminders-quiet"
+                  checked={settings.quietHours.enabled}
+                  onCheckedChange={(enabled) => update({ quietHours: { ...settings.quietHours, enabled } })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="quiet-start" className="text-xs">Início</Label>
+                  <Input
+                    id="quiet-start"
+                    type="time"
+                    value={settings.quietHours.start}
+                    onChange={(e) => e.target.value && update({ quietHours: { ...settings.quietHours, start: e.target.value } })}
+                    disabled={!settings.quietHours.enabled}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="quiet-end" className="text-xs">Fim</Label>
+                  <Input
+                    id="quiet-end"
+                    type="time"
+                    value={settings.quietHours.end}
+                    onChange={(e) => e.target.value && update({ quietHours: { ...settings.quietHours, end: e.target.value } })}
+                    disabled={!settings.quietHours.enabled}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Doses agendadas nesse intervalo são lembradas no fim dele; registros de humor são pulados.
+              </p>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="reminders-snooze" className="text-sm">Adiar por (minutos)</Label>
+              <Input
+                id="reminders-snooze"
+                type="number"
+                min={1}
+                max={120}
+                value={settings.snoozeMinutes}
+                onChange={(e) => {
+                  const minutes = parseInt(e.target.value, 10);
+                  if (minutes >= 1 && minutes <= 120) update({ snoozeMinutes: minutes });
+                }}
+              />
+              {!backgroundRemindersSupported() && (
+                <p className="text-xs text-muted-foreground">
+                  Adiar só funciona com o app aberto; com ele fechado, o lembrete continua na tela.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
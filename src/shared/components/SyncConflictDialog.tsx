@@ -0,0 +1,144 @@
+/**
+ * Sync Conflict Dialog
+ *
+ * Shown when the same record was edited on this device and on another one
+ * before either change reached the server. The user picks which version to keep.
+ */
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/shared/ui/dialog';
+import { Button } from '@/shared/ui/button';
+import { Badge } from '@/shared/ui/badge';
+import { useAppDataConflicts } from '@/hooks/use-app-data-store';
+import type { RecordConflict } from '@/core/services/snapshot-merge';
+import type { EntityCollection } from '@/core/services/app-data-service';
+
+const COLLECTION_LABELS: Record<EntityCollection, string> = {
+  medications: 'Medicação',
+  doses: 'Dose',
+  moodEntries: 'Registro de humor',
+  cognitiveTests: 'Teste cognitivo',
+  labLevels: 'Nível sérico',
+  physiologyRecords: 'Registro fisiológico',
+  doseSchedules: 'Esquema de titulação'
+};
+
+const IGNORED_FIELDS = new Set(['id', 'updatedAt', 'createdAt']);
+
+function describeRecord(record: Record<string, unknown> | null): string {
+  if (!record) return 'excluído';
+  if (typeof record.name === 'string') return record.name;
+  const parts: string[] = [];
+  if (typeof record.timestamp === 'number') parts.push(format(record.timestamp, 'dd/MM/yyyy HH:mm'));
+  if (typeof record.doseAmount === 'number') parts.push(`${record.doseAmount}`);
+  if (typeof record.moodScore === 'number') parts.push(`humor ${record.moodScore}/10`);
+  return parts.join(' · ') || String(record.id);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function changedFields(conflict: RecordConflict): string[] {
+  const ours = (conflict.ours ?? {}) as Record<string, unknown>;
+  const theirs = (conflict.theirs ?? {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(ours), ...Object.keys(theirs)]);
+  return Array.from(keys).filter(
+    (key) => !IGNORED_FIELDS.has(key) && JSON.stringify(ours[key]) !== JSON.stringify(theirs[key])
+  );
+}
+
+export function SyncConflictDialog() {
+  const { conflicts, resolveConflict } = useAppDataConflicts();
+  const [resolvingKey, setResolvingKey] = useState<string | null>(null);
+
+  const handleResolve = async (key: string, choice: 'ours' | 'theirs') => {
+    setResolvingKey(key);
+    try {
+      await resolveConflict(key, choice);
+    } catch (error) {
+      console.error('[SyncConflict] Falha ao resolver conflito', error);
+      toast.error('Não foi possível salvar a versão escolhida. Tente novamente.');
+    } finally {
+      setResolvingKey(null);
+    }
+  };
+
+  const conflict = conflicts[0];
+  if (!conflict) return null;
+
+  const ours = conflict.ours as Record<string, unknown> | null;
+  const theirs = conflict.theirs as Record<string, unknown> | null;
+  const fields = changedFields(conflict);
+  const isResolving = resolvingKey === conflict.key;
+
+  return (
+    <Dialog open>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto" onInteractOutside={(event) => event.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle>Conflito de sincronização</DialogTitle>
+          <DialogDescription>
+            Este registro foi alterado em outro dispositivo enquanto você o editava. Escolha qual versão manter.
+            {conflicts.length > 1 && ` (${conflicts.length} conflitos pendentes)`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{COLLECTION_LABELS[conflict.collection]}</Badge>
+            <span className="text-sm font-medium">{describeRecord(ours ?? theirs)}</span>
+          </div>
+
+          <div className="grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-1 text-sm">
+            <span />
+            <span className="font-semibold">Neste dispositivo</span>
+            <span className="font-semibold">No servidor</span>
+            {!ours || !theirs ? (
+              <>
+                <span className="text-muted-foreground">Registro</span>
+                <span>{ours ? 'alterado' : 'excluído'}</span>
+                <span>{theirs ? 'alterado' : 'excluído'}</span>
+              </>
+            ) : (
+              fields.map((field) => (
+                <div key={field} className="contents">
+                  <span className="text-muted-foreground">{field}</span>
+                  <span className="break-all">{formatValue(ours[field])}</span>
+                  <span className="break-all">{formatValue(theirs[field])}</span>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2 pt-2">
+            <Button
+              className="flex-1"
+              disabled={isResolving}
+              onClick={() => handleResolve(conflict.key, 'ours')}
+            >
+              Manter minha versão
+            </Button>
+            <Button
+              className="flex-1"
+              variant="outline"
+              disabled={isResolving}
+              onClick={() => handleResolve(conflict.key, 'theirs')}
+            >
+              Manter versão do servidor
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,6 +13,9 @@ import { Medication } from '@/shared/types';
  * - Bioavailability (F): Fraction absorbed (0-1)
  * - Absorption Rate (Ka): Rate constant for absorption (/hour)
  * - Therapeutic Range: Target plasma concentration when clinically relevant
+ * - PK Variability: Between-subject CV of each parameter, for the confidence bands
+ * - Formulation: Release profile of modified-release products (lag, zero-order, biphasic)
+ * - Elimination: Fraction excreted unchanged by the kidneys (fe) and Child-Pugh clearance multipliers
  */
 
 const MEDICATION_PRESETS: Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>[] = [
@@ -29,6 +32,8 @@ const MEDICATION_PRESETS: Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>[] =
       max: 150, // ng/mL
       unit: 'ng/mL',
     },
+    pkVariability: { halfLifeCV: 0.2, volumeOfDistributionCV: 0.2, bioavailabilityCV: 0.05, absorptionRateCV: 0.4 }, // Urinary pH shifts t½ of d-amphetamine
+    elimination: { renalFraction: 0.35 }, // d-amphetamine urinary excretion, pH dependent
     notes: 'Prodrug converted to d-amphetamine. Long-acting stimulant for ADHD. Peak effect 3-4h post-dose.',
   },
   {
@@ -44,6 +49,8 @@ const MEDICATION_PRESETS: Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>[] =
       max: 80, // ng/mL - Upper therapeutic range
       unit: 'ng/mL',
     },
+    pkVariability: { halfLifeCV: 0.35, volumeOfDistributionCV: 0.3, bioavailabilityCV: 0.1, absorptionRateCV: 0.4 }, // CYP2C19 poor metabolizers: t½ up to ~50h
+    elimination: { renalFraction: 0.08, hepaticImpairment: { A: 0.6, B: 0.5, C: 0.4 } }, // Label: 10 mg/day max in hepatic impairment
     notes: 'S-enantiomer of citalopram. Selective serotonin reuptake inhibitor. Steady state in 7-10 days.',
   },
   {
@@ -59,6 +66,8 @@ const MEDICATION_PRESETS: Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>[] =
       max: 14.0, // mcg/mL - Upper therapeutic range (up to 15-20 for epilepsy)
       unit: 'mcg/mL',
     },
+    pkVariability: { halfLifeCV: 0.3, volumeOfDistributionCV: 0.15, bioavailabilityCV: 0.05, absorptionRateCV: 0.4 },
+    elimination: { renalFraction: 0.1, hepaticImpairment: { A: 1, B: 0.75, C: 0.5 } }, // Glucuronidation; label reduces dose 25-50% in Child-Pugh B/C
     notes: 'Anticonvulsant/mood stabilizer. Half-life varies with enzyme inducers/inhibitors. Requires slow titration to avoid rash (SJS risk).',
   },
   {
@@ -74,8 +83,74 @@ const MEDICATION_PRESETS: Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>[] =
       max: 80, // ng/mL - Upper range (toxicity >100 ng/mL)
       unit: 'ng/mL',
     },
+    pkVariability: { halfLifeCV: 0.25, volumeOfDistributionCV: 0.3, bioavailabilityCV: 0.1, absorptionRateCV: 0.5 }, // t½ 20-60h reported
+    elimination: { renalFraction: 0.02 },
     notes: 'Long-acting benzodiazepine. GABA-A agonist. High potency. Risk of tolerance and dependence. Peak plasma 1-4h.',
   },
+  {
+    name: 'Venlafaxine XR',
+    brandName: 'Efexor XR',
+    category: 'SNRI',
+    halfLife: 11, // hours - O-desmethylvenlafaxine (active metabolite), 10-12h
+    volumeOfDistribution: 7.5, // L/kg - 7.5 ± 3.7 L/kg
+    bioavailability: 0.45, // 45% - Extensive first-pass to ODV
+    absorptionRate: 0.9, // /hour - Absorption of released drug
+    therapeuticRange: {
+      min: 100, // ng/mL - Venlafaxine + ODV
+      max: 400, // ng/mL
+      unit: 'ng/mL',
+    },
+    formulation: {
+      kind: 'XR',
+      lagTime: 0.5, // hours - Capsule dissolution
+      releaseDuration: 10, // hours - Spheroids release at near-constant rate; Tmax 5.5h (vs 2h IR)
+      immediateFraction: 0,
+    },
+    pkVariability: { halfLifeCV: 0.3, volumeOfDistributionCV: 0.45, bioavailabilityCV: 0.2, absorptionRateCV: 0.4 }, // CYP2D6 genotype
+    elimination: { renalFraction: 0.3, hepaticImpairment: { A: 0.6, B: 0.5, C: 0.35 } }, // Venlafaxine + ODV excreted in urine
+    notes: 'Extended-release SNRI. Once daily with food. Levels reported as venlafaxine + O-desmethylvenlafaxine. Taper slowly (discontinuation syndrome).',
+  },
+  {
+    name: 'Methylphenidate OROS',
+    brandName: 'Concerta',
+    category: 'Stimulant',
+    halfLife: 3.5, // hours - Range 3-4h
+    volumeOfDistribution: 2.65, // L/kg - 2.2-3.1 L/kg (d-threo-methylphenidate)
+    bioavailability: 0.3, // 30% - Range 22-30%, high first-pass
+    absorptionRate: 1.5, // /hour - Absorption of released drug
+    formulation: {
+      kind: 'OROS',
+      lagTime: 0,
+      releaseDuration: 7, // hours - Osmotic pump; Tmax 6-8h
+      immediateFraction: 0.22, // 22% overcoat, 78% pumped out
+    },
+    pkVariability: { halfLifeCV: 0.25, volumeOfDistributionCV: 0.3, bioavailabilityCV: 0.3, absorptionRateCV: 0.4 },
+    elimination: { renalFraction: 0.01, hepaticImpairment: { A: 1, B: 1, C: 1 } }, // De-esterified by CES1, not CYP
+    notes: 'Biphasic osmotic-release methylphenidate for ADHD. Early peak from the overcoat, ascending plateau through the day. Swallow whole.',
+  },
+  {
+    name: 'Quetiapine XR',
+    brandName: 'Seroquel XR',
+    category: 'Antipsychotic',
+    halfLife: 7, // hours - Range 6-7h
+    volumeOfDistribution: 10, // L/kg - Apparent Vd/F of 10 ± 4 L/kg from oral studies
+    bioavailability: 1.0, // Relative to the oral solution (absolute ~9%, folded into Vd/F)
+    absorptionRate: 1.0, // /hour - Absorption of released drug
+    therapeuticRange: {
+      min: 100, // ng/mL - AGNP consensus range
+      max: 500, // ng/mL
+      unit: 'ng/mL',
+    },
+    formulation: {
+      kind: 'XR',
+      lagTime: 0,
+      releaseDuration: 6, // hours - Matrix tablet; Tmax ~6h (vs 1.5h IR)
+      immediateFraction: 0,
+    },
+    pkVariability: { halfLifeCV: 0.3, volumeOfDistributionCV: 0.4, bioavailabilityCV: 0.1, absorptionRateCV: 0.4 }, // CYP3A4 interactions
+    elimination: { renalFraction: 0.01, hepaticImpairment: { A: 0.7, B: 0.6, C: 0.5 } }, // CYP3A4
+    notes: 'Extended-release atypical antipsychotic. Once daily in the evening, without a heavy meal. Used for bipolar depression and as antidepressant augmentation.',
+  },
   {
     name: 'Piracetam',
     brandName: 'Nootropil',
@@ -84,6 +159,7 @@ const MEDICATION_PRESETS: Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>[] =
     volumeOfDistribution: 0.6, // L/kg - Distributes to total body water
     bioavailability: 1.0, // ~100% - Excellent oral absorption
     absorptionRate: 2.5, // /hour - Fast absorption, Tmax 30-60 min
+    pkVariability: { halfLifeCV: 0.2, volumeOfDistributionCV: 0.15, bioavailabilityCV: 0.05, absorptionRateCV: 0.4 }, // t½ rises with reduced renal function
     notes: 'Racetam nootropic. Modulates AMPA receptors and membrane fluidity. Renally excreted unchanged. Doses typically 1.2-4.8g/day.',
   },
   {
@@ -94,6 +170,7 @@ const MEDICATION_PRESETS: Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>[] =
     volumeOfDistribution: 0.3, // L/kg - Limited distribution
     bioavailability: 0.75, // 75% - Good but competes with other LNAA
     absorptionRate: 3.0, // /hour - Fast absorption, peak 1-2h
+    pkVariability: { halfLifeCV: 0.3, volumeOfDistributionCV: 0.25, bioavailabilityCV: 0.2, absorptionRateCV: 0.5 },
     notes: 'Dopamine/norepinephrine precursor. Best taken on empty stomach. Avoid with MAOIs. Typical dose 500-2000mg.',
   },
   {
@@ -104,6 +181,7 @@ const MEDICATION_PRESETS: Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>[] =
     volumeOfDistribution: 0.5, // L/kg - Primarily muscle/brain tissue
     bioavailability: 0.95, // 95% - Excellent absorption (monohydrate)
     absorptionRate: 1.5, // /hour - Moderate absorption
+    pkVariability: { halfLifeCV: 0.4, volumeOfDistributionCV: 0.3, bioavailabilityCV: 0.05, absorptionRateCV: 0.5 }, // Depends on muscle mass
     notes: 'Phosphocreatine precursor. Saturates over 5-7 days loading or 3-4 weeks maintenance. Neuroprotective. Dose 3-5g/day.',
   },
   {
@@ -114,6 +192,7 @@ const MEDICATION_PRESETS: Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>[] =
     volumeOfDistribution: 0.2, // L/kg - Lipophilic, membrane-bound
     bioavailability: 0.70, // 70% - Better with fatty meals
     absorptionRate: 0.5, // /hour - Slow absorption (lipid digestion)
+    pkVariability: { halfLifeCV: 0.4, volumeOfDistributionCV: 0.3, bioavailabilityCV: 0.3, absorptionRateCV: 0.5 }, // Absorption depends on the meal
     notes: 'Essential fatty acids. Anti-inflammatory, membrane fluidity. Effects build over weeks. EPA for mood, DHA for cognition. Dose 1-3g/day.',
   },
   {
@@ -124,6 +203,7 @@ const MEDICATION_PRESETS: Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>[] =
     volumeOfDistribution: 0.4, // L/kg - Crosses BBB readily
     bioavailability: 0.85, // 85% - Good oral absorption
     absorptionRate: 4.0, // /hour - Very fast absorption, peak 30-60min
+    pkVariability: { halfLifeCV: 0.3, volumeOfDistributionCV: 0.25, bioavailabilityCV: 0.15, absorptionRateCV: 0.5 },
     notes: 'GABA/glutamate modulator. Promotes alpha waves. Synergistic with caffeine. Anxiolytic without sedation. Dose 100-400mg.',
   },
 ];
@@ -6,7 +6,7 @@ import { QuickDoseFAB } from '@/shared/components/QuickDoseFAB';
 import { AuthStatus } from '@/shared/components/AuthStatus';
 import { motion, AnimatePresence } from 'framer-motion';
 
-export type NavigationTab = 'dashboard' | 'medications' | 'mood' | 'cognitive';
+export type NavigationTab = 'dashboard' | 'medications' | 'mood' | 'health' | 'cognitive';
 
 interface AppLayoutProps {
   children: ReactNode;
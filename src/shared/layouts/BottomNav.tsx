@@ -1,5 +1,5 @@
 import { NavigationTab } from './AppLayout';
-import { ChartLine, Pill, Smiley, Brain, ArrowSquareOut } from '@phosphor-icons/react';
+import { ChartLine, Pill, Smiley, Brain, Heartbeat, ArrowSquareOut } from '@phosphor-icons/react';
 import { motion } from 'framer-motion';
 import { cn } from '@/shared/utils';
 
@@ -32,6 +32,11 @@ const mobileNavItems: NavItem[] = [
     label: 'Meds',
     icon: Pill,
   },
+  {
+    id: 'health',
+    label: 'Saúde',
+    icon: Heartbeat,
+  },
   {
     id: 'cognitive',
     label: 'Raven',
@@ -54,7 +59,7 @@ export function BottomNav({ activeTab, onTabChange }: BottomNavProps) {
 
         {/* Safe area padding for iOS notch */}
         <div className="relative pb-safe">
-          <div className="grid grid-cols-4 gap-0 px-1 pt-2 pb-3">
+          <div className="grid grid-cols-5 gap-0 px-1 pt-2 pb-3">
             {mobileNavItems.map((item) => {
               const Icon = item.icon;
               const isActive = activeTab === item.id;
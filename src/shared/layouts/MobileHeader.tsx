@@ -1,12 +1,19 @@
-import { List, Pill } from '@phosphor-icons/react';
+import { useState } from 'react';
+import { CloudSlash, List, Pill } from '@phosphor-icons/react';
 import { motion } from 'framer-motion';
 import { ThemeToggle } from '@/shared/components/ThemeToggle';
+import { ProfileSwitcher } from '@/shared/components/ProfileSwitcher';
+import { PendingChangesDialog } from '@/shared/components/PendingChangesDialog';
+import { usePendingChanges } from '@/hooks/use-offline-outbox';
 
 interface MobileHeaderProps {
   onMenuClick: () => void;
 }
 
 export function MobileHeader({ onMenuClick }: MobileHeaderProps) {
+  const { pendingCount, failedCount } = usePendingChanges();
+  const [pendingOpen, setPendingOpen] = useState(false);
+
   return (
     <header className="sticky top-0 z-20 bg-card/95 backdrop-blur-xl border-b border-border lg:hidden">
       <div className="flex items-center justify-between px-4 py-3">
@@ -38,9 +45,36 @@ export function MobileHeader({ onMenuClick }: MobileHeaderProps) {
           </div>
         </motion.div>
 
-        {/* Theme Toggle */}
-        <ThemeToggle />
+        <div className="flex items-center gap-2">
+          {/* Pending offline changes */}
+          {pendingCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setPendingOpen(true)}
+              className={`flex items-center gap-1 rounded-full px-2 py-1 text-xs font-semibold ${
+                failedCount > 0 ? 'bg-destructive/15 text-destructive' : 'bg-amber-500/15 text-amber-600'
+              }`}
+              title={
+                failedCount > 0
+                  ? `${failedCount} alteração(ões) recusada(s) pelo servidor`
+                  : `${pendingCount} alteração(ões) aguardando sincronização`
+              }
+              aria-label={`${pendingCount} alterações pendentes`}
+            >
+              <CloudSlash className="w-4 h-4" weight="bold" />
+              {pendingCount}
+            </button>
+          )}
+
+          {/* Active profile */}
+          <ProfileSwitcher compact />
+
+          {/* Theme Toggle */}
+          <ThemeToggle />
+        </div>
       </div>
+
+      <PendingChangesDialog open={pendingOpen} onOpenChange={setPendingOpen} />
     </header>
   );
 }
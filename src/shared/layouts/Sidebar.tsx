@@ -4,6 +4,7 @@ import {
   Pill,
   Smiley,
   Brain,
+  Heartbeat,
   CaretLeft,
   CaretRight,
   X,
@@ -12,6 +13,7 @@ import {
 import { motion } from 'framer-motion';
 import { cn } from '@/shared/utils';
 import { ThemeToggle } from '@/shared/components/ThemeToggle';
+import { ProfileSwitcher } from '@/shared/components/ProfileSwitcher';
 
 interface SidebarProps {
   activeTab: NavigationTab;
@@ -48,6 +50,12 @@ const navigationItems: NavItem[] = [
     icon: Pill,
     description: 'Manage your meds',
   },
+  {
+    id: 'health',
+    label: 'Saúde',
+    icon: Heartbeat,
+    description: 'Samsung Health import',
+  },
   {
     id: 'cognitive',
     label: 'Raven Test',
@@ -139,6 +147,11 @@ export function Sidebar({
         )}
       </div>
 
+      {/* Active profile */}
+      <div className={cn('px-4 pt-4', isCollapsed && 'flex justify-center')}>
+        <ProfileSwitcher compact={isCollapsed} />
+      </div>
+
       {/* Navigation */}
       <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
         {navigationItems.map((item) => {
@@ -28,12 +28,127 @@ export interface Medication {
   isNewlyStarted?: boolean; // True if user recently started this medication
   startDate?: number; // Timestamp when user started this medication
   scheduledTime?: string; // Default time to take medication (HH:mm format, e.g., "09:00")
-  scheduledDays?: ('mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun')[]; // Days when medication should be taken
+  scheduledDays?: Weekday[]; // Days when medication should be taken
   notes?: string;
+  pkFit?: PersonalPKFit | null; // Set while parameters fitted from lab levels are applied
+  pkVariability?: PKVariability; // Between-subject variability; falls back to the preset, then to defaults
+  formulation?: Formulation; // Release profile; immediate release when absent
+  elimination?: EliminationProfile | null; // Clearance routes; no renal/hepatic adjustment when absent
+  regimenDrafts?: RegimenDraft[]; // Saved what-if regimens
+  inventory?: MedicationInventory | null; // Supply on hand; not tracked when absent
   createdAt: number;
   updatedAt: number;
 }
 
+/**
+ * Individual PK parameters fitted from measured levels. While applied they
+ * replace `halfLife`/`volumeOfDistribution` on the medication; the population
+ * values are kept here so the change can be undone.
+ */
+export interface PersonalPKFit {
+  halfLife: number;
+  volumeOfDistribution: number;
+  populationHalfLife: number;
+  populationVolumeOfDistribution: number;
+  levelCount: number;
+  fittedAt: number;
+}
+
+export type FormulationKind = 'IR' | 'ODT' | 'DR' | 'XR' | 'OROS';
+
+/**
+ * How a dose reaches the absorption site. `immediateFraction` of the dose is
+ * available at once (after `lagTime`); the rest is released at a constant rate
+ * over `releaseDuration` hours. IR/ODT tablets have no release duration, XR
+ * beads release everything at zero order and OROS is biphasic (e.g. 22% in
+ * the overcoat, 78% pumped out over the day).
+ */
+export interface Formulation {
+  kind: FormulationKind;
+  lagTime?: number; // hours before any drug is absorbed (enteric coating, gastric emptying)
+  releaseDuration?: number; // hours of zero-order release
+  immediateFraction?: number; // 0-1; defaults to 0 with a release duration, else 1
+}
+
+/**
+ * Coefficients of variation (SD / typical value) of the PK parameters across
+ * people, used for the Monte Carlo confidence bands (see pk-variability.ts)
+ */
+export interface PKVariability {
+  halfLifeCV?: number;
+  volumeOfDistributionCV?: number;
+  bioavailabilityCV?: number;
+  absorptionRateCV?: number;
+}
+
+/**
+ * Elimination routes of a medication. Clearance for the patient is
+ * renalFraction × (CrCl / normal CrCl) + (1 − renalFraction) × the non-renal
+ * multipliers for hepatic impairment and smoking (see patient-physiology.ts).
+ */
+export interface EliminationProfile {
+  renalFraction: number; // Fraction of clearance that is renal (fe), 0-1
+  hepaticImpairment?: Partial<Record<Exclude<ChildPughClass, 'none'>, number>>; // Non-renal clearance multiplier per Child-Pugh class
+  smokingInduction?: number; // Non-renal clearance multiplier in current smokers (CYP1A2 induction)
+}
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface RegimenDose {
+  time: string; // HH:mm, local time
+  amount: number; // mg
+}
+
+/**
+ * Hypothetical regimen drafted in the what-if simulator (see
+ * regimen-simulation.ts), saved on the medication for later comparison
+ */
+export interface RegimenDraft {
+  id: string;
+  name: string;
+  doses: RegimenDose[];
+  days?: Weekday[]; // Every day when absent
+  createdAt: number;
+}
+
+/**
+ * Prescription the supply is filled from. The first fill and each renewal add
+ * `quantity` units to the stock.
+ */
+export interface Prescription {
+  id: string;
+  prescriber?: string;
+  date: string; // yyyy-MM-dd, date issued
+  quantity: number; // Units per fill
+  renewalsLeft: number;
+  notes?: string;
+}
+
+/** Units added to the stock (a pharmacy fill, a pack bought) */
+export interface InventoryRefill {
+  id: string;
+  timestamp: number;
+  units: number;
+  prescriptionId?: string;
+}
+
+/**
+ * Supply of a medication. The stock on hand is the last count plus the refills
+ * after it, minus the units of every dose logged after it (dose amount /
+ * strength per unit), so logging a dose draws it down and editing or deleting
+ * one gives the units back (see inventory.ts).
+ */
+export interface MedicationInventory {
+  unitsPerPack: number;
+  strengthPerUnit: number; // mg per tablet/capsule
+  unitLabel?: string; // e.g. "comprimido"; "unidade" when absent
+  unitsCounted: number; // Units on hand at the last (re)count
+  countedAt: number;
+  refills?: InventoryRefill[];
+  prescriptions?: Prescription[];
+  lowSupplyDays?: number; // Flag the supply below this many days left; 7 when absent
+}
+
 export interface MedicationDose {
   id: string;
   medicationId: string;
@@ -42,6 +157,7 @@ export interface MedicationDose {
   route?: string;
   notes?: string;
   createdAt: number;
+  updatedAt?: number; // Record version used for conflict detection
 }
 
 export interface MoodEntry {
@@ -55,6 +171,87 @@ export interface MoodEntry {
   attentionShift?: number;
   notes?: string;
   createdAt: number;
+  updatedAt?: number; // Record version used for conflict detection
+}
+
+export type LabLevelUnit = 'ng/mL' | 'µg/L' | 'µg/mL' | 'mg/L';
+
+/**
+ * Measured blood concentration of a medication (therapeutic drug monitoring)
+ */
+export interface LabLevel {
+  id: string;
+  medicationId: string;
+  timestamp: number; // When the blood sample was drawn
+  concentration: number;
+  unit: LabLevelUnit;
+  lab?: string;
+  notes?: string;
+  createdAt: number;
+  updatedAt?: number; // Record version used for conflict detection
+}
+
+export type BiologicalSex = 'male' | 'female';
+export type ChildPughClass = 'none' | 'A' | 'B' | 'C';
+export type SmokingStatus = 'never' | 'former' | 'current';
+
+/**
+ * Dated physiological observation of the patient. Every measurement is
+ * optional; at any time the PK model takes each one from the latest record
+ * that has it (weight is interpolated between records).
+ */
+export interface PhysiologyRecord {
+  id: string;
+  timestamp: number; // When the measurement was taken / applies from
+  weight?: number; // kg
+  height?: number; // cm
+  birthDate?: string; // yyyy-MM-dd
+  sex?: BiologicalSex;
+  serumCreatinine?: number; // mg/dL; CrCl is estimated with Cockcroft-Gault when not given
+  creatinineClearance?: number; // mL/min, measured CrCl or eGFR
+  childPugh?: ChildPughClass; // 'none' = no cirrhosis
+  smoking?: SmokingStatus;
+  notes?: string;
+  createdAt: number;
+  updatedAt?: number; // Record version used for conflict detection
+}
+
+export type DoseScheduleKind = 'titration' | 'taper';
+
+/**
+ * One step of a dose schedule: `dose` mg per day for `days` days
+ * (0 mg = stopped)
+ */
+export interface DoseScheduleStep {
+  dose: number;
+  days: number;
+}
+
+/**
+ * Planned titration or taper. Steps follow each other from `startDate`, so
+ * each step's dates and the planned end are derived from the durations.
+ */
+export interface DoseSchedule {
+  id: string;
+  medicationId: string;
+  kind: DoseScheduleKind;
+  name?: string;
+  startDate: string; // yyyy-MM-dd, local day the first step starts
+  steps: DoseScheduleStep[];
+  notes?: string;
+  createdAt: number;
+  updatedAt?: number; // Record version used for conflict detection
+}
+
+/**
+ * A person tracked by this deployment; each profile has its own data on the server
+ */
+export interface Profile {
+  id: string;
+  name: string;
+  bodyWeight: number; // kg, used by the PK model
+  createdAt: number;
+  updatedAt?: number;
 }
 
 export interface Matrix {
@@ -78,6 +275,7 @@ export interface CognitiveTest {
   averageResponseTime: number;
   accuracy: number;
   createdAt: number;
+  updatedAt?: number; // Record version used for conflict detection
 }
 
 export type MedicationCategory =